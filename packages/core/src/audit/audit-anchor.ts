@@ -0,0 +1,57 @@
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+import type {
+    SubmitMessageOptions,
+    SubmitMessageResult,
+    TopicService,
+} from "../services/topic/TopicService.js";
+import type { AuditLogger } from "./audit-log.js";
+
+/**
+ * Message published by {@link anchorAuditChain}.
+ */
+export interface AuditAnchorMessage {
+    type: "hiero-audit-anchor";
+    /** Sequence number of the anchored entry */
+    sequence: number;
+    /** Hash of the anchored entry */
+    hash: string;
+}
+
+/**
+ * Publish the audit chain's current head to a consensus topic.
+ *
+ * The topic's consensus timestamps then prove that the log held this
+ * entry at that time: pass the anchored hash to `verifyAuditChain` to
+ * detect a log rewritten afterwards. The anchoring transaction is itself
+ * audited, as the entry after the anchored one.
+ *
+ * @param logger - Audit logger whose head to anchor.
+ * @param topicService - Topic service used to submit the message.
+ * @param options - Topic and transaction options for the submission.
+ * @returns The anchored message and the submission result
+ * @throws {HieroError} `NotFound` if the log is empty
+ */
+export async function anchorAuditChain(
+    logger: AuditLogger,
+    topicService: Pick<TopicService, "submitMessage">,
+    options: Omit<SubmitMessageOptions, "message">,
+): Promise<{ anchor: AuditAnchorMessage; result: SubmitMessageResult }> {
+    const head = await logger.last();
+    if (head == null) {
+        throw new HieroError("The audit log is empty; nothing to anchor.", {
+            code: HieroErrorCodes.NotFound,
+            context: "anchorAuditChain",
+        });
+    }
+
+    const anchor: AuditAnchorMessage = {
+        type: "hiero-audit-anchor",
+        sequence: head.sequence,
+        hash: head.hash,
+    };
+    const result = await topicService.submitMessage({
+        ...options,
+        message: JSON.stringify(anchor),
+    });
+    return { anchor, result };
+}
@@ -0,0 +1,214 @@
+import { createHash } from "node:crypto";
+import { normalizeError } from "../errors/index.js";
+
+/** `previousHash` of the first entry in a chain */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * What the executor records about one signed transaction.
+ */
+export interface AuditRecord {
+    /** Transaction ID, e.g. `"0.0.2@1700000000.123456789"` */
+    transactionId: string;
+    /** Transaction type, e.g. `"CryptoTransfer"` */
+    type: string;
+    /** Service class name, e.g. `"AccountService"` */
+    serviceName: string;
+    /** Method name, e.g. `"transferHbar"` */
+    methodName: string;
+    /** Who asked for the transaction — `TransactionOptions.initiator`, or the operator account */
+    initiator: string;
+    /** Operator account the library signed for */
+    operatorAccountId: string;
+    /**
+     * Decoded transaction body as sent to the first node. 64-bit integers
+     * are decimal strings and byte fields hex strings.
+     */
+    body: Record<string, unknown>;
+    /** DER-encoded hex public keys of every signature on the transaction */
+    signerPublicKeys: string[];
+    /** `succeeded` once it reached consensus with `SUCCESS`, `failed` otherwise */
+    outcome: "succeeded" | "failed";
+    /** Network status when known, e.g. `"SUCCESS"` or `"INVALID_SIGNATURE"` */
+    status?: string;
+    /** Failure message for `failed` records */
+    error?: string;
+    /** Maximum fee the transaction allowed, in tinybars */
+    maxTransactionFee: string;
+    /** Fee actually charged, in tinybars — only with `recordChargedFees` */
+    chargedFee?: string;
+}
+
+/**
+ * One link of the audit chain. `hash` is the SHA-256 of the entry's
+ * canonical JSON without `hash`, so it covers `previousHash` and any edit,
+ * removal or reordering of earlier entries breaks the chain.
+ */
+export interface AuditEntry extends AuditRecord {
+    /** Position in the chain, starting at 1 */
+    sequence: number;
+    /** ISO time the entry was written */
+    recordedAt: string;
+    /** `hash` of the previous entry, or {@link AUDIT_GENESIS_HASH} */
+    previousHash: string;
+    /** Hex SHA-256 of this entry */
+    hash: string;
+}
+
+/**
+ * Storage for audit entries, e.g. a file, a database table or a log
+ * shipper. Implementations must make `append` durable before resolving.
+ */
+export interface AuditSink {
+    /** Store the entry after the current last one */
+    append(entry: AuditEntry): Promise<void>;
+    /** Return the last stored entry, from which the chain continues */
+    last(): Promise<AuditEntry | undefined>;
+}
+
+/**
+ * Options for {@link AuditLogger}.
+ */
+export interface AuditLoggerOptions {
+    /**
+     * Look up the fee charged for each successful transaction with a
+     * record query. Record queries are paid, so this is off by default.
+     */
+    recordChargedFees?: boolean;
+}
+
+/**
+ * Tamper-evident log of every transaction the library signs. Set it as
+ * `HieroConfig.auditLogger` and the executor records each submitted
+ * transaction — who initiated it, its decoded body, every signer's public
+ * key, the outcome and the fee — once its outcome is known.
+ *
+ * Entries are hash-chained: each carries the hash of the one before, so
+ * {@link verifyAuditChain} detects edited, removed or reordered entries.
+ * Anchor the head on a topic with {@link anchorAuditChain} so that even a
+ * rewrite of the whole log can be detected.
+ */
+export class AuditLogger {
+    /** Serializes appends so the chain follows `record` order */
+    private writes: Promise<unknown> = Promise.resolve();
+    private head?: AuditEntry;
+    private loaded?: Promise<void>;
+
+    constructor(
+        private readonly sink: AuditSink,
+        private readonly options: AuditLoggerOptions = {},
+    ) {}
+
+    /** Whether to look up the charged fee of each transaction */
+    get recordChargedFees(): boolean {
+        return this.options.recordChargedFees ?? false;
+    }
+
+    /**
+     * Append a record to the chain.
+     *
+     * @returns The stored entry, with its sequence number and hash
+     */
+    record(record: AuditRecord): Promise<AuditEntry> {
+        const next = this.writes.then(() => this.append(record));
+        // Keep the chain alive after a failed write
+        this.writes = next.catch(() => undefined);
+        return next.catch((error: unknown) => {
+            throw normalizeError(error, "AuditLogger.record");
+        });
+    }
+
+    /**
+     * Return the last entry of the chain, waiting for pending records.
+     */
+    async last(): Promise<AuditEntry | undefined> {
+        await this.writes;
+        await this.load();
+        return this.head ? { ...this.head } : undefined;
+    }
+
+    /** Continue from the sink's last entry, read once */
+    private load(): Promise<void> {
+        this.loaded ??= this.sink.last().then(
+            (entry) => {
+                this.head = entry;
+            },
+            (error: unknown) => {
+                this.loaded = undefined;
+                throw error;
+            },
+        );
+        return this.loaded;
+    }
+
+    private async append(record: AuditRecord): Promise<AuditEntry> {
+        await this.load();
+        const unhashed: Omit<AuditEntry, "hash"> = {
+            ...record,
+            sequence: (this.head?.sequence ?? 0) + 1,
+            recordedAt: new Date().toISOString(),
+            previousHash: this.head?.hash ?? AUDIT_GENESIS_HASH,
+        };
+        const entry: AuditEntry = {
+            ...unhashed,
+            hash: hashAuditEntry(unhashed),
+        };
+        await this.sink.append(entry);
+        this.head = entry;
+        return { ...entry };
+    }
+}
+
+/**
+ * Audit sink that keeps entries in memory — for tests, or to forward them
+ * elsewhere in batches.
+ */
+export class InMemoryAuditSink implements AuditSink {
+    private readonly entries: AuditEntry[] = [];
+
+    append(entry: AuditEntry): Promise<void> {
+        this.entries.push({ ...entry });
+        return Promise.resolve();
+    }
+
+    last(): Promise<AuditEntry | undefined> {
+        const entry = this.entries.at(-1);
+        return Promise.resolve(entry ? { ...entry } : undefined);
+    }
+
+    /** Return every entry in chain order */
+    readAll(): Promise<AuditEntry[]> {
+        return Promise.resolve(this.entries.map((entry) => ({ ...entry })));
+    }
+}
+
+/**
+ * Hex SHA-256 of an entry's canonical JSON, excluding its own `hash`.
+ */
+export function hashAuditEntry(
+    entry: Omit<AuditEntry, "hash"> | AuditEntry,
+): string {
+    const { hash: _hash, ...unhashed } = entry as AuditEntry;
+    return createHash("sha256").update(canonicalJson(unhashed)).digest("hex");
+}
+
+/**
+ * JSON with object keys sorted at every level, so that equal entries
+ * always hash the same regardless of how they were built or parsed.
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value !== null && typeof value === "object") {
+        const fields = Object.entries(value)
+            .filter(([, field]) => field !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(
+                ([key, field]) =>
+                    `${JSON.stringify(key)}:${canonicalJson(field)}`,
+            );
+        return `{${fields.join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,74 @@
+import { stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import { normalizeError } from "../errors/index.js";
+import { verifyAuditLogFile } from "./audit-verifier.js";
+
+const USAGE =
+    "Usage: hiero-verify-audit-log <audit-log.jsonl> [--anchor <hash>]";
+
+/**
+ * Where {@link runAuditVerifierCli} writes its report (default: stdout
+ * and stderr).
+ */
+export interface AuditVerifierCliOutput {
+    out(line: string): void;
+    err(line: string): void;
+}
+
+const processOutput: AuditVerifierCliOutput = {
+    out: (line) => process.stdout.write(`${line}\n`),
+    err: (line) => process.stderr.write(`${line}\n`),
+};
+
+/**
+ * The `hiero-verify-audit-log` command: verify a {@link FileAuditSink}
+ * file and report the result.
+ *
+ * @param args - Command-line arguments after the program name.
+ * @returns The exit code: `0` for an intact log, `1` for a broken chain,
+ *   `2` for bad arguments or a log that cannot be read.
+ */
+export async function runAuditVerifierCli(
+    args: readonly string[],
+    output: AuditVerifierCliOutput = processOutput,
+): Promise<number> {
+    let path: string | undefined;
+    let anchor: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args.at(i)!;
+        if (arg === "--anchor" && i + 1 < args.length) {
+            anchor = args.at(++i);
+        } else if (arg === "--help" || arg === "-h") {
+            output.out(USAGE);
+            return 0;
+        } else if (!arg.startsWith("-") && path == null) {
+            path = resolve(arg);
+        } else {
+            output.err(USAGE);
+            return 2;
+        }
+    }
+    if (path == null) {
+        output.err(USAGE);
+        return 2;
+    }
+
+    try {
+        // A missing file would otherwise verify as an empty log
+        await stat(path);
+        const result = await verifyAuditLogFile(path, anchor);
+        if (!result.valid) {
+            output.err(
+                `Audit log is broken at entry ${result.failure!.position} of ${result.entries}: ${result.failure!.reason}`,
+            );
+            return 1;
+        }
+        output.out(
+            `Audit log is intact: ${result.entries} entries, head ${result.headHash ?? "(empty)"}`,
+        );
+        return 0;
+    } catch (error) {
+        output.err(`Cannot verify ${path}: ${normalizeError(error).message}`);
+        return 2;
+    }
+}
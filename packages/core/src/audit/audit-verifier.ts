@@ -0,0 +1,91 @@
+import { AUDIT_GENESIS_HASH, hashAuditEntry } from "./audit-log.js";
+import type { AuditEntry } from "./audit-log.js";
+import { FileAuditSink } from "./file-audit-sink.js";
+
+/**
+ * Outcome of {@link verifyAuditChain}.
+ */
+export interface AuditVerificationResult {
+    /** Whether every entry is intact and linked to the one before */
+    valid: boolean;
+    /** Number of entries checked */
+    entries: number;
+    /** Hash of the last entry, to anchor or compare with an anchor */
+    headHash?: string;
+    /** The first broken link, when `valid` is `false` */
+    failure?: {
+        /** Position in the log, starting at 1 */
+        position: number;
+        reason: string;
+    };
+}
+
+/**
+ * Check that audit entries form an unbroken chain: sequence numbers count
+ * up from 1, each entry's hash matches its contents, and each links to the
+ * hash of the entry before.
+ *
+ * @param entries - Entries in log order.
+ * @param anchoredHash - A head hash anchored earlier, e.g. on a topic with
+ *   {@link anchorAuditChain}, that must still be in the log; detects a
+ *   log rewritten from scratch or truncated before it.
+ */
+export function verifyAuditChain(
+    entries: readonly AuditEntry[],
+    anchoredHash?: string,
+): AuditVerificationResult {
+    let previousHash = AUDIT_GENESIS_HASH;
+
+    for (const [index, entry] of entries.entries()) {
+        const position = index + 1;
+        const fail = (reason: string): AuditVerificationResult => ({
+            valid: false,
+            entries: entries.length,
+            failure: { position, reason },
+        });
+
+        if (entry.sequence !== position) {
+            return fail(
+                `expected sequence ${position}, found ${entry.sequence}`,
+            );
+        }
+        if (entry.previousHash !== previousHash) {
+            return fail("previousHash does not match the preceding entry");
+        }
+        if (hashAuditEntry(entry) !== entry.hash) {
+            return fail("hash does not match the entry's contents");
+        }
+        previousHash = entry.hash;
+    }
+
+    const headHash = entries.at(-1)?.hash;
+    if (anchoredHash != null && !entries.some((e) => e.hash === anchoredHash)) {
+        return {
+            valid: false,
+            entries: entries.length,
+            headHash,
+            failure: {
+                position: entries.length,
+                reason: "the anchored hash is not in the log",
+            },
+        };
+    }
+    return { valid: true, entries: entries.length, headHash };
+}
+
+/**
+ * Read a {@link FileAuditSink} file and verify its chain.
+ *
+ * @param path - Path of the JSON-lines audit log.
+ * @param anchoredHash - See {@link verifyAuditChain}.
+ * @throws {HieroError} `CodecError` if a line is not valid JSON
+ */
+export async function verifyAuditLogFile(
+    path: string,
+    anchoredHash?: string,
+): Promise<AuditVerificationResult> {
+    return verifyAuditChain(
+        await new FileAuditSink(path).readAll(),
+        anchoredHash,
+    );
+}
@@ -0,0 +1,99 @@
+import { open, readFile, truncate } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../errors/index.js";
+import type { AuditEntry, AuditSink } from "./audit-log.js";
+
+/**
+ * Audit sink that appends one JSON line per entry to a file, syncing each
+ * line to disk before `append` resolves.
+ *
+ * A crash mid-write can leave a partial last line. It was never
+ * acknowledged, so `readAll` skips it and it is cut off before the next
+ * append.
+ * Intended for a single writing process.
+ */
+export class FileAuditSink implements AuditSink {
+    private tail?: Promise<AuditEntry | undefined>;
+    private readonly path: string;
+
+    /** @param path - The log file; a relative path is resolved now. */
+    constructor(path: string) {
+        this.path = resolve(path);
+    }
+
+    async append(entry: AuditEntry): Promise<void> {
+        await this.last();
+        try {
+            const file = await open(this.path, "a");
+            try {
+                await file.appendFile(`${JSON.stringify(entry)}\n`, "utf8");
+                await file.datasync();
+            } finally {
+                await file.close();
+            }
+        } catch (error) {
+            throw normalizeError(error, "FileAuditSink.append");
+        }
+        this.tail = Promise.resolve({ ...entry });
+    }
+
+    last(): Promise<AuditEntry | undefined> {
+        this.tail ??= this.read(true).then(
+            (entries) => entries.at(-1),
+            (error: unknown) => {
+                this.tail = undefined;
+                throw error;
+            },
+        );
+        return this.tail.then((entry) => (entry ? { ...entry } : undefined));
+    }
+
+    /**
+     * Read every entry in file order.
+     *
+     * @throws {HieroError} `CodecError` if a complete line is not valid JSON
+     */
+    readAll(): Promise<AuditEntry[]> {
+        return this.read(false);
+    }
+
+    private async read(repair: boolean): Promise<AuditEntry[]> {
+        let text: string;
+        try {
+            text = await readFile(this.path, "utf8");
+        } catch (error) {
+            if ((error as { code?: string }).code === "ENOENT") {
+                return [];
+            }
+            throw normalizeError(error, "FileAuditSink.readAll");
+        }
+
+        const end = text.lastIndexOf("\n") + 1;
+        if (repair && end < text.length) {
+            await truncate(this.path, Buffer.byteLength(text.slice(0, end)));
+        }
+
+        return text
+            .slice(0, end)
+            .split("\n")
+            .filter((line) => line.trim())
+            .map((line, index) => {
+                try {
+                    return JSON.parse(line) as AuditEntry;
+                } catch (cause) {
+                    throw new HieroError(
+                        `Audit log line ${index + 1} is not valid JSON.`,
+                        {
+                            code: HieroErrorCodes.CodecError,
+                            context: "FileAuditSink.readAll",
+                            cause: cause instanceof Error ? cause : undefined,
+                        },
+                    );
+                }
+            });
+    }
+}
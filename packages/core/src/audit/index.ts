@@ -0,0 +1,21 @@
+export {
+    AuditLogger,
+    InMemoryAuditSink,
+    hashAuditEntry,
+    AUDIT_GENESIS_HASH,
+    type AuditEntry,
+    type AuditLoggerOptions,
+    type AuditRecord,
+    type AuditSink,
+} from "./audit-log.js";
+export { FileAuditSink } from "./file-audit-sink.js";
+export {
+    verifyAuditChain,
+    verifyAuditLogFile,
+    type AuditVerificationResult,
+} from "./audit-verifier.js";
+export {
+    runAuditVerifierCli,
+    type AuditVerifierCliOutput,
+} from "./audit-verifier-cli.js";
+export { anchorAuditChain, type AuditAnchorMessage } from "./audit-anchor.js";
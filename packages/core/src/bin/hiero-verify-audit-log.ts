@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runAuditVerifierCli } from "../audit/audit-verifier-cli.js";
+
+void runAuditVerifierCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+});
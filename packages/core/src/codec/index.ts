@@ -0,0 +1,11 @@
+export {
+    textCodec,
+    jsonCodec,
+    binaryCodec,
+    encodeTopicPayload,
+    decodeTopicPayload,
+    type TopicCodec,
+    type TopicPayload,
+    type DecodedMessage,
+    type BinarySchema,
+} from "./topic-codec.js";
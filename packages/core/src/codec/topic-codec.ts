@@ -0,0 +1,130 @@
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+
+/**
+ * Converts between a typed topic message payload and the raw bytes stored
+ * on the Hiero Consensus Service.
+ *
+ * `encode` and `decode` may throw; the library turns a failure into a
+ * `CODEC_ERROR` — thrown when submitting, reported on the message when
+ * reading.
+ */
+export interface TopicCodec<T> {
+    /** Short name used in error messages (e.g. `"json"`) */
+    readonly name: string;
+    encode(value: T): Uint8Array;
+    decode(bytes: Uint8Array): T;
+}
+
+/**
+ * Outcome of decoding one topic message. A payload that fails to decode
+ * does not end a subscription or iteration; it is delivered with
+ * `ok: false` so the consumer can log or dead-letter it.
+ */
+export type TopicPayload<T> =
+    { ok: true; value: T } | { ok: false; error: HieroError };
+
+/**
+ * A topic message of type `M` with its decoded payload attached.
+ */
+export type DecodedMessage<M, T> = M & { payload: TopicPayload<T> };
+
+/**
+ * A user-supplied binary schema. Generated protobuf.js message classes fit
+ * as is: their `encode` returns a writer whose `finish()` yields the bytes.
+ */
+export interface BinarySchema<T> {
+    encode(value: T): Uint8Array | { finish(): Uint8Array };
+    decode(bytes: Uint8Array): T;
+}
+
+/**
+ * UTF-8 text. Decoding rejects malformed UTF-8 instead of substituting
+ * replacement characters.
+ */
+export function textCodec(): TopicCodec<string> {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder("utf-8", { fatal: true });
+    return {
+        name: "text",
+        encode: (value) => encoder.encode(value),
+        decode: (bytes) => decoder.decode(bytes),
+    };
+}
+
+/**
+ * UTF-8 JSON. Pass `parse` to validate or narrow the parsed value — a
+ * schema library's parse function or a hand-written guard that throws.
+ */
+export function jsonCodec<T = unknown>(options?: {
+    parse?: (value: unknown) => T;
+}): TopicCodec<T> {
+    const text = textCodec();
+    const parse = options?.parse ?? ((value: unknown) => value as T);
+    return {
+        name: "json",
+        encode: (value) => text.encode(JSON.stringify(value)),
+        decode: (bytes) => parse(JSON.parse(text.decode(bytes))),
+    };
+}
+
+/**
+ * Binary payloads described by a user-supplied schema, e.g. a protobuf.js
+ * message type.
+ */
+export function binaryCodec<T>(
+    schema: BinarySchema<T>,
+    name = "binary",
+): TopicCodec<T> {
+    return {
+        name,
+        encode: (value) => {
+            const encoded = schema.encode(value);
+            return encoded instanceof Uint8Array ? encoded : encoded.finish();
+        },
+        decode: (bytes) => schema.decode(bytes),
+    };
+}
+
+/**
+ * Encode a payload for submission.
+ *
+ * @throws {HieroError} `CODEC_ERROR` if the codec rejects the value
+ */
+export function encodeTopicPayload<T>(
+    codec: TopicCodec<T>,
+    value: T,
+    context: string,
+): Uint8Array {
+    try {
+        return codec.encode(value);
+    } catch (err) {
+        throw new HieroError(`Failed to encode ${codec.name} payload`, {
+            code: HieroErrorCodes.CodecError,
+            context,
+            cause: err instanceof Error ? err : undefined,
+        });
+    }
+}
+
+/**
+ * Decode a received payload. Never throws — a failure is returned as
+ * `{ ok: false }` with a `CODEC_ERROR`.
+ */
+export function decodeTopicPayload<T>(
+    codec: TopicCodec<T>,
+    bytes: Uint8Array,
+    context: string,
+): TopicPayload<T> {
+    try {
+        return { ok: true, value: codec.decode(bytes) };
+    } catch (err) {
+        return {
+            ok: false,
+            error: new HieroError(`Failed to decode ${codec.name} payload`, {
+                code: HieroErrorCodes.CodecError,
+                context,
+                cause: err instanceof Error ? err : undefined,
+            }),
+        };
+    }
+}
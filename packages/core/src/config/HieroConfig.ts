@@ -1,4 +1,26 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
 import { HieroError, HieroErrorCodes } from "../errors/index.js";
+import { OperatorKeyType } from "../types/index.js";
+import type { MirrorCacheOptions } from "../mirror/mirror-node-cache.js";
+import type { MirrorCircuitBreakerOptions } from "../mirror/mirror-node-endpoints.js";
+import type {
+    MirrorHeaderProvider,
+    MirrorTransport,
+} from "../mirror/mirror-node-transport.js";
+import type { TransactionJournal } from "../journal/transaction-journal.js";
+import type { RetryPolicy } from "../services/transaction/RetryPolicy.js";
+import type { ExternalSigner } from "../services/transaction/TransactionOptions.js";
+import type { TransactionEvent } from "../listeners/transaction-listener.js";
+import type { SpendingPolicy } from "../policy/spending-policy.js";
+import type { HieroTelemetryOptions } from "../telemetry/hiero-telemetry.js";
+import type { AuditLogger } from "../audit/audit-log.js";
+import type { SecretProvider } from "../secrets/secret-provider.js";
+import {
+    keyFileSecretProvider,
+    pemSecretProvider,
+} from "../secrets/secret-provider.js";
+import { keystoreSecretProvider } from "../secrets/keystore.js";
 
 /**
  * Configuration for connecting to a Hiero network.
@@ -8,12 +30,35 @@ export interface HieroConfig {
     readonly network: string;
     /** Operator account ID (e.g., "0.0.12345") */
     readonly operatorId: string;
-    /** Operator private key */
-    readonly operatorKey: string;
+    /**
+     * Operator private key in plaintext — required unless
+     * `operatorKeyProvider` or `operatorSigner` is set. It is not kept on
+     * `HieroContext.config`.
+     */
+    readonly operatorKey?: string;
     /** Type of the operator private key — required to correctly parse the key material */
-    readonly operatorKeyType: string;
-    /** Mirror node base URL (auto-resolved if not provided) */
-    readonly mirrorNodeUrl?: string;
+    readonly operatorKeyType?: string;
+    /**
+     * Loads the operator key when the operator first signs, from an
+     * encrypted keystore, a key file or a vault, in place of `operatorKey`.
+     */
+    readonly operatorKeyProvider?: SecretProvider;
+    /**
+     * The operator's public key, for an `operatorKeyProvider` whose source
+     * does not store it in the clear. Checked against the loaded key.
+     */
+    readonly operatorPublicKey?: string;
+    /**
+     * Signs for the operator in place of `operatorKey`, for operator keys
+     * held in an HSM, a KMS or a wallet that never expose the private key.
+     */
+    readonly operatorSigner?: ExternalSigner;
+    /**
+     * Mirror node base URL (auto-resolved if not provided). An ordered list
+     * enables failover: the first URL is preferred and the others take over
+     * while it is unhealthy.
+     */
+    readonly mirrorNodeUrl?: string | readonly string[];
     /**
      * Consensus node addresses for custom networks.
      * Map of "host:port" → "accountId" (e.g., { "127.0.0.1:50211": "0.0.3" }).
@@ -34,6 +79,57 @@ export interface HieroConfig {
     readonly mirrorNodeTimeoutMs?: number;
     /** Mirror node request max retries (default: 3) */
     readonly mirrorNodeMaxRetries?: number;
+    /** Mirror node response cache; caching is disabled when omitted */
+    readonly mirrorNodeCache?: MirrorCacheOptions;
+    /** Circuit breaker tuning used when several mirror node URLs are configured */
+    readonly mirrorNodeCircuitBreaker?: MirrorCircuitBreakerOptions;
+    /** API key for commercial mirror node providers, sent as `x-api-key` */
+    readonly mirrorNodeApiKey?: string;
+    /**
+     * Extra mirror node request headers — a fixed set, or a (possibly async)
+     * function called before each request attempt
+     */
+    readonly mirrorNodeHeaders?: MirrorHeaderProvider;
+    /**
+     * HTTP transport for mirror node requests (default: the global `fetch`).
+     * Use it to route through a proxy or to replay recorded responses in tests.
+     */
+    readonly mirrorNodeTransport?: MirrorTransport;
+    /**
+     * Journal that records every transaction before submission and its
+     * outcome after. Required for `idempotencyKey`; disabled when omitted.
+     */
+    readonly transactionJournal?: TransactionJournal;
+    /**
+     * Retry policy for transactions that fail with a transient status;
+     * `TransactionOptions.retryPolicy` overrides it per call. Failed
+     * transactions are not retried when omitted.
+     */
+    readonly retryPolicy?: RetryPolicy;
+    /**
+     * Called when a transaction listener throws. Listener failures never
+     * break the transaction; by default they are emitted as process warnings.
+     */
+    readonly onListenerError?: (
+        error: HieroError,
+        event: TransactionEvent,
+    ) => void;
+    /**
+     * Spending policy checked before every transfer, airdrop, allowance
+     * approval and payable contract call; no limits apply when omitted.
+     */
+    readonly spendingPolicy?: SpendingPolicy;
+    /**
+     * OpenTelemetry spans and metrics for transactions, queries and mirror
+     * node requests. `true` uses the globally registered providers;
+     * disabled when omitted.
+     */
+    readonly telemetry?: boolean | HieroTelemetryOptions;
+    /**
+     * Tamper-evident log of every transaction the library signs and
+     * submits; disabled when omitted.
+     */
+    readonly auditLogger?: AuditLogger;
 }
 
 /**
@@ -72,35 +168,68 @@ export function resolveMirrorNodeUrl(
     return url;
 }
 
+/**
+ * Resolve the ordered list of mirror node URLs for a given network.
+ *
+ * @param network - Network name or custom URL
+ * @param explicitUrl - Explicitly provided mirror node URL(s) (take priority)
+ * @returns The mirror node base URLs, preferred first
+ */
+export function resolveMirrorNodeUrls(
+    network: string,
+    explicitUrl?: string | readonly string[],
+): string[] {
+    if (typeof explicitUrl === "string") {
+        return [resolveMirrorNodeUrl(network, explicitUrl)];
+    }
+    if (explicitUrl && explicitUrl.length > 0) {
+        return [...explicitUrl];
+    }
+    return [resolveMirrorNodeUrl(network)];
+}
+
 /**
  * Resolve a HieroConfig from environment variables.
  *
  * Reads from:
  *   HIERO_NETWORK
  *   HIERO_OPERATOR_ID
- *   HIERO_OPERATOR_KEY
- *   HIERO_MIRROR_NODE_URL
+ *   HIERO_OPERATOR_KEY, or one of:
+ *     HIERO_OPERATOR_KEY_FILE (a file holding the key)
+ *     HIERO_OPERATOR_KEYSTORE and HIERO_OPERATOR_KEYSTORE_PASSPHRASE
+ *     HIERO_OPERATOR_KEY_PEM and HIERO_OPERATOR_KEY_PEM_PASSPHRASE
+ *   HIERO_OPERATOR_KEY_TYPE (for HIERO_OPERATOR_KEY and HIERO_OPERATOR_KEY_FILE)
+ *   HIERO_OPERATOR_PUBLIC_KEY (for HIERO_OPERATOR_KEY_FILE and HIERO_OPERATOR_KEY_PEM)
+ *   HIERO_MIRROR_NODE_URL (comma-separated for failover)
+ *   HIERO_MIRROR_NODE_API_KEY
+ *
+ * Passphrases and the other settings may instead be read from the file
+ * named by the same variable with a `_FILE` suffix, as Docker and
+ * Kubernetes mount secrets. Operator keys from key files, keystores and
+ * PEM files, and their passphrases, are loaded when the operator first
+ * signs.
  *
  * @returns A HieroConfig or null if required env vars are missing
+ * @throws {HieroError} `ConfigInvalid` if a variable is set both directly
+ *   and with `_FILE`, or a keystore cannot be read
  */
 export function resolveConfigFromEnv(): HieroConfig | null {
-    const network = process.env["HIERO_NETWORK"];
-    const operatorId = process.env["HIERO_OPERATOR_ID"];
-    const operatorKey = process.env["HIERO_OPERATOR_KEY"];
-    const operatorKeyTypeRaw =
-        process.env["HIERO_OPERATOR_KEY_TYPE"]?.toLowerCase();
-    const operatorKeyType =
-        operatorKeyTypeRaw === "ed25519" ||
-        operatorKeyTypeRaw === "ecdsa" ||
-        operatorKeyTypeRaw === "der"
-            ? operatorKeyTypeRaw
-            : undefined;
-    const mirrorNodeUrl = process.env["HIERO_MIRROR_NODE_URL"];
-    const networkNodesRaw = process.env["HIERO_NETWORK_NODES"];
-
-    if (!network || !operatorId || !operatorKey || !operatorKeyType) {
+    if (missingEnvVars().length > 0) {
         return null;
     }
+    const network = envValue("HIERO_NETWORK")!;
+    const operatorId = envValue("HIERO_OPERATOR_ID")!;
+    const operatorKeyType = envKeyType();
+    const operatorPublicKey = envValue("HIERO_OPERATOR_PUBLIC_KEY");
+    const mirrorNodeUrlRaw = envValue("HIERO_MIRROR_NODE_URL");
+    const mirrorNodeUrl = mirrorNodeUrlRaw?.includes(",")
+        ? mirrorNodeUrlRaw
+              .split(",")
+              .map((url) => url.trim())
+              .filter(Boolean)
+        : mirrorNodeUrlRaw;
+    const mirrorNodeApiKey = envValue("HIERO_MIRROR_NODE_API_KEY");
+    const networkNodesRaw = envValue("HIERO_NETWORK_NODES");
 
     // Parse HIERO_NETWORK_NODES: "host:port=accountId,host:port=accountId"
     let networkNodes: Record<string, string> | undefined;
@@ -117,9 +246,11 @@ export function resolveConfigFromEnv(): HieroConfig | null {
     return {
         network,
         operatorId,
-        operatorKey,
+        ...envOperatorKey(operatorKeyType),
         operatorKeyType,
+        operatorPublicKey,
         mirrorNodeUrl,
+        mirrorNodeApiKey,
         networkNodes,
     };
 }
@@ -128,28 +259,149 @@ export function resolveConfigFromEnv(): HieroConfig | null {
  * Validates the environment and throws a HieroError explaining exactly what is missing.
  */
 export function assertEnvConfigValid(): void {
-    const network = process.env["HIERO_NETWORK"];
-    const operatorId = process.env["HIERO_OPERATOR_ID"];
-    const operatorKey = process.env["HIERO_OPERATOR_KEY"];
-    const operatorKeyType = process.env["HIERO_OPERATOR_KEY_TYPE"];
+    const missing = missingEnvVars();
+    if (missing.length > 0) {
+        throw new HieroError(
+            `Missing required Hiero environment variables:\n  - ${missing.join("\n  - ")}\n\n` +
+                `Set them in your process environment before application startup.`,
+            { code: HieroErrorCodes.ConfigInvalid },
+        );
+    }
+}
+
+/** The ways of supplying the operator key, in `resolveConfigFromEnv` */
+const OPERATOR_KEY_SOURCES = [
+    "HIERO_OPERATOR_KEY",
+    "HIERO_OPERATOR_KEY_FILE",
+    "HIERO_OPERATOR_KEYSTORE",
+    "HIERO_OPERATOR_KEY_PEM",
+] as const;
 
+function missingEnvVars(): string[] {
+    const keySource = envKeySource();
     const missing = [];
-    if (!network)
+    if (!envValue("HIERO_NETWORK"))
         missing.push(
             "HIERO_NETWORK (e.g., 'testnet', 'mainnet', 'previewnet')",
         );
-    if (!operatorId) missing.push("HIERO_OPERATOR_ID (e.g., '0.0.12345')");
-    if (!operatorKey) missing.push("HIERO_OPERATOR_KEY (your private key)");
-    if (!operatorKeyType)
+    if (!envValue("HIERO_OPERATOR_ID"))
+        missing.push("HIERO_OPERATOR_ID (e.g., '0.0.12345')");
+    if (!keySource)
+        missing.push(
+            "HIERO_OPERATOR_KEY (your private key), or HIERO_OPERATOR_KEY_FILE, HIERO_OPERATOR_KEYSTORE or HIERO_OPERATOR_KEY_PEM",
+        );
+    if (
+        (!keySource ||
+            keySource === "HIERO_OPERATOR_KEY" ||
+            keySource === "HIERO_OPERATOR_KEY_FILE") &&
+        !envKeyType()
+    )
         missing.push(
             "HIERO_OPERATOR_KEY_TYPE (one of: 'ed25519', 'ecdsa', 'der')",
         );
+    if (
+        keySource === "HIERO_OPERATOR_KEYSTORE" &&
+        !hasEnv("HIERO_OPERATOR_KEYSTORE_PASSPHRASE")
+    )
+        missing.push("HIERO_OPERATOR_KEYSTORE_PASSPHRASE");
+    if (
+        (keySource === "HIERO_OPERATOR_KEY_FILE" ||
+            keySource === "HIERO_OPERATOR_KEY_PEM") &&
+        !envValue("HIERO_OPERATOR_PUBLIC_KEY")
+    )
+        missing.push(
+            `HIERO_OPERATOR_PUBLIC_KEY (the public key of ${keySource})`,
+        );
+    return missing;
+}
 
-    if (missing.length > 0) {
+/**
+ * The variable supplying the operator key, if any.
+ *
+ * @throws {HieroError} `ConfigInvalid` if more than one is set
+ */
+function envKeySource(): (typeof OPERATOR_KEY_SOURCES)[number] | undefined {
+    const set = OPERATOR_KEY_SOURCES.filter((name) => process.env[name]);
+    if (set.length > 1) {
+        throw new HieroError(`Set only one of ${set.join(", ")}.`, {
+            code: HieroErrorCodes.ConfigInvalid,
+        });
+    }
+    return set[0];
+}
+
+function envKeyType(): OperatorKeyType | undefined {
+    const keyType = envValue("HIERO_OPERATOR_KEY_TYPE")?.toLowerCase();
+    return keyType === OperatorKeyType.ED25519 ||
+        keyType === OperatorKeyType.ECDSA ||
+        keyType === OperatorKeyType.DER
+        ? keyType
+        : undefined;
+}
+
+function envOperatorKey(
+    keyType: OperatorKeyType | undefined,
+): Pick<HieroConfig, "operatorKey" | "operatorKeyProvider"> {
+    const source = envKeySource();
+    const path = source == null ? undefined : process.env[source];
+    switch (source) {
+        case "HIERO_OPERATOR_KEYSTORE":
+            return {
+                operatorKeyProvider: keystoreSecretProvider(
+                    path!,
+                    () => envValue("HIERO_OPERATOR_KEYSTORE_PASSPHRASE") ?? "",
+                ),
+            };
+        case "HIERO_OPERATOR_KEY_PEM":
+            return {
+                operatorKeyProvider: pemSecretProvider(
+                    path!,
+                    hasEnv("HIERO_OPERATOR_KEY_PEM_PASSPHRASE")
+                        ? () =>
+                              envValue("HIERO_OPERATOR_KEY_PEM_PASSPHRASE") ??
+                              ""
+                        : undefined,
+                ),
+            };
+        case "HIERO_OPERATOR_KEY_FILE":
+            return {
+                operatorKeyProvider: keyFileSecretProvider(path!, keyType!),
+            };
+        default:
+            return { operatorKey: path };
+    }
+}
+
+function hasEnv(name: string): boolean {
+    return Boolean(process.env[name] || process.env[`${name}_FILE`]);
+}
+
+/**
+ * The value of an environment variable, or the trimmed contents of the
+ * file named by `<name>_FILE`.
+ *
+ * @throws {HieroError} `ConfigInvalid` if both are set, or the file
+ *   cannot be read
+ */
+function envValue(name: string): string | undefined {
+    const file = process.env[`${name}_FILE`];
+    if (!file) {
+        return process.env[name];
+    }
+    if (process.env[name]) {
+        throw new HieroError(`Set either ${name} or ${name}_FILE, not both.`, {
+            code: HieroErrorCodes.ConfigInvalid,
+        });
+    }
+    try {
+        return readFileSync(resolve(file), "utf8").trim();
+    } catch (cause) {
         throw new HieroError(
-            `Missing required Hiero environment variables:\n  - ${missing.join("\n  - ")}\n\n` +
-                `Set them in your process environment before application startup.`,
-            { code: HieroErrorCodes.ConfigInvalid },
+            `Cannot read ${name}_FILE: ${cause instanceof Error ? cause.message : String(cause)}`,
+            {
+                code: HieroErrorCodes.ConfigInvalid,
+                cause: cause instanceof Error ? cause : undefined,
+            },
         );
     }
 }
@@ -1,6 +1,7 @@
 export {
     resolveConfigFromEnv,
     resolveMirrorNodeUrl,
+    resolveMirrorNodeUrls,
     assertEnvConfigValid,
 } from "./HieroConfig.js";
 export type { HieroConfig } from "./HieroConfig.js";
@@ -5,9 +5,14 @@ import type {
     Transaction,
 } from "@hiero-ledger/sdk";
 import type {
+    Interceptor,
     TransactionEvent,
     TransactionListener,
+    TransactionRetryEvent,
 } from "../listeners/index.js";
+import type { TransactionJournal } from "../journal/index.js";
+import type { RetryPolicy } from "../services/transaction/RetryPolicy.js";
+import type { AuditLogger } from "../audit/index.js";
 
 /**
  * Public contract for the Hiero context that service clients depend on.
@@ -24,6 +29,15 @@ export interface IHieroContext {
     /** The operator's public key */
     readonly operatorPublicKey: PublicKey;
 
+    /** Journal recording submitted transactions, when configured */
+    readonly journal?: TransactionJournal;
+
+    /** Default retry policy for transaction submission, when configured */
+    readonly retryPolicy?: RetryPolicy;
+
+    /** Audit logger recording signed transactions, when configured */
+    readonly auditLogger?: AuditLogger;
+
     /** Sign a transaction with the operator key */
     signTransaction<T extends Transaction>(tx: T): Promise<T>;
 
@@ -33,9 +47,21 @@ export interface IHieroContext {
     /** Emit an after-transaction event to all registered listeners */
     emitAfterTransaction(event: TransactionEvent): Promise<void>;
 
+    /** Emit a retry event to all registered listeners */
+    emitTransactionRetry(event: TransactionRetryEvent): Promise<void>;
+
     /** Register a transaction listener */
     addTransactionListener(listener: TransactionListener): void;
 
     /** Remove a previously registered transaction listener */
     removeTransactionListener(listener: TransactionListener): void;
+
+    /** Registered interceptors, outermost first */
+    readonly interceptors: readonly Interceptor[];
+
+    /** Register an interceptor, innermost of those registered so far */
+    addInterceptor(interceptor: Interceptor): void;
+
+    /** Remove a previously registered interceptor */
+    removeInterceptor(interceptor: Interceptor): void;
 }
@@ -1,31 +1,44 @@
-import { HieroErrorCodes, HieroError } from "../errors/index.js";
-import type { Transaction } from "@hiero-ledger/sdk";
-import { Client, AccountId, PrivateKey } from "@hiero-ledger/sdk";
+import {
+    HieroErrorCodes,
+    HieroError,
+    normalizeError,
+} from "../errors/index.js";
+import type { PrivateKey, Transaction } from "@hiero-ledger/sdk";
+import { Client, AccountId, PublicKey } from "@hiero-ledger/sdk";
 import type { HieroConfig } from "../config/index.js";
 import { resolveConfigFromEnv, assertEnvConfigValid } from "../config/index.js";
-import { OperatorKeyType } from "../types/index.js";
 import type {
+    Interceptor,
     TransactionListener,
     TransactionEvent,
+    TransactionRetryEvent,
 } from "../listeners/index.js";
 import type { IHieroContext } from "./HieroContext.interface.js";
+import type { TransactionJournal } from "../journal/index.js";
+import type { RetryPolicy } from "../services/transaction/RetryPolicy.js";
+import type { ExternalSigner } from "../services/transaction/TransactionOptions.js";
+import type { AuditLogger } from "../audit/index.js";
+import { createSpendingPolicyInterceptor } from "../policy/index.js";
+import { HieroTelemetry } from "../telemetry/index.js";
+import {
+    parsePrivateKey,
+    secretProviderSigner,
+} from "../secrets/secret-provider.js";
 
 /**
- * Parse a private key string based on the specified key type.
+ * Parse the configured operator public key.
  */
-function parsePrivateKey(key: string, keyType: string): PrivateKey {
-    switch (keyType) {
-        case OperatorKeyType.ED25519:
-            return PrivateKey.fromStringED25519(key);
-        case OperatorKeyType.DER:
-            return PrivateKey.fromStringDer(key);
-        case OperatorKeyType.ECDSA:
-            return PrivateKey.fromStringECDSA(key);
-        default:
-            throw new HieroError(
-                `Invalid operatorKeyType: "${keyType}". Must be one of: "ed25519", "ecdsa", "der".`,
-                { code: HieroErrorCodes.ConfigInvalid },
-            );
+function parsePublicKey(key: string): PublicKey {
+    try {
+        return PublicKey.fromString(key);
+    } catch (cause) {
+        throw new HieroError(
+            "Invalid operatorPublicKey. Ensure HIERO_OPERATOR_PUBLIC_KEY is a hex or DER public key.",
+            {
+                code: HieroErrorCodes.ConfigInvalid,
+                cause: cause instanceof Error ? cause : undefined,
+            },
+        );
     }
 }
 
@@ -47,24 +60,34 @@ export class HieroContext implements IHieroContext {
     /** Registered transaction listeners */
     private readonly listeners: TransactionListener[] = [];
 
+    /** Registered interceptors, outermost first */
+    private readonly _interceptors: Interceptor[] = [];
+
     /** The operator private key — kept private to prevent accidental leakage */
-    private readonly _operatorKey: PrivateKey;
+    private readonly _operatorKey?: PrivateKey;
+
+    /** Signs for the operator when its key is held outside the process */
+    private readonly _operatorSigner?: ExternalSigner;
 
     /** The underlying Hiero SDK Client */
     public readonly client: Client;
 
-    /** The resolved configuration */
+    /** The resolved configuration, without the plaintext `operatorKey` */
     public readonly config: HieroConfig;
 
     /** The operator account ID */
     public readonly operatorAccountId: AccountId;
 
+    /** OpenTelemetry instrumentation, when `config.telemetry` is set */
+    public readonly telemetry?: HieroTelemetry;
+
     constructor(config?: HieroConfig) {
         if (!config) {
             assertEnvConfigValid();
         }
         const resolved = config ?? resolveConfigFromEnv()!;
-        this.config = resolved;
+        const { operatorKey, ...publicConfig } = resolved;
+        this.config = publicConfig;
 
         // Resolve network
         const network = resolved.network.toLowerCase();
@@ -93,22 +116,56 @@ export class HieroContext implements IHieroContext {
         // Parse and validate operator credentials
         this.operatorAccountId = AccountId.fromString(resolved.operatorId);
 
-        try {
-            this._operatorKey = parsePrivateKey(
-                resolved.operatorKey,
-                resolved.operatorKeyType,
-            );
-        } catch (cause) {
+        const sources = [
+            operatorKey,
+            resolved.operatorKeyProvider,
+            resolved.operatorSigner,
+        ].filter((source) => source != null);
+        if (sources.length > 1) {
             throw new HieroError(
-                `Invalid operator key. Ensure HIERO_OPERATOR_KEY is valid for type "${resolved.operatorKeyType}".`,
-                {
-                    code: HieroErrorCodes.ConfigInvalid,
-                    cause: cause instanceof Error ? cause : undefined,
-                },
+                "Set only one of operatorKey, operatorKeyProvider and operatorSigner.",
+                { code: HieroErrorCodes.ConfigInvalid },
             );
         }
 
-        this.client.setOperator(this.operatorAccountId, this._operatorKey);
+        if (resolved.operatorSigner || resolved.operatorKeyProvider) {
+            const signer =
+                resolved.operatorSigner ??
+                secretProviderSigner(
+                    resolved.operatorKeyProvider!,
+                    resolved.operatorPublicKey
+                        ? parsePublicKey(resolved.operatorPublicKey)
+                        : undefined,
+                );
+            this._operatorSigner = signer;
+            this.client.setOperatorWith(
+                this.operatorAccountId,
+                signer.publicKey,
+                (message) => signer.sign(message),
+            );
+        } else {
+            if (!operatorKey || !resolved.operatorKeyType) {
+                throw new HieroError(
+                    "Missing operator credentials. Provide operatorKey and operatorKeyType, an operatorKeyProvider, or an operatorSigner.",
+                    { code: HieroErrorCodes.ConfigInvalid },
+                );
+            }
+            try {
+                this._operatorKey = parsePrivateKey(
+                    operatorKey,
+                    resolved.operatorKeyType,
+                );
+            } catch (cause) {
+                throw new HieroError(
+                    `Invalid operator key. Ensure HIERO_OPERATOR_KEY is valid for type "${resolved.operatorKeyType}".`,
+                    {
+                        code: HieroErrorCodes.ConfigInvalid,
+                        cause: cause instanceof Error ? cause : undefined,
+                    },
+                );
+            }
+            this.client.setOperator(this.operatorAccountId, this._operatorKey);
+        }
 
         // Apply SDK client tuning options
         if (resolved.requestTimeoutMs !== undefined) {
@@ -123,21 +180,66 @@ export class HieroContext implements IHieroContext {
         if (resolved.maxBackoffMs !== undefined) {
             this.client.setMaxBackoff(resolved.maxBackoffMs);
         }
+
+        // Telemetry runs outermost so that policy rejections are traced too
+        if (resolved.telemetry) {
+            this.telemetry = new HieroTelemetry(
+                resolved.telemetry === true ? {} : resolved.telemetry,
+            );
+            this.telemetry.instrument(this);
+        }
+
+        // The spending policy runs ahead of any interceptor added later
+        if (resolved.spendingPolicy) {
+            this.addInterceptor(
+                createSpendingPolicyInterceptor(resolved.spendingPolicy),
+            );
+        }
     }
 
     /**
      * Get the operator's public key (safe to expose).
      */
-    public get operatorPublicKey() {
-        return this._operatorKey.publicKey;
+    public get operatorPublicKey(): PublicKey {
+        return this._operatorSigner
+            ? this._operatorSigner.publicKey
+            : this._operatorKey!.publicKey;
     }
 
     /**
-     * Sign a transaction with the operator key.
+     * Journal recording submitted transactions, from `config.transactionJournal`.
+     */
+    public get journal(): TransactionJournal | undefined {
+        return this.config.transactionJournal;
+    }
+
+    /**
+     * Default retry policy for transaction submission, from `config.retryPolicy`.
+     */
+    public get retryPolicy(): RetryPolicy | undefined {
+        return this.config.retryPolicy;
+    }
+
+    /**
+     * Audit logger recording signed transactions, from `config.auditLogger`.
+     */
+    public get auditLogger(): AuditLogger | undefined {
+        return this.config.auditLogger;
+    }
+
+    /**
+     * Sign a transaction with the operator key, through `operatorSigner`
+     * when one is configured.
      * Use this instead of accessing the private key directly.
      */
     public async signTransaction<T extends Transaction>(tx: T): Promise<T> {
-        return tx.sign(this._operatorKey);
+        const signer = this._operatorSigner;
+        if (signer) {
+            return tx.signWith(signer.publicKey, (message) =>
+                signer.sign(message),
+            );
+        }
+        return tx.sign(this._operatorKey!);
     }
 
     /**
@@ -179,11 +281,9 @@ export class HieroContext implements IHieroContext {
      * @param event - The transaction event
      */
     public async emitBeforeTransaction(event: TransactionEvent): Promise<void> {
-        for (const listener of this.listeners) {
-            if (listener.onBeforeTransaction) {
-                await listener.onBeforeTransaction(event);
-            }
-        }
+        await this.notify(event, (listener) =>
+            listener.onBeforeTransaction?.(event),
+        );
     }
 
     /**
@@ -193,10 +293,94 @@ export class HieroContext implements IHieroContext {
      * @param event - The transaction event (includes result/error/duration)
      */
     public async emitAfterTransaction(event: TransactionEvent): Promise<void> {
+        await this.notify(event, (listener) =>
+            listener.onAfterTransaction?.(event),
+        );
+    }
+
+    /**
+     * Emit a retry event to all registered listeners.
+     * Called internally by the transaction executor before each retry.
+     *
+     * @param event - The retry event (includes attempt number and delay)
+     */
+    public async emitTransactionRetry(
+        event: TransactionRetryEvent,
+    ): Promise<void> {
+        await this.notify(event, (listener) =>
+            listener.onTransactionRetry?.(event),
+        );
+    }
+
+    /**
+     * Call every listener in turn. A listener that throws is reported to
+     * `config.onListenerError` — or as a process warning — and does not
+     * stop the others or the transaction.
+     */
+    private async notify(
+        event: TransactionEvent,
+        call: (listener: TransactionListener) => void | Promise<void>,
+    ): Promise<void> {
         for (const listener of this.listeners) {
-            if (listener.onAfterTransaction) {
-                await listener.onAfterTransaction(event);
+            try {
+                await call(listener);
+            } catch (error) {
+                this.reportListenerError(
+                    normalizeError(error, "TransactionListener"),
+                    event,
+                );
+            }
+        }
+    }
+
+    private reportListenerError(
+        error: HieroError,
+        event: TransactionEvent,
+    ): void {
+        try {
+            if (this.config.onListenerError) {
+                this.config.onListenerError(error, event);
+            } else {
+                process.emitWarning(
+                    `Transaction listener failed during ${event.serviceName}.${event.methodName}: ${error.message}`,
+                    "HieroListenerWarning",
+                );
             }
+        } catch {
+            // Reporting must not break the transaction either
+        }
+    }
+
+    // Interceptor Management
+    // Interceptors wrap executor calls and, unlike listeners, may modify,
+    // veto or short-circuit them
+
+    /**
+     * Registered interceptors, outermost first.
+     */
+    public get interceptors(): readonly Interceptor[] {
+        return this._interceptors;
+    }
+
+    /**
+     * Register an interceptor. It runs inside every interceptor registered
+     * before it.
+     *
+     * @param interceptor - Interceptor to register
+     */
+    public addInterceptor(interceptor: Interceptor): void {
+        this._interceptors.push(interceptor);
+    }
+
+    /**
+     * Remove a previously registered interceptor.
+     *
+     * @param interceptor - Interceptor to remove
+     */
+    public removeInterceptor(interceptor: Interceptor): void {
+        const idx = this._interceptors.indexOf(interceptor);
+        if (idx !== -1) {
+            this._interceptors.splice(idx, 1);
         }
     }
 }
@@ -9,6 +9,10 @@ export const HieroErrorCodes = {
     MirrorNodeSchemaMismatch: "MIRROR_NODE_SCHEMA_MISMATCH",
     NotFound: "NOT_FOUND",
     TimedOut: "TIMED_OUT",
+    Aborted: "ABORTED",
+    CodecError: "CODEC_ERROR",
+    Rejected: "REJECTED",
+    PolicyViolation: "POLICY_VIOLATION",
     SdkError: "SDK_ERROR",
     Unknown: "UNKNOWN",
 } as const;
@@ -29,6 +33,8 @@ export class HieroError extends Error {
     public readonly transactionId?: string;
     /** File entity ID when the failure occurred mid-way through a multi-step file operation */
     public readonly fileId?: string;
+    /** Spending policy rule that fired, for `PolicyViolation` errors */
+    public readonly rule?: string;
 
     constructor(
         message: string,
@@ -39,6 +45,7 @@ export class HieroError extends Error {
             cause?: Error;
             transactionId?: string;
             fileId?: string;
+            rule?: string;
         } = {},
     ) {
         super(message);
@@ -49,6 +56,7 @@ export class HieroError extends Error {
         this.cause = options.cause;
         this.transactionId = options.transactionId;
         this.fileId = options.fileId;
+        this.rule = options.rule;
     }
 }
 
@@ -1,5 +1,5 @@
 import type { HieroConfig } from "../config/index.js";
-import { resolveMirrorNodeUrl } from "../config/index.js";
+import { resolveMirrorNodeUrls } from "../config/index.js";
 import { HieroContext } from "../context/index.js";
 import { MirrorNodeClient } from "../mirror/index.js";
 import {
@@ -9,6 +9,11 @@ import {
     TransactionRepository,
     NetworkRepository,
     NftRepository,
+    ContractRepository,
+    ScheduleRepository,
+    BlockRepository,
+    AllowanceRepository,
+    BalanceRepository,
 } from "../repositories/index.js";
 import {
     AccountService,
@@ -17,6 +22,7 @@ import {
     ContractService,
     TopicService,
     ScheduleService,
+    FeeEstimator,
 } from "../services/index.js";
 import type { HieroServices } from "../types/index.js";
 
@@ -30,13 +36,22 @@ export interface HieroRuntime extends HieroServices {
  */
 export function createHieroRuntime(config?: HieroConfig): HieroRuntime {
     const context = new HieroContext(config);
-    const mirrorNodeUrl = resolveMirrorNodeUrl(
+    const mirrorNodeUrls = resolveMirrorNodeUrls(
         context.config.network,
         context.config.mirrorNodeUrl,
     );
-    const mirrorNodeClient = new MirrorNodeClient(mirrorNodeUrl, {
+    const mirrorNodeClient = new MirrorNodeClient(mirrorNodeUrls, {
         timeoutMs: context.config.mirrorNodeTimeoutMs,
         maxRetries: context.config.mirrorNodeMaxRetries,
+        cache: context.config.mirrorNodeCache,
+        circuitBreaker: context.config.mirrorNodeCircuitBreaker,
+        transport: context.telemetry
+            ? context.telemetry.wrapTransport(
+                  context.config.mirrorNodeTransport,
+              )
+            : context.config.mirrorNodeTransport,
+        apiKey: context.config.mirrorNodeApiKey,
+        headers: context.config.mirrorNodeHeaders,
     });
 
     return {
@@ -48,12 +63,18 @@ export function createHieroRuntime(config?: HieroConfig): HieroRuntime {
         tokenService: new TokenService(context),
         contractService: new ContractService(context),
         topicService: new TopicService(context),
+        feeEstimator: new FeeEstimator(context, mirrorNodeClient),
         accountRepository: new AccountRepository(mirrorNodeClient),
         nftRepository: new NftRepository(mirrorNodeClient),
         tokenRepository: new TokenRepository(mirrorNodeClient),
         topicRepository: new TopicRepository(mirrorNodeClient),
         transactionRepository: new TransactionRepository(mirrorNodeClient),
         networkRepository: new NetworkRepository(mirrorNodeClient),
+        contractRepository: new ContractRepository(mirrorNodeClient),
+        scheduleRepository: new ScheduleRepository(mirrorNodeClient),
+        blockRepository: new BlockRepository(mirrorNodeClient),
+        allowanceRepository: new AllowanceRepository(mirrorNodeClient),
+        balanceRepository: new BalanceRepository(mirrorNodeClient),
         close: () => context.close(),
     };
 }
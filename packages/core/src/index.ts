@@ -35,6 +35,30 @@ export * from "./context/index.js";
 // Mirror Node
 export * from "./mirror/index.js";
 
+// Topic message codecs
+export * from "./codec/index.js";
+
+// Transaction journal
+export * from "./journal/index.js";
+
+// Audit log
+export * from "./audit/index.js";
+
+// HD wallet key derivation
+export * from "./keys/index.js";
+
+// Operator key secret providers
+export * from "./secrets/index.js";
+
+// Multi-party signature collection
+export * from "./signatures/index.js";
+
+// Spending policy
+export * from "./policy/index.js";
+
+// OpenTelemetry instrumentation
+export * from "./telemetry/index.js";
+
 // Repositories
 export * from "./repositories/index.js";
 
@@ -0,0 +1,168 @@
+import { open, readFile, rename, truncate } from "node:fs/promises";
+import { resolve } from "node:path";
+import { normalizeError } from "../errors/index.js";
+import type {
+    JournalEntry,
+    TransactionJournal,
+} from "./transaction-journal.js";
+import { inFlight, latestByIdempotencyKey } from "./transaction-journal.js";
+
+/** `JournalEntry` with its byte fields base64-encoded for JSON */
+type StoredEntry = Omit<JournalEntry, "bytes" | "receipt"> & {
+    bytes: string;
+    receipt?: string;
+};
+
+/**
+ * Journal persisted to an append-only JSON-lines file.
+ *
+ * Every `put` appends one line and syncs it to disk before resolving, so
+ * an entry written before submission survives a crash. On first use the
+ * file is replayed — the last line for a transaction ID wins. A torn final
+ * line from a crash mid-write was never acknowledged, so it is ignored and
+ * cut off before the next append. Call `compact()` occasionally to
+ * rewrite the file with one line per transaction.
+ *
+ * Intended for a single process; concurrent writers to the same file need
+ * a database-backed implementation instead.
+ */
+export class FileTransactionJournal implements TransactionJournal {
+    private entries?: Promise<Map<string, JournalEntry>>;
+    /** Serializes file writes so lines are appended in `put` order */
+    private writes: Promise<void> = Promise.resolve();
+    private readonly path: string;
+
+    /**
+     * @param path - The journal file, resolved against the working
+     *   directory now so a later `chdir` cannot move it.
+     */
+    constructor(path: string) {
+        this.path = resolve(path);
+    }
+
+    async put(entry: JournalEntry): Promise<void> {
+        const entries = await this.load();
+        await this.enqueue("put", () =>
+            this.append(`${JSON.stringify(toStored(entry))}\n`),
+        );
+        // Only reflect the entry once it is on disk
+        entries.delete(entry.transactionId);
+        entries.set(entry.transactionId, { ...entry });
+    }
+
+    async get(transactionId: string): Promise<JournalEntry | undefined> {
+        const entry = (await this.load()).get(transactionId);
+        return entry ? { ...entry } : undefined;
+    }
+
+    async findByIdempotencyKey(key: string): Promise<JournalEntry | undefined> {
+        return latestByIdempotencyKey(await this.load(), key);
+    }
+
+    async findInFlight(): Promise<JournalEntry[]> {
+        return inFlight(await this.load());
+    }
+
+    /**
+     * Rewrite the file with the current state of each transaction, replacing
+     * it atomically.
+     */
+    async compact(): Promise<void> {
+        const entries = await this.load();
+        await this.enqueue("compact", async () => {
+            const lines = [...entries.values()]
+                .map((entry) => `${JSON.stringify(toStored(entry))}\n`)
+                .join("");
+            const temp = `${this.path}.tmp`;
+            // Sync before the rename so a crash cannot leave it partial
+            const file = await open(temp, "w");
+            try {
+                await file.writeFile(lines, "utf8");
+                await file.datasync();
+            } finally {
+                await file.close();
+            }
+            await rename(temp, this.path);
+        });
+    }
+
+    private load(): Promise<Map<string, JournalEntry>> {
+        this.entries ??= this.replay().catch((error: unknown) => {
+            this.entries = undefined;
+            throw normalizeError(error, "FileTransactionJournal.load");
+        });
+        return this.entries;
+    }
+
+    private async replay(): Promise<Map<string, JournalEntry>> {
+        const entries = new Map<string, JournalEntry>();
+        let text: string;
+        try {
+            text = await readFile(this.path, "utf8");
+        } catch (error) {
+            if ((error as { code?: string }).code === "ENOENT") {
+                return entries;
+            }
+            throw error;
+        }
+
+        // Cut a partial last line off, so the next append starts a new line
+        const end = text.lastIndexOf("\n") + 1;
+        if (end < text.length) {
+            await truncate(this.path, Buffer.byteLength(text.slice(0, end)));
+        }
+
+        for (const line of text.slice(0, end).split("\n")) {
+            if (!line.trim()) continue;
+            let stored: StoredEntry;
+            try {
+                stored = JSON.parse(line) as StoredEntry;
+            } catch {
+                // Skip a line torn before an earlier repair
+                continue;
+            }
+            entries.delete(stored.transactionId);
+            entries.set(stored.transactionId, fromStored(stored));
+        }
+        return entries;
+    }
+
+    private async append(line: string): Promise<void> {
+        const file = await open(this.path, "a");
+        try {
+            await file.appendFile(line, "utf8");
+            await file.datasync();
+        } finally {
+            await file.close();
+        }
+    }
+
+    private enqueue(method: string, write: () => Promise<void>): Promise<void> {
+        const next = this.writes.then(write);
+        // Keep the chain alive after a failed write
+        this.writes = next.catch(() => undefined);
+        return next.catch((error: unknown) => {
+            throw normalizeError(error, `FileTransactionJournal.${method}`);
+        });
+    }
+}
+
+function toStored(entry: JournalEntry): StoredEntry {
+    return {
+        ...entry,
+        bytes: Buffer.from(entry.bytes).toString("base64"),
+        receipt: entry.receipt
+            ? Buffer.from(entry.receipt).toString("base64")
+            : undefined,
+    };
+}
+
+function fromStored(stored: StoredEntry): JournalEntry {
+    return {
+        ...stored,
+        bytes: new Uint8Array(Buffer.from(stored.bytes, "base64")),
+        receipt: stored.receipt
+            ? new Uint8Array(Buffer.from(stored.receipt, "base64"))
+            : undefined,
+    };
+}
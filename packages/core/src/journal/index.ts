@@ -0,0 +1,11 @@
+export {
+    InMemoryTransactionJournal,
+    type TransactionJournal,
+    type JournalEntry,
+    type JournalEntryStatus,
+} from "./transaction-journal.js";
+export { FileTransactionJournal } from "./file-transaction-journal.js";
+export {
+    recoverInFlightTransactions,
+    type JournalRecoveryResult,
+} from "./journal-recovery.js";
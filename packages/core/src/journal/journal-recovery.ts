@@ -0,0 +1,162 @@
+import {
+    Status,
+    TransactionId,
+    TransactionReceiptQuery,
+} from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../context/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+import { HieroErrorCodes, normalizeError } from "../errors/index.js";
+import type { JournalEntry } from "./transaction-journal.js";
+
+/**
+ * Consensus nodes keep receipts for about three minutes after consensus;
+ * older outcomes are only available from the mirror node.
+ */
+const RECEIPT_RETENTION_MS = 180_000;
+
+/**
+ * How long after expiry a transaction may still be missing from the mirror
+ * node because of ingestion lag.
+ */
+const MIRROR_LAG_MS = 60_000;
+
+/**
+ * Outcome of {@link recoverInFlightTransactions}.
+ */
+export interface JournalRecoveryResult {
+    /** Entries whose outcome was found and recorded */
+    resolved: JournalEntry[];
+    /** Entries still unresolved — not yet expired, or lookups failed */
+    pending: JournalEntry[];
+}
+
+/**
+ * Resolve the in-flight entries left in the context's journal by a
+ * previous process, typically called once on startup.
+ *
+ * Recent transactions are looked up with a receipt query; older ones on
+ * the mirror node. A transaction that is past its valid window and
+ * unknown to the mirror node never reached consensus and is marked
+ * `failed`, so retrying it cannot double-submit.
+ *
+ * @param context - Context whose `journal` holds the entries.
+ * @param mirrorNodeClient - Mirror node used for transactions older than
+ *   the receipt retention window.
+ */
+export async function recoverInFlightTransactions(
+    context: IHieroContext,
+    mirrorNodeClient: MirrorNodeClient,
+): Promise<JournalRecoveryResult> {
+    const journal = context.journal;
+    if (journal == null) {
+        return { resolved: [], pending: [] };
+    }
+
+    const result: JournalRecoveryResult = { resolved: [], pending: [] };
+
+    for (const entry of await journal.findInFlight()) {
+        const outcome =
+            (await fromReceipt(context, entry)) ??
+            (await fromMirrorNode(mirrorNodeClient, entry));
+
+        if (outcome == null) {
+            result.pending.push(entry);
+            continue;
+        }
+
+        const resolved: JournalEntry = {
+            ...entry,
+            ...outcome,
+            updatedAt: new Date().toISOString(),
+        };
+        await journal.put(resolved);
+        result.resolved.push(resolved);
+    }
+
+    return result;
+}
+
+type Outcome = Pick<
+    JournalEntry,
+    "status" | "receiptStatus" | "receipt" | "error"
+>;
+
+async function fromReceipt(
+    context: IHieroContext,
+    entry: JournalEntry,
+): Promise<Outcome | undefined> {
+    if (Date.now() > Date.parse(entry.expiresAt) + RECEIPT_RETENTION_MS) {
+        return undefined;
+    }
+
+    try {
+        const receipt = await new TransactionReceiptQuery()
+            .setTransactionId(TransactionId.fromString(entry.transactionId))
+            .setValidateStatus(false)
+            .execute(context.client);
+
+        if (
+            receipt.status === Status.Unknown ||
+            receipt.status === Status.ReceiptNotFound
+        ) {
+            return undefined;
+        }
+
+        const receiptStatus = receipt.status.toString();
+        return receipt.status === Status.Success
+            ? {
+                  status: "succeeded",
+                  receiptStatus,
+                  receipt: receipt.toBytes(),
+              }
+            : {
+                  status: "failed",
+                  receiptStatus,
+                  receipt: receipt.toBytes(),
+                  error: `Transaction ${entry.transactionId} failed with ${receiptStatus}`,
+              };
+    } catch {
+        // Not yet known to the nodes, or unreachable — try the mirror node
+        return undefined;
+    }
+}
+
+async function fromMirrorNode(
+    mirrorNodeClient: MirrorNodeClient,
+    entry: JournalEntry,
+): Promise<Outcome | undefined> {
+    try {
+        const info = await mirrorNodeClient.queryTransaction(
+            toMirrorTransactionId(entry.transactionId),
+        );
+        return info.successful
+            ? { status: "succeeded", receiptStatus: info.result }
+            : {
+                  status: "failed",
+                  receiptStatus: info.result,
+                  error: `Transaction ${entry.transactionId} failed with ${info.result}`,
+              };
+    } catch (error) {
+        const expired =
+            Date.now() > Date.parse(entry.expiresAt) + MIRROR_LAG_MS;
+        if (
+            normalizeError(error).code === HieroErrorCodes.NotFound &&
+            expired
+        ) {
+            return {
+                status: "failed",
+                error: `Transaction ${entry.transactionId} expired without reaching consensus`,
+            };
+        }
+        return undefined;
+    }
+}
+
+/**
+ * `0.0.2@1700000000.123456789` → `0.0.2-1700000000-123456789`, the form the
+ * mirror node REST API expects.
+ */
+function toMirrorTransactionId(transactionId: string): string {
+    const [accountId, validStart] = transactionId.split("@");
+    return `${accountId}-${validStart.replace(".", "-")}`;
+}
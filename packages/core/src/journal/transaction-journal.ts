@@ -0,0 +1,121 @@
+/**
+ * Lifecycle of a journaled transaction.
+ *
+ * - `in-flight` — recorded before submission; the outcome is unknown
+ * - `succeeded` — reached consensus with a `SUCCESS` status
+ * - `failed` — rejected at precheck or reached consensus with another status
+ */
+export type JournalEntryStatus = "in-flight" | "succeeded" | "failed";
+
+/**
+ * One transaction recorded by a {@link TransactionJournal}.
+ */
+export interface JournalEntry {
+    /** Transaction ID, e.g. `"0.0.2@1700000000.123456789"` */
+    transactionId: string;
+    /** Caller-supplied key that makes a repeated call return this entry */
+    idempotencyKey?: string;
+    /** Transaction type, e.g. `"TokenMint"` */
+    type: string;
+    /** Service class name, e.g. `"TokenService"` */
+    serviceName: string;
+    /** Method name, e.g. `"mintToken"` */
+    methodName: string;
+    /** Signed transaction bytes exactly as submitted */
+    bytes: Uint8Array;
+    /** ISO time after which the network no longer accepts the transaction */
+    expiresAt: string;
+    status: JournalEntryStatus;
+    /** Network status once known, e.g. `"SUCCESS"` or `"INSUFFICIENT_PAYER_BALANCE"` */
+    receiptStatus?: string;
+    /** Serialized `TransactionReceipt`, when the outcome came from a receipt */
+    receipt?: Uint8Array;
+    /** Failure message for `failed` entries */
+    error?: string;
+    /** ISO time the entry was first recorded */
+    createdAt: string;
+    /** ISO time of the last update */
+    updatedAt: string;
+}
+
+/**
+ * Durable record of submitted transactions, written before each submission
+ * and again once its outcome is known. A process that crashes mid-flight
+ * can then tell what it sent and look up how it ended instead of
+ * submitting again.
+ *
+ * Implementations must make `put` durable before resolving — the executor
+ * only submits once the in-flight entry is stored.
+ */
+export interface TransactionJournal {
+    /** Insert the entry, or replace the one with the same `transactionId` */
+    put(entry: JournalEntry): Promise<void>;
+    /** Return the entry for a transaction ID, or `undefined` */
+    get(transactionId: string): Promise<JournalEntry | undefined>;
+    /** Return the most recent entry recorded under an idempotency key */
+    findByIdempotencyKey(key: string): Promise<JournalEntry | undefined>;
+    /** Return every entry whose outcome is not yet recorded */
+    findInFlight(): Promise<JournalEntry[]>;
+}
+
+/**
+ * In-memory journal. Gives idempotency within one process but does not
+ * survive a restart — use {@link FileTransactionJournal} or a database-backed
+ * implementation for crash safety.
+ */
+export class InMemoryTransactionJournal implements TransactionJournal {
+    private readonly entries = new Map<string, JournalEntry>();
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    put(entry: JournalEntry): Promise<void> {
+        // Drop and re-insert so iteration order tracks the latest update
+        this.entries.delete(entry.transactionId);
+        this.entries.set(entry.transactionId, { ...entry });
+        return Promise.resolve();
+    }
+
+    get(transactionId: string): Promise<JournalEntry | undefined> {
+        const entry = this.entries.get(transactionId);
+        return Promise.resolve(entry ? { ...entry } : undefined);
+    }
+
+    findByIdempotencyKey(key: string): Promise<JournalEntry | undefined> {
+        return Promise.resolve(latestByIdempotencyKey(this.entries, key));
+    }
+
+    findInFlight(): Promise<JournalEntry[]> {
+        return Promise.resolve(inFlight(this.entries));
+    }
+}
+
+/**
+ * The most recently created entry recorded under `key`.
+ */
+export function latestByIdempotencyKey(
+    entries: Map<string, JournalEntry>,
+    key: string,
+): JournalEntry | undefined {
+    let latest: JournalEntry | undefined;
+    for (const entry of entries.values()) {
+        if (
+            entry.idempotencyKey === key &&
+            (latest == null || entry.createdAt >= latest.createdAt)
+        ) {
+            latest = entry;
+        }
+    }
+    return latest ? { ...latest } : undefined;
+}
+
+/**
+ * Entries still awaiting an outcome, oldest first.
+ */
+export function inFlight(entries: Map<string, JournalEntry>): JournalEntry[] {
+    return [...entries.values()]
+        .filter((entry) => entry.status === "in-flight")
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((entry) => ({ ...entry }));
+}
@@ -0,0 +1,263 @@
+import type { PublicKey } from "@hiero-ledger/sdk";
+import { PrivateKey } from "@hiero-ledger/sdk";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+import { AccountType } from "../types/index.js";
+import type { CreateAccountOptions } from "../services/account/operations/CreateAccountOperation.js";
+import type { ExternalSigner } from "../services/transaction/TransactionOptions.js";
+import { parseMnemonic } from "./mnemonic.js";
+
+/** Offset of hardened child indexes in BIP-32 and SLIP-10 */
+const HARDENED = 0x80000000;
+
+/**
+ * Which key to derive, and where. Without a `path`, the key is taken from
+ * the standard Hiero path for `keyType` at `index`.
+ */
+export interface DeriveKeyOptions {
+    /** Key algorithm (default: `AccountType.ED25519`) */
+    keyType?: AccountType;
+    /** Child index on the standard path (default: 0) */
+    index?: number;
+    /**
+     * Full derivation path, e.g. `"m/44'/60'/0'/0/7"` for an EVM wallet's
+     * eighth address. Every ED25519 step must be hardened.
+     */
+    path?: string;
+}
+
+/**
+ * The public half of a derived key.
+ */
+export interface DerivedKey {
+    /** Derivation path, e.g. `"m/44'/3030'/0'/0'/7'"` */
+    path: string;
+    keyType: AccountType;
+    publicKey: PublicKey;
+    /** `0x`-prefixed EVM address, for ECDSA keys */
+    evmAddress?: string;
+}
+
+/**
+ * Standard Hiero derivation path for a key type and index:
+ * `m/44'/3030'/0'/0'/index'` for ED25519, as SLIP-10 only defines hardened
+ * ED25519 children, and `m/44'/3030'/0'/0/index` for ECDSA secp256k1.
+ * These match the SDK's `Mnemonic.toStandard*PrivateKey` and HashPack.
+ */
+export function hieroDerivationPath(
+    keyType: AccountType,
+    index: number,
+): string {
+    assertIndex(index, "hieroDerivationPath");
+    return keyType === AccountType.ED25519
+        ? `m/44'/3030'/0'/0'/${index}'`
+        : `m/44'/3030'/0'/0/${index}`;
+}
+
+/**
+ * Hierarchical deterministic wallet deriving ED25519 keys (SLIP-10) and
+ * ECDSA secp256k1 keys (BIP-32/BIP-44) from one BIP-39 seed.
+ *
+ * Derived private keys stay inside the wallet. Use `deriveKey` or
+ * `accountOptions` for public keys and EVM addresses, and `signer` for an
+ * {@link ExternalSigner} that signs with the derived key — pass it as an
+ * operator signer, in `externalSigners`, or to a signature collector
+ * party.
+ *
+ * The parent of each derived key is kept, so deriving many siblings —
+ * one account per user — costs a single derivation step each.
+ *
+ * @example
+ * ```ts
+ * const wallet = await HdWallet.fromMnemonic(process.env.MASTER_MNEMONIC!);
+ * const account = await accountService.createAccount({
+ *     ...(await wallet.accountOptions({ index: userNumber })),
+ *     initialBalance: 1,
+ * });
+ * const signer = await wallet.signer({ index: userNumber });
+ * ```
+ */
+export class HdWallet {
+    /** Master and intermediate keys by key type and path */
+    private readonly nodes = new Map<string, Promise<PrivateKey>>();
+
+    private constructor(private readonly seed: Uint8Array) {}
+
+    /**
+     * Open the wallet of a BIP-39 mnemonic phrase.
+     *
+     * @param phrase - 12 or 24 words.
+     * @param passphrase - Optional BIP-39 passphrase; a different passphrase
+     *   gives an unrelated wallet.
+     * @throws {HieroError} `ConfigInvalid` if the phrase is invalid
+     */
+    static async fromMnemonic(
+        phrase: string,
+        passphrase = "",
+    ): Promise<HdWallet> {
+        const mnemonic = await parseMnemonic(phrase, "HdWallet.fromMnemonic");
+        return new HdWallet(await mnemonic.toSeed(passphrase));
+    }
+
+    /**
+     * Open the wallet of a BIP-39 seed, e.g. one held in a secret store.
+     *
+     * @param seed - 16 to 64 bytes.
+     * @throws {HieroError} `ConfigInvalid` for a seed of another length
+     */
+    static fromSeed(seed: Uint8Array): HdWallet {
+        if (seed.length < 16 || seed.length > 64) {
+            throw new HieroError(
+                `An HD wallet seed must be 16 to 64 bytes, not ${seed.length}.`,
+                {
+                    code: HieroErrorCodes.ConfigInvalid,
+                    context: "HdWallet.fromSeed",
+                },
+            );
+        }
+        return new HdWallet(new Uint8Array(seed));
+    }
+
+    /**
+     * Derive a key and return its public half.
+     *
+     * @throws {HieroError} `ConfigInvalid` for an invalid path or index
+     */
+    async deriveKey(options: DeriveKeyOptions = {}): Promise<DerivedKey> {
+        const { keyType, path, steps } = resolve(options, "HdWallet.deriveKey");
+        const { publicKey } = await this.node(keyType, steps, steps.length);
+        return {
+            path,
+            keyType,
+            publicKey,
+            evmAddress:
+                keyType === AccountType.ECDSA
+                    ? `0x${publicKey.toEvmAddress()}`
+                    : undefined,
+        };
+    }
+
+    /**
+     * Key options for `AccountService.createAccount` with a derived key.
+     *
+     * @param options.alias - Set the ECDSA key's EVM address as the
+     *   account alias. Aliases are permanent, so the key cannot be rotated
+     *   away from the address.
+     */
+    async accountOptions(
+        options: DeriveKeyOptions & { alias?: boolean } = {},
+    ): Promise<Pick<CreateAccountOptions, "publicKey" | "keyType" | "alias">> {
+        const { keyType, publicKey } = await this.deriveKey(options);
+        return {
+            publicKey: publicKey.toStringRaw(),
+            keyType,
+            ...(options.alias ? { alias: true } : {}),
+        };
+    }
+
+    /**
+     * An {@link ExternalSigner} signing with a derived key.
+     *
+     * @throws {HieroError} `ConfigInvalid` for an invalid path or index
+     */
+    async signer(options: DeriveKeyOptions = {}): Promise<ExternalSigner> {
+        const { keyType, steps } = resolve(options, "HdWallet.signer");
+        const privateKey = await this.node(keyType, steps, steps.length);
+        return {
+            publicKey: privateKey.publicKey,
+            sign: (message) => Promise.resolve(privateKey.sign(message)),
+        };
+    }
+
+    /** The node `depth` steps down the path, derived once */
+    private node(
+        keyType: AccountType,
+        steps: number[],
+        depth: number,
+    ): Promise<PrivateKey> {
+        const id = `${keyType}:${steps.slice(0, depth).join("/")}`;
+        let node = this.nodes.get(id);
+        if (node == null) {
+            node =
+                depth === 0
+                    ? keyType === AccountType.ED25519
+                        ? PrivateKey.fromSeedED25519(this.seed)
+                        : PrivateKey.fromSeedECDSAsecp256k1(this.seed)
+                    : this.node(keyType, steps, depth - 1).then((parent) =>
+                          // SLIP-10 ED25519 derivation hardens every index itself
+                          parent.derive(
+                              keyType === AccountType.ED25519
+                                  ? steps[depth - 1] - HARDENED
+                                  : steps[depth - 1],
+                          ),
+                      );
+            // Keep only the intermediate nodes, not every leaf key
+            if (depth < steps.length) {
+                this.nodes.set(id, node);
+            }
+        }
+        return node;
+    }
+}
+
+function resolve(
+    options: DeriveKeyOptions,
+    context: string,
+): { keyType: AccountType; path: string; steps: number[] } {
+    const keyType = options.keyType ?? AccountType.ED25519;
+    if (options.path != null && options.index != null) {
+        throw new HieroError("Set either index or path, not both.", {
+            code: HieroErrorCodes.ConfigInvalid,
+            context,
+        });
+    }
+    const path =
+        options.path ?? hieroDerivationPath(keyType, options.index ?? 0);
+    return { keyType, path, steps: parsePath(path, keyType, context) };
+}
+
+/**
+ * Child indexes of a path like `"m/44'/3030'/0'/0/5"`, with hardened
+ * indexes offset by 2^31.
+ */
+function parsePath(
+    path: string,
+    keyType: AccountType,
+    context: string,
+): number[] {
+    const invalid = (reason: string) =>
+        new HieroError(`Invalid derivation path "${path}": ${reason}`, {
+            code: HieroErrorCodes.ConfigInvalid,
+            context,
+        });
+
+    const [root, ...segments] = path.trim().split("/");
+    if (root !== "m" || segments.length === 0) {
+        throw invalid("expected m/ followed by child indexes.");
+    }
+    return segments.map((segment) => {
+        const match = /^(\d+)(['h]?)$/.exec(segment);
+        if (match == null) {
+            throw invalid(`"${segment}" is not a child index.`);
+        }
+        const index = Number(match[1]);
+        if (index >= HARDENED) {
+            throw invalid(`${index} is out of range.`);
+        }
+        if (match[2] === "") {
+            if (keyType === AccountType.ED25519) {
+                throw invalid("ED25519 keys only have hardened children.");
+            }
+            return index;
+        }
+        return index + HARDENED;
+    });
+}
+
+function assertIndex(index: number, context: string): void {
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED) {
+        throw new HieroError(
+            `Derivation index must be an integer from 0 to 2^31 - 1, not ${index}.`,
+            { code: HieroErrorCodes.ConfigInvalid, context },
+        );
+    }
+}
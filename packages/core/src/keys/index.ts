@@ -0,0 +1,11 @@
+export {
+    generateMnemonic,
+    isValidMnemonic,
+    parseMnemonic,
+} from "./mnemonic.js";
+export {
+    HdWallet,
+    hieroDerivationPath,
+    type DeriveKeyOptions,
+    type DerivedKey,
+} from "./hd-wallet.js";
@@ -0,0 +1,62 @@
+import { Mnemonic } from "@hiero-ledger/sdk";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+
+/**
+ * Generate a new BIP-39 mnemonic phrase from the English word list.
+ *
+ * @param wordCount - 24 words (default, 256 bits of entropy) or 12 (128 bits).
+ * @returns The words separated by single spaces. Treat it as a secret:
+ *   anyone holding it can derive every key of the wallet.
+ */
+export async function generateMnemonic(
+    wordCount: 12 | 24 = 24,
+): Promise<string> {
+    const mnemonic =
+        wordCount === 12
+            ? await Mnemonic.generate12()
+            : await Mnemonic.generate();
+    return mnemonic.toString();
+}
+
+/**
+ * Check a BIP-39 mnemonic phrase: 12 or 24 words from the English list
+ * with a matching checksum. Legacy 22-word phrases are not accepted.
+ */
+export async function isValidMnemonic(phrase: string): Promise<boolean> {
+    try {
+        await parseMnemonic(phrase, "isValidMnemonic");
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a BIP-39 mnemonic phrase.
+ *
+ * @throws {HieroError} `ConfigInvalid` naming why the phrase is invalid
+ */
+export async function parseMnemonic(
+    phrase: string,
+    context: string,
+): Promise<Mnemonic> {
+    const words = phrase.trim().toLowerCase().split(/\s+/);
+    if (words.length !== 12 && words.length !== 24) {
+        throw new HieroError(
+            `A mnemonic must have 12 or 24 words, not ${words.length}.`,
+            { code: HieroErrorCodes.ConfigInvalid, context },
+        );
+    }
+    try {
+        return await Mnemonic.fromWords(words);
+    } catch (cause) {
+        throw new HieroError(
+            `Invalid mnemonic: ${cause instanceof Error ? cause.message : String(cause)}`,
+            {
+                code: HieroErrorCodes.ConfigInvalid,
+                context,
+                cause: cause instanceof Error ? cause : undefined,
+            },
+        );
+    }
+}
@@ -1,4 +1,12 @@
 export type {
     TransactionEvent,
     TransactionListener,
+    TransactionRetryEvent,
 } from "./transaction-listener.js";
+export type {
+    Interceptor,
+    InterceptorContext,
+    TransactionInterceptorContext,
+    ScheduleInterceptorContext,
+    QueryInterceptorContext,
+} from "./interceptor.js";
@@ -0,0 +1,129 @@
+import type { Query, Transaction } from "@hiero-ledger/sdk";
+import type { TransactionEvent } from "./transaction-listener.js";
+import type { TransactionOptions } from "../services/transaction/TransactionOptions.js";
+import type { QueryOptions } from "../services/transaction/QueryOptions.js";
+import type { ScheduleOptions } from "../services/transaction/ScheduleOptions.js";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+
+interface BaseInterceptorContext {
+    /** Event metadata; replace it to change what listeners receive */
+    event: TransactionEvent;
+    /** Scratch space shared by the interceptors of one call */
+    readonly state: Map<string, unknown>;
+}
+
+/**
+ * Context for `TransactionExecutor.run`. The transaction is built but not
+ * yet frozen, so interceptors may still call its setters.
+ *
+ * `TransactionExecutor.submitPrepared` passes the decoded transaction,
+ * already frozen and signed; its setters throw and changes to `options`
+ * other than `initiator` have no effect.
+ */
+export interface TransactionInterceptorContext extends BaseInterceptorContext {
+    readonly kind: "transaction";
+    readonly transaction: Transaction;
+    /** Options applied once the chain completes; may be replaced */
+    options: TransactionOptions;
+}
+
+/**
+ * Context for `TransactionExecutor.scheduleRun`. `transaction` is the
+ * inner transaction, before it is wrapped in a `ScheduleCreateTransaction`.
+ */
+export interface ScheduleInterceptorContext extends BaseInterceptorContext {
+    readonly kind: "schedule";
+    readonly transaction: Transaction;
+    options: TransactionOptions;
+    scheduleOptions: ScheduleOptions;
+}
+
+/**
+ * Context for `QueryExecutor.run`.
+ */
+export interface QueryInterceptorContext extends BaseInterceptorContext {
+    readonly kind: "query";
+    readonly query: Query<unknown>;
+    options: QueryOptions;
+}
+
+export type InterceptorContext =
+    | TransactionInterceptorContext
+    | ScheduleInterceptorContext
+    | QueryInterceptorContext;
+
+/**
+ * Middleware around every transaction, scheduled transaction and query
+ * run by the executors, in the style of Koa.
+ *
+ * An interceptor can adjust `context` and then `await next()` to run the
+ * rest of the chain and the operation itself, inspect or replace the
+ * result `next()` resolves to, or wrap it in its own `try`/`catch`.
+ * Throwing — typically a `HieroError` with code `Rejected` — vetoes the
+ * call before anything is submitted. Returning without calling `next()`
+ * short-circuits it; the value returned must then be of the operation's
+ * result type.
+ *
+ * Interceptors run in registration order, outermost first, before the
+ * before-transaction event is emitted.
+ *
+ * @example
+ * ```ts
+ * context.addInterceptor(async (ctx, next) => {
+ *     if (ctx.kind === "transaction") {
+ *         ctx.transaction.setTransactionMemo("billing");
+ *     }
+ *     const started = Date.now();
+ *     try {
+ *         return await next();
+ *     } finally {
+ *         metrics.record(ctx.event.methodName, Date.now() - started);
+ *     }
+ * });
+ * ```
+ */
+export type Interceptor = (
+    context: InterceptorContext,
+    next: () => Promise<unknown>,
+) => Promise<unknown>;
+
+/**
+ * Run `operation` inside the interceptor chain.
+ *
+ * @param interceptors - Chain to run, outermost first.
+ * @param context - Context passed to every interceptor and then to `operation`.
+ * @param operation - The call being intercepted, run by the innermost `next()`.
+ * @throws {HieroError} If an interceptor calls `next()` more than once
+ */
+export async function runInterceptors<
+    TContext extends InterceptorContext,
+    TResult,
+>(
+    interceptors: readonly Interceptor[],
+    context: TContext,
+    operation: (context: TContext) => Promise<TResult>,
+): Promise<TResult> {
+    const chain = [...interceptors].reverse().reduce<() => Promise<unknown>>(
+        (next, interceptor) => () => {
+            let called = false;
+            return interceptor(context, () => {
+                if (called) {
+                    return Promise.reject(
+                        new HieroError(
+                            "Interceptor called next() more than once.",
+                            {
+                                code: HieroErrorCodes.Unknown,
+                                context: `${context.event.serviceName}.${context.event.methodName}`,
+                            },
+                        ),
+                    );
+                }
+                called = true;
+                return next();
+            });
+        },
+        () => operation(context),
+    );
+
+    return (await chain()) as TResult;
+}
@@ -12,6 +12,8 @@ export interface TransactionEvent {
     timestamp: Date;
     /** Transaction ID (available in afterTransaction) */
     transactionId?: string;
+    /** Consensus node the transaction was submitted to (available in afterTransaction) */
+    nodeAccountId?: string;
     /** Receipt status (available in afterTransaction) */
     status?: string;
     /** Error if the transaction failed (available in afterTransaction) */
@@ -20,6 +22,27 @@ export interface TransactionEvent {
     durationMs?: number;
 }
 
+/**
+ * Event emitted when a failed submission is about to be retried under a
+ * `RetryPolicy`.
+ */
+export interface TransactionRetryEvent extends TransactionEvent {
+    /** Number of the attempt about to start (2 for the first retry) */
+    attempt: number;
+    /** Total attempts allowed by the policy */
+    maxAttempts: number;
+    /** Wait before the next attempt, in milliseconds */
+    delayMs: number;
+    /** Status of the failed attempt, e.g. "BUSY" */
+    status: string;
+    /** Transaction ID of the failed attempt */
+    transactionId?: string;
+    /** Whether the next attempt uses a freshly generated transaction ID */
+    regenerateTransactionId: boolean;
+    /** Error the failed attempt ended with */
+    error: Error;
+}
+
 /**
  * Listener interface for transaction lifecycle events.
  * Register with HieroContext to receive notifications before and after
@@ -43,4 +66,6 @@ export interface TransactionListener {
     onBeforeTransaction?(event: TransactionEvent): void | Promise<void>;
     /** Called after a transaction completes (success or failure) */
     onAfterTransaction?(event: TransactionEvent): void | Promise<void>;
+    /** Called before each retry of a failed submission */
+    onTransactionRetry?(event: TransactionRetryEvent): void | Promise<void>;
 }
@@ -1 +1,19 @@
 export { MirrorNodeClient } from "./mirror-node-client.js";
+export { decodeProtobufKey } from "./mirror-node-keys.js";
+export {
+    LruCacheStore,
+    type MirrorCacheStore,
+    type MirrorCacheOptions,
+    type MirrorEndpointFamily,
+} from "./mirror-node-cache.js";
+export type {
+    MirrorCircuitBreakerOptions,
+    MirrorEndpointState,
+    MirrorEndpointStatus,
+} from "./mirror-node-endpoints.js";
+export {
+    dispatcherTransport,
+    type MirrorTransport,
+    type MirrorTransportRequest,
+    type MirrorHeaderProvider,
+} from "./mirror-node-transport.js";
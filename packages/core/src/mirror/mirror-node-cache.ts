@@ -0,0 +1,265 @@
+/**
+ * Groups of mirror node endpoints that share a cache TTL.
+ */
+export type MirrorEndpointFamily =
+    | "accounts"
+    | "allowances"
+    | "balances"
+    | "blocks"
+    | "contracts"
+    | "network"
+    | "nfts"
+    | "schedules"
+    | "tokens"
+    | "topics"
+    | "topicMessages"
+    | "transactions";
+
+/**
+ * Storage backend for cached mirror node responses.
+ *
+ * Values are the raw JSON payloads returned by the mirror node, so an
+ * adapter for an out-of-process store (Redis, Memcached, …) can serialize
+ * them with `JSON.stringify`. A failing store never fails a request — the
+ * cache is skipped and the request goes to the network.
+ */
+export interface MirrorCacheStore {
+    /** Return the cached value, or `undefined` on a miss or expiry */
+    get(key: string): Promise<unknown>;
+    /** Store a value; `ttlMs === null` means it never expires */
+    set(key: string, value: unknown, ttlMs: number | null): Promise<void>;
+    /** Remove a single key */
+    delete(key: string): Promise<void>;
+    /** Remove every key starting with `prefix` */
+    deleteByPrefix(prefix: string): Promise<void>;
+    /** Remove every key */
+    clear(): Promise<void>;
+}
+
+/**
+ * Options for the mirror node response cache.
+ */
+export interface MirrorCacheOptions {
+    /** Storage backend (default: an in-memory {@link LruCacheStore}) */
+    store?: MirrorCacheStore;
+    /** Capacity of the default in-memory store (default: 1000) */
+    maxEntries?: number;
+    /** TTL for endpoints without a family-specific TTL (default: 5000) */
+    defaultTtlMs?: number;
+    /**
+     * Per-family TTLs in milliseconds. `0` disables caching for the family;
+     * concurrent identical requests are still coalesced.
+     */
+    ttlMs?: Partial<Record<MirrorEndpointFamily, number>>;
+    /**
+     * TTL for immutable resources — a transaction by ID, a topic message by
+     * sequence number, a block, a contract result. `null` (the default)
+     * caches them forever.
+     */
+    immutableTtlMs?: number | null;
+}
+
+interface LruEntry {
+    value: unknown;
+    expiresAt: number | null;
+}
+
+/**
+ * In-memory least-recently-used cache store.
+ */
+export class LruCacheStore implements MirrorCacheStore {
+    private readonly entries = new Map<string, LruEntry>();
+
+    constructor(private readonly maxEntries = 1000) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): Promise<unknown> {
+        const entry = this.entries.get(key);
+        if (!entry) return Promise.resolve(undefined);
+        if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return Promise.resolve(undefined);
+        }
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return Promise.resolve(entry.value);
+    }
+
+    set(key: string, value: unknown, ttlMs: number | null): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value,
+            expiresAt: ttlMs === null ? null : Date.now() + ttlMs,
+        });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+        return Promise.resolve();
+    }
+
+    delete(key: string): Promise<void> {
+        this.entries.delete(key);
+        return Promise.resolve();
+    }
+
+    deleteByPrefix(prefix: string): Promise<void> {
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(prefix)) this.entries.delete(key);
+        }
+        return Promise.resolve();
+    }
+
+    clear(): Promise<void> {
+        this.entries.clear();
+        return Promise.resolve();
+    }
+}
+
+/**
+ * How a mirror node path should be cached.
+ */
+export interface MirrorPathClass {
+    family: MirrorEndpointFamily | undefined;
+    immutable: boolean;
+}
+
+/**
+ * Classify a mirror node path (`/api/v1/...`, optionally with a query
+ * string) into its endpoint family and whether the resource it names can
+ * never change once it exists.
+ */
+export function classifyMirrorPath(path: string): MirrorPathClass {
+    const [route] = path.split("?");
+    const segments = route.split("/").filter(Boolean).slice(2);
+    const [root, id, sub, subId] = segments;
+    const n = segments.length;
+
+    switch (root) {
+        case "accounts":
+            if (sub === "nfts") return { family: "nfts", immutable: false };
+            if (sub === "allowances") {
+                return { family: "allowances", immutable: false };
+            }
+            return { family: "accounts", immutable: false };
+        case "balances":
+            return { family: "balances", immutable: false };
+        case "tokens":
+            if (sub === "nfts") return { family: "nfts", immutable: false };
+            if (sub === "balances") {
+                return { family: "balances", immutable: false };
+            }
+            return { family: "tokens", immutable: false };
+        case "topics":
+            if (sub === "messages") {
+                return { family: "topicMessages", immutable: n === 4 };
+            }
+            return { family: "topics", immutable: false };
+        case "transactions":
+            return { family: "transactions", immutable: n === 2 };
+        case "contracts":
+            return {
+                family: "contracts",
+                immutable:
+                    (id === "results" && n === 3) ||
+                    (sub === "results" && subId !== undefined),
+            };
+        case "schedules":
+            return { family: "schedules", immutable: false };
+        case "blocks":
+            return { family: "blocks", immutable: n === 2 };
+        case "network":
+            return { family: "network", immutable: false };
+        default:
+            return { family: undefined, immutable: false };
+    }
+}
+
+/**
+ * Read-through response cache with request coalescing. Keys are mirror
+ * node paths (including the query string), so the same resource fetched
+ * through different base URLs shares an entry.
+ */
+export class MirrorResponseCache {
+    private readonly store: MirrorCacheStore;
+    private readonly defaultTtlMs: number;
+    private readonly ttlMs: Partial<Record<MirrorEndpointFamily, number>>;
+    private readonly immutableTtlMs: number | null;
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+    /** Bumped by `invalidate`; fetches started before then are not cached */
+    private generation = 0;
+
+    constructor(options: MirrorCacheOptions = {}) {
+        this.store = options.store ?? new LruCacheStore(options.maxEntries);
+        this.defaultTtlMs = options.defaultTtlMs ?? 5_000;
+        this.ttlMs = options.ttlMs ?? {};
+        this.immutableTtlMs =
+            options.immutableTtlMs === undefined
+                ? null
+                : options.immutableTtlMs;
+    }
+
+    /**
+     * Return the cached payload for `path`, or run `fetcher` — sharing a
+     * single in-flight call between concurrent callers — and cache its
+     * result.
+     */
+    async getOrFetch<T>(path: string, fetcher: () => Promise<T>): Promise<T> {
+        const ttl = this.ttlFor(path);
+
+        if (ttl !== 0) {
+            const cached = await this.store.get(path).catch(() => undefined);
+            if (cached !== undefined) return cached as T;
+        }
+
+        const pending = this.inFlight.get(path);
+        if (pending) return pending as Promise<T>;
+
+        const generation = this.generation;
+        const request: Promise<T> = fetcher()
+            .then(async (value) => {
+                if (ttl !== 0 && generation === this.generation) {
+                    await this.store.set(path, value, ttl).catch(() => {});
+                }
+                return value;
+            })
+            .finally(() => {
+                if (this.inFlight.get(path) === request) {
+                    this.inFlight.delete(path);
+                }
+            });
+        this.inFlight.set(path, request);
+        return request;
+    }
+
+    /**
+     * Drop every cached path starting with `pathPrefix`, or everything when
+     * no prefix is given. Fetches still in flight may have read the old
+     * state, so their results are not cached and later callers do not
+     * share them.
+     */
+    async invalidate(pathPrefix?: string): Promise<void> {
+        this.generation++;
+        for (const path of this.inFlight.keys()) {
+            if (pathPrefix === undefined || path.startsWith(pathPrefix)) {
+                this.inFlight.delete(path);
+            }
+        }
+        if (pathPrefix === undefined) {
+            await this.store.clear();
+        } else {
+            await this.store.deleteByPrefix(pathPrefix);
+        }
+    }
+
+    private ttlFor(path: string): number | null {
+        const { family, immutable } = classifyMirrorPath(path);
+        if (immutable) return this.immutableTtlMs;
+        const familyTtl = family === undefined ? undefined : this.ttlMs[family];
+        return familyTtl ?? this.defaultTtlMs;
+    }
+}
@@ -9,6 +9,7 @@ import type {
     NetworkStake,
     NetworkSupplies,
     Page,
+    PaginationOptions,
     MirrorPageResponse,
     MirrorAccountResponse,
     MirrorNft,
@@ -19,6 +20,39 @@ import type {
     MirrorExchangeRatesResponse,
     MirrorNetworkSupplyResponse,
     MirrorNetworkStakeResponse,
+    NftFilter,
+    TokenFilter,
+    TopicMessageFilter,
+    TransactionFilter,
+    MirrorTopic,
+    MirrorTopicResponse,
+    MirrorContractInfo,
+    MirrorContractResponse,
+    MirrorContractResult,
+    MirrorContractResultRaw,
+    MirrorContractStateEntry,
+    MirrorContractStateRaw,
+    MirrorSchedule,
+    MirrorScheduleResponse,
+    MirrorBlock,
+    MirrorBlockResponse,
+    MirrorCryptoAllowance,
+    MirrorCryptoAllowanceRaw,
+    MirrorTokenAllowance,
+    MirrorTokenAllowanceRaw,
+    MirrorNftAllowance,
+    MirrorNftAllowanceRaw,
+    ContractFilter,
+    ContractResultFilter,
+    ContractStateFilter,
+    ScheduleFilter,
+    BlockFilter,
+    AllowanceFilter,
+    BalanceFilter,
+    MirrorTimestamp,
+    MirrorAccountBalanceRaw,
+    MirrorTokenHolderRaw,
+    TokenHolderBalance,
 } from "../types/index.js";
 import { HieroError, HieroErrorCodes } from "../errors/index.js";
 import {
@@ -31,6 +65,18 @@ import {
     convertTransactionInfo,
     convertExchangeRate,
     convertNetworkStake,
+    convertTopic,
+    convertContractInfo,
+    convertContractResult,
+    convertContractState,
+    convertSchedule,
+    convertBlock,
+    convertCryptoAllowance,
+    convertTokenAllowance,
+    convertNftAllowance,
+    convertAccountBalance,
+    convertTokenHolder,
+    parseMirrorJson,
 } from "./mirror-node-converters.js";
 import {
     assertPageResponse,
@@ -43,7 +89,41 @@ import {
     assertExchangeRatesResponse,
     assertNetworkSupplyResponse,
     assertNetworkStakeResponse,
+    assertTopicResponse,
+    assertContractResponse,
+    assertContractResultResponse,
+    assertScheduleResponse,
+    assertBlockResponse,
 } from "./mirror-node-validators.js";
+import {
+    mirrorPath,
+    withQuery,
+    nftParams,
+    tokenParams,
+    topicMessageParams,
+    transactionParams,
+    contractParams,
+    contractResultParams,
+    contractStateParams,
+    scheduleParams,
+    blockParams,
+    allowanceParams,
+    balanceParams,
+} from "./mirror-node-query.js";
+import {
+    MirrorResponseCache,
+    type MirrorCacheOptions,
+} from "./mirror-node-cache.js";
+import {
+    MirrorEndpointPool,
+    type MirrorCircuitBreakerOptions,
+    type MirrorEndpointStatus,
+} from "./mirror-node-endpoints.js";
+import {
+    MIRROR_API_KEY_HEADER,
+    type MirrorHeaderProvider,
+    type MirrorTransport,
+} from "./mirror-node-transport.js";
 
 function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -68,30 +148,140 @@ function parseRetryAfter(header: string | null): number | null {
     return null;
 }
 
+function aborted(path: string, cause?: unknown): HieroError {
+    return new HieroError(`Mirror node request aborted: ${path}`, {
+        code: HieroErrorCodes.Aborted,
+        context: path,
+        cause: cause instanceof Error ? cause : undefined,
+    });
+}
+
+/**
+ * Settle with `promise`, or reject with an Aborted error as soon as
+ * `signal` fires — without cancelling the underlying work, which other
+ * callers may be sharing.
+ */
+function raceAbort<T>(
+    promise: Promise<T>,
+    path: string,
+    signal?: AbortSignal,
+): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(aborted(path));
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(aborted(path));
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(value);
+            },
+            (err: unknown) => {
+                signal.removeEventListener("abort", onAbort);
+                reject(err);
+            },
+        );
+    });
+}
+
+function stripTrailingSlashes(baseUrl: string): string {
+    let url = baseUrl;
+    while (url.endsWith("/")) {
+        url = url.slice(0, -1);
+    }
+    return url;
+}
+
 /**
  * HTTP client for querying the Hiero Mirror Node REST API.
  */
 export class MirrorNodeClient {
-    private readonly baseUrl: string;
+    private readonly endpoints: MirrorEndpointPool;
     private readonly timeoutMs: number;
     private readonly maxRetries: number;
+    private readonly cache?: MirrorResponseCache;
+    private readonly transport: MirrorTransport;
+    private readonly apiKey?: string;
+    private readonly headers?: MirrorHeaderProvider;
 
+    /**
+     * @param baseUrl - Mirror node base URL, or an ordered list of base URLs
+     *   to fail over across (first = preferred)
+     * @param options.timeoutMs - Per-attempt request timeout (default: 10000)
+     * @param options.maxRetries - Retries for 429/5xx/timeouts (default: 3)
+     * @param options.cache - Enable the response cache; omit to disable
+     * @param options.circuitBreaker - Failover tuning for multiple base URLs
+     * @param options.transport - HTTP transport (default: the global `fetch`)
+     * @param options.apiKey - API key sent as the `x-api-key` header
+     * @param options.headers - Extra headers, static or resolved per attempt
+     */
     constructor(
-        baseUrl: string,
-        options?: { timeoutMs?: number; maxRetries?: number },
+        baseUrl: string | readonly string[],
+        options?: {
+            timeoutMs?: number;
+            maxRetries?: number;
+            cache?: MirrorCacheOptions;
+            circuitBreaker?: MirrorCircuitBreakerOptions;
+            transport?: MirrorTransport;
+            apiKey?: string;
+            headers?: MirrorHeaderProvider;
+        },
     ) {
-        // Remove trailing slashes
-        let url = baseUrl;
-        while (url.endsWith("/")) {
-            url = url.slice(0, -1);
+        const urls = (typeof baseUrl === "string" ? [baseUrl] : baseUrl).map(
+            stripTrailingSlashes,
+        );
+        if (urls.length === 0) {
+            throw new HieroError("At least one mirror node URL is required.", {
+                code: HieroErrorCodes.ConfigInvalid,
+            });
         }
-        this.baseUrl = url;
+        this.endpoints = new MirrorEndpointPool(urls, options?.circuitBreaker);
         this.timeoutMs = options?.timeoutMs ?? 10_000;
         this.maxRetries = options?.maxRetries ?? 3;
+        this.cache = options?.cache
+            ? new MirrorResponseCache(options.cache)
+            : undefined;
+        // Resolve the global lazily so it can be replaced after construction
+        this.transport =
+            options?.transport ?? ((url, request) => fetch(url, request));
+        this.apiKey = options?.apiKey;
+        this.headers = options?.headers;
+    }
+
+    // ─── Diagnostics ─────────────────────────────────────────────
+
+    /**
+     * Base URL of the mirror node that served (or is serving) the most
+     * recent request.
+     */
+    get activeEndpoint(): string {
+        return this.endpoints.active;
+    }
+
+    /**
+     * Circuit breaker state of every configured mirror node, in
+     * configuration order.
+     */
+    endpointStatus(): MirrorEndpointStatus[] {
+        return this.endpoints.status();
     }
 
     // ─── HTTP Helper ─────────────────────────────────────────────
 
+    /**
+     * GET a mirror node path, going through the response cache when one is
+     * configured. Concurrent identical requests share a single fetch; a
+     * caller's `signal` only detaches that caller from it.
+     */
+    private fetch<T>(path: string, signal?: AbortSignal): Promise<T> {
+        if (!this.cache) return this.request<T>(path, signal);
+        return raceAbort(
+            this.cache.getOrFetch(path, () => this.request<T>(path)),
+            path,
+            signal,
+        );
+    }
+
     /**
      * Issue a GET against the mirror node with timeout + retry semantics.
      *
@@ -100,27 +290,67 @@ export class MirrorNodeClient {
      *   honouring the `Retry-After` header when present.
      * - Network errors (including AbortError caused by timeout) are
      *   retried with exponential backoff, then surfaced as HieroError.
+     * - A caller-supplied `signal` cancels the request outright; it is
+     *   never retried.
+     * - A 404 means the mirror node has no such entity or transaction and
+     *   is surfaced as `NOT_FOUND`; other 4xx responses as
+     *   `MIRROR_NODE_HTTP_ERROR`.
+     *
+     * With several base URLs, each attempt goes to the preferred available
+     * endpoint. 5xx responses, timeouts and network errors count against
+     * that endpoint's circuit breaker, a `Retry-After` keeps it out of
+     * rotation for the requested time, and the retry moves to the next
+     * endpoint without waiting when one is available.
      */
-    private async fetch<T>(path: string, attempt = 0): Promise<T> {
-        const url = `${this.baseUrl}${path}`;
+    private async request<T>(
+        path: string,
+        signal?: AbortSignal,
+        attempt = 0,
+        failedUrl?: string,
+    ): Promise<T> {
+        if (signal?.aborted) {
+            throw aborted(path);
+        }
+
+        const headers = await this.resolveHeaders(path);
+        const baseUrl = this.endpoints.select(failedUrl);
+        const url = `${baseUrl}${path}`;
         const controller = new AbortController();
         const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
 
         let response: Response;
         try {
-            response = await fetch(url, { signal: controller.signal });
+            response = await this.transport(url, {
+                method: "GET",
+                headers,
+                signal: controller.signal,
+            });
         } catch (err) {
             clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            if (signal?.aborted) {
+                this.endpoints.release(baseUrl);
+                throw aborted(path, err);
+            }
+            this.endpoints.recordFailure(baseUrl);
+
             const isAbort =
                 err instanceof Error &&
                 (err.name === "AbortError" || err.name === "TimeoutError");
+            const alternativeMs = this.endpoints.alternativeDelayMs(baseUrl);
 
-            // Only retry timeouts here. Generic network errors (DNS, ECONNREFUSED)
-            // are surfaced immediately — they almost always indicate a misconfigured
-            // base URL rather than a transient blip.
-            if (isAbort && attempt < this.maxRetries) {
-                await sleep(this.backoffMs(attempt));
-                return this.fetch<T>(path, attempt + 1);
+            // Only retry timeouts on the same endpoint. Generic network errors
+            // (DNS, ECONNREFUSED) almost always indicate a misconfigured base
+            // URL rather than a transient blip, so they are only retried when
+            // another endpoint can take the request.
+            if (
+                (isAbort || alternativeMs !== null) &&
+                attempt < this.maxRetries
+            ) {
+                await sleep(this.retryDelayMs(attempt, null, alternativeMs));
+                return this.request<T>(path, signal, attempt + 1, baseUrl);
             }
 
             throw new HieroError(
@@ -137,28 +367,87 @@ export class MirrorNodeClient {
             );
         }
         clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
 
-        if (
-            (response.status === 429 || response.status >= 500) &&
-            attempt < this.maxRetries
-        ) {
+        if (response.status === 429 || response.status >= 500) {
             const retryAfter = parseRetryAfter(
                 response.headers.get("retry-after"),
             );
-            await sleep(retryAfter ?? this.backoffMs(attempt));
-            return this.fetch<T>(path, attempt + 1);
+            if (response.status >= 500) {
+                this.endpoints.recordFailure(baseUrl);
+            }
+            if (retryAfter !== null) {
+                this.endpoints.deferFor(baseUrl, retryAfter);
+            } else if (response.status === 429) {
+                this.endpoints.release(baseUrl);
+            }
+            if (attempt < this.maxRetries) {
+                await sleep(
+                    this.retryDelayMs(
+                        attempt,
+                        retryAfter,
+                        this.endpoints.alternativeDelayMs(baseUrl),
+                    ),
+                );
+                return this.request<T>(path, signal, attempt + 1, baseUrl);
+            }
+        } else {
+            this.endpoints.recordSuccess(baseUrl);
         }
 
         if (!response.ok) {
             throw new HieroError(
                 `Mirror node returned ${response.status}: ${response.statusText}`,
                 {
-                    code: HieroErrorCodes.MirrorNodeHttpError,
+                    code:
+                        response.status === 404
+                            ? HieroErrorCodes.NotFound
+                            : HieroErrorCodes.MirrorNodeHttpError,
                     context: path,
                 },
             );
         }
-        return response.json() as Promise<T>;
+        return parseMirrorJson(await response.text()) as T;
+    }
+
+    /**
+     * Build the headers for one attempt. A failing header provider fails
+     * the request without touching the network.
+     */
+    private async resolveHeaders(
+        path: string,
+    ): Promise<Record<string, string>> {
+        const headers: Record<string, string> = {
+            Accept: "application/json",
+            ...(this.apiKey ? { [MIRROR_API_KEY_HEADER]: this.apiKey } : {}),
+        };
+        if (!this.headers) return headers;
+        try {
+            const extra =
+                typeof this.headers === "function"
+                    ? await this.headers()
+                    : this.headers;
+            return { ...headers, ...extra };
+        } catch (err) {
+            throw new HieroError("Failed to resolve mirror node headers", {
+                code: HieroErrorCodes.MirrorNodeError,
+                context: path,
+                cause: err instanceof Error ? err : undefined,
+            });
+        }
+    }
+
+    /**
+     * Delay before the next attempt: the endpoint's own `Retry-After` or
+     * backoff, cut short when another endpoint frees up sooner.
+     */
+    private retryDelayMs(
+        attempt: number,
+        retryAfterMs: number | null,
+        alternativeMs: number | null,
+    ): number {
+        const own = retryAfterMs ?? this.backoffMs(attempt);
+        return alternativeMs === null ? own : Math.min(own, alternativeMs);
     }
 
     private backoffMs(attempt: number): number {
@@ -167,39 +456,112 @@ export class MirrorNodeClient {
         return base + Math.floor(Math.random() * 100);
     }
 
+    // ─── Cache ───────────────────────────────────────────────────
+
+    /**
+     * Drop cached responses whose path starts with `pathPrefix`, or the
+     * whole cache when no prefix is given. Call this after a write that
+     * the cached data would otherwise hide, e.g. `invalidateCache(
+     * "/api/v1/tokens/0.0.1234")` after updating that token. A no-op when
+     * caching is disabled.
+     */
+    async invalidateCache(pathPrefix?: string): Promise<void> {
+        await this.cache?.invalidate(pathPrefix);
+    }
+
     // ─── Accounts ────────────────────────────────────────────────
 
     async queryAccount(accountId: string): Promise<MirrorAccountInfo> {
-        const raw = await this.fetch<MirrorAccountResponse>(
-            `/api/v1/accounts/${accountId}`,
-        );
-        assertAccountResponse(raw, `/api/v1/accounts/${accountId}`);
+        const path = mirrorPath`/api/v1/accounts/${accountId}`;
+        const raw = await this.fetch<MirrorAccountResponse>(path);
+        assertAccountResponse(raw, path);
         return convertAccountInfo(raw);
     }
 
     async queryAccountBalance(accountId: string): Promise<Balance> {
-        const raw = await this.fetch<MirrorAccountResponse>(
-            `/api/v1/accounts/${accountId}`,
-        );
-        assertAccountResponse(raw, `/api/v1/accounts/${accountId}`);
+        const path = mirrorPath`/api/v1/accounts/${accountId}`;
+        const raw = await this.fetch<MirrorAccountResponse>(path);
+        assertAccountResponse(raw, path);
         return convertBalance(accountId, raw);
     }
 
+    // ─── Balances ────────────────────────────────────────────────
+
+    async queryBalances(filter?: BalanceFilter): Promise<Page<Balance>> {
+        const path = withQuery("/api/v1/balances", balanceParams(filter));
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorAccountBalanceRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertAccountBalance);
+    }
+
+    /**
+     * Balance of an account in the most recent snapshot at or before
+     * `timestamp`.
+     *
+     * @throws {HieroError} `NOT_FOUND` if no snapshot includes the account
+     */
+    async queryAccountBalanceAt(
+        accountId: string,
+        timestamp: MirrorTimestamp,
+    ): Promise<Balance> {
+        const page = await this.queryBalances({
+            accountId,
+            timestamp: { lte: timestamp },
+            limit: 1,
+        });
+        if (page.data.length === 0) {
+            const at =
+                timestamp instanceof Date ? timestamp.toISOString() : timestamp;
+            throw new HieroError(
+                `No balance snapshot for ${accountId} at or before ${at}`,
+                { code: HieroErrorCodes.NotFound },
+            );
+        }
+        return page.data[0];
+    }
+
+    async queryTokenBalances(
+        tokenId: string,
+        filter?: BalanceFilter,
+    ): Promise<Page<TokenHolderBalance>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/tokens/${tokenId}/balances`,
+            balanceParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTokenHolderRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, (item, page) =>
+            convertTokenHolder(tokenId, item, page),
+        );
+    }
+
     // ─── NFTs ────────────────────────────────────────────────────
 
-    async queryNftsByAccount(accountId: string): Promise<Page<Nft>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(
-            `/api/v1/accounts/${accountId}/nfts`,
+    async queryNftsByAccount(
+        accountId: string,
+        filter?: NftFilter,
+    ): Promise<Page<Nft>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/accounts/${accountId}/nfts`,
+            nftParams(filter),
         );
-        assertPageResponse(raw, `/api/v1/accounts/${accountId}/nfts`);
+        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertNft);
     }
 
-    async queryNftsByTokenId(tokenId: string): Promise<Page<Nft>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(
-            `/api/v1/tokens/${tokenId}/nfts`,
+    async queryNftsByTokenId(
+        tokenId: string,
+        filter?: NftFilter,
+    ): Promise<Page<Nft>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/tokens/${tokenId}/nfts`,
+            nftParams(filter),
         );
-        assertPageResponse(raw, `/api/v1/tokens/${tokenId}/nfts`);
+        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertNft);
     }
 
@@ -207,60 +569,70 @@ export class MirrorNodeClient {
         tokenId: string,
         serialNumber: number,
     ): Promise<Nft> {
-        const raw = await this.fetch<MirrorNft>(
-            `/api/v1/tokens/${tokenId}/nfts/${serialNumber}`,
-        );
-        assertNftResponse(
-            raw,
-            `/api/v1/tokens/${tokenId}/nfts/${serialNumber}`,
-        );
+        const path = mirrorPath`/api/v1/tokens/${tokenId}/nfts/${serialNumber}`;
+        const raw = await this.fetch<MirrorNft>(path);
+        assertNftResponse(raw, path);
         return convertNft(raw);
     }
 
     async queryNftsByAccountAndTokenId(
         accountId: string,
         tokenId: string,
+        filter?: NftFilter,
     ): Promise<Page<Nft>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(
-            `/api/v1/accounts/${accountId}/nfts?token.id=${tokenId}`,
-        );
-        assertPageResponse(
-            raw,
-            `/api/v1/accounts/${accountId}/nfts?token.id=${tokenId}`,
-        );
+        const path = withQuery(mirrorPath`/api/v1/accounts/${accountId}/nfts`, [
+            { name: "token.id", value: tokenId },
+            ...nftParams(filter),
+        ]);
+        const raw = await this.fetch<MirrorPageResponse<MirrorNft>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertNft);
     }
 
     // ─── Tokens ──────────────────────────────────────────────────
 
     async queryTokenById(tokenId: string): Promise<MirrorTokenInfo> {
-        const raw = await this.fetch<MirrorTokenResponse>(
-            `/api/v1/tokens/${tokenId}`,
-        );
-        assertTokenResponse(raw, `/api/v1/tokens/${tokenId}`);
+        const path = mirrorPath`/api/v1/tokens/${tokenId}`;
+        const raw = await this.fetch<MirrorTokenResponse>(path);
+        assertTokenResponse(raw, path);
         return convertTokenInfo(raw);
     }
 
     async queryTokensByAccountId(
         accountId: string,
+        filter?: TokenFilter,
     ): Promise<Page<MirrorTokenInfo>> {
         // The mirror node exposes token relationships via balances
-        const raw = await this.fetch<MirrorPageResponse<MirrorTokenResponse>>(
-            `/api/v1/tokens?account.id=${accountId}`,
-        );
-        assertPageResponse(raw, `/api/v1/tokens?account.id=${accountId}`);
+        const path = withQuery("/api/v1/tokens", [
+            { name: "account.id", value: accountId },
+            ...tokenParams(filter),
+        ]);
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTokenResponse>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertTokenInfo);
     }
 
     // ─── Topics ──────────────────────────────────────────────────
 
+    async queryTopic(topicId: string): Promise<MirrorTopic> {
+        const path = mirrorPath`/api/v1/topics/${topicId}`;
+        const raw = await this.fetch<MirrorTopicResponse>(path);
+        assertTopicResponse(raw, path);
+        return convertTopic(raw);
+    }
+
     async queryTopicMessages(
         topicId: string,
+        filter?: TopicMessageFilter,
     ): Promise<Page<MirrorTopicMessage>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorTopicMessageRaw>>(
-            `/api/v1/topics/${topicId}/messages`,
+        const path = withQuery(
+            mirrorPath`/api/v1/topics/${topicId}/messages`,
+            topicMessageParams(filter),
         );
-        assertPageResponse(raw, `/api/v1/topics/${topicId}/messages`);
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTopicMessageRaw>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertTopicMessage);
     }
 
@@ -268,13 +640,9 @@ export class MirrorNodeClient {
         topicId: string,
         sequenceNumber: number,
     ): Promise<MirrorTopicMessage> {
-        const raw = await this.fetch<MirrorTopicMessageRaw>(
-            `/api/v1/topics/${topicId}/messages/${sequenceNumber}`,
-        );
-        assertTopicMessageResponse(
-            raw,
-            `/api/v1/topics/${topicId}/messages/${sequenceNumber}`,
-        );
+        const path = mirrorPath`/api/v1/topics/${topicId}/messages/${sequenceNumber}`;
+        const raw = await this.fetch<MirrorTopicMessageRaw>(path);
+        assertTopicMessageResponse(raw, path);
         return convertTopicMessage(raw);
     }
 
@@ -282,48 +650,195 @@ export class MirrorNodeClient {
 
     async queryTransactionsByAccount(
         accountId: string,
+        filter?: TransactionFilter,
     ): Promise<Page<TransactionInfo>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorTransaction>>(
-            `/api/v1/transactions?account.id=${accountId}`,
-        );
-        assertPageResponse(raw, `/api/v1/transactions?account.id=${accountId}`);
+        const path = withQuery("/api/v1/transactions", [
+            { name: "account.id", value: accountId },
+            ...transactionParams(filter),
+        ]);
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTransaction>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertTransactionInfo);
     }
 
     async queryTransactionsByAccountAndType(
         accountId: string,
         type: string,
+        filter?: TransactionFilter,
     ): Promise<Page<TransactionInfo>> {
-        const raw = await this.fetch<MirrorPageResponse<MirrorTransaction>>(
-            `/api/v1/transactions?account.id=${accountId}&transactiontype=${type}`,
-        );
-        assertPageResponse(
-            raw,
-            `/api/v1/transactions?account.id=${accountId}&transactiontype=${type}`,
-        );
+        const path = withQuery("/api/v1/transactions", [
+            { name: "account.id", value: accountId },
+            { name: "transactiontype", value: type },
+            ...transactionParams(filter),
+        ]);
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTransaction>>(path);
+        assertPageResponse(raw, path);
         return convertPage(raw, convertTransactionInfo);
     }
 
     async queryTransaction(transactionId: string): Promise<TransactionInfo> {
-        const raw = await this.fetch<MirrorTransactionListResponse>(
-            `/api/v1/transactions/${transactionId}`,
-        );
-        assertTransactionListResponse(
-            raw,
-            `/api/v1/transactions/${transactionId}`,
-        );
+        const path = mirrorPath`/api/v1/transactions/${transactionId}`;
+        const raw = await this.fetch<MirrorTransactionListResponse>(path);
+        assertTransactionListResponse(raw, path);
         if (!raw.transactions || raw.transactions.length === 0) {
             throw new HieroError(`Transaction not found: ${transactionId}`, {
                 code: HieroErrorCodes.NotFound,
             });
         }
-        assertTransactionResponse(
-            raw.transactions[0],
-            `/api/v1/transactions/${transactionId}`,
-        );
+        assertTransactionResponse(raw.transactions[0], path);
         return convertTransactionInfo(raw.transactions[0]);
     }
 
+    // ─── Contracts ───────────────────────────────────────────────
+
+    async queryContracts(
+        filter?: ContractFilter,
+    ): Promise<Page<MirrorContractInfo>> {
+        const path = withQuery("/api/v1/contracts", contractParams(filter));
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorContractResponse>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertContractInfo);
+    }
+
+    /**
+     * @param contractId - Contract ID (`0.0.x`) or EVM address
+     */
+    async queryContract(contractId: string): Promise<MirrorContractInfo> {
+        const path = mirrorPath`/api/v1/contracts/${contractId}`;
+        const raw = await this.fetch<MirrorContractResponse>(path);
+        assertContractResponse(raw, path);
+        return convertContractInfo(raw);
+    }
+
+    async queryContractResults(
+        contractId: string,
+        filter?: ContractResultFilter,
+    ): Promise<Page<MirrorContractResult>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/contracts/${contractId}/results`,
+            contractResultParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorContractResultRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertContractResult);
+    }
+
+    /**
+     * @param transactionIdOrHash - Transaction ID or 32-byte Ethereum
+     *   transaction hash
+     */
+    async queryContractResult(
+        transactionIdOrHash: string,
+    ): Promise<MirrorContractResult> {
+        const path = mirrorPath`/api/v1/contracts/results/${transactionIdOrHash}`;
+        const raw = await this.fetch<MirrorContractResultRaw>(path);
+        assertContractResultResponse(raw, path);
+        return convertContractResult(raw);
+    }
+
+    async queryContractState(
+        contractId: string,
+        filter?: ContractStateFilter,
+    ): Promise<Page<MirrorContractStateEntry>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/contracts/${contractId}/state`,
+            contractStateParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorContractStateRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertContractState);
+    }
+
+    // ─── Schedules ───────────────────────────────────────────────
+
+    async querySchedules(
+        filter?: ScheduleFilter,
+    ): Promise<Page<MirrorSchedule>> {
+        const path = withQuery("/api/v1/schedules", scheduleParams(filter));
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorScheduleResponse>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertSchedule);
+    }
+
+    async querySchedule(scheduleId: string): Promise<MirrorSchedule> {
+        const path = mirrorPath`/api/v1/schedules/${scheduleId}`;
+        const raw = await this.fetch<MirrorScheduleResponse>(path);
+        assertScheduleResponse(raw, path);
+        return convertSchedule(raw);
+    }
+
+    // ─── Blocks ──────────────────────────────────────────────────
+
+    async queryBlocks(filter?: BlockFilter): Promise<Page<MirrorBlock>> {
+        const path = withQuery("/api/v1/blocks", blockParams(filter));
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorBlockResponse>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertBlock);
+    }
+
+    /**
+     * @param hashOrNumber - Block hash or block number
+     */
+    async queryBlock(hashOrNumber: string | number): Promise<MirrorBlock> {
+        const path = mirrorPath`/api/v1/blocks/${hashOrNumber}`;
+        const raw = await this.fetch<MirrorBlockResponse>(path);
+        assertBlockResponse(raw, path);
+        return convertBlock(raw);
+    }
+
+    // ─── Allowances ──────────────────────────────────────────────
+
+    async queryCryptoAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorCryptoAllowance>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/accounts/${accountId}/allowances/crypto`,
+            allowanceParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorCryptoAllowanceRaw>>(
+                path,
+            );
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertCryptoAllowance);
+    }
+
+    async queryTokenAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorTokenAllowance>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/accounts/${accountId}/allowances/tokens`,
+            allowanceParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorTokenAllowanceRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertTokenAllowance);
+    }
+
+    async queryNftAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorNftAllowance>> {
+        const path = withQuery(
+            mirrorPath`/api/v1/accounts/${accountId}/allowances/nfts`,
+            allowanceParams(filter),
+        );
+        const raw =
+            await this.fetch<MirrorPageResponse<MirrorNftAllowanceRaw>>(path);
+        assertPageResponse(raw, path);
+        return convertPage(raw, convertNftAllowance);
+    }
+
     // ─── Network ─────────────────────────────────────────────────
 
     async queryExchangeRates(): Promise<ExchangeRates> {
@@ -370,4 +885,294 @@ export class MirrorNodeClient {
         assertPageResponse(raw, nextLink);
         return convertPage(raw, converter);
     }
+
+    /**
+     * Walk a paged endpoint item by item, following `links.next` until the
+     * mirror node runs out of pages or a cap in `options` is reached.
+     *
+     * Pages are fetched lazily — the next request is only issued once the
+     * consumer has drained the current page — so breaking out of a
+     * `for await` loop stops any further HTTP traffic. Aborting
+     * `options.signal` cancels the in-flight request and rejects the
+     * iterator with a `HieroErrorCodes.Aborted` error.
+     *
+     * @param path - Path (and query string) of the first page
+     * @param converter - Maps each raw item (and its page, for page-level
+     *   fields such as a snapshot timestamp) to its public model
+     * @param options - Item/page caps and abort signal
+     */
+    async *paginate<TRaw, T>(
+        path: string,
+        converter: (raw: TRaw, page: MirrorPageResponse<TRaw>) => T,
+        options: PaginationOptions = {},
+    ): AsyncGenerator<T, void, undefined> {
+        const { maxItems, maxPages, signal } = options;
+        let next: string | null = path;
+        let pages = 0;
+        let items = 0;
+
+        while (next !== null) {
+            if (maxPages !== undefined && pages >= maxPages) return;
+            // Stop before fetching a page none of whose items would be used
+            if (maxItems !== undefined && items >= maxItems) return;
+
+            const raw: MirrorPageResponse<TRaw> = await this.fetch<
+                MirrorPageResponse<TRaw>
+            >(next, signal);
+            assertPageResponse(raw, next);
+            const page = convertPage(raw, converter);
+            pages++;
+
+            for (const item of page.data) {
+                if (maxItems !== undefined && items >= maxItems) return;
+                yield item;
+                items++;
+            }
+
+            next = page.links.next;
+        }
+    }
+
+    /** Walk every NFT owned by an account. */
+    paginateNftsByAccount(
+        accountId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncGenerator<Nft, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/accounts/${accountId}/nfts`,
+                nftParams(options),
+            ),
+            convertNft,
+            options,
+        );
+    }
+
+    /** Walk every NFT serial of a token. */
+    paginateNftsByTokenId(
+        tokenId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncGenerator<Nft, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/tokens/${tokenId}/nfts`,
+                nftParams(options),
+            ),
+            convertNft,
+            options,
+        );
+    }
+
+    /** Walk every NFT of a given token owned by an account. */
+    paginateNftsByAccountAndTokenId(
+        accountId: string,
+        tokenId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncGenerator<Nft, void, undefined> {
+        return this.paginate(
+            withQuery(mirrorPath`/api/v1/accounts/${accountId}/nfts`, [
+                { name: "token.id", value: tokenId },
+                ...nftParams(options),
+            ]),
+            convertNft,
+            options,
+        );
+    }
+
+    /** Walk every token associated with an account. */
+    paginateTokensByAccountId(
+        accountId: string,
+        options?: TokenFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorTokenInfo, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/tokens", [
+                { name: "account.id", value: accountId },
+                ...tokenParams(options),
+            ]),
+            convertTokenInfo,
+            options,
+        );
+    }
+
+    /** Walk every message submitted to a topic. */
+    paginateTopicMessages(
+        topicId: string,
+        options?: TopicMessageFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorTopicMessage, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/topics/${topicId}/messages`,
+                topicMessageParams(options),
+            ),
+            convertTopicMessage,
+            options,
+        );
+    }
+
+    /** Walk every transaction involving an account. */
+    paginateTransactionsByAccount(
+        accountId: string,
+        options?: TransactionFilter & PaginationOptions,
+    ): AsyncGenerator<TransactionInfo, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/transactions", [
+                { name: "account.id", value: accountId },
+                ...transactionParams(options),
+            ]),
+            convertTransactionInfo,
+            options,
+        );
+    }
+
+    /** Walk every transaction of a given type involving an account. */
+    paginateTransactionsByAccountAndType(
+        accountId: string,
+        type: string,
+        options?: TransactionFilter & PaginationOptions,
+    ): AsyncGenerator<TransactionInfo, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/transactions", [
+                { name: "account.id", value: accountId },
+                { name: "transactiontype", value: type },
+                ...transactionParams(options),
+            ]),
+            convertTransactionInfo,
+            options,
+        );
+    }
+
+    /** Walk every contract known to the mirror node. */
+    paginateContracts(
+        options?: ContractFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorContractInfo, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/contracts", contractParams(options)),
+            convertContractInfo,
+            options,
+        );
+    }
+
+    /** Walk every call result of a contract. */
+    paginateContractResults(
+        contractId: string,
+        options?: ContractResultFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorContractResult, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/contracts/${contractId}/results`,
+                contractResultParams(options),
+            ),
+            convertContractResult,
+            options,
+        );
+    }
+
+    /** Walk every storage slot of a contract. */
+    paginateContractState(
+        contractId: string,
+        options?: ContractStateFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorContractStateEntry, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/contracts/${contractId}/state`,
+                contractStateParams(options),
+            ),
+            convertContractState,
+            options,
+        );
+    }
+
+    /** Walk every scheduled transaction. */
+    paginateSchedules(
+        options?: ScheduleFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorSchedule, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/schedules", scheduleParams(options)),
+            convertSchedule,
+            options,
+        );
+    }
+
+    /** Walk every block. */
+    paginateBlocks(
+        options?: BlockFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorBlock, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/blocks", blockParams(options)),
+            convertBlock,
+            options,
+        );
+    }
+
+    /** Walk every HBAR allowance granted by an account. */
+    paginateCryptoAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorCryptoAllowance, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/accounts/${accountId}/allowances/crypto`,
+                allowanceParams(options),
+            ),
+            convertCryptoAllowance,
+            options,
+        );
+    }
+
+    /** Walk every fungible token allowance granted by an account. */
+    paginateTokenAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorTokenAllowance, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/accounts/${accountId}/allowances/tokens`,
+                allowanceParams(options),
+            ),
+            convertTokenAllowance,
+            options,
+        );
+    }
+
+    /** Walk every NFT allowance granted by an account. */
+    paginateNftAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncGenerator<MirrorNftAllowance, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/accounts/${accountId}/allowances/nfts`,
+                allowanceParams(options),
+            ),
+            convertNftAllowance,
+            options,
+        );
+    }
+
+    /** Walk every account balance in a snapshot. */
+    paginateBalances(
+        options?: BalanceFilter & PaginationOptions,
+    ): AsyncGenerator<Balance, void, undefined> {
+        return this.paginate(
+            withQuery("/api/v1/balances", balanceParams(options)),
+            convertAccountBalance,
+            options,
+        );
+    }
+
+    /** Walk every holder of a token in a snapshot. */
+    paginateTokenBalances(
+        tokenId: string,
+        options?: BalanceFilter & PaginationOptions,
+    ): AsyncGenerator<TokenHolderBalance, void, undefined> {
+        return this.paginate(
+            withQuery(
+                mirrorPath`/api/v1/tokens/${tokenId}/balances`,
+                balanceParams(options),
+            ),
+            (item: MirrorTokenHolderRaw, page) =>
+                convertTokenHolder(tokenId, item, page),
+            options,
+        );
+    }
 }
@@ -13,6 +13,8 @@ import type {
     ExchangeRate,
     NetworkStake,
     Page,
+    MirrorKey,
+    MirrorKeyRaw,
     MirrorCustomFee,
     MirrorFixedFee,
     MirrorFractionalFee,
@@ -29,13 +31,57 @@ import type {
     MirrorStakingRewardTransfer,
     MirrorExchangeRate,
     MirrorNetworkStakeResponse,
+    MirrorTopic,
+    MirrorTopicResponse,
+    MirrorContractInfo,
+    MirrorContractResponse,
+    MirrorContractResult,
+    MirrorContractResultRaw,
+    MirrorContractLog,
+    MirrorContractLogRaw,
+    MirrorContractStateEntry,
+    MirrorContractStateRaw,
+    MirrorSchedule,
+    MirrorScheduleResponse,
+    MirrorBlock,
+    MirrorBlockResponse,
+    MirrorCryptoAllowance,
+    MirrorCryptoAllowanceRaw,
+    MirrorTokenAllowance,
+    MirrorTokenAllowanceRaw,
+    MirrorNftAllowance,
+    MirrorNftAllowanceRaw,
+    MirrorAccountBalanceRaw,
+    MirrorTokenHolderRaw,
+    TokenHolderBalance,
 } from "../types/index.js";
+import { convertMirrorKey } from "./mirror-node-keys.js";
+
+// ─── JSON ────────────────────────────────────────────────────────
+
+/** A `"balance"` member whose value is an integer of 16 or more digits */
+const LARGE_BALANCE = /("balance"\s*:\s*)(-?\d{16,})(?=\s*[,}\]])/g;
+
+/**
+ * Parse a mirror node response body. Balances beyond
+ * `Number.MAX_SAFE_INTEGER` — token amounts in the smallest unit easily
+ * are — are kept as strings instead of losing their last digits.
+ */
+export function parseMirrorJson(text: string): unknown {
+    return JSON.parse(
+        text.replace(LARGE_BALANCE, (match, member: string, digits: string) =>
+            Number.isSafeInteger(Number(digits))
+                ? match
+                : `${member}"${digits}"`,
+        ),
+    );
+}
 
 // ─── Page ────────────────────────────────────────────────────────
 
 export function convertPage<TRaw, TOut>(
     raw: MirrorPageResponse<TRaw>,
-    converter: (item: TRaw) => TOut,
+    converter: (item: TRaw, page: MirrorPageResponse<TRaw>) => TOut,
 ): Page<TOut> {
     // The mirror node returns arrays under different keys (nfts, tokens, messages, transactions).
     // Find the first array value that isn't 'links'.
@@ -44,11 +90,17 @@ export function convertPage<TRaw, TOut>(
     );
     const items = dataKey ? (raw[dataKey] as TRaw[]) : [];
     return {
-        data: items.map(converter),
+        data: items.map((item) => converter(item, raw)),
         links: { next: raw.links?.next ?? null },
     };
 }
 
+// ─── Keys ────────────────────────────────────────────────────────
+
+function keyTree(raw: MirrorKeyRaw | null | undefined): MirrorKey | undefined {
+    return raw ? convertMirrorKey(raw) : undefined;
+}
+
 // ─── Accounts ────────────────────────────────────────────────────
 
 export function convertAccountInfo(
@@ -56,18 +108,25 @@ export function convertAccountInfo(
 ): MirrorAccountInfo {
     return {
         accountId: raw.account,
+        alias: raw.alias ?? undefined,
         evmAddress: raw.evm_address,
         key: raw.key?.key,
-        balance: raw.balance?.balance ?? 0,
+        keyTree: keyTree(raw.key),
+        receiverSigRequired: raw.receiver_sig_required ?? undefined,
+        balance: Number(raw.balance?.balance ?? 0),
         deleted: raw.deleted ?? false,
         autoRenewPeriod: raw.auto_renew_period,
         memo: raw.memo,
         maxAutomaticTokenAssociations: raw.max_automatic_token_associations,
-        stakedAccountId: raw.staked_account_id,
-        stakedNodeId: raw.staked_node_id,
-        stakePeriodStart: raw.stake_period_start,
+        stakedAccountId: raw.staked_account_id ?? undefined,
+        stakedNodeId: raw.staked_node_id ?? undefined,
+        stakePeriodStart: raw.stake_period_start ?? undefined,
+        pendingReward: raw.pending_reward,
+        declineReward: raw.decline_reward,
+        ethereumNonce: raw.ethereum_nonce,
         createdTimestamp: raw.created_timestamp,
         expirationTimestamp: raw.expiry_timestamp,
+        transactions: raw.transactions?.map(convertTransactionInfo),
     };
 }
 
@@ -87,6 +146,45 @@ export function convertBalance(
     };
 }
 
+// ─── Balances ────────────────────────────────────────────────────
+
+function snapshotTimestamp(
+    page: MirrorPageResponse<unknown>,
+): string | undefined {
+    return typeof page["timestamp"] === "string"
+        ? page["timestamp"]
+        : undefined;
+}
+
+export function convertAccountBalance(
+    raw: MirrorAccountBalanceRaw,
+    page: MirrorPageResponse<MirrorAccountBalanceRaw>,
+): Balance {
+    return {
+        accountId: raw.account,
+        hbars: String(raw.balance),
+        tokens: (raw.tokens ?? []).map((t) => ({
+            tokenId: t.token_id,
+            balance: String(t.balance),
+        })),
+        timestamp: snapshotTimestamp(page),
+    };
+}
+
+export function convertTokenHolder(
+    tokenId: string,
+    raw: MirrorTokenHolderRaw,
+    page: MirrorPageResponse<MirrorTokenHolderRaw>,
+): TokenHolderBalance {
+    return {
+        accountId: raw.account,
+        tokenId,
+        balance: String(raw.balance),
+        decimals: raw.decimals,
+        timestamp: snapshotTimestamp(page),
+    };
+}
+
 // ─── NFTs ────────────────────────────────────────────────────────
 
 export function convertNft(raw: MirrorNft): Nft {
@@ -165,6 +263,15 @@ export function convertTokenInfo(raw: MirrorTokenResponse): MirrorTokenInfo {
         kycKey: raw.kyc_key?.key,
         pauseKey: raw.pause_key?.key,
         feeScheduleKey: raw.fee_schedule_key?.key,
+        metadataKey: raw.metadata_key?.key,
+        adminKeyTree: keyTree(raw.admin_key),
+        supplyKeyTree: keyTree(raw.supply_key),
+        freezeKeyTree: keyTree(raw.freeze_key),
+        wipeKeyTree: keyTree(raw.wipe_key),
+        kycKeyTree: keyTree(raw.kyc_key),
+        pauseKeyTree: keyTree(raw.pause_key),
+        feeScheduleKeyTree: keyTree(raw.fee_schedule_key),
+        metadataKeyTree: keyTree(raw.metadata_key),
         deleted: raw.deleted,
         paused: raw.pause_status === "PAUSED",
         customFees,
@@ -186,6 +293,28 @@ export function convertTopicMessage(
         runningHash: raw.running_hash,
         consensusTimestamp: raw.consensus_timestamp,
         payerAccountId: raw.payer_account_id,
+        chunkInfo: raw.chunk_info
+            ? {
+                  initialTransactionId: `${raw.chunk_info.initial_transaction_id.account_id}@${raw.chunk_info.initial_transaction_id.transaction_valid_start}`,
+                  number: raw.chunk_info.number,
+                  total: raw.chunk_info.total,
+              }
+            : undefined,
+    };
+}
+
+export function convertTopic(raw: MirrorTopicResponse): MirrorTopic {
+    return {
+        topicId: raw.topic_id,
+        memo: raw.memo,
+        adminKey: raw.admin_key?.key,
+        submitKey: raw.submit_key?.key,
+        adminKeyTree: keyTree(raw.admin_key),
+        submitKeyTree: keyTree(raw.submit_key),
+        autoRenewAccount: raw.auto_renew_account ?? undefined,
+        autoRenewPeriod: raw.auto_renew_period ?? undefined,
+        createdTimestamp: raw.created_timestamp ?? undefined,
+        deleted: raw.deleted,
     };
 }
 
@@ -247,6 +376,156 @@ function convertStakingRewardTransfer(
     };
 }
 
+// ─── Contracts ───────────────────────────────────────────────────
+
+export function convertContractInfo(
+    raw: MirrorContractResponse,
+): MirrorContractInfo {
+    return {
+        contractId: raw.contract_id,
+        evmAddress: raw.evm_address,
+        adminKey: raw.admin_key?.key,
+        adminKeyTree: keyTree(raw.admin_key),
+        autoRenewAccount: raw.auto_renew_account ?? undefined,
+        autoRenewPeriod: raw.auto_renew_period ?? undefined,
+        fileId: raw.file_id ?? undefined,
+        memo: raw.memo,
+        maxAutomaticTokenAssociations: raw.max_automatic_token_associations,
+        nonce: raw.nonce ?? undefined,
+        obtainerId: raw.obtainer_id ?? undefined,
+        createdTimestamp: raw.created_timestamp ?? undefined,
+        expirationTimestamp: raw.expiration_timestamp ?? undefined,
+        deleted: raw.deleted,
+        runtimeBytecode: raw.runtime_bytecode ?? undefined,
+    };
+}
+
+export function convertContractResult(
+    raw: MirrorContractResultRaw,
+): MirrorContractResult {
+    return {
+        contractId: raw.contract_id,
+        timestamp: raw.timestamp,
+        hash: raw.hash,
+        from: raw.from,
+        to: raw.to ?? undefined,
+        amount: String(raw.amount ?? 0),
+        gasLimit: raw.gas_limit,
+        gasUsed: raw.gas_used,
+        result: raw.result,
+        status: raw.status,
+        successful: raw.result === "SUCCESS",
+        callResult: raw.call_result ?? undefined,
+        errorMessage: raw.error_message ?? undefined,
+        functionParameters: raw.function_parameters,
+        createdContractIds: raw.created_contract_ids ?? [],
+        blockNumber: raw.block_number,
+        blockHash: raw.block_hash,
+        logs: (raw.logs ?? []).map(convertContractLog),
+    };
+}
+
+function convertContractLog(raw: MirrorContractLogRaw): MirrorContractLog {
+    return {
+        address: raw.address,
+        contractId: raw.contract_id,
+        data: raw.data ?? "0x",
+        index: raw.index,
+        topics: raw.topics ?? [],
+    };
+}
+
+export function convertContractState(
+    raw: MirrorContractStateRaw,
+): MirrorContractStateEntry {
+    return {
+        contractId: raw.contract_id,
+        address: raw.address,
+        slot: raw.slot,
+        value: raw.value,
+        timestamp: raw.timestamp,
+    };
+}
+
+// ─── Schedules ───────────────────────────────────────────────────
+
+export function convertSchedule(raw: MirrorScheduleResponse): MirrorSchedule {
+    return {
+        scheduleId: raw.schedule_id,
+        creatorAccountId: raw.creator_account_id,
+        payerAccountId: raw.payer_account_id,
+        adminKey: raw.admin_key?.key,
+        adminKeyTree: keyTree(raw.admin_key),
+        memo: raw.memo,
+        consensusTimestamp: raw.consensus_timestamp,
+        executedTimestamp: raw.executed_timestamp ?? undefined,
+        expirationTime: raw.expiration_time ?? undefined,
+        waitForExpiry: raw.wait_for_expiry ?? false,
+        deleted: raw.deleted,
+        executed: raw.executed_timestamp != null,
+        transactionBody: raw.transaction_body,
+        signatures: (raw.signatures ?? []).map((sig) => ({
+            consensusTimestamp: sig.consensus_timestamp,
+            publicKeyPrefix: sig.public_key_prefix,
+            signature: sig.signature,
+            type: sig.type,
+        })),
+    };
+}
+
+// ─── Blocks ──────────────────────────────────────────────────────
+
+export function convertBlock(raw: MirrorBlockResponse): MirrorBlock {
+    return {
+        number: raw.number,
+        hash: raw.hash,
+        previousHash: raw.previous_hash,
+        name: raw.name,
+        count: raw.count,
+        hapiVersion: raw.hapi_version,
+        gasUsed: raw.gas_used ?? 0,
+        logsBloom: raw.logs_bloom ?? undefined,
+        size: raw.size ?? undefined,
+        timestampFrom: raw.timestamp.from,
+        timestampTo: raw.timestamp.to ?? raw.timestamp.from,
+    };
+}
+
+// ─── Allowances ──────────────────────────────────────────────────
+
+export function convertCryptoAllowance(
+    raw: MirrorCryptoAllowanceRaw,
+): MirrorCryptoAllowance {
+    return {
+        owner: raw.owner,
+        spender: raw.spender,
+        amount: String(raw.amount),
+        amountGranted: String(raw.amount_granted),
+        timestamp: raw.timestamp.from,
+    };
+}
+
+export function convertTokenAllowance(
+    raw: MirrorTokenAllowanceRaw,
+): MirrorTokenAllowance {
+    return {
+        ...convertCryptoAllowance(raw),
+        tokenId: raw.token_id,
+    };
+}
+
+export function convertNftAllowance(
+    raw: MirrorNftAllowanceRaw,
+): MirrorNftAllowance {
+    return {
+        owner: raw.owner,
+        spender: raw.spender,
+        tokenId: raw.token_id,
+        approvedForAll: raw.approved_for_all,
+        timestamp: raw.timestamp.from,
+    };
+}
+
 // ─── Network ─────────────────────────────────────────────────────
 
 export function convertExchangeRate(raw: MirrorExchangeRate): ExchangeRate {
@@ -0,0 +1,197 @@
+/**
+ * Circuit breaker state of a single mirror node endpoint.
+ *
+ * - `closed` — healthy, receives traffic.
+ * - `open` — failed repeatedly, skipped until the cooldown elapses.
+ * - `half-open` — cooldown elapsed, a single probe request is in flight;
+ *   success closes the breaker, failure re-opens it.
+ */
+export type MirrorEndpointState = "closed" | "open" | "half-open";
+
+/**
+ * Diagnostic snapshot of a mirror node endpoint.
+ */
+export interface MirrorEndpointStatus {
+    /** Base URL of the endpoint */
+    url: string;
+    /** Circuit breaker state */
+    state: MirrorEndpointState;
+    /** Failures since the last success */
+    consecutiveFailures: number;
+    /** Epoch ms at which the breaker last opened, if open or half-open */
+    openedAt?: number;
+    /** Epoch ms until which a `Retry-After` response asked us to back off */
+    retryAfterUntil?: number;
+}
+
+/**
+ * Circuit breaker tuning for mirror node failover.
+ */
+export interface MirrorCircuitBreakerOptions {
+    /** Consecutive 5xx/timeout/network failures that open the breaker (default: 3) */
+    failureThreshold?: number;
+    /** Time an open breaker waits before a half-open probe (default: 30000) */
+    cooldownMs?: number;
+}
+
+interface Endpoint {
+    url: string;
+    state: MirrorEndpointState;
+    consecutiveFailures: number;
+    openedAt: number;
+    retryAfterUntil: number;
+}
+
+/**
+ * Ordered set of mirror node base URLs with per-endpoint health tracking.
+ *
+ * Requests go to the first endpoint, in configuration order, that is
+ * available: its breaker is closed (or due for a half-open probe) and it
+ * is not inside a `Retry-After` window. Probes are passive — once an open
+ * endpoint's cooldown elapses, the next request that would prefer it is
+ * sent there — so a recovered primary is picked back up without a timer.
+ */
+export class MirrorEndpointPool {
+    private readonly endpoints: Endpoint[];
+    private readonly failureThreshold: number;
+    private readonly cooldownMs: number;
+    private lastUsed: Endpoint;
+
+    constructor(
+        urls: readonly string[],
+        options: MirrorCircuitBreakerOptions = {},
+    ) {
+        this.endpoints = urls.map((url) => ({
+            url,
+            state: "closed",
+            consecutiveFailures: 0,
+            openedAt: 0,
+            retryAfterUntil: 0,
+        }));
+        this.failureThreshold = options.failureThreshold ?? 3;
+        this.cooldownMs = options.cooldownMs ?? 30_000;
+        this.lastUsed = this.endpoints[0];
+    }
+
+    /** Base URL of the endpoint that served (or is serving) the last request. */
+    get active(): string {
+        return this.lastUsed.url;
+    }
+
+    /**
+     * Pick the endpoint for the next request. A retry passes the endpoint
+     * that just failed as `avoid` so it moves on even while that endpoint's
+     * breaker is still closed. Falls back to the endpoint that becomes
+     * available soonest when none is available right now.
+     */
+    select(avoid?: string): string {
+        const now = Date.now();
+        const endpoint =
+            this.endpoints.find(
+                (e) => e.url !== avoid && this.isAvailable(e, now),
+            ) ??
+            this.endpoints.find((e) => this.isAvailable(e, now)) ??
+            this.soonestAvailable(now);
+        if (endpoint.state === "open") {
+            endpoint.state = "half-open";
+        }
+        this.lastUsed = endpoint;
+        return endpoint.url;
+    }
+
+    /**
+     * Milliseconds until any endpoint other than `url` can take a request
+     * (0 when one is available now), or `null` for a single-endpoint pool.
+     */
+    alternativeDelayMs(url: string): number | null {
+        const now = Date.now();
+        const others = this.endpoints.filter((e) => e.url !== url);
+        if (others.length === 0) return null;
+        return Math.min(...others.map((e) => this.availableInMs(e, now)));
+    }
+
+    recordSuccess(url: string): void {
+        const endpoint = this.find(url);
+        endpoint.state = "closed";
+        endpoint.consecutiveFailures = 0;
+    }
+
+    recordFailure(url: string): void {
+        const endpoint = this.find(url);
+        endpoint.consecutiveFailures++;
+        if (
+            endpoint.state === "half-open" ||
+            endpoint.consecutiveFailures >= this.failureThreshold
+        ) {
+            endpoint.state = "open";
+            endpoint.openedAt = Date.now();
+        }
+    }
+
+    /**
+     * Forget an attempt that ended without a verdict (e.g. the caller
+     * aborted), so a half-open endpoint becomes eligible for a new probe.
+     */
+    release(url: string): void {
+        const endpoint = this.find(url);
+        if (endpoint.state === "half-open") {
+            endpoint.state = "open";
+        }
+    }
+
+    /** Keep `url` out of rotation for `ms` after a `Retry-After` response. */
+    deferFor(url: string, ms: number): void {
+        const endpoint = this.find(url);
+        endpoint.retryAfterUntil = Date.now() + ms;
+        if (endpoint.state === "half-open") {
+            // The probe got an answer, just not a useful one — try again later.
+            endpoint.state = "open";
+            endpoint.openedAt = Date.now();
+        }
+    }
+
+    status(): MirrorEndpointStatus[] {
+        const now = Date.now();
+        return this.endpoints.map((e) => ({
+            url: e.url,
+            state: e.state,
+            consecutiveFailures: e.consecutiveFailures,
+            openedAt: e.state === "closed" ? undefined : e.openedAt,
+            retryAfterUntil:
+                e.retryAfterUntil > now ? e.retryAfterUntil : undefined,
+        }));
+    }
+
+    private isAvailable(endpoint: Endpoint, now: number): boolean {
+        return this.availableInMs(endpoint, now) === 0;
+    }
+
+    private availableInMs(endpoint: Endpoint, now: number): number {
+        const retryAfter = Math.max(0, endpoint.retryAfterUntil - now);
+        switch (endpoint.state) {
+            case "closed":
+                return retryAfter;
+            case "open":
+                return Math.max(
+                    retryAfter,
+                    endpoint.openedAt + this.cooldownMs - now,
+                    0,
+                );
+            case "half-open":
+                // A probe is already in flight; wait for its verdict.
+                return Math.max(retryAfter, this.cooldownMs);
+        }
+    }
+
+    private soonestAvailable(now: number): Endpoint {
+        return this.endpoints.reduce((best, e) =>
+            this.availableInMs(e, now) < this.availableInMs(best, now)
+                ? e
+                : best,
+        );
+    }
+
+    private find(url: string): Endpoint {
+        return this.endpoints.find((e) => e.url === url) ?? this.endpoints[0];
+    }
+}
@@ -0,0 +1,216 @@
+import type { MirrorKey } from "../types/index.js";
+
+/** Keys nested deeper than this are treated as malformed */
+const MAX_KEY_DEPTH = 32;
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal protobuf wire-format reader — just enough to walk the `Key`,
+ * `KeyList`, `ThresholdKey` and `ContractID` messages.
+ */
+class ProtoReader {
+    private pos = 0;
+
+    constructor(private readonly bytes: Uint8Array) {}
+
+    get done(): boolean {
+        return this.pos >= this.bytes.length;
+    }
+
+    tag(): { field: number; wireType: number } {
+        const tag = this.varint();
+        return { field: Math.floor(tag / 8), wireType: tag % 8 };
+    }
+
+    varint(): number {
+        let result = 0;
+        let scale = 1;
+        for (let i = 0; i < 10; i++) {
+            const byte = this.byte();
+            result += (byte & 0x7f) * scale;
+            if (byte < 0x80) return result;
+            scale *= 128;
+        }
+        throw new Error("Malformed varint");
+    }
+
+    lengthDelimited(): Uint8Array {
+        const length = this.varint();
+        if (this.pos + length > this.bytes.length) {
+            throw new Error("Truncated field");
+        }
+        const value = this.bytes.subarray(this.pos, this.pos + length);
+        this.pos += length;
+        return value;
+    }
+
+    skip(wireType: number): void {
+        switch (wireType) {
+            case WIRE_VARINT:
+                this.varint();
+                return;
+            case WIRE_FIXED64:
+                this.advance(8);
+                return;
+            case WIRE_LENGTH_DELIMITED:
+                this.lengthDelimited();
+                return;
+            case WIRE_FIXED32:
+                this.advance(4);
+                return;
+            default:
+                throw new Error(`Unsupported wire type ${wireType}`);
+        }
+    }
+
+    private byte(): number {
+        if (this.done) throw new Error("Truncated varint");
+        return this.bytes[this.pos++];
+    }
+
+    private advance(count: number): void {
+        if (this.pos + count > this.bytes.length) {
+            throw new Error("Truncated field");
+        }
+        this.pos += count;
+    }
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("hex");
+}
+
+function decodeContractId(bytes: Uint8Array): string {
+    const reader = new ProtoReader(bytes);
+    let shard = 0;
+    let realm = 0;
+    let num: string = "0";
+    while (!reader.done) {
+        const { field, wireType } = reader.tag();
+        if (field === 1 && wireType === WIRE_VARINT) {
+            shard = reader.varint();
+        } else if (field === 2 && wireType === WIRE_VARINT) {
+            realm = reader.varint();
+        } else if (field === 3 && wireType === WIRE_VARINT) {
+            num = String(reader.varint());
+        } else if (field === 4 && wireType === WIRE_LENGTH_DELIMITED) {
+            num = toHex(reader.lengthDelimited());
+        } else {
+            reader.skip(wireType);
+        }
+    }
+    return `${shard}.${realm}.${num}`;
+}
+
+function decodeKeyList(bytes: Uint8Array, depth: number): MirrorKey[] {
+    const reader = new ProtoReader(bytes);
+    const keys: MirrorKey[] = [];
+    while (!reader.done) {
+        const { field, wireType } = reader.tag();
+        if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+            keys.push(decodeKey(reader.lengthDelimited(), depth + 1));
+        } else {
+            reader.skip(wireType);
+        }
+    }
+    return keys;
+}
+
+function decodeThresholdKey(bytes: Uint8Array, depth: number): MirrorKey {
+    const reader = new ProtoReader(bytes);
+    let threshold = 0;
+    let keys: MirrorKey[] = [];
+    while (!reader.done) {
+        const { field, wireType } = reader.tag();
+        if (field === 1 && wireType === WIRE_VARINT) {
+            threshold = reader.varint();
+        } else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+            keys = decodeKeyList(reader.lengthDelimited(), depth);
+        } else {
+            reader.skip(wireType);
+        }
+    }
+    return { type: "threshold", threshold, keys };
+}
+
+function decodeKey(bytes: Uint8Array, depth: number): MirrorKey {
+    if (depth > MAX_KEY_DEPTH) {
+        throw new Error("Key nested too deeply");
+    }
+    const reader = new ProtoReader(bytes);
+    let key: MirrorKey | undefined;
+    while (!reader.done) {
+        const { field, wireType } = reader.tag();
+        if (wireType !== WIRE_LENGTH_DELIMITED) {
+            reader.skip(wireType);
+            continue;
+        }
+        const value = reader.lengthDelimited();
+        switch (field) {
+            case 1:
+                key = { type: "contract", contractId: decodeContractId(value) };
+                break;
+            case 2:
+                key = { type: "ed25519", key: toHex(value) };
+                break;
+            case 5:
+                key = decodeThresholdKey(value, depth);
+                break;
+            case 6:
+                key = { type: "keyList", keys: decodeKeyList(value, depth) };
+                break;
+            case 7:
+                key = { type: "ecdsaSecp256k1", key: toHex(value) };
+                break;
+            case 8:
+                key = {
+                    type: "delegatableContract",
+                    contractId: decodeContractId(value),
+                };
+                break;
+            default:
+                // RSA_3072 (3) and ECDSA_384 (4) are deprecated and unused
+                key = { type: "unknown", key: toHex(value) };
+        }
+    }
+    if (!key) throw new Error("Empty key");
+    return key;
+}
+
+/**
+ * Decode a protobuf-encoded `Key` into a {@link MirrorKey} tree.
+ *
+ * @throws {Error} If the bytes are not a well-formed `Key`
+ */
+export function decodeProtobufKey(bytes: Uint8Array): MirrorKey {
+    return decodeKey(bytes, 0);
+}
+
+/**
+ * Convert the mirror node's `{ _type, key }` key object. Simple keys are
+ * taken as is; `ProtobufEncoded` keys are decoded into their tree, falling
+ * back to `unknown` when they cannot be parsed.
+ */
+export function convertMirrorKey(raw: {
+    _type?: string;
+    key: string;
+}): MirrorKey {
+    switch (raw._type) {
+        case "ED25519":
+            return { type: "ed25519", key: raw.key };
+        case "ECDSA_SECP256K1":
+            return { type: "ecdsaSecp256k1", key: raw.key };
+        case "ProtobufEncoded":
+            try {
+                return decodeProtobufKey(Buffer.from(raw.key, "hex"));
+            } catch {
+                return { type: "unknown", key: raw.key };
+            }
+        default:
+            return { type: "unknown", key: raw.key };
+    }
+}
@@ -0,0 +1,301 @@
+import type {
+    AllowanceFilter,
+    BalanceFilter,
+    BlockFilter,
+    ContractFilter,
+    ContractResultFilter,
+    ContractStateFilter,
+    ListFilter,
+    MirrorTimestamp,
+    NftFilter,
+    RangeFilter,
+    ScheduleFilter,
+    TokenFilter,
+    TopicMessageFilter,
+    TransactionFilter,
+} from "../types/index.js";
+import { normalizeError } from "../errors/index.js";
+
+/**
+ * A single query-string parameter. `operator` is the mirror node comparison
+ * prefix (`gte`, `lt`, …) and is emitted verbatim; `name` and `value` are
+ * always percent-encoded.
+ */
+export interface QueryParam {
+    name: string;
+    value: string;
+    operator?: RangeOperator;
+}
+
+type RangeOperator = keyof RangeFilter<unknown>;
+
+const RANGE_OPERATORS: readonly RangeOperator[] = [
+    "eq",
+    "gt",
+    "gte",
+    "lt",
+    "lte",
+];
+
+const SECONDS_PATTERN = /^\d{1,19}$/;
+const NANOS_PATTERN = /^\d{1,9}$/;
+const MAX_LIMIT = 100;
+
+function invalid(message: string): never {
+    throw normalizeError(new Error(message), "MirrorNodeQuery");
+}
+
+/**
+ * Tagged template for mirror node paths. Every interpolated value is
+ * percent-encoded as a single path segment, so an id like `0.0.1/../x`
+ * cannot escape the intended route.
+ *
+ * @example
+ * ```ts
+ * mirrorPath`/api/v1/accounts/${accountId}/nfts`
+ * ```
+ */
+export function mirrorPath(
+    strings: TemplateStringsArray,
+    ...segments: ReadonlyArray<string | number>
+): string {
+    return strings.reduce(
+        (path, literal, i) =>
+            i === 0
+                ? literal
+                : `${path}${encodeURIComponent(String(segments[i - 1]))}${literal}`,
+        "",
+    );
+}
+
+/**
+ * Append `params` to `path` as a query string. Returns `path` unchanged
+ * when there are no parameters.
+ */
+export function withQuery(path: string, params: readonly QueryParam[]): string {
+    if (params.length === 0) return path;
+    const query = params
+        .map(({ name, value, operator }) => {
+            const prefix = operator ? `${operator}:` : "";
+            return `${encodeURIComponent(name)}=${prefix}${encodeURIComponent(value)}`;
+        })
+        .join("&");
+    return `${path}?${query}`;
+}
+
+function formatTimestamp(value: MirrorTimestamp, field: string): string {
+    if (value instanceof Date) {
+        const ms = value.getTime();
+        if (!Number.isFinite(ms) || ms < 0) {
+            invalid(`${field} must be a valid, non-negative Date`);
+        }
+        const seconds = Math.floor(ms / 1000);
+        const nanos = String((ms % 1000) * 1_000_000).padStart(9, "0");
+        return `${seconds}.${nanos}`;
+    }
+    const [seconds, nanos, ...rest] = value.split(".");
+    if (
+        !SECONDS_PATTERN.test(seconds) ||
+        (nanos !== undefined && !NANOS_PATTERN.test(nanos)) ||
+        rest.length > 0
+    ) {
+        invalid(`${field} must be in "seconds.nanos" form, got "${value}"`);
+    }
+    return value;
+}
+
+function formatInteger(value: number, field: string): string {
+    if (!Number.isSafeInteger(value) || value < 0) {
+        invalid(`${field} must be a non-negative integer, got ${value}`);
+    }
+    return String(value);
+}
+
+function isRange<T>(value: T | RangeFilter<T>): value is RangeFilter<T> {
+    return (
+        typeof value === "object" && value !== null && !(value instanceof Date)
+    );
+}
+
+function rangeParams<T>(
+    name: string,
+    filter: T | RangeFilter<T> | undefined,
+    format: (value: T, field: string) => string,
+): QueryParam[] {
+    if (filter === undefined) return [];
+    if (!isRange(filter)) {
+        return [{ name, value: format(filter, name) }];
+    }
+    const params: QueryParam[] = [];
+    for (const operator of RANGE_OPERATORS) {
+        const bound = filter[operator];
+        if (bound !== undefined) {
+            params.push({
+                name,
+                operator,
+                value: format(bound, `${name}.${operator}`),
+            });
+        }
+    }
+    return params;
+}
+
+function listParams(filter: ListFilter): QueryParam[] {
+    const params: QueryParam[] = [];
+    if (filter.order !== undefined) {
+        if (filter.order !== "asc" && filter.order !== "desc") {
+            invalid(`order must be "asc" or "desc", got "${filter.order}"`);
+        }
+        params.push({ name: "order", value: filter.order });
+    }
+    if (filter.limit !== undefined) {
+        if (
+            !Number.isSafeInteger(filter.limit) ||
+            filter.limit < 1 ||
+            filter.limit > MAX_LIMIT
+        ) {
+            invalid(
+                `limit must be an integer between 1 and ${MAX_LIMIT}, got ${filter.limit}`,
+            );
+        }
+        params.push({ name: "limit", value: String(filter.limit) });
+    }
+    return params;
+}
+
+/**
+ * Compile a {@link TransactionFilter} into mirror node query parameters.
+ */
+export function transactionParams(
+    filter: TransactionFilter = {},
+): QueryParam[] {
+    const params = rangeParams("timestamp", filter.timestamp, formatTimestamp);
+    if (filter.result !== undefined) {
+        if (filter.result !== "success" && filter.result !== "fail") {
+            invalid(
+                `result must be "success" or "fail", got "${filter.result}"`,
+            );
+        }
+        params.push({ name: "result", value: filter.result });
+    }
+    return [...params, ...listParams(filter)];
+}
+
+/**
+ * Compile a {@link TopicMessageFilter} into mirror node query parameters.
+ */
+export function topicMessageParams(
+    filter: TopicMessageFilter = {},
+): QueryParam[] {
+    return [
+        ...rangeParams("sequencenumber", filter.sequenceNumber, formatInteger),
+        ...rangeParams("timestamp", filter.timestamp, formatTimestamp),
+        ...listParams(filter),
+    ];
+}
+
+/**
+ * Compile an {@link NftFilter} into mirror node query parameters.
+ */
+export function nftParams(filter: NftFilter = {}): QueryParam[] {
+    return [
+        ...rangeParams("serialnumber", filter.serialNumber, formatInteger),
+        ...listParams(filter),
+    ];
+}
+
+/**
+ * Compile a {@link TokenFilter} into mirror node query parameters.
+ */
+export function tokenParams(filter: TokenFilter = {}): QueryParam[] {
+    return listParams(filter);
+}
+
+/**
+ * Compile a {@link ContractFilter} into mirror node query parameters.
+ */
+export function contractParams(filter: ContractFilter = {}): QueryParam[] {
+    return listParams(filter);
+}
+
+/**
+ * Compile a {@link ContractResultFilter} into mirror node query parameters.
+ */
+export function contractResultParams(
+    filter: ContractResultFilter = {},
+): QueryParam[] {
+    return [
+        ...rangeParams("timestamp", filter.timestamp, formatTimestamp),
+        ...rangeParams("block.number", filter.blockNumber, formatInteger),
+        ...listParams(filter),
+    ];
+}
+
+/**
+ * Compile a {@link ContractStateFilter} into mirror node query parameters.
+ */
+export function contractStateParams(
+    filter: ContractStateFilter = {},
+): QueryParam[] {
+    return [
+        ...rangeParams("timestamp", filter.timestamp, formatTimestamp),
+        ...listParams(filter),
+    ];
+}
+
+/**
+ * Compile a {@link ScheduleFilter} into mirror node query parameters.
+ */
+export function scheduleParams(filter: ScheduleFilter = {}): QueryParam[] {
+    const params: QueryParam[] = [];
+    if (filter.accountId !== undefined) {
+        params.push({ name: "account.id", value: filter.accountId });
+    }
+    return [...params, ...listParams(filter)];
+}
+
+/**
+ * Compile a {@link BlockFilter} into mirror node query parameters.
+ */
+export function blockParams(filter: BlockFilter = {}): QueryParam[] {
+    return [
+        ...rangeParams("block.number", filter.blockNumber, formatInteger),
+        ...rangeParams("timestamp", filter.timestamp, formatTimestamp),
+        ...listParams(filter),
+    ];
+}
+
+/**
+ * Compile an {@link AllowanceFilter} into mirror node query parameters.
+ */
+export function allowanceParams(filter: AllowanceFilter = {}): QueryParam[] {
+    const params: QueryParam[] = [];
+    if (filter.spenderId !== undefined) {
+        params.push({ name: "spender.id", value: filter.spenderId });
+    }
+    return [...params, ...listParams(filter)];
+}
+
+function formatAmount(value: number | bigint, field: string): string {
+    if (typeof value === "bigint") {
+        if (value < 0n) invalid(`${field} must be non-negative, got ${value}`);
+        return value.toString();
+    }
+    return formatInteger(value, field);
+}
+
+/**
+ * Compile a {@link BalanceFilter} into mirror node query parameters.
+ */
+export function balanceParams(filter: BalanceFilter = {}): QueryParam[] {
+    const params: QueryParam[] = [];
+    if (filter.accountId !== undefined) {
+        params.push({ name: "account.id", value: filter.accountId });
+    }
+    return [
+        ...params,
+        ...rangeParams("account.balance", filter.balance, formatAmount),
+        ...rangeParams("timestamp", filter.timestamp, formatTimestamp),
+        ...listParams(filter),
+    ];
+}
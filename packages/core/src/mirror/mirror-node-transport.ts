@@ -0,0 +1,50 @@
+/**
+ * Request handed to a {@link MirrorTransport}.
+ */
+export interface MirrorTransportRequest {
+    /** HTTP method; the mirror node REST API is read-only */
+    method: "GET";
+    /** Resolved request headers, including any auth headers */
+    headers: Record<string, string>;
+    /** Fires on the per-attempt timeout or when the caller cancels */
+    signal: AbortSignal;
+}
+
+/**
+ * Performs a single HTTP request for the mirror node client.
+ *
+ * The signature is a subset of the WHATWG `fetch`, so the global `fetch`
+ * (the default), `undici`'s `fetch`, or a recorded fixture replayer can be
+ * passed as is. Timeouts, retries and failover stay in the client; a
+ * transport only needs to settle with a `Response` or reject.
+ */
+export type MirrorTransport = (
+    url: string,
+    request: MirrorTransportRequest,
+) => Promise<Response>;
+
+/**
+ * Extra headers sent with every mirror node request — either a fixed set,
+ * or a function called before each attempt (e.g. to fetch a short-lived
+ * token from a secret manager).
+ */
+export type MirrorHeaderProvider =
+    | Readonly<Record<string, string>>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+
+/**
+ * Header that carries the mirror node API key (`apiKey` client option).
+ */
+export const MIRROR_API_KEY_HEADER = "x-api-key";
+
+/**
+ * A transport that sends requests through the global `fetch` with a custom
+ * `undici` dispatcher — for example a `ProxyAgent` for an egress proxy, or
+ * an `Agent` with tuned connection pooling. Node's built-in `fetch` is
+ * backed by undici and accepts the dispatcher directly, so undici itself
+ * only needs to be installed to construct one.
+ */
+export function dispatcherTransport(dispatcher: object): MirrorTransport {
+    return (url, request) =>
+        fetch(url, { ...request, dispatcher } as Parameters<typeof fetch>[1]);
+}
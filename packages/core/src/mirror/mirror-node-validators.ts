@@ -10,6 +10,11 @@ import type {
     MirrorTopicMessageRaw,
     MirrorTransaction,
     MirrorTransactionListResponse,
+    MirrorTopicResponse,
+    MirrorContractResponse,
+    MirrorContractResultRaw,
+    MirrorScheduleResponse,
+    MirrorBlockResponse,
 } from "../types/index.js";
 
 // Top-level response assertions
@@ -60,6 +65,52 @@ export function assertTopicMessageResponse(
     assertField(raw, "sequence_number", "number", path);
 }
 
+export function assertTopicResponse(
+    raw: unknown,
+    path: string,
+): asserts raw is MirrorTopicResponse {
+    assertObject(raw, path);
+    assertField(raw, "topic_id", "string", path);
+}
+
+export function assertContractResponse(
+    raw: unknown,
+    path: string,
+): asserts raw is MirrorContractResponse {
+    assertObject(raw, path);
+    assertField(raw, "contract_id", "string", path);
+    assertField(raw, "evm_address", "string", path);
+}
+
+export function assertContractResultResponse(
+    raw: unknown,
+    path: string,
+): asserts raw is MirrorContractResultRaw {
+    assertObject(raw, path);
+    assertField(raw, "contract_id", "string", path);
+    assertField(raw, "timestamp", "string", path);
+    assertField(raw, "result", "string", path);
+}
+
+export function assertScheduleResponse(
+    raw: unknown,
+    path: string,
+): asserts raw is MirrorScheduleResponse {
+    assertObject(raw, path);
+    assertField(raw, "schedule_id", "string", path);
+    assertField(raw, "transaction_body", "string", path);
+}
+
+export function assertBlockResponse(
+    raw: unknown,
+    path: string,
+): asserts raw is MirrorBlockResponse {
+    assertObject(raw, path);
+    assertField(raw, "number", "number", path);
+    assertField(raw, "hash", "string", path);
+    assertObject(raw.timestamp, `${path}.timestamp`);
+}
+
 export function assertTransactionListResponse(
     raw: unknown,
     path: string,
@@ -0,0 +1,6 @@
+export {
+    createSpendingPolicyInterceptor,
+    type SpendingPolicy,
+    type SpendingLimit,
+    type SpendingPolicyInterceptorOptions,
+} from "./spending-policy.js";
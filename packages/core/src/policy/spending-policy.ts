@@ -0,0 +1,442 @@
+import {
+    AccountAllowanceApproveTransaction,
+    BatchTransaction,
+    ContractExecuteTransaction,
+    Hbar,
+    TokenAirdropTransaction,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import type { Transaction } from "@hiero-ledger/sdk";
+import type { Interceptor, InterceptorContext } from "../listeners/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../errors/index.js";
+
+/** Default rolling window: 24 hours */
+const DEFAULT_WINDOW_MS = 86_400_000;
+
+/**
+ * Limits for one asset. Amounts are HBAR for `SpendingPolicy.hbar`, the
+ * token's smallest unit for fungible tokens, and a count of serials for
+ * NFTs.
+ */
+export interface SpendingLimit<TAmount> {
+    /** Most that one transaction may move */
+    perTransaction?: TAmount;
+    /** Most that may move within any rolling `windowMs` */
+    perWindow?: TAmount;
+    /** Length of the rolling window in milliseconds (default: 24 hours) */
+    windowMs?: number;
+    /**
+     * Transactions moving more than this must go through `scheduleRun`,
+     * so they only execute once every required key has signed
+     */
+    requireScheduleAbove?: TAmount;
+}
+
+/**
+ * Declarative rules checked before any HBAR, token or NFT movement —
+ * transfers, airdrops, allowance approvals and payable contract calls.
+ *
+ * Each asset is limited by what the transaction credits: the amounts
+ * received by other accounts, the allowance granted to a spender, or the
+ * payable amount sent to a contract. Limits apply to scheduled
+ * transactions too, counted when the schedule is created.
+ *
+ * @example
+ * ```ts
+ * const context = new HieroContext({
+ *     ...config,
+ *     spendingPolicy: {
+ *         hbar: { perTransaction: 100, perWindow: 1_000, requireScheduleAbove: 50 },
+ *         tokens: { "0.0.5005": { perTransaction: 10_000n } },
+ *         deniedRecipients: ["0.0.666"],
+ *         maxTransactionFee: 5,
+ *     },
+ * });
+ * ```
+ */
+export interface SpendingPolicy {
+    /** Limits on HBAR, in HBAR or as an `Hbar` */
+    hbar?: SpendingLimit<number | Hbar>;
+    /** Limits per fungible token ID, in the token's smallest unit */
+    tokens?: Readonly<Record<string, SpendingLimit<number | bigint>>>;
+    /** Limits per NFT collection ID, as a number of serials */
+    nfts?: Readonly<Record<string, SpendingLimit<number>>>;
+    /** When set, every recipient, spender and contract must be listed */
+    allowedRecipients?: readonly string[];
+    /** Recipients, spenders and contracts that may never receive anything */
+    deniedRecipients?: readonly string[];
+    /**
+     * Highest `maxTransactionFee` any transaction may carry, in HBAR or as
+     * an `Hbar`. Transactions without one are capped at this value.
+     */
+    maxTransactionFee?: number | Hbar;
+}
+
+/**
+ * Options for {@link createSpendingPolicyInterceptor}.
+ */
+export interface SpendingPolicyInterceptorOptions {
+    /** Clock used for the rolling windows (default: `Date.now`) */
+    now?: () => number;
+}
+
+/**
+ * One asset credited by a transaction. `amount` is `null` for an NFT
+ * allowance over every serial, which exceeds any limit.
+ */
+interface Movement {
+    /** Rule prefix, e.g. `"hbar"` or `"tokens.0.0.5005"` */
+    asset: string;
+    recipient: string;
+    amount: bigint | null;
+}
+
+interface ResolvedLimit {
+    perTransaction?: bigint;
+    perWindow?: bigint;
+    windowMs: number;
+    requireScheduleAbove?: bigint;
+}
+
+interface WindowEntry {
+    at: number;
+    amount: bigint;
+}
+
+/**
+ * Create an interceptor that enforces a {@link SpendingPolicy}.
+ * `HieroContext` registers one automatically for `config.spendingPolicy`;
+ * create one directly to enforce several policies or to share the rolling
+ * windows between contexts.
+ *
+ * Violations reject the call before anything is signed or submitted with
+ * a `HieroError` whose code is `PolicyViolation` and whose `rule` names
+ * the rule that fired, e.g. `"hbar.perWindow"` or `"deniedRecipients"`.
+ *
+ * Amounts count against a window as soon as the transaction passes the
+ * check and are released if it fails, unless it timed out with an unknown
+ * outcome. Transactions submitted with `submitPrepared()` are checked
+ * when they are submitted, and the inner transactions of a batch count
+ * towards the batch.
+ *
+ * @throws {HieroError} `ConfigInvalid` if a limit is negative or a window
+ *   is not positive
+ */
+export function createSpendingPolicyInterceptor(
+    policy: SpendingPolicy,
+    options: SpendingPolicyInterceptorOptions = {},
+): Interceptor {
+    const limits = resolveLimits(policy);
+    const maxFee =
+        policy.maxTransactionFee != null
+            ? tinybars(policy.maxTransactionFee)
+            : undefined;
+    const allowed =
+        policy.allowedRecipients != null
+            ? new Set(policy.allowedRecipients)
+            : undefined;
+    const denied = new Set(policy.deniedRecipients ?? []);
+    const windows = new Map<string, WindowEntry[]>();
+    const now = options.now ?? Date.now;
+
+    return async (ctx, next) => {
+        if (ctx.kind === "query") {
+            return await next();
+        }
+
+        const violation = (rule: string, detail: string): HieroError =>
+            new HieroError(`Spending policy violation (${rule}): ${detail}`, {
+                code: HieroErrorCodes.PolicyViolation,
+                context: `${ctx.event.serviceName}.${ctx.event.methodName}`,
+                rule,
+            });
+
+        checkFee(ctx, maxFee, violation);
+
+        const movements = movementsOf(ctx.transaction);
+        for (const { recipient } of movements) {
+            if (denied.has(recipient)) {
+                throw violation(
+                    "deniedRecipients",
+                    `${recipient} is a denied recipient`,
+                );
+            }
+            if (allowed && !allowed.has(recipient)) {
+                throw violation(
+                    "allowedRecipients",
+                    `${recipient} is not an allowed recipient`,
+                );
+            }
+        }
+
+        const at = now();
+        const reserved: Array<[WindowEntry[], WindowEntry]> = [];
+        for (const [asset, amount] of totalsByAsset(movements)) {
+            const limit = limits.get(asset);
+            if (limit == null) continue;
+
+            if (exceeds(amount, limit.perTransaction)) {
+                throw violation(
+                    `${asset}.perTransaction`,
+                    `${describe(asset, amount)} exceeds the per-transaction limit of ${describe(asset, limit.perTransaction!)}`,
+                );
+            }
+            if (
+                ctx.kind === "transaction" &&
+                exceeds(amount, limit.requireScheduleAbove)
+            ) {
+                throw violation(
+                    `${asset}.requireScheduleAbove`,
+                    `${describe(asset, amount)} is above ${describe(asset, limit.requireScheduleAbove!)} and must be scheduled`,
+                );
+            }
+
+            const entries = windows.get(asset) ?? [];
+            windows.set(asset, entries);
+            pruneWindow(entries, at - limit.windowMs);
+            if (limit.perWindow != null) {
+                const spent = entries.reduce((sum, e) => sum + e.amount, 0n);
+                if (amount == null || spent + amount > limit.perWindow) {
+                    throw violation(
+                        `${asset}.perWindow`,
+                        `${describe(asset, amount)} on top of ${describe(asset, spent)} already moved exceeds the limit of ${describe(asset, limit.perWindow)} per ${limit.windowMs} ms`,
+                    );
+                }
+            }
+            if (amount != null) {
+                reserved.push([entries, { at, amount }]);
+            }
+        }
+
+        // Reserve only once every asset has passed, so a rejected
+        // transaction leaves the windows untouched
+        for (const [entries, entry] of reserved) {
+            entries.push(entry);
+        }
+
+        try {
+            return await next();
+        } catch (error) {
+            if (normalizeError(error).code !== HieroErrorCodes.TimedOut) {
+                for (const [entries, entry] of reserved) {
+                    entries.splice(entries.indexOf(entry), 1);
+                }
+            }
+            throw error;
+        }
+    };
+}
+
+function checkFee(
+    ctx: Exclude<InterceptorContext, { kind: "query" }>,
+    maxFee: bigint | undefined,
+    violation: (rule: string, detail: string) => HieroError,
+): void {
+    if (maxFee == null) return;
+
+    const requested =
+        ctx.options.maxTransactionFee ??
+        (ctx.kind === "transaction" ? ctx.transaction.maxTransactionFee : null);
+    if (requested == null) {
+        ctx.options = {
+            ...ctx.options,
+            maxTransactionFee: Hbar.fromTinybars(maxFee.toString()),
+        };
+        return;
+    }
+    if (tinybars(requested) > maxFee) {
+        throw violation(
+            "maxTransactionFee",
+            `a maximum fee of ${tinybars(requested)} tinybars exceeds the limit of ${maxFee}`,
+        );
+    }
+}
+
+/**
+ * Every asset the transaction credits, and to whom, including what the
+ * inner transactions of a batch credit.
+ */
+function movementsOf(tx: Transaction): Movement[] {
+    const movements: Movement[] = [];
+
+    if (tx instanceof BatchTransaction) {
+        for (const inner of tx.innerTransactions) {
+            movements.push(...movementsOf(inner));
+        }
+    }
+
+    if (tx instanceof TransferTransaction) {
+        for (const transfer of tx.hbarTransfersList) {
+            const amount = BigInt(transfer.amount.toTinybars().toString());
+            if (amount > 0n) {
+                movements.push({
+                    asset: "hbar",
+                    recipient: transfer.accountId.toString(),
+                    amount,
+                });
+            }
+        }
+    }
+
+    if (
+        tx instanceof TransferTransaction ||
+        tx instanceof TokenAirdropTransaction
+    ) {
+        for (const [tokenId, accounts] of tx.tokenTransfers) {
+            for (const [accountId, value] of accounts) {
+                const amount = BigInt(value.toString());
+                if (amount > 0n) {
+                    movements.push({
+                        asset: `tokens.${tokenId.toString()}`,
+                        recipient: accountId.toString(),
+                        amount,
+                    });
+                }
+            }
+        }
+        for (const [tokenId, transfers] of tx.nftTransfers) {
+            for (const transfer of transfers) {
+                movements.push({
+                    asset: `nfts.${tokenId.toString()}`,
+                    recipient: transfer.recipient.toString(),
+                    amount: 1n,
+                });
+            }
+        }
+    }
+
+    if (tx instanceof AccountAllowanceApproveTransaction) {
+        for (const approval of tx.hbarApprovals) {
+            movements.push({
+                asset: "hbar",
+                recipient: String(approval.spenderAccountId),
+                amount: BigInt(
+                    (approval.amount ?? new Hbar(0)).toTinybars().toString(),
+                ),
+            });
+        }
+        for (const approval of tx.tokenApprovals) {
+            movements.push({
+                asset: `tokens.${approval.tokenId.toString()}`,
+                recipient: String(approval.spenderAccountId),
+                amount: BigInt((approval.amount ?? 0).toString()),
+            });
+        }
+        for (const approval of tx.tokenNftApprovals) {
+            movements.push({
+                asset: `nfts.${approval.tokenId.toString()}`,
+                recipient: String(approval.spenderAccountId),
+                amount: approval.allSerials
+                    ? null
+                    : BigInt(approval.serialNumbers?.length ?? 0),
+            });
+        }
+    }
+
+    if (tx instanceof ContractExecuteTransaction) {
+        const amount = BigInt(
+            (tx.payableAmount ?? new Hbar(0)).toTinybars().toString(),
+        );
+        if (amount > 0n) {
+            movements.push({
+                asset: "hbar",
+                recipient: String(tx.contractId),
+                amount,
+            });
+        }
+    }
+
+    return movements;
+}
+
+function totalsByAsset(movements: Movement[]): Map<string, bigint | null> {
+    const totals = new Map<string, bigint | null>();
+    for (const { asset, amount } of movements) {
+        const total = totals.has(asset) ? totals.get(asset)! : 0n;
+        totals.set(
+            asset,
+            total == null || amount == null ? null : total + amount,
+        );
+    }
+    return totals;
+}
+
+function resolveLimits(policy: SpendingPolicy): Map<string, ResolvedLimit> {
+    const limits = new Map<string, ResolvedLimit>();
+    if (policy.hbar) {
+        limits.set("hbar", resolveLimit("hbar", policy.hbar, tinybars));
+    }
+    for (const [tokenId, limit] of Object.entries(policy.tokens ?? {})) {
+        const asset = `tokens.${tokenId}`;
+        limits.set(asset, resolveLimit(asset, limit, BigInt));
+    }
+    for (const [tokenId, limit] of Object.entries(policy.nfts ?? {})) {
+        const asset = `nfts.${tokenId}`;
+        limits.set(asset, resolveLimit(asset, limit, BigInt));
+    }
+    return limits;
+}
+
+function resolveLimit<TAmount>(
+    asset: string,
+    limit: SpendingLimit<TAmount>,
+    toBigInt: (amount: TAmount) => bigint,
+): ResolvedLimit {
+    const amount = (
+        field: string,
+        value: TAmount | undefined,
+    ): bigint | undefined => {
+        if (value == null) return undefined;
+        const resolved = toBigInt(value);
+        if (resolved < 0n) {
+            throw new HieroError(
+                `Spending policy ${asset}.${field} must not be negative.`,
+                { code: HieroErrorCodes.ConfigInvalid },
+            );
+        }
+        return resolved;
+    };
+
+    const windowMs = limit.windowMs ?? DEFAULT_WINDOW_MS;
+    if (!(windowMs > 0)) {
+        throw new HieroError(
+            `Spending policy ${asset}.windowMs must be positive.`,
+            { code: HieroErrorCodes.ConfigInvalid },
+        );
+    }
+
+    return {
+        perTransaction: amount("perTransaction", limit.perTransaction),
+        perWindow: amount("perWindow", limit.perWindow),
+        windowMs,
+        requireScheduleAbove: amount(
+            "requireScheduleAbove",
+            limit.requireScheduleAbove,
+        ),
+    };
+}
+
+/** Drop entries older than `since`; entries are in time order */
+function pruneWindow(entries: WindowEntry[], since: number): void {
+    const stale = entries.findIndex((entry) => entry.at > since);
+    entries.splice(0, stale === -1 ? entries.length : stale);
+}
+
+function exceeds(amount: bigint | null, limit: bigint | undefined): boolean {
+    return limit != null && (amount == null || amount > limit);
+}
+
+function describe(asset: string, amount: bigint | null): string {
+    if (amount == null) return "an allowance over every serial";
+    if (asset === "hbar") return `${amount} tinybars`;
+    return asset.startsWith("nfts.") ? `${amount} serials` : String(amount);
+}
+
+function tinybars(amount: number | Hbar): bigint {
+    const hbar = amount instanceof Hbar ? amount : new Hbar(amount);
+    return BigInt(hbar.toTinybars().toString());
+}
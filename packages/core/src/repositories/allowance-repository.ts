@@ -0,0 +1,83 @@
+import type {
+    MirrorCryptoAllowance,
+    MirrorTokenAllowance,
+    MirrorNftAllowance,
+    AllowanceFilter,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+
+/**
+ * Repository for querying allowances granted by an account from the
+ * mirror node.
+ */
+export class AllowanceRepository {
+    constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
+
+    /**
+     * Find the HBAR allowances granted by an account.
+     */
+    async findCryptoAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorCryptoAllowance>> {
+        return this.mirrorNodeClient.queryCryptoAllowances(accountId, filter);
+    }
+
+    /**
+     * Find the fungible token allowances granted by an account.
+     */
+    async findTokenAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorTokenAllowance>> {
+        return this.mirrorNodeClient.queryTokenAllowances(accountId, filter);
+    }
+
+    /**
+     * Find the NFT allowances granted by an account.
+     */
+    async findNftAllowances(
+        accountId: string,
+        filter?: AllowanceFilter,
+    ): Promise<Page<MirrorNftAllowance>> {
+        return this.mirrorNodeClient.queryNftAllowances(accountId, filter);
+    }
+
+    /**
+     * Iterate over every HBAR allowance granted by an account.
+     */
+    iterateCryptoAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncIterable<MirrorCryptoAllowance> {
+        return this.mirrorNodeClient.paginateCryptoAllowances(
+            accountId,
+            options,
+        );
+    }
+
+    /**
+     * Iterate over every fungible token allowance granted by an account.
+     */
+    iterateTokenAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncIterable<MirrorTokenAllowance> {
+        return this.mirrorNodeClient.paginateTokenAllowances(
+            accountId,
+            options,
+        );
+    }
+
+    /**
+     * Iterate over every NFT allowance granted by an account.
+     */
+    iterateNftAllowances(
+        accountId: string,
+        options?: AllowanceFilter & PaginationOptions,
+    ): AsyncIterable<MirrorNftAllowance> {
+        return this.mirrorNodeClient.paginateNftAllowances(accountId, options);
+    }
+}
@@ -0,0 +1,86 @@
+import type {
+    Balance,
+    TokenHolderBalance,
+    BalanceFilter,
+    MirrorTimestamp,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+
+/**
+ * Repository for querying historical balance snapshots from the mirror
+ * node. The mirror node records a snapshot of every balance periodically;
+ * a `timestamp` filter selects the latest snapshot at or before it.
+ */
+export class BalanceRepository {
+    constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
+
+    /**
+     * Find account balances from a snapshot.
+     */
+    async findBalances(filter?: BalanceFilter): Promise<Page<Balance>> {
+        return this.mirrorNodeClient.queryBalances(filter);
+    }
+
+    /**
+     * Find the balance of an account as of `timestamp`.
+     *
+     * @throws {HieroError} `NOT_FOUND` if no snapshot includes the account
+     */
+    async findAccountBalanceAt(
+        accountId: string,
+        timestamp: MirrorTimestamp,
+    ): Promise<Balance> {
+        return this.mirrorNodeClient.queryAccountBalanceAt(
+            accountId,
+            timestamp,
+        );
+    }
+
+    /**
+     * Find the holders of a token from a snapshot.
+     */
+    async findTokenHolders(
+        tokenId: string,
+        filter?: BalanceFilter,
+    ): Promise<Page<TokenHolderBalance>> {
+        return this.mirrorNodeClient.queryTokenBalances(tokenId, filter);
+    }
+
+    /**
+     * Find the holders of a token as of `timestamp` whose balance is at
+     * least `minBalance` (in the token's smallest unit).
+     */
+    async findTokenHoldersAt(
+        tokenId: string,
+        timestamp: MirrorTimestamp,
+        minBalance: number | bigint = 0,
+        filter?: Omit<BalanceFilter, "timestamp" | "balance">,
+    ): Promise<Page<TokenHolderBalance>> {
+        return this.mirrorNodeClient.queryTokenBalances(tokenId, {
+            ...filter,
+            timestamp: { lte: timestamp },
+            balance: { gte: minBalance },
+        });
+    }
+
+    /**
+     * Iterate over every account balance in a snapshot.
+     */
+    iterateBalances(
+        options?: BalanceFilter & PaginationOptions,
+    ): AsyncIterable<Balance> {
+        return this.mirrorNodeClient.paginateBalances(options);
+    }
+
+    /**
+     * Iterate over every holder of a token in a snapshot.
+     */
+    iterateTokenHolders(
+        tokenId: string,
+        options?: BalanceFilter & PaginationOptions,
+    ): AsyncIterable<TokenHolderBalance> {
+        return this.mirrorNodeClient.paginateTokenBalances(tokenId, options);
+    }
+}
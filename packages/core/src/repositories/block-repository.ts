@@ -0,0 +1,39 @@
+import type {
+    MirrorBlock,
+    BlockFilter,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+
+/**
+ * Repository for querying blocks (record files) from the mirror node.
+ */
+export class BlockRepository {
+    constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
+
+    /**
+     * Find all blocks.
+     */
+    async findAll(filter?: BlockFilter): Promise<Page<MirrorBlock>> {
+        return this.mirrorNodeClient.queryBlocks(filter);
+    }
+
+    /**
+     * Find a block by hash or number.
+     */
+    async findByHashOrNumber(
+        hashOrNumber: string | number,
+    ): Promise<MirrorBlock> {
+        return this.mirrorNodeClient.queryBlock(hashOrNumber);
+    }
+
+    /**
+     * Iterate over every block, following pagination links automatically.
+     */
+    iterateAll(
+        options?: BlockFilter & PaginationOptions,
+    ): AsyncIterable<MirrorBlock> {
+        return this.mirrorNodeClient.paginateBlocks(options);
+    }
+}
@@ -0,0 +1,94 @@
+import type {
+    MirrorContractInfo,
+    MirrorContractResult,
+    MirrorContractStateEntry,
+    ContractFilter,
+    ContractResultFilter,
+    ContractStateFilter,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+
+/**
+ * Repository for querying smart contract data from the mirror node.
+ */
+export class ContractRepository {
+    constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
+
+    /**
+     * Find all contracts.
+     */
+    async findAll(filter?: ContractFilter): Promise<Page<MirrorContractInfo>> {
+        return this.mirrorNodeClient.queryContracts(filter);
+    }
+
+    /**
+     * Find a contract by contract ID or EVM address.
+     */
+    async findById(contractId: string): Promise<MirrorContractInfo> {
+        return this.mirrorNodeClient.queryContract(contractId);
+    }
+
+    /**
+     * Find the call results of a contract.
+     */
+    async findResults(
+        contractId: string,
+        filter?: ContractResultFilter,
+    ): Promise<Page<MirrorContractResult>> {
+        return this.mirrorNodeClient.queryContractResults(contractId, filter);
+    }
+
+    /**
+     * Find the result of a single contract call, including its event logs,
+     * by transaction ID or Ethereum transaction hash.
+     */
+    async findResult(
+        transactionIdOrHash: string,
+    ): Promise<MirrorContractResult> {
+        return this.mirrorNodeClient.queryContractResult(transactionIdOrHash);
+    }
+
+    /**
+     * Find the storage slots of a contract.
+     */
+    async findState(
+        contractId: string,
+        filter?: ContractStateFilter,
+    ): Promise<Page<MirrorContractStateEntry>> {
+        return this.mirrorNodeClient.queryContractState(contractId, filter);
+    }
+
+    /**
+     * Iterate over every contract, following pagination links automatically.
+     */
+    iterateAll(
+        options?: ContractFilter & PaginationOptions,
+    ): AsyncIterable<MirrorContractInfo> {
+        return this.mirrorNodeClient.paginateContracts(options);
+    }
+
+    /**
+     * Iterate over every call result of a contract.
+     */
+    iterateResults(
+        contractId: string,
+        options?: ContractResultFilter & PaginationOptions,
+    ): AsyncIterable<MirrorContractResult> {
+        return this.mirrorNodeClient.paginateContractResults(
+            contractId,
+            options,
+        );
+    }
+
+    /**
+     * Iterate over every storage slot of a contract.
+     */
+    iterateState(
+        contractId: string,
+        options?: ContractStateFilter & PaginationOptions,
+    ): AsyncIterable<MirrorContractStateEntry> {
+        return this.mirrorNodeClient.paginateContractState(contractId, options);
+    }
+}
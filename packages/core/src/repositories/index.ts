@@ -4,3 +4,8 @@ export { TokenRepository } from "./token-repository.js";
 export { TopicRepository } from "./topic-repository.js";
 export { TransactionRepository } from "./transaction-repository.js";
 export { NetworkRepository } from "./network-repository.js";
+export { ContractRepository } from "./contract-repository.js";
+export { ScheduleRepository } from "./schedule-repository.js";
+export { BlockRepository } from "./block-repository.js";
+export { AllowanceRepository } from "./allowance-repository.js";
+export { BalanceRepository } from "./balance-repository.js";
@@ -1,4 +1,9 @@
-import type { Nft, Page } from "../types/index.js";
+import type {
+    Nft,
+    NftFilter,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
 import type { MirrorNodeClient } from "../mirror/index.js";
 
 /**
@@ -10,15 +15,18 @@ export class NftRepository {
     /**
      * Find all NFTs owned by an account.
      */
-    async findByOwner(accountId: string): Promise<Page<Nft>> {
-        return this.mirrorNodeClient.queryNftsByAccount(accountId);
+    async findByOwner(
+        accountId: string,
+        filter?: NftFilter,
+    ): Promise<Page<Nft>> {
+        return this.mirrorNodeClient.queryNftsByAccount(accountId, filter);
     }
 
     /**
      * Find all NFTs of a specific token type.
      */
-    async findByType(tokenId: string): Promise<Page<Nft>> {
-        return this.mirrorNodeClient.queryNftsByTokenId(tokenId);
+    async findByType(tokenId: string, filter?: NftFilter): Promise<Page<Nft>> {
+        return this.mirrorNodeClient.queryNftsByTokenId(tokenId, filter);
     }
 
     /**
@@ -37,10 +45,55 @@ export class NftRepository {
     async findByOwnerAndType(
         accountId: string,
         tokenId: string,
+        filter?: NftFilter,
     ): Promise<Page<Nft>> {
         return this.mirrorNodeClient.queryNftsByAccountAndTokenId(
             accountId,
             tokenId,
+            filter,
+        );
+    }
+
+    /**
+     * Iterate over every NFT owned by an account, following pagination
+     * links automatically.
+     *
+     * @example
+     * ```ts
+     * for await (const nft of nftRepository.iterateByOwner("0.0.1234")) {
+     *     console.log(nft.tokenId, nft.serialNumber);
+     * }
+     * ```
+     */
+    iterateByOwner(
+        accountId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncIterable<Nft> {
+        return this.mirrorNodeClient.paginateNftsByAccount(accountId, options);
+    }
+
+    /**
+     * Iterate over every NFT of a specific token type.
+     */
+    iterateByType(
+        tokenId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncIterable<Nft> {
+        return this.mirrorNodeClient.paginateNftsByTokenId(tokenId, options);
+    }
+
+    /**
+     * Iterate over every NFT of a specific token type owned by an account.
+     */
+    iterateByOwnerAndType(
+        accountId: string,
+        tokenId: string,
+        options?: NftFilter & PaginationOptions,
+    ): AsyncIterable<Nft> {
+        return this.mirrorNodeClient.paginateNftsByAccountAndTokenId(
+            accountId,
+            tokenId,
+            options,
         );
     }
 }
@@ -0,0 +1,37 @@
+import type {
+    MirrorSchedule,
+    ScheduleFilter,
+    Page,
+    PaginationOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+
+/**
+ * Repository for querying scheduled transactions from the mirror node.
+ */
+export class ScheduleRepository {
+    constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
+
+    /**
+     * Find all schedules, optionally restricted to a creator account.
+     */
+    async findAll(filter?: ScheduleFilter): Promise<Page<MirrorSchedule>> {
+        return this.mirrorNodeClient.querySchedules(filter);
+    }
+
+    /**
+     * Find a schedule by ID, including the signatures collected so far.
+     */
+    async findById(scheduleId: string): Promise<MirrorSchedule> {
+        return this.mirrorNodeClient.querySchedule(scheduleId);
+    }
+
+    /**
+     * Iterate over every schedule, following pagination links automatically.
+     */
+    iterateAll(
+        options?: ScheduleFilter & PaginationOptions,
+    ): AsyncIterable<MirrorSchedule> {
+        return this.mirrorNodeClient.paginateSchedules(options);
+    }
+}
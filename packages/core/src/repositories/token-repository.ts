@@ -1,4 +1,9 @@
-import type { MirrorTokenInfo, Page } from "../types/index.js";
+import type {
+    MirrorTokenInfo,
+    Page,
+    PaginationOptions,
+    TokenFilter,
+} from "../types/index.js";
 import type { MirrorNodeClient } from "../mirror/index.js";
 
 /**
@@ -17,7 +22,24 @@ export class TokenRepository {
     /**
      * Find all tokens associated with an account.
      */
-    async findByAccountId(accountId: string): Promise<Page<MirrorTokenInfo>> {
-        return this.mirrorNodeClient.queryTokensByAccountId(accountId);
+    async findByAccountId(
+        accountId: string,
+        filter?: TokenFilter,
+    ): Promise<Page<MirrorTokenInfo>> {
+        return this.mirrorNodeClient.queryTokensByAccountId(accountId, filter);
+    }
+
+    /**
+     * Iterate over every token associated with an account, following
+     * pagination links automatically.
+     */
+    iterateByAccountId(
+        accountId: string,
+        options?: TokenFilter & PaginationOptions,
+    ): AsyncIterable<MirrorTokenInfo> {
+        return this.mirrorNodeClient.paginateTokensByAccountId(
+            accountId,
+            options,
+        );
     }
 }
@@ -1,29 +1,163 @@
-import type { MirrorTopicMessage, Page } from "../types/index.js";
+import type {
+    MirrorTopic,
+    MirrorTopicMessage,
+    Page,
+    PaginationOptions,
+    TopicMessageFilter,
+    TopicStreamMessage,
+    TopicStreamOptions,
+} from "../types/index.js";
 import type { MirrorNodeClient } from "../mirror/index.js";
+import {
+    decodeTopicPayload,
+    type DecodedMessage,
+    type TopicCodec,
+} from "../codec/index.js";
+import { streamTopicMessages } from "./topic-stream.js";
+
+function withPayload<M extends MirrorTopicMessage, T>(
+    message: M,
+    codec: TopicCodec<T>,
+): DecodedMessage<M, T> {
+    return {
+        ...message,
+        payload: decodeTopicPayload(
+            codec,
+            Buffer.from(message.message, "base64"),
+            "TopicRepository",
+        ),
+    };
+}
+
+async function* decodeEach<M extends MirrorTopicMessage, T>(
+    messages: AsyncIterable<M>,
+    codec: TopicCodec<T>,
+): AsyncGenerator<DecodedMessage<M, T>, void, undefined> {
+    for await (const message of messages) {
+        yield withPayload(message, codec);
+    }
+}
 
 /**
- * Repository for querying topic messages from the mirror node.
+ * Repository for querying topics and topic messages from the mirror node.
  */
 export class TopicRepository {
     constructor(private readonly mirrorNodeClient: MirrorNodeClient) {}
 
     /**
-     * Find all messages for a topic.
+     * Find topic metadata (memo, keys, auto-renew settings) by topic ID.
+     */
+    async findTopicById(topicId: string): Promise<MirrorTopic> {
+        return this.mirrorNodeClient.queryTopic(topicId);
+    }
+
+    /**
+     * Find all messages for a topic. With a `codec`, each message also
+     * carries its decoded `payload`; a message that fails to decode is
+     * returned with `payload.ok === false` rather than failing the page.
      */
-    async findByTopicId(topicId: string): Promise<Page<MirrorTopicMessage>> {
-        return this.mirrorNodeClient.queryTopicMessages(topicId);
+    findByTopicId(
+        topicId: string,
+        filter?: TopicMessageFilter,
+    ): Promise<Page<MirrorTopicMessage>>;
+    findByTopicId<T>(
+        topicId: string,
+        filter: TopicMessageFilter | undefined,
+        codec: TopicCodec<T>,
+    ): Promise<Page<DecodedMessage<MirrorTopicMessage, T>>>;
+    async findByTopicId<T>(
+        topicId: string,
+        filter?: TopicMessageFilter,
+        codec?: TopicCodec<T>,
+    ): Promise<Page<MirrorTopicMessage>> {
+        const page = await this.mirrorNodeClient.queryTopicMessages(
+            topicId,
+            filter,
+        );
+        if (!codec) return page;
+        return {
+            ...page,
+            data: page.data.map((message) => withPayload(message, codec)),
+        };
     }
 
     /**
-     * Find a specific message by topic ID and sequence number.
+     * Find a specific message by topic ID and sequence number, decoding its
+     * payload when a `codec` is given.
      */
-    async findByTopicIdAndSequenceNumber(
+    findByTopicIdAndSequenceNumber(
+        topicId: string,
+        sequenceNumber: number,
+    ): Promise<MirrorTopicMessage>;
+    findByTopicIdAndSequenceNumber<T>(
+        topicId: string,
+        sequenceNumber: number,
+        codec: TopicCodec<T>,
+    ): Promise<DecodedMessage<MirrorTopicMessage, T>>;
+    async findByTopicIdAndSequenceNumber<T>(
         topicId: string,
         sequenceNumber: number,
+        codec?: TopicCodec<T>,
     ): Promise<MirrorTopicMessage> {
-        return this.mirrorNodeClient.queryTopicMessageBySequence(
+        const message = await this.mirrorNodeClient.queryTopicMessageBySequence(
             topicId,
             sequenceNumber,
         );
+        return codec ? withPayload(message, codec) : message;
+    }
+
+    /**
+     * Iterate over every message of a topic in sequence order, following
+     * pagination links automatically.
+     */
+    iterateByTopicId(
+        topicId: string,
+        options?: TopicMessageFilter & PaginationOptions,
+    ): AsyncIterable<MirrorTopicMessage>;
+    iterateByTopicId<T>(
+        topicId: string,
+        options: (TopicMessageFilter & PaginationOptions) | undefined,
+        codec: TopicCodec<T>,
+    ): AsyncIterable<DecodedMessage<MirrorTopicMessage, T>>;
+    iterateByTopicId<T>(
+        topicId: string,
+        options?: TopicMessageFilter & PaginationOptions,
+        codec?: TopicCodec<T>,
+    ): AsyncIterable<MirrorTopicMessage> {
+        const messages = this.mirrorNodeClient.paginateTopicMessages(
+            topicId,
+            options,
+        );
+        return codec ? decodeEach(messages, codec) : messages;
+    }
+
+    /**
+     * Follow a topic by polling the mirror node REST API — an alternative to
+     * `TopicService.subscribeToMessages` where the gRPC stream is blocked.
+     * The iterator never ends on its own; break out of the loop or abort
+     * `options.signal` to stop it. Chunked messages are reassembled, and a
+     * `checkpoint` lets a restarted process resume without gaps or repeats.
+     * With a `codec`, the reassembled payload is decoded.
+     */
+    stream(
+        topicId: string,
+        options?: TopicStreamOptions,
+    ): AsyncIterable<TopicStreamMessage>;
+    stream<T>(
+        topicId: string,
+        options: TopicStreamOptions | undefined,
+        codec: TopicCodec<T>,
+    ): AsyncIterable<DecodedMessage<TopicStreamMessage, T>>;
+    stream<T>(
+        topicId: string,
+        options?: TopicStreamOptions,
+        codec?: TopicCodec<T>,
+    ): AsyncIterable<TopicStreamMessage> {
+        const messages = streamTopicMessages(
+            this.mirrorNodeClient,
+            topicId,
+            options,
+        );
+        return codec ? decodeEach(messages, codec) : messages;
     }
 }
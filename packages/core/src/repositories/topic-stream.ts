@@ -0,0 +1,213 @@
+import type {
+    MirrorTopicMessage,
+    TopicStreamMessage,
+    TopicStreamOptions,
+} from "../types/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+
+/**
+ * Longest a transaction may stay valid. Every chunk of a message reaches
+ * consensus within this long of the first chunk's valid start, and so of
+ * the first chunk's own consensus, or never.
+ */
+const MAX_VALID_DURATION_MS = 180_000;
+
+interface ChunkGroup {
+    /** Chunks received so far, keyed by chunk number */
+    chunks: Map<number, MirrorTopicMessage>;
+    firstSequence: number;
+    total: number;
+    /** Consensus time, in ms, after which missing chunks cannot arrive */
+    deadline: number;
+}
+
+/**
+ * Collects the chunks of split HCS messages until each one is complete.
+ * Chunks are grouped by the transaction ID of their first chunk, which
+ * every chunk of a submission carries.
+ *
+ * A group still incomplete once a later message reaches consensus past
+ * its deadline is dropped with a `HieroTopicStreamWarning`, so it neither
+ * grows memory nor holds the resume position back.
+ */
+class ChunkAssembler {
+    private readonly groups = new Map<string, ChunkGroup>();
+
+    constructor(
+        private readonly topicId: string,
+        private readonly chunkTimeoutMs: number,
+    ) {}
+
+    /**
+     * Lowest sequence number of any chunk still waiting for its siblings,
+     * or `undefined` when nothing is pending.
+     */
+    get pendingFrom(): number | undefined {
+        let lowest: number | undefined;
+        for (const group of this.groups.values()) {
+            if (lowest === undefined || group.firstSequence < lowest) {
+                lowest = group.firstSequence;
+            }
+        }
+        return lowest;
+    }
+
+    /** Add a message; returns the complete message once its last chunk arrives. */
+    add(message: MirrorTopicMessage): TopicStreamMessage | undefined {
+        this.expire(timestampMs(message.consensusTimestamp));
+
+        const info = message.chunkInfo;
+        if (!info || info.total <= 1) {
+            return {
+                ...message,
+                chunkSequenceNumbers: [message.sequenceNumber],
+            };
+        }
+
+        let group = this.groups.get(info.initialTransactionId);
+        if (!group) {
+            group = {
+                chunks: new Map(),
+                firstSequence: Infinity,
+                total: info.total,
+                deadline:
+                    timestampMs(message.consensusTimestamp) +
+                    this.chunkTimeoutMs,
+            };
+            this.groups.set(info.initialTransactionId, group);
+        }
+        if (group.chunks.has(info.number)) return undefined;
+        group.chunks.set(info.number, message);
+        group.firstSequence = Math.min(
+            group.firstSequence,
+            Number(message.sequenceNumber),
+        );
+        if (group.chunks.size < info.total) return undefined;
+
+        this.groups.delete(info.initialTransactionId);
+        const chunks = [...group.chunks.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, chunk]) => chunk);
+        return {
+            ...message,
+            message: Buffer.concat(
+                chunks.map((chunk) => Buffer.from(chunk.message, "base64")),
+            ).toString("base64"),
+            chunkSequenceNumbers: chunks.map((chunk) => chunk.sequenceNumber),
+        };
+    }
+
+    /** Drop the groups whose missing chunks can no longer arrive. */
+    private expire(consensusMs: number): void {
+        for (const [initialTransactionId, group] of this.groups) {
+            if (consensusMs <= group.deadline) continue;
+            this.groups.delete(initialTransactionId);
+            const sequences = [...group.chunks.values()]
+                .map((chunk) => chunk.sequenceNumber)
+                .join(", ");
+            process.emitWarning(
+                `Skipped an incomplete chunked message on topic ${this.topicId}: ${group.chunks.size} of ${group.total} chunks of ${initialTransactionId} arrived (sequence numbers ${sequences}).`,
+                "HieroTopicStreamWarning",
+            );
+        }
+    }
+}
+
+/** `"1700000000.123456789"` → milliseconds since the epoch */
+function timestampMs(timestamp: string): number {
+    return Number(timestamp) * 1000;
+}
+
+function aborted(topicId: string): HieroError {
+    return new HieroError(`Topic stream aborted: ${topicId}`, {
+        code: HieroErrorCodes.Aborted,
+        context: topicId,
+    });
+}
+
+function sleep(
+    ms: number,
+    topicId: string,
+    signal?: AbortSignal,
+): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(aborted(topicId));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(aborted(topicId));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Poll a topic's messages from the mirror node REST API, forever.
+ *
+ * Reads pages in ascending sequence order until caught up, then waits
+ * `pollIntervalMs` and asks for anything newer. Messages are delivered
+ * once each, in the order they completed; a chunked message is held back
+ * until all of its chunks have arrived, and skipped with a
+ * `HieroTopicStreamWarning` if they cannot all arrive any more.
+ *
+ * A checkpoint is saved when the consumer asks for the next message, i.e.
+ * after it has finished with the previous one. Delivery across restarts is
+ * therefore at-least-once for the message being processed at the time of a
+ * crash, and exactly-once otherwise: the saved position lets a restarted
+ * stream re-read any half-received chunked message while skipping messages
+ * it already delivered.
+ */
+export async function* streamTopicMessages(
+    client: MirrorNodeClient,
+    topicId: string,
+    options: TopicStreamOptions = {},
+): AsyncGenerator<TopicStreamMessage, void, undefined> {
+    const {
+        pollIntervalMs = 2_000,
+        pageSize = 100,
+        checkpoint,
+        signal,
+        chunkTimeoutMs = MAX_VALID_DURATION_MS,
+    } = options;
+    const saved = await checkpoint?.load(topicId);
+    // Highest sequence number handed to the consumer
+    let delivered =
+        saved?.lastSequenceNumber ?? (options.fromSequence ?? 1) - 1;
+    // Highest sequence number read from the mirror node
+    let cursor = (saved?.resumeFrom ?? delivered + 1) - 1;
+    const assembler = new ChunkAssembler(topicId, chunkTimeoutMs);
+
+    for (;;) {
+        const page = client.paginateTopicMessages(topicId, {
+            sequenceNumber: { gt: cursor },
+            order: "asc",
+            limit: pageSize,
+            signal,
+        });
+        for await (const message of page) {
+            const sequence = Number(message.sequenceNumber);
+            if (sequence <= cursor) continue;
+            cursor = sequence;
+
+            const complete = assembler.add(message);
+            // A message completing at or before `delivered` is a replay of
+            // one delivered before a restart.
+            if (!complete || sequence <= delivered) continue;
+
+            delivered = sequence;
+            yield complete;
+            await checkpoint?.save(topicId, {
+                lastSequenceNumber: delivered,
+                resumeFrom: assembler.pendingFrom ?? cursor + 1,
+            });
+        }
+        await sleep(pollIntervalMs, topicId, signal);
+    }
+}
@@ -1,4 +1,9 @@
-import type { TransactionInfo, Page } from "../types/index.js";
+import type {
+    TransactionInfo,
+    Page,
+    PaginationOptions,
+    TransactionFilter,
+} from "../types/index.js";
 import type { MirrorNodeClient } from "../mirror/index.js";
 
 /**
@@ -9,9 +14,25 @@ export class TransactionRepository {
 
     /**
      * Find all transactions for an account.
+     *
+     * @example
+     * ```ts
+     * // Failed transactions in a time window, newest first
+     * const page = await transactionRepository.findByAccount("0.0.1234", {
+     *     timestamp: { gte: new Date("2026-01-01"), lt: new Date("2026-02-01") },
+     *     result: "fail",
+     *     order: "desc",
+     * });
+     * ```
      */
-    async findByAccount(accountId: string): Promise<Page<TransactionInfo>> {
-        return this.mirrorNodeClient.queryTransactionsByAccount(accountId);
+    async findByAccount(
+        accountId: string,
+        filter?: TransactionFilter,
+    ): Promise<Page<TransactionInfo>> {
+        return this.mirrorNodeClient.queryTransactionsByAccount(
+            accountId,
+            filter,
+        );
     }
 
     /**
@@ -20,10 +41,12 @@ export class TransactionRepository {
     async findByAccountAndType(
         accountId: string,
         transactionType: string,
+        filter?: TransactionFilter,
     ): Promise<Page<TransactionInfo>> {
         return this.mirrorNodeClient.queryTransactionsByAccountAndType(
             accountId,
             transactionType,
+            filter,
         );
     }
 
@@ -33,4 +56,44 @@ export class TransactionRepository {
     async findById(transactionId: string): Promise<TransactionInfo> {
         return this.mirrorNodeClient.queryTransaction(transactionId);
     }
+
+    /**
+     * Iterate over every transaction for an account, following pagination
+     * links automatically.
+     *
+     * @example
+     * ```ts
+     * const controller = new AbortController();
+     * for await (const tx of transactionRepository.iterateByAccount("0.0.1234", {
+     *     maxItems: 10_000,
+     *     signal: controller.signal,
+     * })) {
+     *     reconcile(tx);
+     * }
+     * ```
+     */
+    iterateByAccount(
+        accountId: string,
+        options?: TransactionFilter & PaginationOptions,
+    ): AsyncIterable<TransactionInfo> {
+        return this.mirrorNodeClient.paginateTransactionsByAccount(
+            accountId,
+            options,
+        );
+    }
+
+    /**
+     * Iterate over every transaction of a given type for an account.
+     */
+    iterateByAccountAndType(
+        accountId: string,
+        transactionType: string,
+        options?: TransactionFilter & PaginationOptions,
+    ): AsyncIterable<TransactionInfo> {
+        return this.mirrorNodeClient.paginateTransactionsByAccountAndType(
+            accountId,
+            transactionType,
+            options,
+        );
+    }
 }
@@ -0,0 +1,17 @@
+export {
+    keyFileSecretProvider,
+    pemSecretProvider,
+    secretProviderSigner,
+} from "./secret-provider.js";
+export type { SecretProvider, PassphraseSource } from "./secret-provider.js";
+export {
+    encryptKeystore,
+    decryptKeystore,
+    keystoreSecretProvider,
+} from "./keystore.js";
+export type {
+    Keystore,
+    EncryptKeystoreOptions,
+    ScryptParams,
+    Pbkdf2Params,
+} from "./keystore.js";
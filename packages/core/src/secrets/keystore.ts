@@ -0,0 +1,254 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    pbkdf2,
+    randomBytes,
+    scrypt,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { PrivateKey, PublicKey } from "@hiero-ledger/sdk";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+import type { PassphraseSource, SecretProvider } from "./secret-provider.js";
+import { resolvePassphrase } from "./secret-provider.js";
+
+/** scrypt cost (N) of new keystores: 128 MiB of memory per derivation */
+const DEFAULT_SCRYPT_COST = 2 ** 17;
+/** PBKDF2-HMAC-SHA256 iterations of new keystores, as OWASP recommends */
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+const KEY_LENGTH = 32;
+
+export interface ScryptParams {
+    n: number;
+    r: number;
+    p: number;
+    dklen: number;
+    /** Hex */
+    salt: string;
+}
+
+export interface Pbkdf2Params {
+    c: number;
+    prf: "hmac-sha256";
+    dklen: number;
+    /** Hex */
+    salt: string;
+}
+
+type KdfSettings =
+    | { kdf: "scrypt"; kdfparams: ScryptParams }
+    | { kdf: "pbkdf2"; kdfparams: Pbkdf2Params };
+
+/**
+ * An operator key encrypted with a passphrase, stored as JSON.
+ *
+ * The private key is encrypted with AES-256-GCM under a key derived from
+ * the passphrase with scrypt or PBKDF2. The public key is stored in the
+ * clear, and authenticated with the ciphertext so it cannot be swapped.
+ */
+export interface Keystore {
+    version: 1;
+    keyType: "ed25519" | "ecdsa";
+    /** DER-encoded public key, hex */
+    publicKey: string;
+    crypto: {
+        cipher: "aes-256-gcm";
+        /** Hex */
+        ciphertext: string;
+        /** Hex */
+        iv: string;
+        /** GCM authentication tag, hex */
+        tag: string;
+    } & KdfSettings;
+}
+
+/**
+ * Options for {@link encryptKeystore}. The defaults suit a key unlocked
+ * once per process start; lower costs only for tests.
+ */
+export interface EncryptKeystoreOptions {
+    /** Key derivation function (default: `"scrypt"`) */
+    kdf?: "scrypt" | "pbkdf2";
+    /** scrypt cost N, a power of two (default: 2^17) */
+    scryptCost?: number;
+    /** PBKDF2 iterations (default: 600000) */
+    pbkdf2Iterations?: number;
+}
+
+/**
+ * Encrypt a private key into a {@link Keystore}. Write it to a file with
+ * `JSON.stringify` and open it with {@link keystoreSecretProvider}.
+ */
+export async function encryptKeystore(
+    key: PrivateKey,
+    passphrase: string,
+    options: EncryptKeystoreOptions = {},
+): Promise<Keystore> {
+    const salt = randomBytes(32).toString("hex");
+    const kdf: KdfSettings =
+        options.kdf === "pbkdf2"
+            ? {
+                  kdf: "pbkdf2",
+                  kdfparams: {
+                      c: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+                      prf: "hmac-sha256",
+                      dklen: KEY_LENGTH,
+                      salt,
+                  },
+              }
+            : {
+                  kdf: "scrypt",
+                  kdfparams: {
+                      n: options.scryptCost ?? DEFAULT_SCRYPT_COST,
+                      r: 8,
+                      p: 1,
+                      dklen: KEY_LENGTH,
+                      salt,
+                  },
+              };
+    const publicKey = key.publicKey.toStringDer();
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+        "aes-256-gcm",
+        await deriveKey(kdf, passphrase),
+        iv,
+    );
+    cipher.setAAD(Buffer.from(publicKey, "hex"));
+    const ciphertext = Buffer.concat([
+        cipher.update(key.toBytesRaw()),
+        cipher.final(),
+    ]);
+    return {
+        version: 1,
+        keyType: key.type === "ED25519" ? "ed25519" : "ecdsa",
+        publicKey,
+        crypto: {
+            cipher: "aes-256-gcm",
+            ciphertext: ciphertext.toString("hex"),
+            iv: iv.toString("hex"),
+            tag: cipher.getAuthTag().toString("hex"),
+            ...kdf,
+        },
+    };
+}
+
+/**
+ * Decrypt the private key of a {@link Keystore}.
+ *
+ * @throws {HieroError} `ConfigInvalid` for a wrong passphrase or a
+ *   damaged or unsupported keystore
+ */
+export async function decryptKeystore(
+    keystore: Keystore,
+    passphrase: string,
+): Promise<PrivateKey> {
+    assertKeystore(keystore, "decryptKeystore");
+    const { crypto } = keystore;
+    let raw: Buffer;
+    try {
+        const decipher = createDecipheriv(
+            "aes-256-gcm",
+            await deriveKey(crypto, passphrase),
+            Buffer.from(crypto.iv, "hex"),
+        );
+        decipher.setAAD(Buffer.from(keystore.publicKey, "hex"));
+        decipher.setAuthTag(Buffer.from(crypto.tag, "hex"));
+        raw = Buffer.concat([
+            decipher.update(Buffer.from(crypto.ciphertext, "hex")),
+            decipher.final(),
+        ]);
+    } catch (cause) {
+        throw new HieroError(
+            "Cannot decrypt the keystore: wrong passphrase, or the keystore is damaged.",
+            {
+                code: HieroErrorCodes.ConfigInvalid,
+                context: "decryptKeystore",
+                cause: cause instanceof Error ? cause : undefined,
+            },
+        );
+    }
+    return keystore.keyType === "ed25519"
+        ? PrivateKey.fromBytesED25519(raw)
+        : PrivateKey.fromBytesECDSA(raw);
+}
+
+/**
+ * A provider decrypting the operator key from a keystore file written
+ * with {@link encryptKeystore}.
+ *
+ * The file is read now, so a missing or malformed keystore fails at
+ * startup and its public key is known; the passphrase is resolved and
+ * the key decrypted only when the operator first signs.
+ *
+ * @throws {HieroError} `ConfigInvalid` if the file cannot be read or is
+ *   not a keystore
+ */
+export function keystoreSecretProvider(
+    path: string,
+    passphrase: PassphraseSource,
+): SecretProvider {
+    const file = resolve(path);
+    const source = `keystore ${file}`;
+    let keystore: Keystore;
+    try {
+        keystore = JSON.parse(readFileSync(file, "utf8")) as Keystore;
+    } catch (cause) {
+        throw new HieroError(
+            `Cannot read ${source}: ${cause instanceof Error ? cause.message : String(cause)}`,
+            {
+                code: HieroErrorCodes.ConfigInvalid,
+                cause: cause instanceof Error ? cause : undefined,
+            },
+        );
+    }
+    assertKeystore(keystore, source);
+    return {
+        source,
+        publicKey: PublicKey.fromString(keystore.publicKey),
+        loadKey: async () =>
+            decryptKeystore(keystore, await resolvePassphrase(passphrase)),
+    };
+}
+
+async function deriveKey(
+    crypto: KdfSettings,
+    passphrase: string,
+): Promise<Buffer> {
+    const salt = Buffer.from(crypto.kdfparams.salt, "hex");
+    if (crypto.kdf === "pbkdf2") {
+        const { c, dklen } = crypto.kdfparams;
+        return await new Promise((resolve, reject) =>
+            pbkdf2(passphrase, salt, c, dklen, "sha256", (error, key) =>
+                error ? reject(error) : resolve(key),
+            ),
+        );
+    }
+    const { n: N, r, p, dklen } = crypto.kdfparams;
+    return await new Promise((resolve, reject) =>
+        scrypt(
+            passphrase,
+            salt,
+            dklen,
+            { N, r, p, maxmem: 256 * N * r },
+            (error, key) => (error ? reject(error) : resolve(key)),
+        ),
+    );
+}
+
+function assertKeystore(keystore: Keystore, context: string): void {
+    const crypto = keystore?.crypto as Partial<Keystore["crypto"]> | undefined;
+    const valid =
+        keystore?.version === 1 &&
+        (keystore.keyType === "ed25519" || keystore.keyType === "ecdsa") &&
+        typeof keystore.publicKey === "string" &&
+        crypto?.cipher === "aes-256-gcm" &&
+        (crypto.kdf === "scrypt" || crypto.kdf === "pbkdf2") &&
+        crypto.kdfparams?.dklen === KEY_LENGTH;
+    if (!valid) {
+        throw new HieroError(
+            "Not a supported keystore: expected version 1 with aes-256-gcm and scrypt or pbkdf2.",
+            { code: HieroErrorCodes.ConfigInvalid, context },
+        );
+    }
+}
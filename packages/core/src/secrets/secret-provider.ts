@@ -0,0 +1,198 @@
+import { createPrivateKey } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { PublicKey } from "@hiero-ledger/sdk";
+import { PrivateKey } from "@hiero-ledger/sdk";
+import { HieroError, HieroErrorCodes } from "../errors/index.js";
+import { OperatorKeyType } from "../types/index.js";
+import type { ExternalSigner } from "../services/transaction/TransactionOptions.js";
+
+/**
+ * Loads the operator's private key on demand, from a keystore, a key file
+ * or a vault.
+ *
+ * Implement it directly for a secret manager of your own:
+ *
+ * @example
+ * ```ts
+ * const vault: SecretProvider = {
+ *     source: "vault secret hiero/operator",
+ *     loadKey: async () =>
+ *         PrivateKey.fromStringDer(await vaultClient.read("hiero/operator")),
+ * };
+ * ```
+ */
+export interface SecretProvider {
+    /** Where the key comes from, for error messages, e.g. `"key file /run/secrets/operator"` */
+    readonly source: string;
+    /**
+     * The key's public half, when the source stores it in the clear.
+     * Otherwise set `operatorPublicKey` in the config.
+     */
+    readonly publicKey?: PublicKey;
+    /** Load the private key. Called when the operator first signs. */
+    loadKey(): Promise<PrivateKey>;
+}
+
+/** A passphrase, or a (possibly async) function returning it when it is needed */
+export type PassphraseSource = string | (() => string | Promise<string>);
+
+/**
+ * A provider reading a plaintext private key from a file, e.g. a Docker or
+ * Kubernetes secret mounted at `/run/secrets/...`.
+ *
+ * @param path - File holding the key as a hex or DER string.
+ * @param keyType - How to parse the key (`"ed25519"`, `"ecdsa"` or `"der"`).
+ */
+export function keyFileSecretProvider(
+    path: string,
+    keyType: string,
+): SecretProvider {
+    const file = resolve(path);
+    const source = `key file ${file}`;
+    return {
+        source,
+        loadKey: async () => {
+            const key = (await readSecretFile(file, source)).trim();
+            try {
+                return parsePrivateKey(key, keyType);
+            } catch (cause) {
+                throw loadError(source, cause);
+            }
+        },
+    };
+}
+
+/**
+ * A provider reading a PEM-encoded PKCS#8 private key, encrypted with a
+ * passphrase or not. ED25519 and ECDSA secp256k1 keys are supported.
+ *
+ * @param path - The `.pem` file.
+ * @param passphrase - The passphrase of an `ENCRYPTED PRIVATE KEY`.
+ */
+export function pemSecretProvider(
+    path: string,
+    passphrase?: PassphraseSource,
+): SecretProvider {
+    const file = resolve(path);
+    const source = `PEM file ${file}`;
+    return {
+        source,
+        loadKey: async () => {
+            const pem = await readSecretFile(file, source);
+            try {
+                const jwk = createPrivateKey({
+                    key: pem,
+                    format: "pem",
+                    passphrase:
+                        passphrase == null
+                            ? undefined
+                            : await resolvePassphrase(passphrase),
+                }).export({ format: "jwk" });
+                const raw = Buffer.from(jwk.d ?? "", "base64url");
+                if (jwk.crv === "Ed25519") {
+                    return PrivateKey.fromBytesED25519(raw);
+                }
+                if (jwk.crv === "secp256k1") {
+                    return PrivateKey.fromBytesECDSA(raw);
+                }
+                throw new Error(
+                    `unsupported key ${jwk.crv ?? jwk.kty}; expected ED25519 or ECDSA secp256k1`,
+                );
+            } catch (cause) {
+                throw loadError(source, cause);
+            }
+        },
+    };
+}
+
+/**
+ * An {@link ExternalSigner} loading its key from a provider on the first
+ * signature. The key is checked against `publicKey` once loaded, and kept
+ * only inside the signer.
+ *
+ * @throws {HieroError} `ConfigInvalid` if neither `publicKey` nor the
+ *   provider's `publicKey` is set
+ */
+export function secretProviderSigner(
+    provider: SecretProvider,
+    publicKey: PublicKey | undefined = provider.publicKey,
+): ExternalSigner {
+    if (publicKey == null) {
+        throw new HieroError(
+            `The public key of the operator key in ${provider.source} is unknown. Set operatorPublicKey (HIERO_OPERATOR_PUBLIC_KEY); it is not secret.`,
+            { code: HieroErrorCodes.ConfigInvalid },
+        );
+    }
+    let key: Promise<PrivateKey> | undefined;
+    const load = async (): Promise<PrivateKey> => {
+        const loaded = await provider.loadKey();
+        if (!loaded.publicKey.equals(publicKey)) {
+            throw new HieroError(
+                `The key loaded from ${provider.source} does not match the operator public key.`,
+                { code: HieroErrorCodes.ConfigInvalid },
+            );
+        }
+        return loaded;
+    };
+    return {
+        publicKey,
+        sign: async (message) => {
+            // A failed load is retried on the next signature
+            key ??= load().catch((error: unknown) => {
+                key = undefined;
+                throw error;
+            });
+            return (await key).sign(message);
+        },
+    };
+}
+
+/**
+ * Parse a private key string based on the specified key type.
+ */
+export function parsePrivateKey(key: string, keyType: string): PrivateKey {
+    switch (keyType) {
+        case OperatorKeyType.ED25519:
+            return PrivateKey.fromStringED25519(key);
+        case OperatorKeyType.DER:
+            return PrivateKey.fromStringDer(key);
+        case OperatorKeyType.ECDSA:
+            return PrivateKey.fromStringECDSA(key);
+        default:
+            throw new HieroError(
+                `Invalid operatorKeyType: "${keyType}". Must be one of: "ed25519", "ecdsa", "der".`,
+                { code: HieroErrorCodes.ConfigInvalid },
+            );
+    }
+}
+
+export async function resolvePassphrase(
+    passphrase: PassphraseSource,
+): Promise<string> {
+    return typeof passphrase === "string" ? passphrase : await passphrase();
+}
+
+export async function readSecretFile(
+    path: string,
+    source: string,
+): Promise<string> {
+    try {
+        return await readFile(path, "utf8");
+    } catch (cause) {
+        throw loadError(source, cause);
+    }
+}
+
+function loadError(source: string, cause: unknown): HieroError {
+    if (cause instanceof HieroError) {
+        return cause;
+    }
+    return new HieroError(
+        `Cannot load the operator key from ${source}: ${cause instanceof Error ? cause.message : String(cause)}`,
+        {
+            code: HieroErrorCodes.ConfigInvalid,
+            cause: cause instanceof Error ? cause : undefined,
+        },
+    );
+}
@@ -13,6 +13,7 @@ import {
     AutoCreateEvmAccountOperation,
     DeleteAccountOperation,
     UpdateAccountOperation,
+    RotateAccountKeyOperation,
     ApproveAllowanceOperation,
     DeleteAllowanceOperation,
     DeleteAllNftAllowancesOperation,
@@ -24,6 +25,7 @@ import type {
     DeleteAccountOptions,
     ScheduleDeleteAccountOptions,
     UpdateAccountOptions,
+    RotateAccountKeyOptions,
     ApproveHbarAllowanceOptions,
     ApproveTokenAllowanceOptions,
     ApproveNftAllowanceOptions,
@@ -45,8 +47,26 @@ import type {
     ScheduleOptions,
     ScheduledResult,
     TransactionOptions,
+    PreparedTransaction,
+    KeyRotationRecord,
 } from "../transaction/index.js";
 
+/**
+ * Reject an empty allowance list before any transaction is built.
+ */
+function requireEntries(
+    entries: readonly unknown[] | undefined,
+    field: string,
+    methodName: string,
+): void {
+    if (!entries?.length) {
+        throw normalizeError(
+            new Error(`${field} must be provided with at least one entry.`),
+            `AccountService.${methodName}`,
+        );
+    }
+}
+
 /**
  * Service for managing accounts on the Hiero network.
  *
@@ -56,6 +76,7 @@ export class AccountService {
     private readonly autoCreateOperation: AutoCreateEvmAccountOperation;
     private readonly deleteOperation: DeleteAccountOperation;
     private readonly updateOperation: UpdateAccountOperation;
+    private readonly rotateKeyOperation: RotateAccountKeyOperation;
     private readonly approveAllowanceOperation: ApproveAllowanceOperation;
     private readonly deleteAllowanceOperation: DeleteAllowanceOperation;
     private readonly deleteAllNftAllowancesOperation: DeleteAllNftAllowancesOperation;
@@ -68,6 +89,7 @@ export class AccountService {
         this.autoCreateOperation = new AutoCreateEvmAccountOperation(context);
         this.deleteOperation = new DeleteAccountOperation(context);
         this.updateOperation = new UpdateAccountOperation(context);
+        this.rotateKeyOperation = new RotateAccountKeyOperation(context);
         this.approveAllowanceOperation = new ApproveAllowanceOperation(context);
         this.deleteAllowanceOperation = new DeleteAllowanceOperation(context);
         this.deleteAllNftAllowancesOperation =
@@ -101,6 +123,16 @@ export class AccountService {
         return await this.createOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `createAccount` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCreateAccount(
+        options: CreateAccountOptions,
+    ): Promise<PreparedTransaction<Account>> {
+        return await this.createOperation.prepare(options);
+    }
+
     /**
      * Schedule account creation instead of executing immediately.
      * Returns a `scheduleId` — other parties can then sign via `ScheduleSignTransaction`.
@@ -139,6 +171,16 @@ export class AccountService {
         return await this.autoCreateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `autoCreateEvmAccount` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareAutoCreateEvmAccount(
+        options: AutoCreateEvmAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.autoCreateOperation.prepare(options);
+    }
+
     /**
      * Schedule the hollow-account HBAR transfer instead of executing immediately.
      *
@@ -168,6 +210,16 @@ export class AccountService {
         return await this.deleteOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `deleteAccount` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteAccount(
+        options: DeleteAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.deleteOperation.prepare(options);
+    }
+
     /**
      * Schedule account deletion instead of executing immediately.
      *
@@ -206,6 +258,16 @@ export class AccountService {
         return await this.updateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateAccount` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateAccount(
+        options: UpdateAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.updateOperation.prepare(options);
+    }
+
     /**
      * Schedule account update instead of executing immediately.
      *
@@ -228,6 +290,34 @@ export class AccountService {
         return await this.updateOperation.schedule(options, scheduleOptions);
     }
 
+    /**
+     * Rotate an account's key.
+     *
+     * Reads the account's key from a consensus node first and refuses the
+     * rotation if it differs from `expectedKey`, or if the signers cannot
+     * satisfy both the current and the new key. After the update, the key
+     * is read back to confirm the rotation took effect.
+     *
+     * With `schedule`, the update is wrapped in a schedule signed by the
+     * given signers instead, for the other holders of a threshold key to
+     * approve; the record then has status `"scheduled"`.
+     *
+     * @param options.accountId - The account whose key to rotate
+     * @param options.newKey - The key to rotate to
+     * @param options.expectedKey - The key the account must have now
+     * @param options.currentSigners - Signers satisfying the current key
+     * @param options.newSigners - Signers satisfying the new key
+     * @param options.schedule - Schedule the rotation, optionally with `ScheduleOptions`
+     * @returns A record of the previous and new key and the transaction
+     * @throws {HieroError} `Rejected` if the current key is not the expected
+     *   one or a signature is missing
+     */
+    async rotateKey(
+        options: RotateAccountKeyOptions,
+    ): Promise<KeyRotationRecord> {
+        return await this.rotateKeyOperation.execute(options);
+    }
+
     /**
      * Get the balance of an account.
      *
@@ -305,20 +395,35 @@ export class AccountService {
     async approveHbarAllowance(
         options: ApproveHbarAllowanceOptions,
     ): Promise<TransactionReceipt> {
-        if (!options.hbarAllowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "hbarAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.approveHbarAllowance",
-            );
-        }
+        requireEntries(
+            options.hbarAllowances,
+            "hbarAllowances",
+            "approveHbarAllowance",
+        );
         return await this.approveAllowanceOperation.execute(
             options,
             "approveHbarAllowance",
         );
     }
 
+    /**
+     * Build and freeze the `approveHbarAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareApproveHbarAllowance(
+        options: ApproveHbarAllowanceOptions,
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        requireEntries(
+            options.hbarAllowances,
+            "hbarAllowances",
+            "approveHbarAllowance",
+        );
+        return await this.approveAllowanceOperation.prepare(
+            options,
+            "approveHbarAllowance",
+        );
+    }
+
     /**
      * Approve fungible token allowances — grant a spender permission to transfer
      * tokens on the owner's behalf.
@@ -331,20 +436,35 @@ export class AccountService {
     async approveTokenAllowance(
         options: ApproveTokenAllowanceOptions,
     ): Promise<TransactionReceipt> {
-        if (!options.tokenAllowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "tokenAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.approveTokenAllowance",
-            );
-        }
+        requireEntries(
+            options.tokenAllowances,
+            "tokenAllowances",
+            "approveTokenAllowance",
+        );
         return await this.approveAllowanceOperation.execute(
             options,
             "approveTokenAllowance",
         );
     }
 
+    /**
+     * Build and freeze the `approveTokenAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareApproveTokenAllowance(
+        options: ApproveTokenAllowanceOptions,
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        requireEntries(
+            options.tokenAllowances,
+            "tokenAllowances",
+            "approveTokenAllowance",
+        );
+        return await this.approveAllowanceOperation.prepare(
+            options,
+            "approveTokenAllowance",
+        );
+    }
+
     /**
      * Approve NFT allowances — grant a spender permission to transfer
      * NFTs on the owner's behalf. Supports specific serials or all serials.
@@ -357,20 +477,35 @@ export class AccountService {
     async approveNftAllowance(
         options: ApproveNftAllowanceOptions,
     ): Promise<TransactionReceipt> {
-        if (!options.nftAllowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "nftAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.approveNftAllowance",
-            );
-        }
+        requireEntries(
+            options.nftAllowances,
+            "nftAllowances",
+            "approveNftAllowance",
+        );
         return await this.approveAllowanceOperation.execute(
             options,
             "approveNftAllowance",
         );
     }
 
+    /**
+     * Build and freeze the `approveNftAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareApproveNftAllowance(
+        options: ApproveNftAllowanceOptions,
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        requireEntries(
+            options.nftAllowances,
+            "nftAllowances",
+            "approveNftAllowance",
+        );
+        return await this.approveAllowanceOperation.prepare(
+            options,
+            "approveNftAllowance",
+        );
+    }
+
     /**
      * Delete NFT allowances — revoke a spender's approval for specific NFT
      * serial numbers previously granted by the owner.
@@ -390,14 +525,7 @@ export class AccountService {
         allowances: NftAllowanceDeletion[],
         options: DeleteAllowanceOptions = {},
     ): Promise<TransactionReceipt> {
-        if (!allowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "nftAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.deleteNftAllowance",
-            );
-        }
+        requireEntries(allowances, "nftAllowances", "deleteNftAllowance");
         return await this.deleteAllowanceOperation.execute(
             allowances,
             options,
@@ -405,6 +533,22 @@ export class AccountService {
         );
     }
 
+    /**
+     * Build and freeze the `deleteNftAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteNftAllowance(
+        allowances: NftAllowanceDeletion[],
+        options: DeleteAllowanceOptions = {},
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        requireEntries(allowances, "nftAllowances", "deleteNftAllowance");
+        return await this.deleteAllowanceOperation.prepare(
+            allowances,
+            options,
+            "deleteNftAllowance",
+        );
+    }
+
     /**
      * Delete "approve-for-all-serials" NFT allowances — revoke a spender's
      * blanket approval to transfer any NFT in the collection on the owner's
@@ -422,14 +566,7 @@ export class AccountService {
         allowances: NftAllSerialsAllowanceDeletion[],
         options: DeleteAllNftAllowancesOptions = {},
     ): Promise<TransactionReceipt> {
-        if (!allowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "nftAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.deleteAllNftAllowances",
-            );
-        }
+        requireEntries(allowances, "nftAllowances", "deleteAllNftAllowances");
         return await this.deleteAllNftAllowancesOperation.execute(
             allowances,
             options,
@@ -437,6 +574,22 @@ export class AccountService {
         );
     }
 
+    /**
+     * Build and freeze the `deleteAllNftAllowances` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteAllNftAllowances(
+        allowances: NftAllSerialsAllowanceDeletion[],
+        options: DeleteAllNftAllowancesOptions = {},
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        requireEntries(allowances, "nftAllowances", "deleteAllNftAllowances");
+        return await this.deleteAllNftAllowancesOperation.prepare(
+            allowances,
+            options,
+            "deleteAllNftAllowances",
+        );
+    }
+
     /**
      * Delete HBAR allowances — revoke a spender's previously granted permission
      * to spend HBAR on the owner's behalf.
@@ -451,23 +604,22 @@ export class AccountService {
         allowances: HbarAllowanceDeletion[],
         options: TransactionOptions = {},
     ): Promise<TransactionReceipt> {
-        if (!allowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "hbarAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.deleteHbarAllowance",
-            );
-        }
         return await this.approveAllowanceOperation.execute(
-            {
-                ...options,
-                hbarAllowances: allowances.map((a) => ({
-                    ownerAccountId: a.ownerAccountId,
-                    spenderAccountId: a.spenderAccountId,
-                    amount: 0,
-                })),
-            },
+            this.hbarAllowanceRevocation(allowances, options),
+            "deleteHbarAllowance",
+        );
+    }
+
+    /**
+     * Build and freeze the `deleteHbarAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteHbarAllowance(
+        allowances: HbarAllowanceDeletion[],
+        options: TransactionOptions = {},
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        return await this.approveAllowanceOperation.prepare(
+            this.hbarAllowanceRevocation(allowances, options),
             "deleteHbarAllowance",
         );
     }
@@ -486,24 +638,22 @@ export class AccountService {
         allowances: TokenAllowanceDeletion[],
         options: TransactionOptions = {},
     ): Promise<TransactionReceipt> {
-        if (!allowances?.length) {
-            throw normalizeError(
-                new Error(
-                    "tokenAllowances must be provided with at least one entry.",
-                ),
-                "AccountService.deleteTokenAllowance",
-            );
-        }
         return await this.approveAllowanceOperation.execute(
-            {
-                ...options,
-                tokenAllowances: allowances.map((a) => ({
-                    tokenId: a.tokenId,
-                    ownerAccountId: a.ownerAccountId,
-                    spenderAccountId: a.spenderAccountId,
-                    amount: 0,
-                })),
-            },
+            this.tokenAllowanceRevocation(allowances, options),
+            "deleteTokenAllowance",
+        );
+    }
+
+    /**
+     * Build and freeze the `deleteTokenAllowance` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteTokenAllowance(
+        allowances: TokenAllowanceDeletion[],
+        options: TransactionOptions = {},
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        return await this.approveAllowanceOperation.prepare(
+            this.tokenAllowanceRevocation(allowances, options),
             "deleteTokenAllowance",
         );
     }
@@ -535,6 +685,24 @@ export class AccountService {
         );
     }
 
+    /**
+     * Build and freeze the `transferHbar` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareTransferHbar(
+        receiverAccountId: string | AccountId,
+        amount: number | Hbar,
+        senderAccountId: string | AccountId,
+        options?: TransferHbarOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.transferOperation.prepareTransferHbar(
+            receiverAccountId,
+            amount,
+            senderAccountId,
+            options,
+        );
+    }
+
     /**
      * Schedule an HBAR transfer.
      *
@@ -587,6 +755,26 @@ export class AccountService {
         );
     }
 
+    /**
+     * Build and freeze the `transferToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareTransferToken(
+        tokenId: string | TokenId,
+        receiverAccountId: string | AccountId,
+        amount: number,
+        senderAccountId: string | AccountId,
+        options?: TransferTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.transferOperation.prepareTransferToken(
+            tokenId,
+            receiverAccountId,
+            amount,
+            senderAccountId,
+            options,
+        );
+    }
+
     /**
      * Schedule a fungible token transfer.
      *
@@ -638,6 +826,26 @@ export class AccountService {
         );
     }
 
+    /**
+     * Build and freeze the `transferNft` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareTransferNft(
+        tokenId: string | TokenId,
+        serial: number,
+        receiverAccountId: string | AccountId,
+        senderAccountId: string | AccountId,
+        options?: TransferNftOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.transferOperation.prepareTransferNft(
+            tokenId,
+            serial,
+            receiverAccountId,
+            senderAccountId,
+            options,
+        );
+    }
+
     /**
      * Schedule an NFT transfer.
      *
@@ -661,4 +869,41 @@ export class AccountService {
             options,
         );
     }
+
+    /**
+     * Revoke HBAR allowances by approving an amount of zero.
+     */
+    private hbarAllowanceRevocation(
+        allowances: HbarAllowanceDeletion[],
+        options: TransactionOptions,
+    ): ApproveHbarAllowanceOptions {
+        requireEntries(allowances, "hbarAllowances", "deleteHbarAllowance");
+        return {
+            ...options,
+            hbarAllowances: allowances.map((a) => ({
+                ownerAccountId: a.ownerAccountId,
+                spenderAccountId: a.spenderAccountId,
+                amount: 0,
+            })),
+        };
+    }
+
+    /**
+     * Revoke fungible token allowances by approving an amount of zero.
+     */
+    private tokenAllowanceRevocation(
+        allowances: TokenAllowanceDeletion[],
+        options: TransactionOptions,
+    ): ApproveTokenAllowanceOptions {
+        requireEntries(allowances, "tokenAllowances", "deleteTokenAllowance");
+        return {
+            ...options,
+            tokenAllowances: allowances.map((a) => ({
+                tokenId: a.tokenId,
+                ownerAccountId: a.ownerAccountId,
+                spenderAccountId: a.spenderAccountId,
+                amount: 0,
+            })),
+        };
+    }
 }
@@ -6,6 +6,7 @@ export type {
     ScheduleDeleteAccountOptions,
 } from "./operations/index.js";
 export type { UpdateAccountOptions } from "./operations/index.js";
+export type { RotateAccountKeyOptions } from "./operations/index.js";
 export type {
     ApproveAllowanceOptions,
     ApproveHbarAllowanceOptions,
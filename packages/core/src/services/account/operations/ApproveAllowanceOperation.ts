@@ -8,7 +8,11 @@ import {
 } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { ApproveAllowanceValidator } from "../validation/index.js";
 
 /**
@@ -147,23 +151,40 @@ export class ApproveAllowanceOperation {
         this.validator.validate(options);
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze an `AccountAllowanceApproveTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ApproveAllowanceOptions,
+        methodName = "approveAllowance",
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        this.validator.validate(options);
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(methodName: string): TransactionCall<TransactionReceipt> {
+        return {
+            event: {
                 type: "AccountAllowanceApprove",
                 serviceName: "AccountService",
                 methodName,
                 timestamp: new Date(),
             },
-
             // TODO: Return something meaningful here
             // I agree the receipt contains useful information
             // but it would be nice to return something more specific
             // to allowance approval, e.g. the list of approved
             // allowances with their status.
-            (receipt) => receipt,
-        );
+            processReceipt: (receipt) => receipt,
+        };
     }
 
     /**
@@ -5,6 +5,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 
 /**
@@ -30,16 +32,28 @@ export class AutoCreateEvmAccountOperation {
 
     /** Auto-create EVM account execute handler. */
     async execute(options: AutoCreateEvmAccountOptions): Promise<void> {
+        const { event, processReceipt } = this.call();
         return await this.executor.run(
             this.build(options),
             options,
-            {
-                type: "AccountAutoCreate",
-                serviceName: "AccountService",
-                methodName: "autoCreateEvmAccount",
-                timestamp: new Date(),
-            },
-            () => undefined,
+            event,
+            processReceipt,
+        );
+    }
+
+    /**
+     * Build and freeze a `TransferTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: AutoCreateEvmAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(
+            this.build(options),
+            options,
+            event,
+            processReceipt,
         );
     }
 
@@ -51,14 +65,21 @@ export class AutoCreateEvmAccountOperation {
         return await this.executor.scheduleRun(
             this.build(options),
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "AccountAutoCreate",
                 serviceName: "AccountService",
                 methodName: "autoCreateEvmAccount",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     /**
@@ -8,6 +8,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { CreateAccountValidator } from "../validation/index.js";
 
@@ -115,17 +117,26 @@ export class CreateAccountOperation {
         const tx = this.build(options);
 
         // Execute the transaction and map the receipt to the Account return type
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "AccountCreate",
-                serviceName: "AccountService",
-                methodName: "createAccount",
-                timestamp: new Date(),
-            },
-            (receipt) => this.toAccount(receipt, options),
-        );
+        const { event, processReceipt } = this.call(options);
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze an `AccountCreateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: CreateAccountOptions,
+    ): Promise<PreparedTransaction<Account>> {
+        // Validate options first — before any key parsing or SDK construction
+        this.validator.validate(options);
+
+        // Build the transaction with the parsed options
+        const tx = this.build(options);
+
+        // Map the receipt to the Account return type on submission
+        const { event, processReceipt } = this.call(options);
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule account creation */
@@ -138,14 +149,21 @@ export class CreateAccountOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call(options).event,
+            scheduleOptions,
+        );
+    }
+
+    private call(options: CreateAccountOptions): TransactionCall<Account> {
+        return {
+            event: {
                 type: "AccountCreate",
                 serviceName: "AccountService",
                 methodName: "createAccount",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => this.toAccount(receipt, options),
+        };
     }
 
     /**
@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 
 /**
@@ -56,16 +58,36 @@ export class DeleteAccountOperation {
                 ...(options.additionalSigners ?? []),
             ],
         };
+        const { event, processReceipt } = this.call();
         return await this.executor.run(
             this.build(options),
             opts,
-            {
-                type: "AccountDelete",
-                serviceName: "AccountService",
-                methodName: "deleteAccount",
-                timestamp: new Date(),
-            },
-            () => undefined,
+            event,
+            processReceipt,
+        );
+    }
+
+    /**
+     * Build and freeze an `AccountDeleteTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: DeleteAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        // Prepend accountKey so it signs the tx before the operator auto-sign
+        const opts: DeleteAccountOptions = {
+            ...options,
+            additionalSigners: [
+                options.accountKey,
+                ...(options.additionalSigners ?? []),
+            ],
+        };
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(
+            this.build(options),
+            opts,
+            event,
+            processReceipt,
         );
     }
 
@@ -82,14 +104,21 @@ export class DeleteAccountOperation {
         return await this.executor.scheduleRun(
             this.build(options),
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "AccountDelete",
                 serviceName: "AccountService",
                 methodName: "deleteAccount",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     /**
@@ -5,7 +5,11 @@ import {
 } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { DeleteAllNftAllowancesValidator } from "../validation/index.js";
 
 /**
@@ -53,17 +57,36 @@ export class DeleteAllNftAllowancesOperation {
         this.validator.validate(allowances);
         const tx = this.build(allowances);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze an `AccountAllowanceApproveTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        allowances: NftAllSerialsAllowanceDeletion[],
+        options: DeleteAllNftAllowancesOptions = {},
+        methodName = "deleteAllNftAllowances",
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        this.validator.validate(allowances);
+        const tx = this.build(allowances);
+
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(methodName: string): TransactionCall<TransactionReceipt> {
+        return {
+            event: {
                 type: "AccountAllowanceApprove",
                 serviceName: "AccountService",
                 methodName,
                 timestamp: new Date(),
             },
-            (receipt) => receipt,
-        );
+            processReceipt: (receipt) => receipt,
+        };
     }
 
     /**
@@ -6,7 +6,11 @@ import {
 } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { DeleteAllowanceValidator } from "../validation/index.js";
 
 /**
@@ -54,17 +58,36 @@ export class DeleteAllowanceOperation {
         this.validator.validate(allowances);
         const tx = this.build(allowances);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze an `AccountAllowanceDeleteTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        allowances: NftAllowanceDeletion[],
+        options: DeleteAllowanceOptions = {},
+        methodName = "deleteNftAllowance",
+    ): Promise<PreparedTransaction<TransactionReceipt>> {
+        this.validator.validate(allowances);
+        const tx = this.build(allowances);
+
+        const { event, processReceipt } = this.call(methodName);
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(methodName: string): TransactionCall<TransactionReceipt> {
+        return {
+            event: {
                 type: "AccountAllowanceDelete",
                 serviceName: "AccountService",
                 methodName,
                 timestamp: new Date(),
             },
-            (receipt) => receipt,
-        );
+            processReceipt: (receipt) => receipt,
+        };
     }
 
     /**
@@ -0,0 +1,64 @@
+import { AccountInfoQuery, AccountUpdateTransaction } from "@hiero-ledger/sdk";
+import type { AccountId } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../../context/index.js";
+import { KeyRotation } from "../../transaction/index.js";
+import type {
+    KeyRotationRecord,
+    RotateKeyOptions,
+} from "../../transaction/index.js";
+import { RotateAccountKeyValidator } from "../validation/index.js";
+
+/**
+ * Options for rotating an account's key.
+ *
+ * The account's current key and the new key must both sign: pass them as
+ * `currentSigners` and `newSigners`, or set `schedule` to collect the
+ * remaining signatures on a scheduled transaction.
+ */
+export interface RotateAccountKeyOptions extends RotateKeyOptions {
+    /** The account whose key to rotate (e.g., "0.0.12345"). */
+    accountId: AccountId | string;
+}
+
+export class RotateAccountKeyOperation {
+    private readonly rotation: KeyRotation;
+    private readonly validator: RotateAccountKeyValidator;
+
+    constructor(context: IHieroContext) {
+        this.rotation = new KeyRotation(context);
+        this.validator = new RotateAccountKeyValidator();
+    }
+
+    /** Rotate the account key and read it back. */
+    async execute(
+        options: RotateAccountKeyOptions,
+    ): Promise<KeyRotationRecord> {
+        this.validator.validate(options);
+
+        const accountId = options.accountId.toString();
+        return await this.rotation.rotate(
+            {
+                entityType: "account",
+                entityId: accountId,
+                description: `key of account ${accountId}`,
+                query: () => new AccountInfoQuery().setAccountId(accountId),
+                keyOf: (info) => info.key,
+                build: (newKey) =>
+                    new AccountUpdateTransaction()
+                        .setAccountId(accountId)
+                        .setKey(newKey),
+                event: {
+                    type: "AccountUpdate",
+                    serviceName: "AccountService",
+                    methodName: "rotateKey",
+                },
+                queryEvent: {
+                    type: "AccountInfoQuery",
+                    serviceName: "AccountService",
+                    methodName: "rotateKey",
+                },
+            },
+            options,
+        );
+    }
+}
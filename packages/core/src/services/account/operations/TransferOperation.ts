@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TransferValidator } from "../validation/index.js";
 
@@ -105,17 +107,32 @@ export class TransferOperation {
             amount,
             senderAccountId,
         );
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "CryptoTransfer",
-                serviceName: "AccountService",
-                methodName: "transferHbar",
-                timestamp: new Date(),
-            },
-            () => undefined,
+        const { event, processReceipt } = this.transferHbarCall();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TransferTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepareTransferHbar(
+        receiverAccountId: string | AccountId,
+        amount: number | Hbar,
+        senderAccountId: string | AccountId,
+        options: TransferHbarOptions = {},
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validateHbarTransfer({
+            receiverAccountId,
+            senderAccountId,
+            amount,
+        });
+        const tx = this.buildHbarTransfer(
+            receiverAccountId,
+            amount,
+            senderAccountId,
         );
+        const { event, processReceipt } = this.transferHbarCall();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /**
@@ -150,12 +167,7 @@ export class TransferOperation {
         return await this.executor.scheduleRun(
             tx,
             transactionOptions,
-            {
-                type: "CryptoTransfer",
-                serviceName: "AccountService",
-                methodName: "transferHbar",
-                timestamp: new Date(),
-            },
+            this.transferHbarCall().event,
             scheduleOptions,
         );
     }
@@ -192,17 +204,37 @@ export class TransferOperation {
             senderAccountId,
             options.expectedDecimals,
         );
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "CryptoTransfer",
-                serviceName: "AccountService",
-                methodName: "transferToken",
-                timestamp: new Date(),
-            },
-            () => undefined,
+        const { event, processReceipt } = this.transferTokenCall();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TransferTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepareTransferToken(
+        tokenId: string | TokenId,
+        receiverAccountId: string | AccountId,
+        amount: number,
+        senderAccountId: string | AccountId,
+        options: TransferTokenOptions = {},
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validateTokenTransfer({
+            tokenId,
+            receiverAccountId,
+            senderAccountId,
+            amount,
+            expectedDecimals: options.expectedDecimals,
+        });
+        const tx = this.buildTokenTransfer(
+            tokenId,
+            receiverAccountId,
+            amount,
+            senderAccountId,
+            options.expectedDecimals,
         );
+        const { event, processReceipt } = this.transferTokenCall();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /**
@@ -238,12 +270,7 @@ export class TransferOperation {
         return await this.executor.scheduleRun(
             tx,
             transactionOptions,
-            {
-                type: "CryptoTransfer",
-                serviceName: "AccountService",
-                methodName: "transferToken",
-                timestamp: new Date(),
-            },
+            this.transferTokenCall().event,
             scheduleOptions,
         );
     }
@@ -278,17 +305,35 @@ export class TransferOperation {
             receiverAccountId,
             senderAccountId,
         );
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "CryptoTransfer",
-                serviceName: "AccountService",
-                methodName: "transferNft",
-                timestamp: new Date(),
-            },
-            () => undefined,
+        const { event, processReceipt } = this.transferNftCall();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TransferTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepareTransferNft(
+        tokenId: string | TokenId,
+        serial: number,
+        receiverAccountId: string | AccountId,
+        senderAccountId: string | AccountId,
+        options: TransferNftOptions = {},
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validateNftTransfer({
+            tokenId,
+            serial,
+            receiverAccountId,
+            senderAccountId,
+        });
+        const tx = this.buildNftTransfer(
+            tokenId,
+            serial,
+            receiverAccountId,
+            senderAccountId,
         );
+        const { event, processReceipt } = this.transferNftCall();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /**
@@ -322,14 +367,45 @@ export class TransferOperation {
         return await this.executor.scheduleRun(
             tx,
             transactionOptions,
-            {
+            this.transferNftCall().event,
+            scheduleOptions,
+        );
+    }
+
+    private transferHbarCall(): TransactionCall<void> {
+        return {
+            event: {
+                type: "CryptoTransfer",
+                serviceName: "AccountService",
+                methodName: "transferHbar",
+                timestamp: new Date(),
+            },
+            processReceipt: () => undefined,
+        };
+    }
+
+    private transferTokenCall(): TransactionCall<void> {
+        return {
+            event: {
+                type: "CryptoTransfer",
+                serviceName: "AccountService",
+                methodName: "transferToken",
+                timestamp: new Date(),
+            },
+            processReceipt: () => undefined,
+        };
+    }
+
+    private transferNftCall(): TransactionCall<void> {
+        return {
+            event: {
                 type: "CryptoTransfer",
                 serviceName: "AccountService",
                 methodName: "transferNft",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private buildHbarTransfer(
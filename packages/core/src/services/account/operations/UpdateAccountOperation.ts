@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { UpdateAccountValidator } from "../validation/UpdateAccountValidator.js";
 
@@ -79,21 +81,22 @@ export class UpdateAccountOperation {
         this.validator.validate(options);
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "AccountUpdate",
-                serviceName: "AccountService",
-                methodName: "updateAccount",
-                timestamp: new Date(),
-            },
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
 
-            // TODO: Return something meaningful here
-            // can return a full receipt like
-            // (receipt) => (receipt)
-            () => undefined,
-        );
+    /**
+     * Build and freeze an `AccountUpdateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: UpdateAccountOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule account update */
@@ -106,14 +109,24 @@ export class UpdateAccountOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "AccountUpdate",
                 serviceName: "AccountService",
                 methodName: "updateAccount",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            // TODO: Return something meaningful here
+            // can return a full receipt like
+            // (receipt) => (receipt)
+            processReceipt: () => undefined,
+        };
     }
 
     /**
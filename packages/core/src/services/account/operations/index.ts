@@ -9,6 +9,8 @@ export type {
 } from "./DeleteAccountOperation.js";
 export { UpdateAccountOperation } from "./UpdateAccountOperation.js";
 export type { UpdateAccountOptions } from "./UpdateAccountOperation.js";
+export { RotateAccountKeyOperation } from "./RotateAccountKeyOperation.js";
+export type { RotateAccountKeyOptions } from "./RotateAccountKeyOperation.js";
 export { ApproveAllowanceOperation } from "./ApproveAllowanceOperation.js";
 export type {
     ApproveAllowanceOptions,
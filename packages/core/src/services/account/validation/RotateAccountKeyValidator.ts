@@ -0,0 +1,52 @@
+import { AccountId } from "@hiero-ledger/sdk";
+import { normalizeError } from "../../../errors/index.js";
+import type { RotateAccountKeyOptions } from "../operations/index.js";
+
+/**
+ * Validates `RotateAccountKeyOptions` before they reach the SDK.
+ *
+ * Separated from the operation so validation logic is independently
+ * testable without requiring network interaction.
+ */
+export class RotateAccountKeyValidator {
+    /**
+     * Validate the caller-provided options prior to reading the current
+     * key or submitting the update.
+     *
+     * @throws {HieroError} If validation fails
+     */
+    validate(options: RotateAccountKeyOptions): void {
+        this.validateAccountId(options);
+    }
+
+    private validateAccountId(options: RotateAccountKeyOptions): void {
+        if (options.accountId == null) {
+            throw normalizeError(
+                new Error("accountId is required."),
+                "RotateAccountKeyValidator",
+            );
+        }
+
+        if (typeof options.accountId !== "string") {
+            return;
+        }
+
+        if (options.accountId.trim().length === 0) {
+            throw normalizeError(
+                new Error("accountId cannot be empty."),
+                "RotateAccountKeyValidator",
+            );
+        }
+
+        try {
+            AccountId.fromString(options.accountId);
+        } catch {
+            throw normalizeError(
+                new Error(
+                    `accountId "${options.accountId}" is not a valid account ID.`,
+                ),
+                "RotateAccountKeyValidator",
+            );
+        }
+    }
+}
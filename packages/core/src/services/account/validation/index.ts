@@ -4,3 +4,4 @@ export { ApproveAllowanceValidator } from "./ApproveAllowanceValidator.js";
 export { DeleteAllowanceValidator } from "./DeleteAllowanceValidator.js";
 export { DeleteAllNftAllowancesValidator } from "./DeleteAllNftAllowancesValidator.js";
 export { TransferValidator } from "./TransferValidator.js";
+export { RotateAccountKeyValidator } from "./RotateAccountKeyValidator.js";
@@ -1,5 +1,9 @@
 import type { IHieroContext } from "../../context/index.js";
-import type { ScheduleOptions, ScheduledResult } from "../transaction/index.js";
+import type {
+    ScheduleOptions,
+    ScheduledResult,
+    PreparedTransaction,
+} from "../transaction/index.js";
 import {
     ContractCreateOperation,
     ContractCreateFlowOperation,
@@ -173,6 +177,16 @@ export class ContractService {
         return await this.createOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `createContract` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCreateContract(
+        options: CreateContractOptions,
+    ): Promise<PreparedTransaction<string>> {
+        return await this.createOperation.prepare(options);
+    }
+
     /**
      * Schedule a contract creation for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign through
@@ -275,6 +289,16 @@ export class ContractService {
         await this.executeOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `executeContract` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareExecuteContract(
+        options: ExecuteContractOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.executeOperation.prepare(options);
+    }
+
     /**
      * Schedule a contract execution for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign through
@@ -329,6 +353,16 @@ export class ContractService {
         await this.updateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateContract` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateContract(
+        options: UpdateContractOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.updateOperation.prepare(options);
+    }
+
     /**
      * Schedule a contract update for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign through
@@ -384,6 +418,16 @@ export class ContractService {
         await this.deleteOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `deleteContract` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteContract(
+        options: DeleteContractOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.deleteOperation.prepare(options);
+    }
+
     /**
      * Schedule a contract deletion for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign through
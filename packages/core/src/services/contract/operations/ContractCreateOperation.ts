@@ -14,6 +14,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { ContractCreateValidator } from "../validation/index.js";
 
@@ -88,17 +90,23 @@ export class ContractCreateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "ContractCreate",
-                serviceName: "ContractService",
-                methodName: "createContract",
-                timestamp: new Date(),
-            },
-            (receipt) => receipt.contractId!.toString(),
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `ContractCreateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ContractCreateOperationOptions,
+    ): Promise<PreparedTransaction<string>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `ContractCreateTransaction` for deferred multi-sig execution. */
@@ -113,14 +121,21 @@ export class ContractCreateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<string> {
+        return {
+            event: {
                 type: "ContractCreate",
                 serviceName: "ContractService",
                 methodName: "createContract",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => receipt.contractId!.toString(),
+        };
     }
 
     /**
@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { ContractDeleteValidator } from "../validation/index.js";
 
@@ -64,17 +66,23 @@ export class ContractDeleteOperation {
 
         const tx = this.build(options);
 
-        await this.executor.run(
-            tx,
-            options,
-            {
-                type: "ContractDelete",
-                serviceName: "ContractService",
-                methodName: "deleteContract",
-                timestamp: new Date(),
-            },
-            () => undefined,
-        );
+        const { event, processReceipt } = this.call();
+        await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `ContractDeleteTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ContractDeleteOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `ContractDeleteTransaction` for deferred multi-sig execution. */
@@ -89,14 +97,21 @@ export class ContractDeleteOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "ContractDelete",
                 serviceName: "ContractService",
                 methodName: "deleteContract",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     /**
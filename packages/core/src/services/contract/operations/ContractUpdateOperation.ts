@@ -13,6 +13,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { ContractUpdateValidator } from "../validation/index.js";
 
@@ -77,17 +79,23 @@ export class ContractUpdateOperation {
 
         const tx = this.build(options);
 
-        await this.executor.run(
-            tx,
-            options,
-            {
-                type: "ContractUpdate",
-                serviceName: "ContractService",
-                methodName: "updateContract",
-                timestamp: new Date(),
-            },
-            () => undefined,
-        );
+        const { event, processReceipt } = this.call();
+        await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `ContractUpdateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ContractUpdateOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `ContractUpdateTransaction` for deferred multi-sig execution. */
@@ -102,14 +110,21 @@ export class ContractUpdateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "ContractUpdate",
                 serviceName: "ContractService",
                 methodName: "updateContract",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     /**
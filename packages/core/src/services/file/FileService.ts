@@ -1,7 +1,11 @@
 import type { FileId, Key } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../context/index.js";
 import { HieroError, HieroErrorCodes } from "../../errors/index.js";
-import type { ScheduleOptions, ScheduledResult } from "../transaction/index.js";
+import type {
+    ScheduleOptions,
+    ScheduledResult,
+    PreparedTransaction,
+} from "../transaction/index.js";
 import {
     FileCreateOperation,
     FileAppendOperation,
@@ -152,12 +156,11 @@ export class FileService {
      */
     async createFile(options: CreateFileOptions = {}): Promise<string> {
         const [head, tail] = splitContents(options.contents);
-        const keys = options.keys ?? [this.context.operatorPublicKey as Key];
 
         const fileId = await this.createOperation.execute({
             ...options,
             contents: head,
-            keys,
+            keys: this.fileKeys(options),
         });
 
         if (tail !== null) {
@@ -191,6 +194,27 @@ export class FileService {
         return fileId;
     }
 
+    /**
+     * Build and freeze the `createFile` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     *
+     * `contents` must fit in a single transaction (~4 KiB) — the
+     * follow-up append needs the new file ID, which is only known after
+     * the create reaches consensus.
+     */
+    async prepareCreateFile(
+        options: CreateFileOptions = {},
+    ): Promise<PreparedTransaction<string>> {
+        assertSingleTransaction(
+            options.contents,
+            "FileService.prepareCreateFile",
+        );
+        return await this.createOperation.prepare({
+            ...options,
+            keys: this.fileKeys(options),
+        });
+    }
+
     /**
      * Append content to an existing file. The SDK auto-chunks the
      * payload — no size cap beyond what `maxChunks * chunkSize` allows.
@@ -211,6 +235,16 @@ export class FileService {
         return await this.appendOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `appendToFile` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareAppendToFile(
+        options: AppendToFileOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.appendOperation.prepare(options);
+    }
+
     /**
      * Update file properties. Any subset of `contents`, `keys`,
      * `fileMemo`, or `expirationTime` may be supplied — see
@@ -249,6 +283,23 @@ export class FileService {
         }
     }
 
+    /**
+     * Build and freeze the `updateFile` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     *
+     * `contents` must fit in a single transaction (~4 KiB); prepare a
+     * separate `appendToFile` for the rest.
+     */
+    async prepareUpdateFile(
+        options: UpdateFileOptions,
+    ): Promise<PreparedTransaction<void>> {
+        assertSingleTransaction(
+            options.contents,
+            "FileService.prepareUpdateFile",
+        );
+        return await this.updateOperation.prepare(options);
+    }
+
     /**
      * Schedule a `FileUpdateTransaction` for deferred multi-sig execution.
      *
@@ -305,6 +356,16 @@ export class FileService {
         return await this.deleteOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `deleteFile` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteFile(
+        options: DeleteFileOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.deleteOperation.prepare(options);
+    }
+
     /**
      * Fetch the current contents of a file from the consensus nodes.
      * Returns a zero-length payload for deleted files.
@@ -332,6 +393,34 @@ export class FileService {
     async getFileInfo(fileId: string | FileId): Promise<GetFileInfoResult> {
         return await this.infoQuery.execute(fileId);
     }
+
+    /** The file's keys, defaulting to the operator key */
+    private fileKeys(
+        options: CreateFileOptions,
+    ): NonNullable<CreateFileOptions["keys"]> {
+        return options.keys ?? [this.context.operatorPublicKey as Key];
+    }
+}
+
+/**
+ * Reject contents that would need a follow-up `FileAppendTransaction`,
+ * which cannot be part of a single prepared or scheduled transaction.
+ */
+function assertSingleTransaction(
+    contents: Uint8Array | string | undefined,
+    context: string,
+): void {
+    const [, tail] = splitContents(contents);
+    if (tail !== null) {
+        throw new HieroError(
+            `${context} does not support contents larger than the per-transaction network limit ` +
+                `(~${MAX_FILE_TX_BYTES} bytes).`,
+            {
+                code: HieroErrorCodes.SdkError,
+                context,
+            },
+        );
+    }
 }
 
 /**
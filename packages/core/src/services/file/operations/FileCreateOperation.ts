@@ -2,7 +2,11 @@ import type { Key, KeyList, Timestamp } from "@hiero-ledger/sdk";
 import { FileCreateTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { FileCreateValidator } from "../validation/index.js";
 
 /**
@@ -71,17 +75,35 @@ export class FileCreateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `FileCreateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: FileCreateOperationOptions,
+    ): Promise<PreparedTransaction<string>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<string> {
+        return {
+            event: {
                 type: "FileCreate",
                 serviceName: "FileService",
                 methodName: "createFile",
                 timestamp: new Date(),
             },
-            (receipt) => receipt.fileId!.toString(),
-        );
+            processReceipt: (receipt) => receipt.fileId!.toString(),
+        };
     }
 
     private build(options: FileCreateOperationOptions): FileCreateTransaction {
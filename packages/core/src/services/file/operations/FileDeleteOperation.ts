@@ -2,7 +2,11 @@ import type { FileId } from "@hiero-ledger/sdk";
 import { FileDeleteTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { FileDeleteValidator } from "../validation/index.js";
 
 /**
@@ -39,17 +43,35 @@ export class FileDeleteOperation {
 
         const tx = this.build(options);
 
-        await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `FileDeleteTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: FileDeleteOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "FileDelete",
                 serviceName: "FileService",
                 methodName: "deleteFile",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(options: FileDeleteOperationOptions): FileDeleteTransaction {
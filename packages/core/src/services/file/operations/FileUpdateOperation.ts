@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { FileUpdateValidator } from "../validation/index.js";
 
@@ -79,17 +81,23 @@ export class FileUpdateOperation {
 
         const tx = this.build(options);
 
-        await this.executor.run(
-            tx,
-            options,
-            {
-                type: "FileUpdate",
-                serviceName: "FileService",
-                methodName: "updateFile",
-                timestamp: new Date(),
-            },
-            () => undefined,
-        );
+        const { event, processReceipt } = this.call();
+        await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `FileUpdateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: FileUpdateOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `FileUpdateTransaction` for deferred multi-sig execution. */
@@ -104,14 +112,21 @@ export class FileUpdateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "FileUpdate",
                 serviceName: "FileService",
                 methodName: "updateFile",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(options: FileUpdateOperationOptions): FileUpdateTransaction {
@@ -5,6 +5,13 @@ export * from "./network/index.js";
 export * from "./contract/index.js";
 export * from "./topic/index.js";
 export * from "./file/index.js";
+export {
+    TransactionExecutor,
+    FeeEstimator,
+    BatchBuilder,
+    DEFAULT_RETRYABLE_STATUSES,
+    DEFAULT_REGENERATE_ID_STATUSES,
+} from "./transaction/index.js";
 export type {
     TransactionOptions,
     ExternalSigner,
@@ -12,4 +19,14 @@ export type {
     QueryOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    SubmitPreparedOptions,
+    DryRunReport,
+    FeeEstimate,
+    FeeUsage,
+    BatchResult,
+    RetryPolicy,
+    KeyRotationRecord,
+    RotateKeyOptions,
+    RotationSigner,
 } from "./transaction/index.js";
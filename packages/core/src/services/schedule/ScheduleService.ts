@@ -8,6 +8,7 @@ import type {
     ScheduleSignOptions,
     ScheduleCancelOptions,
 } from "./operations/index.js";
+import type { PreparedTransaction } from "../transaction/index.js";
 import { ScheduleInfoQuery } from "./queries/index.js";
 import type { ScheduleInfoResult } from "./queries/index.js";
 
@@ -46,6 +47,16 @@ export class ScheduleService {
         return this.signOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `sign` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    prepareSign(
+        options: ScheduleSignOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return this.signOperation.prepare(options);
+    }
+
     /**
      * Cancel a pending scheduled transaction before it executes.
      *
@@ -60,6 +71,16 @@ export class ScheduleService {
         return this.cancelOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `cancel` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    prepareCancel(
+        options: ScheduleCancelOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return this.cancelOperation.prepare(options);
+    }
+
     /**
      * Query the current state of a schedule entity.
      *
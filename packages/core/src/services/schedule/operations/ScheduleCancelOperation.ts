@@ -2,7 +2,11 @@ import type { PrivateKey, ScheduleId } from "@hiero-ledger/sdk";
 import { ScheduleDeleteTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 
 /**
  * Options for cancelling a pending scheduled transaction.
@@ -42,18 +46,43 @@ export class ScheduleCancelOperation {
         const tx = new ScheduleDeleteTransaction().setScheduleId(
             options.scheduleId,
         );
-        return this.executor.run(
-            tx,
-            opts,
-            {
+        const { event, processReceipt } = this.call();
+        return this.executor.run(tx, opts, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `ScheduleDeleteTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ScheduleCancelOptions,
+    ): Promise<PreparedTransaction<void>> {
+        // adminKey must co-sign the ScheduleDeleteTransaction — prepend it so
+        // the executor freezes and signs before the operator auto-sign
+        const opts: ScheduleCancelOptions = {
+            ...options,
+            additionalSigners: [
+                options.adminKey,
+                ...(options.additionalSigners ?? []),
+            ],
+        };
+        const tx = new ScheduleDeleteTransaction().setScheduleId(
+            options.scheduleId,
+        );
+        const { event, processReceipt } = this.call();
+        return this.executor.prepare(tx, opts, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "ScheduleDelete",
                 serviceName: "ScheduleService",
                 methodName: "cancel",
                 timestamp: new Date(),
             },
-
             // TODO: return a more meaningful result here.
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 }
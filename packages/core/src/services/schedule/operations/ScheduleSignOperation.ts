@@ -2,7 +2,11 @@ import type { ScheduleId } from "@hiero-ledger/sdk";
 import { ScheduleSignTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { ScheduleSignValidator } from "../validation/index.js";
 
 /**
@@ -33,18 +37,36 @@ export class ScheduleSignOperation {
         const tx = new ScheduleSignTransaction().setScheduleId(
             options.scheduleId,
         );
-        return this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `ScheduleSignTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: ScheduleSignOptions,
+    ): Promise<PreparedTransaction<void>> {
+        // Validate options before any SDK construction
+        this.validator.validate(options);
+        const tx = new ScheduleSignTransaction().setScheduleId(
+            options.scheduleId,
+        );
+        const { event, processReceipt } = this.call();
+        return this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "ScheduleSign",
                 serviceName: "ScheduleService",
                 methodName: "sign",
                 timestamp: new Date(),
             },
-
             // TODO: return a more meaningful result here.
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 }
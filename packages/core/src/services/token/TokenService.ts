@@ -7,7 +7,12 @@ import {
     type TokenId,
 } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../context/index.js";
-import type { ScheduleOptions, ScheduledResult } from "../transaction/index.js";
+import type {
+    ScheduleOptions,
+    ScheduledResult,
+    PreparedTransaction,
+    KeyRotationRecord,
+} from "../transaction/index.js";
 import { TokenInfoQuery, TokenNftInfoQuery } from "./queries/index.js";
 import type { TokenInfoResult, TokenNftInfoResult } from "./queries/index.js";
 import {
@@ -18,6 +23,7 @@ import {
     TokenAssociateOperation,
     TokenDissociateOperation,
     TokenUpdateOperation,
+    TokenRotateAdminKeyOperation,
     TokenUpdateNftsOperation,
     TokenDeleteOperation,
     TokenFreezeOperation,
@@ -41,6 +47,7 @@ import type {
     TokenAssociateOperationOptions,
     TokenDissociateOperationOptions,
     TokenUpdateOperationOptions,
+    TokenRotateAdminKeyOperationOptions,
     TokenUpdateNftsOperationOptions,
     TokenDeleteOperationOptions,
     TokenFreezeOperationOptions,
@@ -112,6 +119,9 @@ export type DissociateTokenOptions = TokenDissociateOperationOptions;
 /** Options for updating an existing token's mutable properties. */
 export type UpdateTokenOptions = TokenUpdateOperationOptions;
 
+/** Options for rotating a token's admin key. */
+export type RotateTokenAdminKeyOptions = TokenRotateAdminKeyOperationOptions;
+
 /**
  * Options for updating the metadata bytes of one or more specific NFT
  * serials within a collection. The same `metadata` value is applied to
@@ -192,6 +202,7 @@ export class TokenService {
     private readonly associateOperation: TokenAssociateOperation;
     private readonly dissociateOperation: TokenDissociateOperation;
     private readonly updateOperation: TokenUpdateOperation;
+    private readonly rotateAdminKeyOperation: TokenRotateAdminKeyOperation;
     private readonly updateNftsOperation: TokenUpdateNftsOperation;
     private readonly deleteOperation: TokenDeleteOperation;
     private readonly freezeOperation: TokenFreezeOperation;
@@ -217,6 +228,9 @@ export class TokenService {
         this.associateOperation = new TokenAssociateOperation(context);
         this.dissociateOperation = new TokenDissociateOperation(context);
         this.updateOperation = new TokenUpdateOperation(context);
+        this.rotateAdminKeyOperation = new TokenRotateAdminKeyOperation(
+            context,
+        );
         this.updateNftsOperation = new TokenUpdateNftsOperation(context);
         this.deleteOperation = new TokenDeleteOperation(context);
         this.freezeOperation = new TokenFreezeOperation(context);
@@ -282,6 +296,18 @@ export class TokenService {
         );
     }
 
+    /**
+     * Build and freeze the `createFungibleToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCreateFungibleToken(
+        options: CreateFungibleTokenOptions,
+    ): Promise<PreparedTransaction<string>> {
+        return await this.createOperation.prepare(
+            this.buildFungibleOperationOptions(options),
+        );
+    }
+
     /**
      * Schedule fungible token creation for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign using
@@ -362,6 +388,18 @@ export class TokenService {
         );
     }
 
+    /**
+     * Build and freeze the `createNft` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCreateNft(
+        options: CreateNftOptions,
+    ): Promise<PreparedTransaction<string>> {
+        return await this.createOperation.prepare(
+            this.buildNftOperationOptions(options),
+        );
+    }
+
     /**
      * Schedule NFT collection creation for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign using
@@ -412,6 +450,16 @@ export class TokenService {
         return await this.mintOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `mintToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareMintToken(
+        options: MintTokenOptions,
+    ): Promise<PreparedTransaction<Long[]>> {
+        return await this.mintOperation.prepare(options);
+    }
+
     /**
      * Schedule token minting for deferred multi-sig execution.
      *
@@ -448,6 +496,16 @@ export class TokenService {
         return await this.burnOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `burnToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareBurnToken(
+        options: BurnTokenOptions,
+    ): Promise<PreparedTransaction<Long>> {
+        return await this.burnOperation.prepare(options);
+    }
+
     /**
      * Schedule a token burn for deferred multi-sig execution.
      *
@@ -492,6 +550,16 @@ export class TokenService {
         return await this.wipeOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `wipeToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareWipeToken(
+        options: WipeTokenOptions,
+    ): Promise<PreparedTransaction<Long>> {
+        return await this.wipeOperation.prepare(options);
+    }
+
     /**
      * Associate one token with an account.
      *
@@ -504,6 +572,16 @@ export class TokenService {
         return await this.associateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `associateToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareAssociateToken(
+        options: AssociateTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.associateOperation.prepare(options);
+    }
+
     /**
      * Schedule token association for deferred multi-sig execution.
      *
@@ -535,6 +613,16 @@ export class TokenService {
         return await this.dissociateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `dissociateToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDissociateToken(
+        options: DissociateTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.dissociateOperation.prepare(options);
+    }
+
     /**
      * Schedule token dissociation for deferred multi-sig execution.
      *
@@ -584,6 +672,16 @@ export class TokenService {
         return await this.updateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateToken(
+        options: UpdateTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.updateOperation.prepare(options);
+    }
+
     /**
      * Schedule a token update for deferred multi-sig execution.
      *
@@ -599,6 +697,27 @@ export class TokenService {
         return await this.updateOperation.schedule(options, scheduleOptions);
     }
 
+    /**
+     * Rotate a token's admin key, checking the current key on a consensus
+     * node first and reading the new key back afterwards. The current and
+     * new admin keys must both sign; see `AccountService.rotateKey`
+     * for the full flow.
+     *
+     * @param options.tokenId - The token whose admin key to rotate
+     * @param options.newKey - The admin key to rotate to
+     * @param options.expectedKey - The admin key the token must have now
+     * @param options.currentSigners - Signers satisfying the current admin key
+     * @param options.newSigners - Signers satisfying the new admin key
+     * @param options.schedule - Schedule the rotation, optionally with `ScheduleOptions`
+     * @throws {HieroError} `Rejected` if the token has no admin key, it is
+     *   not the expected one, or a signature is missing
+     */
+    async rotateAdminKey(
+        options: RotateTokenAdminKeyOptions,
+    ): Promise<KeyRotationRecord> {
+        return await this.rotateAdminKeyOperation.execute(options);
+    }
+
     /**
      * Update the metadata bytes of one or more specific NFT serials
      * within a collection. The same `metadata` value is applied to every
@@ -634,6 +753,16 @@ export class TokenService {
         return await this.updateNftsOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateNfts` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateNfts(
+        options: UpdateNftsOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.updateNftsOperation.prepare(options);
+    }
+
     /**
      * Delete an existing token.
      *
@@ -651,6 +780,16 @@ export class TokenService {
         return await this.deleteOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `deleteToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteToken(
+        options: DeleteTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.deleteOperation.prepare(options);
+    }
+
     /**
      * Freeze a token relationship on a specific account.
      *
@@ -670,6 +809,16 @@ export class TokenService {
         return await this.freezeOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `freezeToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareFreezeToken(
+        options: FreezeTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.freezeOperation.prepare(options);
+    }
+
     /**
      * Unfreeze a previously frozen token relationship on a specific account.
      *
@@ -688,6 +837,16 @@ export class TokenService {
         return await this.unfreezeOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `unfreezeToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUnfreezeToken(
+        options: UnfreezeTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.unfreezeOperation.prepare(options);
+    }
+
     /**
      * Grant KYC approval on a token relationship for a specific account.
      *
@@ -707,6 +866,16 @@ export class TokenService {
         return await this.grantKycOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `grantKycToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareGrantKycToken(
+        options: GrantKycTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.grantKycOperation.prepare(options);
+    }
+
     /**
      * Revoke KYC approval on a token relationship for a specific account.
      *
@@ -726,6 +895,16 @@ export class TokenService {
         return await this.revokeKycOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `revokeKycToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareRevokeKycToken(
+        options: RevokeKycTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.revokeKycOperation.prepare(options);
+    }
+
     /**
      * Pause a token network-wide.
      *
@@ -743,6 +922,16 @@ export class TokenService {
         return await this.pauseOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `pauseToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async preparePauseToken(
+        options: PauseTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.pauseOperation.prepare(options);
+    }
+
     /**
      * Unpause a previously paused token.
      *
@@ -760,6 +949,16 @@ export class TokenService {
         return await this.unpauseOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `unpauseToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUnpauseToken(
+        options: UnpauseTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.unpauseOperation.prepare(options);
+    }
+
     /**
      * Replace a token's custom fee schedule.
      *
@@ -780,6 +979,16 @@ export class TokenService {
         return await this.feeScheduleUpdateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateTokenFeeSchedule` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateTokenFeeSchedule(
+        options: UpdateTokenFeeScheduleOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.feeScheduleUpdateOperation.prepare(options);
+    }
+
     /**
      * Airdrop fungible tokens from senders to receivers, batching one or
      * more airdrops into a single `TokenAirdropTransaction`.
@@ -810,6 +1019,16 @@ export class TokenService {
         return await this.airdropOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `airdropFungibleToken` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareAirdropFungibleToken(
+        options: AirdropFungibleTokenOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.airdropOperation.prepare(options);
+    }
+
     /**
      * Airdrop NFT serials from senders to receivers, batching one or more
      * `(tokenId, serial, sender, receiver)` entries into a single
@@ -840,6 +1059,16 @@ export class TokenService {
         return await this.airdropNftOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `airdropNft` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareAirdropNft(
+        options: AirdropNftOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.airdropNftOperation.prepare(options);
+    }
+
     /**
      * Claim one or more previously-created pending airdrops, atomically
      * crediting the receiver(s).
@@ -898,6 +1127,16 @@ export class TokenService {
         return await this.claimAirdropOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `claimAirdrop` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareClaimAirdrop(
+        options: ClaimAirdropOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.claimAirdropOperation.prepare(options);
+    }
+
     /**
      * Cancel one or more previously-issued pending airdrops, returning
      * the sender's escrowed assets to its available balance.
@@ -960,6 +1199,16 @@ export class TokenService {
         return await this.cancelAirdropOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `cancelAirdrop` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCancelAirdrop(
+        options: CancelAirdropOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.cancelAirdropOperation.prepare(options);
+    }
+
     /**
      * Reject one or more fungible tokens and / or NFT serials held by an
      * owner account, returning them to each token's treasury and then
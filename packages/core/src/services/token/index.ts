@@ -8,6 +8,7 @@ export type {
     AssociateTokenOptions,
     DissociateTokenOptions,
     UpdateTokenOptions,
+    RotateTokenAdminKeyOptions,
     UpdateNftsOptions,
     DeleteTokenOptions,
     FreezeTokenOptions,
@@ -33,6 +34,7 @@ export type {
     TokenAssociateOperationOptions,
     TokenDissociateOperationOptions,
     TokenUpdateOperationOptions,
+    TokenRotateAdminKeyOperationOptions,
     TokenUpdateNftsOperationOptions,
     TokenDeleteOperationOptions,
     TokenFreezeOperationOptions,
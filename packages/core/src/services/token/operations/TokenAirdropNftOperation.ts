@@ -2,7 +2,11 @@ import type { AccountId, Long, TokenId } from "@hiero-ledger/sdk";
 import { TokenAirdropTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenAirdropNftValidator } from "../validation/index.js";
 
 /**
@@ -58,17 +62,35 @@ export class TokenAirdropNftOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenAirdropTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenAirdropNftOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenAirdrop",
                 serviceName: "TokenService",
                 methodName: "airdropNft",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
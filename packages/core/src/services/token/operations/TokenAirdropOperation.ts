@@ -3,7 +3,11 @@ import type { AccountId, TokenId } from "@hiero-ledger/sdk";
 import { Long, TokenAirdropTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenAirdropValidator } from "../validation/index.js";
 
 /**
@@ -65,17 +69,35 @@ export class TokenAirdropOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenAirdropTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenAirdropOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenAirdrop",
                 serviceName: "TokenService",
                 methodName: "airdropFungibleToken",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
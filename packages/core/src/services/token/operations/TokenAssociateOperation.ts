@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TokenAssociateValidator } from "../validation/index.js";
 
@@ -34,17 +36,23 @@ export class TokenAssociateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "TokenAssociate",
-                serviceName: "TokenService",
-                methodName: "associateToken",
-                timestamp: new Date(),
-            },
-            () => undefined,
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenAssociateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenAssociateOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `TokenAssociateTransaction` for deferred multi-sig execution. */
@@ -59,14 +67,21 @@ export class TokenAssociateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenAssociate",
                 serviceName: "TokenService",
                 methodName: "associateToken",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
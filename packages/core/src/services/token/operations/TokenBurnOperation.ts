@@ -7,6 +7,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TokenBurnValidator } from "../validation/index.js";
 
@@ -41,24 +43,23 @@ export class TokenBurnOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "TokenBurn",
-                serviceName: "TokenService",
-                methodName: "burnToken",
-                timestamp: new Date(),
-            },
-            (receipt) => {
-                if (receipt.totalSupply == null) {
-                    throw new Error(
-                        "TokenBurn receipt did not include totalSupply.",
-                    );
-                }
-                return receipt.totalSupply;
-            },
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenBurnTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenBurnOperationOptions,
+    ): Promise<PreparedTransaction<Long>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `TokenBurnTransaction` for deferred multi-sig execution. */
@@ -73,14 +74,28 @@ export class TokenBurnOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<Long> {
+        return {
+            event: {
                 type: "TokenBurn",
                 serviceName: "TokenService",
                 methodName: "burnToken",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => {
+                if (receipt.totalSupply == null) {
+                    throw new Error(
+                        "TokenBurn receipt did not include totalSupply.",
+                    );
+                }
+                return receipt.totalSupply;
+            },
+        };
     }
 
     private build(options: TokenBurnOperationOptions): TokenBurnTransaction {
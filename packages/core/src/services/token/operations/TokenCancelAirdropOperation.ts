@@ -2,7 +2,11 @@ import type { PendingAirdropId } from "@hiero-ledger/sdk";
 import { TokenCancelAirdropTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenCancelAirdropValidator } from "../validation/index.js";
 
 /**
@@ -53,17 +57,35 @@ export class TokenCancelAirdropOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenCancelAirdropTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenCancelAirdropOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenCancelAirdrop",
                 serviceName: "TokenService",
                 methodName: "cancelAirdrop",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
@@ -2,7 +2,11 @@ import type { PendingAirdropId } from "@hiero-ledger/sdk";
 import { TokenClaimAirdropTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenClaimAirdropValidator } from "../validation/index.js";
 
 /**
@@ -52,17 +56,35 @@ export class TokenClaimAirdropOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenClaimAirdropTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenClaimAirdropOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenClaimAirdrop",
                 serviceName: "TokenService",
                 methodName: "claimAirdrop",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
@@ -15,6 +15,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TokenCreateValidator } from "../validation/index.js";
 
@@ -70,17 +72,23 @@ export class TokenCreateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "TokenCreate",
-                serviceName: "TokenService",
-                methodName: "createToken",
-                timestamp: new Date(),
-            },
-            (receipt) => receipt.tokenId!.toString(),
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenCreateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenCreateOperationOptions,
+    ): Promise<PreparedTransaction<string>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `TokenCreateTransaction` for deferred multi-sig execution. */
@@ -95,14 +103,21 @@ export class TokenCreateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<string> {
+        return {
+            event: {
                 type: "TokenCreate",
                 serviceName: "TokenService",
                 methodName: "createToken",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => receipt.tokenId!.toString(),
+        };
     }
 
     /**
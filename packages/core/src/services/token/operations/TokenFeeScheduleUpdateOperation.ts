@@ -2,7 +2,11 @@ import type { CustomFee, TokenId } from "@hiero-ledger/sdk";
 import { TokenFeeScheduleUpdateTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenFeeScheduleUpdateValidator } from "../validation/index.js";
 
 /**
@@ -40,17 +44,35 @@ export class TokenFeeScheduleUpdateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenFeeScheduleUpdateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenFeeScheduleUpdateOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenFeeScheduleUpdate",
                 serviceName: "TokenService",
                 methodName: "updateTokenFeeSchedule",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
@@ -7,6 +7,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TokenMintValidator } from "../validation/index.js";
 
@@ -36,17 +38,23 @@ export class TokenMintOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "TokenMint",
-                serviceName: "TokenService",
-                methodName: "mintToken",
-                timestamp: new Date(),
-            },
-            (receipt) => receipt.serials,
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenMintTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenMintOperationOptions,
+    ): Promise<PreparedTransaction<Long[]>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `TokenMintTransaction` for deferred multi-sig execution. */
@@ -61,14 +69,21 @@ export class TokenMintOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<Long[]> {
+        return {
+            event: {
                 type: "TokenMint",
                 serviceName: "TokenService",
                 methodName: "mintToken",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => receipt.serials,
+        };
     }
 
     private build(options: TokenMintOperationOptions): TokenMintTransaction {
@@ -0,0 +1,63 @@
+import {
+    TokenInfoQuery as SdkTokenInfoQuery,
+    TokenUpdateTransaction,
+} from "@hiero-ledger/sdk";
+import type { TokenId } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../../context/index.js";
+import { KeyRotation } from "../../transaction/index.js";
+import type {
+    KeyRotationRecord,
+    RotateKeyOptions,
+} from "../../transaction/index.js";
+import { TokenRotateAdminKeyValidator } from "../validation/index.js";
+
+/**
+ * Low-level options for rotating a token's admin key with a
+ * `TokenUpdateTransaction`.
+ */
+export interface TokenRotateAdminKeyOperationOptions extends RotateKeyOptions {
+    tokenId: TokenId | string;
+}
+
+export class TokenRotateAdminKeyOperation {
+    private readonly rotation: KeyRotation;
+    private readonly validator: TokenRotateAdminKeyValidator;
+
+    constructor(context: IHieroContext) {
+        this.rotation = new KeyRotation(context);
+        this.validator = new TokenRotateAdminKeyValidator();
+    }
+
+    /** Rotate the token's admin key and read it back. */
+    async execute(
+        options: TokenRotateAdminKeyOperationOptions,
+    ): Promise<KeyRotationRecord> {
+        this.validator.validate(options);
+
+        const tokenId = options.tokenId.toString();
+        return await this.rotation.rotate(
+            {
+                entityType: "token",
+                entityId: tokenId,
+                description: `admin key of token ${tokenId}`,
+                query: () => new SdkTokenInfoQuery().setTokenId(tokenId),
+                keyOf: (info) => info.adminKey,
+                build: (newKey) =>
+                    new TokenUpdateTransaction()
+                        .setTokenId(tokenId)
+                        .setAdminKey(newKey),
+                event: {
+                    type: "TokenUpdate",
+                    serviceName: "TokenService",
+                    methodName: "rotateAdminKey",
+                },
+                queryEvent: {
+                    type: "TokenInfoQuery",
+                    serviceName: "TokenService",
+                    methodName: "rotateAdminKey",
+                },
+            },
+            options,
+        );
+    }
+}
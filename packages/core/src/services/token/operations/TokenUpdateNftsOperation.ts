@@ -2,7 +2,11 @@ import type { TokenId } from "@hiero-ledger/sdk";
 import { TokenUpdateNftsTransaction, Long } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenUpdateNftsValidator } from "../validation/index.js";
 
 /**
@@ -57,17 +61,35 @@ export class TokenUpdateNftsOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenUpdateNftsTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenUpdateNftsOperationOptions,
+    ): Promise<PreparedTransaction<void>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<void> {
+        return {
+            event: {
                 type: "TokenUpdateNfts",
                 serviceName: "TokenService",
                 methodName: "updateNfts",
                 timestamp: new Date(),
             },
-            () => undefined,
-        );
+            processReceipt: () => undefined,
+        };
     }
 
     private build(
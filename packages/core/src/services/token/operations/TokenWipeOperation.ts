@@ -3,7 +3,11 @@ import type { TokenId, AccountId, Long } from "@hiero-ledger/sdk";
 import { TokenWipeTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TokenWipeValidator } from "../validation/index.js";
 
 /**
@@ -42,16 +46,34 @@ export class TokenWipeOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TokenWipeTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TokenWipeOperationOptions,
+    ): Promise<PreparedTransaction<Long>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<Long> {
+        return {
+            event: {
                 type: "TokenWipe",
                 serviceName: "TokenService",
                 methodName: "wipeToken",
                 timestamp: new Date(),
             },
-            (receipt) => {
+            processReceipt: (receipt) => {
                 if (receipt.totalSupply == null) {
                     throw new Error(
                         "TokenWipe receipt did not include totalSupply.",
@@ -59,7 +81,7 @@ export class TokenWipeOperation {
                 }
                 return receipt.totalSupply;
             },
-        );
+        };
     }
 
     private build(options: TokenWipeOperationOptions): TokenWipeTransaction {
@@ -26,6 +26,10 @@ export {
     TokenUpdateOperation,
     type TokenUpdateOperationOptions,
 } from "./TokenUpdateOperation.js";
+export {
+    TokenRotateAdminKeyOperation,
+    type TokenRotateAdminKeyOperationOptions,
+} from "./TokenRotateAdminKeyOperation.js";
 export {
     TokenUpdateNftsOperation,
     type TokenUpdateNftsOperationOptions,
@@ -0,0 +1,54 @@
+import { TokenId } from "@hiero-ledger/sdk";
+import { normalizeError } from "../../../errors/index.js";
+import type { TokenRotateAdminKeyOperationOptions } from "../operations/index.js";
+
+/**
+ * Validates `TokenRotateAdminKeyOperationOptions` before they reach the SDK.
+ *
+ * Separated from the operation so validation logic is independently
+ * testable without requiring network interaction.
+ */
+export class TokenRotateAdminKeyValidator {
+    /**
+     * Validate the caller-provided options prior to reading the current
+     * key or submitting the update.
+     *
+     * @throws {HieroError} If validation fails
+     */
+    validate(options: TokenRotateAdminKeyOperationOptions): void {
+        this.validateTokenId(options);
+    }
+
+    private validateTokenId(
+        options: TokenRotateAdminKeyOperationOptions,
+    ): void {
+        if (options.tokenId == null) {
+            throw normalizeError(
+                new Error("tokenId is required."),
+                "TokenRotateAdminKeyValidator",
+            );
+        }
+
+        if (typeof options.tokenId !== "string") {
+            return;
+        }
+
+        if (options.tokenId.trim().length === 0) {
+            throw normalizeError(
+                new Error("tokenId cannot be empty."),
+                "TokenRotateAdminKeyValidator",
+            );
+        }
+
+        try {
+            TokenId.fromString(options.tokenId);
+        } catch {
+            throw normalizeError(
+                new Error(
+                    `tokenId "${options.tokenId}" is not a valid token ID.`,
+                ),
+                "TokenRotateAdminKeyValidator",
+            );
+        }
+    }
+}
@@ -19,3 +19,4 @@ export { TokenAirdropNftValidator } from "./TokenAirdropNftValidator.js";
 export { TokenClaimAirdropValidator } from "./TokenClaimAirdropValidator.js";
 export { TokenCancelAirdropValidator } from "./TokenCancelAirdropValidator.js";
 export { TokenRejectValidator } from "./TokenRejectValidator.js";
+export { TokenRotateAdminKeyValidator } from "./TokenRotateAdminKeyValidator.js";
@@ -1,17 +1,25 @@
 import type { SubscriptionHandle, TopicId } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../context/index.js";
-import type { ScheduleOptions, ScheduledResult } from "../transaction/index.js";
+import type {
+    ScheduleOptions,
+    ScheduledResult,
+    PreparedTransaction,
+    KeyRotationRecord,
+} from "../transaction/index.js";
 import {
     TopicCreateOperation,
     TopicUpdateOperation,
+    TopicRotateAdminKeyOperation,
     TopicDeleteOperation,
     TopicMessageSubmitOperation,
 } from "./operations/index.js";
 import type {
     TopicCreateOperationOptions,
     TopicUpdateOperationOptions,
+    TopicRotateAdminKeyOperationOptions,
     TopicDeleteOperationOptions,
     TopicMessageSubmitOperationOptions,
+    TopicEncodedMessageSubmitOperationOptions,
     TopicMessageSubmitResult,
 } from "./operations/index.js";
 import { TopicInfoQuery, TopicMessageQuery } from "./queries/index.js";
@@ -19,7 +27,9 @@ import type {
     TopicInfoResult,
     TopicMessageResult,
     TopicMessageSubscribeOptions,
+    TopicMessageDecodedSubscribeOptions,
 } from "./queries/index.js";
+import type { DecodedMessage } from "../../codec/index.js";
 
 /**
  * Options for creating a topic via `TopicCreateTransaction`.
@@ -44,6 +54,12 @@ export type CreateTopicOptions = TopicCreateOperationOptions;
  */
 export type UpdateTopicOptions = TopicUpdateOperationOptions;
 
+/**
+ * Options for rotating a topic's admin key. The current and new admin
+ * keys must both sign.
+ */
+export type RotateTopicAdminKeyOptions = TopicRotateAdminKeyOperationOptions;
+
 /**
  * Options for deleting a topic via `TopicDeleteTransaction`.
  *
@@ -64,6 +80,13 @@ export type DeleteTopicOptions = TopicDeleteOperationOptions;
  */
 export type SubmitMessageOptions = TopicMessageSubmitOperationOptions;
 
+/**
+ * Options for submitting a typed message — `message` is serialized by
+ * `codec` (e.g. `jsonCodec()`) before it is submitted.
+ */
+export type SubmitEncodedMessageOptions<T> =
+    TopicEncodedMessageSubmitOperationOptions<T>;
+
 /**
  * Receipt-derived result returned by `submitMessage` — sequence number,
  * running hash, and transaction ID of the first (or only) chunk.
@@ -88,6 +111,19 @@ export type SubscribeToMessagesOptions = TopicMessageSubscribeOptions;
  */
 export type SubscribedMessage = TopicMessageResult;
 
+/**
+ * Options for `subscribeToMessages` with a `codec` that decodes each
+ * message's contents.
+ */
+export type SubscribeToDecodedMessagesOptions<T> =
+    TopicMessageDecodedSubscribeOptions<T>;
+
+/**
+ * A `SubscribedMessage` plus its decoded `payload` — `{ ok: true, value }`
+ * or `{ ok: false, error }` when the codec rejected the contents.
+ */
+export type DecodedSubscribedMessage<T> = DecodedMessage<SubscribedMessage, T>;
+
 /**
  * Service for managing topics on the Hiero Consensus Service (HCS).
  *
@@ -105,6 +141,7 @@ export type SubscribedMessage = TopicMessageResult;
 export class TopicService {
     private readonly createOperation: TopicCreateOperation;
     private readonly updateOperation: TopicUpdateOperation;
+    private readonly rotateAdminKeyOperation: TopicRotateAdminKeyOperation;
     private readonly deleteOperation: TopicDeleteOperation;
     private readonly submitOperation: TopicMessageSubmitOperation;
     private readonly infoQuery: TopicInfoQuery;
@@ -113,6 +150,9 @@ export class TopicService {
     constructor(private readonly context: IHieroContext) {
         this.createOperation = new TopicCreateOperation(context);
         this.updateOperation = new TopicUpdateOperation(context);
+        this.rotateAdminKeyOperation = new TopicRotateAdminKeyOperation(
+            context,
+        );
         this.deleteOperation = new TopicDeleteOperation(context);
         this.submitOperation = new TopicMessageSubmitOperation(context);
         this.infoQuery = new TopicInfoQuery(context);
@@ -161,6 +201,16 @@ export class TopicService {
         return await this.createOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `createTopic` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareCreateTopic(
+        options: CreateTopicOptions = {},
+    ): Promise<PreparedTransaction<string>> {
+        return await this.createOperation.prepare(options);
+    }
+
     /**
      * Schedule a topic creation for deferred multi-sig execution.
      * Returns a `scheduleId` — other parties can then sign through
@@ -203,6 +253,36 @@ export class TopicService {
         return await this.updateOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `updateTopic` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareUpdateTopic(
+        options: UpdateTopicOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.updateOperation.prepare(options);
+    }
+
+    /**
+     * Rotate a topic's admin key, checking the current key on a consensus
+     * node first and reading the new key back afterwards. See
+     * `AccountService.rotateKey` for the full flow.
+     *
+     * @param options.topicId - The topic whose admin key to rotate
+     * @param options.newKey - The admin key to rotate to
+     * @param options.expectedKey - The admin key the topic must have now
+     * @param options.currentSigners - Signers satisfying the current admin key
+     * @param options.newSigners - Signers satisfying the new admin key
+     * @param options.schedule - Schedule the rotation, optionally with `ScheduleOptions`
+     * @throws {HieroError} `Rejected` if the topic is immutable, its admin
+     *   key is not the expected one, or a signature is missing
+     */
+    async rotateAdminKey(
+        options: RotateTopicAdminKeyOptions,
+    ): Promise<KeyRotationRecord> {
+        return await this.rotateAdminKeyOperation.execute(options);
+    }
+
     /**
      * Delete a topic.
      *
@@ -221,6 +301,16 @@ export class TopicService {
         return await this.deleteOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `deleteTopic` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     */
+    async prepareDeleteTopic(
+        options: DeleteTopicOptions,
+    ): Promise<PreparedTransaction<void>> {
+        return await this.deleteOperation.prepare(options);
+    }
+
     /**
      * Submit a message to a topic.
      *
@@ -244,14 +334,38 @@ export class TopicService {
      * @param options.maxChunks - Max chunks for auto-splitting (SDK default 20)
      * @param options.chunkSize - Bytes per chunk (SDK default 1024)
      * @param options.customFeeLimits - HIP-991 fee caps the submitter accepts
+     * @param options.codec - Serializes a typed `message` (e.g. `jsonCodec()`)
      * @returns Sequence number, running hash, and transaction ID from the (first chunk's) receipt
+     * @throws {HieroError} `CODEC_ERROR` if the codec cannot encode `message`
      */
-    async submitMessage(
-        options: SubmitMessageOptions,
+    submitMessage(options: SubmitMessageOptions): Promise<SubmitMessageResult>;
+    submitMessage<T>(
+        options: SubmitEncodedMessageOptions<T>,
+    ): Promise<SubmitMessageResult>;
+    async submitMessage<T>(
+        options: SubmitMessageOptions | SubmitEncodedMessageOptions<T>,
     ): Promise<SubmitMessageResult> {
         return await this.submitOperation.execute(options);
     }
 
+    /**
+     * Build and freeze the `submitMessage` transaction without submitting it.
+     * Submit the result later with `TransactionExecutor.submitPrepared`.
+     *
+     * @throws {HieroError} `CODEC_ERROR` if the codec cannot encode `message`
+     */
+    prepareSubmitMessage(
+        options: SubmitMessageOptions,
+    ): Promise<PreparedTransaction<SubmitMessageResult>>;
+    prepareSubmitMessage<T>(
+        options: SubmitEncodedMessageOptions<T>,
+    ): Promise<PreparedTransaction<SubmitMessageResult>>;
+    async prepareSubmitMessage<T>(
+        options: SubmitMessageOptions | SubmitEncodedMessageOptions<T>,
+    ): Promise<PreparedTransaction<SubmitMessageResult>> {
+        return await this.submitOperation.prepare(options);
+    }
+
     /**
      * Query the current consensus-node state of a topic.
      *
@@ -289,13 +403,35 @@ export class TopicService {
      * @param options.maxBackoff - Cap on exponential-backoff delay (ms)
      * @param options.errorHandler - Invoked when the stream errors
      * @param options.completionHandler - Invoked when the stream completes naturally
+     * @param options.codec - Decodes each message into `payload`; decode
+     *   failures are reported on the message and do not end the stream
      * @param listener - Invoked once per delivered message
      * @returns A `SubscriptionHandle`; call `.unsubscribe()` to stop the stream
      */
     subscribeToMessages(
         options: SubscribeToMessagesOptions,
         listener: (message: SubscribedMessage) => void,
+    ): SubscriptionHandle;
+    subscribeToMessages<T>(
+        options: SubscribeToDecodedMessagesOptions<T>,
+        listener: (message: DecodedSubscribedMessage<T>) => void,
+    ): SubscriptionHandle;
+    subscribeToMessages<T>(
+        options:
+            SubscribeToMessagesOptions | SubscribeToDecodedMessagesOptions<T>,
+        listener:
+            | ((message: SubscribedMessage) => void)
+            | ((message: DecodedSubscribedMessage<T>) => void),
     ): SubscriptionHandle {
-        return this.messageQuery.subscribe(options, listener);
+        if ("codec" in options) {
+            return this.messageQuery.subscribeDecoded(
+                options,
+                listener as (message: DecodedSubscribedMessage<T>) => void,
+            );
+        }
+        return this.messageQuery.subscribe(
+            options,
+            listener as (message: SubscribedMessage) => void,
+        );
     }
 }
@@ -2,10 +2,14 @@ export { TopicService } from "./TopicService.js";
 export type {
     CreateTopicOptions,
     UpdateTopicOptions,
+    RotateTopicAdminKeyOptions,
     DeleteTopicOptions,
     SubmitMessageOptions,
+    SubmitEncodedMessageOptions,
     SubmitMessageResult,
     GetTopicInfoResult,
     SubscribeToMessagesOptions,
     SubscribedMessage,
+    SubscribeToDecodedMessagesOptions,
+    DecodedSubscribedMessage,
 } from "./TopicService.js";
@@ -6,6 +6,8 @@ import type {
     TransactionOptions,
     ScheduleOptions,
     ScheduledResult,
+    PreparedTransaction,
+    TransactionCall,
 } from "../../transaction/index.js";
 import { TopicCreateValidator } from "../validation/index.js";
 
@@ -90,17 +92,23 @@ export class TopicCreateOperation {
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
-                type: "TopicCreate",
-                serviceName: "TopicService",
-                methodName: "createTopic",
-                timestamp: new Date(),
-            },
-            (receipt) => receipt.topicId!.toString(),
-        );
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TopicCreateTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare(
+        options: TopicCreateOperationOptions,
+    ): Promise<PreparedTransaction<string>> {
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
     }
 
     /** Schedule a `TopicCreateTransaction` for deferred multi-sig execution. */
@@ -115,14 +123,21 @@ export class TopicCreateOperation {
         return await this.executor.scheduleRun(
             tx,
             options,
-            {
+            this.call().event,
+            scheduleOptions,
+        );
+    }
+
+    private call(): TransactionCall<string> {
+        return {
+            event: {
                 type: "TopicCreate",
                 serviceName: "TopicService",
                 methodName: "createTopic",
                 timestamp: new Date(),
             },
-            scheduleOptions,
-        );
+            processReceipt: (receipt) => receipt.topicId!.toString(),
+        };
     }
 
     /**
@@ -2,8 +2,13 @@ import type { CustomFeeLimit, Long, TopicId } from "@hiero-ledger/sdk";
 import { TopicMessageSubmitTransaction } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { TransactionExecutor } from "../../transaction/index.js";
-import type { TransactionOptions } from "../../transaction/index.js";
+import type {
+    TransactionOptions,
+    PreparedTransaction,
+    TransactionCall,
+} from "../../transaction/index.js";
 import { TopicMessageSubmitValidator } from "../validation/index.js";
+import { encodeTopicPayload, type TopicCodec } from "../../../codec/index.js";
 
 /**
  * Low-level options for the `TopicMessageSubmitTransaction` SDK
@@ -55,6 +60,20 @@ export interface TopicMessageSubmitOperationOptions extends TransactionOptions {
     customFeeLimits?: CustomFeeLimit[];
 }
 
+/**
+ * Variant of {@link TopicMessageSubmitOperationOptions} whose `message` is
+ * a typed value, serialized with `codec` before submission.
+ */
+export interface TopicEncodedMessageSubmitOperationOptions<T> extends Omit<
+    TopicMessageSubmitOperationOptions,
+    "message"
+> {
+    /** Typed payload, encoded by `codec`. */
+    message: T;
+    /** Codec that turns `message` into the submitted bytes. */
+    codec: TopicCodec<T>;
+}
+
 /**
  * Result returned after a successful `TopicMessageSubmit`.
  *
@@ -83,28 +102,52 @@ export class TopicMessageSubmitOperation {
      * Submit a message to a topic. Returns the sequence number,
      * running hash, and transaction ID from the receipt.
      */
-    async execute(
-        options: TopicMessageSubmitOperationOptions,
+    async execute<T>(
+        input:
+            | TopicMessageSubmitOperationOptions
+            | TopicEncodedMessageSubmitOperationOptions<T>,
     ): Promise<TopicMessageSubmitResult> {
+        const options = encode(input);
         this.validator.validate(options);
 
         const tx = this.build(options);
 
-        return await this.executor.run(
-            tx,
-            options,
-            {
+        const { event, processReceipt } = this.call();
+        return await this.executor.run(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Build and freeze a `TopicMessageSubmitTransaction` for offline signing
+     * without submitting it.
+     */
+    async prepare<T>(
+        input:
+            | TopicMessageSubmitOperationOptions
+            | TopicEncodedMessageSubmitOperationOptions<T>,
+    ): Promise<PreparedTransaction<TopicMessageSubmitResult>> {
+        const options = encode(input);
+        this.validator.validate(options);
+
+        const tx = this.build(options);
+
+        const { event, processReceipt } = this.call();
+        return await this.executor.prepare(tx, options, event, processReceipt);
+    }
+
+    private call(): TransactionCall<TopicMessageSubmitResult> {
+        return {
+            event: {
                 type: "TopicMessageSubmit",
                 serviceName: "TopicService",
                 methodName: "submitMessage",
                 timestamp: new Date(),
             },
-            (receipt, transactionId) => ({
+            processReceipt: (receipt, transactionId) => ({
                 sequenceNumber: receipt.topicSequenceNumber!,
                 runningHash: receipt.topicRunningHash!,
                 transactionId,
             }),
-        );
+        };
     }
 
     private build(
@@ -129,3 +172,20 @@ export class TopicMessageSubmitOperation {
         return tx;
     }
 }
+
+function encode<T>(
+    options:
+        | TopicMessageSubmitOperationOptions
+        | TopicEncodedMessageSubmitOperationOptions<T>,
+): TopicMessageSubmitOperationOptions {
+    if (!("codec" in options)) return options;
+    const { codec, message, ...rest } = options;
+    return {
+        ...rest,
+        message: encodeTopicPayload(
+            codec,
+            message,
+            "TopicService.submitMessage",
+        ),
+    };
+}
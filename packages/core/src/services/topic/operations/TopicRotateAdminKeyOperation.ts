@@ -0,0 +1,63 @@
+import {
+    TopicInfoQuery as SdkTopicInfoQuery,
+    TopicUpdateTransaction,
+} from "@hiero-ledger/sdk";
+import type { TopicId } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../../context/index.js";
+import { KeyRotation } from "../../transaction/index.js";
+import type {
+    KeyRotationRecord,
+    RotateKeyOptions,
+} from "../../transaction/index.js";
+import { TopicRotateAdminKeyValidator } from "../validation/index.js";
+
+/**
+ * Low-level options for rotating a topic's admin key with a
+ * `TopicUpdateTransaction`.
+ */
+export interface TopicRotateAdminKeyOperationOptions extends RotateKeyOptions {
+    topicId: TopicId | string;
+}
+
+export class TopicRotateAdminKeyOperation {
+    private readonly rotation: KeyRotation;
+    private readonly validator: TopicRotateAdminKeyValidator;
+
+    constructor(context: IHieroContext) {
+        this.rotation = new KeyRotation(context);
+        this.validator = new TopicRotateAdminKeyValidator();
+    }
+
+    /** Rotate the topic's admin key and read it back. */
+    async execute(
+        options: TopicRotateAdminKeyOperationOptions,
+    ): Promise<KeyRotationRecord> {
+        this.validator.validate(options);
+
+        const topicId = options.topicId.toString();
+        return await this.rotation.rotate(
+            {
+                entityType: "topic",
+                entityId: topicId,
+                description: `admin key of topic ${topicId}`,
+                query: () => new SdkTopicInfoQuery().setTopicId(topicId),
+                keyOf: (info) => info.adminKey,
+                build: (newKey) =>
+                    new TopicUpdateTransaction()
+                        .setTopicId(topicId)
+                        .setAdminKey(newKey),
+                event: {
+                    type: "TopicUpdate",
+                    serviceName: "TopicService",
+                    methodName: "rotateAdminKey",
+                },
+                queryEvent: {
+                    type: "TopicInfoQuery",
+                    serviceName: "TopicService",
+                    methodName: "rotateAdminKey",
+                },
+            },
+            options,
+        );
+    }
+}
@@ -6,6 +6,10 @@ export {
     TopicUpdateOperation,
     type TopicUpdateOperationOptions,
 } from "./TopicUpdateOperation.js";
+export {
+    TopicRotateAdminKeyOperation,
+    type TopicRotateAdminKeyOperationOptions,
+} from "./TopicRotateAdminKeyOperation.js";
 export {
     TopicDeleteOperation,
     type TopicDeleteOperationOptions,
@@ -13,5 +17,6 @@ export {
 export {
     TopicMessageSubmitOperation,
     type TopicMessageSubmitOperationOptions,
+    type TopicEncodedMessageSubmitOperationOptions,
     type TopicMessageSubmitResult,
 } from "./TopicMessageSubmitOperation.js";
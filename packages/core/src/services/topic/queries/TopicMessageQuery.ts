@@ -6,6 +6,11 @@ import type {
 import { TopicMessageQuery as SdkTopicMessageQuery } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../../context/index.js";
 import { normalizeError } from "../../../errors/index.js";
+import {
+    decodeTopicPayload,
+    type DecodedMessage,
+    type TopicCodec,
+} from "../../../codec/index.js";
 
 /**
  * A plain-object representation of a single message delivered through a
@@ -73,6 +78,17 @@ export interface TopicMessageSubscribeOptions {
     completionHandler?: () => void;
 }
 
+/**
+ * Subscription options plus the codec used to decode each message's
+ * `contents`.
+ */
+export interface TopicMessageDecodedSubscribeOptions<
+    T,
+> extends TopicMessageSubscribeOptions {
+    /** Codec applied to the reassembled contents of every message. */
+    codec: TopicCodec<T>;
+}
+
 /**
  * Subscribe to messages on a topic via the mirror-node consensus stream.
  *
@@ -109,6 +125,27 @@ export class TopicMessageQuery {
         }
     }
 
+    /**
+     * Subscribe and decode every message with `options.codec`. A message
+     * that fails to decode is still delivered, with `payload.ok === false`,
+     * and the subscription carries on.
+     */
+    subscribeDecoded<T>(
+        options: TopicMessageDecodedSubscribeOptions<T>,
+        listener: (message: DecodedMessage<TopicMessageResult, T>) => void,
+    ): SubscriptionHandle {
+        return this.subscribe(options, (message) =>
+            listener({
+                ...message,
+                payload: decodeTopicPayload(
+                    options.codec,
+                    message.contents,
+                    "TopicService.subscribeToMessages",
+                ),
+            }),
+        );
+    }
+
     /**
      * Subscribe and receive the raw SDK `TopicMessage` (including
      * per-chunk detail) instead of the projected `TopicMessageResult`.
@@ -3,4 +3,5 @@ export {
     TopicMessageQuery,
     type TopicMessageResult,
     type TopicMessageSubscribeOptions,
+    type TopicMessageDecodedSubscribeOptions,
 } from "./TopicMessageQuery.js";
@@ -0,0 +1,54 @@
+import { TopicId } from "@hiero-ledger/sdk";
+import { normalizeError } from "../../../errors/index.js";
+import type { TopicRotateAdminKeyOperationOptions } from "../operations/index.js";
+
+/**
+ * Validates `TopicRotateAdminKeyOperationOptions` before they reach the SDK.
+ *
+ * Separated from the operation so validation logic is independently
+ * testable without requiring network interaction.
+ */
+export class TopicRotateAdminKeyValidator {
+    /**
+     * Validate the caller-provided options prior to reading the current
+     * key or submitting the update.
+     *
+     * @throws {HieroError} If validation fails
+     */
+    validate(options: TopicRotateAdminKeyOperationOptions): void {
+        this.validateTopicId(options);
+    }
+
+    private validateTopicId(
+        options: TopicRotateAdminKeyOperationOptions,
+    ): void {
+        if (options.topicId == null) {
+            throw normalizeError(
+                new Error("topicId is required."),
+                "TopicRotateAdminKeyValidator",
+            );
+        }
+
+        if (typeof options.topicId !== "string") {
+            return;
+        }
+
+        if (options.topicId.trim().length === 0) {
+            throw normalizeError(
+                new Error("topicId cannot be empty."),
+                "TopicRotateAdminKeyValidator",
+            );
+        }
+
+        try {
+            TopicId.fromString(options.topicId);
+        } catch {
+            throw normalizeError(
+                new Error(
+                    `topicId "${options.topicId}" is not a valid topic ID.`,
+                ),
+                "TopicRotateAdminKeyValidator",
+            );
+        }
+    }
+}
@@ -2,3 +2,4 @@ export { TopicCreateValidator } from "./TopicCreateValidator.js";
 export { TopicUpdateValidator } from "./TopicUpdateValidator.js";
 export { TopicDeleteValidator } from "./TopicDeleteValidator.js";
 export { TopicMessageSubmitValidator } from "./TopicMessageSubmitValidator.js";
+export { TopicRotateAdminKeyValidator } from "./TopicRotateAdminKeyValidator.js";
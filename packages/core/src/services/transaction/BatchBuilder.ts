@@ -0,0 +1,228 @@
+import type { Key, TransactionReceipt } from "@hiero-ledger/sdk";
+import {
+    BatchTransaction,
+    Status,
+    Transaction,
+    TransactionReceiptQuery,
+} from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../context/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../../errors/index.js";
+import { TransactionExecutor } from "./TransactionExecutor.js";
+import type { TransactionOptions } from "./TransactionOptions.js";
+import type { PreparedTransaction } from "./PreparedTransaction.js";
+
+/**
+ * Result of `BatchBuilder.execute`.
+ */
+export interface BatchResult<TResults extends unknown[]> {
+    /** Transaction ID of the outer `BatchTransaction` */
+    transactionId: string;
+    /** Each inner transaction's result, in the order the steps were added */
+    results: TResults;
+}
+
+interface BatchStep {
+    tx: Transaction;
+    prepared: PreparedTransaction<unknown>;
+}
+
+/**
+ * Collects prepared operations from any service and submits them as one
+ * atomic batch transaction (HIP-551): either every step succeeds or none
+ * of them take effect.
+ *
+ * Each step must be prepared with the builder's `batchOptions`, which set
+ * the batch key on the inner transaction before it is frozen. The result
+ * type of each step is carried through to `execute()`.
+ *
+ * @example
+ * ```ts
+ * const batch = new BatchBuilder(context);
+ * const { results: [accountId, , transferId] } = await batch
+ *     .add(await accountService.prepareCreateAccount({ ...opts, ...batch.batchOptions }))
+ *     .add(await tokenService.prepareAssociateToken({ ...assoc, ...batch.batchOptions }))
+ *     .add(await accountService.prepareTransferToken({ ...xfer, ...batch.batchOptions }))
+ *     .execute();
+ * ```
+ */
+export class BatchBuilder<TResults extends unknown[] = []> {
+    /** Key that must sign the outer batch; the operator key by default */
+    readonly batchKey: Key;
+
+    private readonly executor: TransactionExecutor;
+    private readonly steps: BatchStep[] = [];
+
+    constructor(
+        private readonly context: IHieroContext,
+        batchKey?: Key,
+    ) {
+        this.batchKey = batchKey ?? context.operatorPublicKey;
+        this.executor = new TransactionExecutor(context);
+    }
+
+    /**
+     * Options to spread into every `prepare*` call whose result is added
+     * to this batch.
+     */
+    get batchOptions(): Pick<TransactionOptions, "batchKey"> {
+        return { batchKey: this.batchKey };
+    }
+
+    /**
+     * Append a prepared operation as the next inner transaction.
+     *
+     * @throws {HieroError} If the bytes cannot be decoded or the transaction
+     *   was prepared without a batch key
+     */
+    add<TResult>(
+        prepared: PreparedTransaction<TResult>,
+    ): BatchBuilder<[...TResults, TResult]> {
+        const step = `step ${this.steps.length + 1} (${prepared.serviceName}.${prepared.methodName})`;
+
+        let tx: Transaction;
+        try {
+            tx = Transaction.fromBytes(prepared.bytes);
+        } catch (error) {
+            throw normalizeError(error, `BatchBuilder.add ${step}`);
+        }
+
+        if (tx.batchKey == null) {
+            throw normalizeError(
+                new Error(
+                    `Batch ${step} has no batch key. Prepare it with the builder's batchOptions.`,
+                ),
+                "BatchBuilder.add",
+            );
+        }
+
+        this.steps.push({
+            tx,
+            prepared: prepared as PreparedTransaction<unknown>,
+        });
+        return this as unknown as BatchBuilder<[...TResults, TResult]>;
+    }
+
+    /** Number of inner transactions added so far. */
+    get size(): number {
+        return this.steps.length;
+    }
+
+    /**
+     * Sign every inner transaction with the operator, submit the batch, and
+     * map each inner receipt through its originating operation.
+     *
+     * When the batch key is not the operator key, supply its signature via
+     * `options.additionalSigners` or `options.externalSigners`.
+     *
+     * @param options - Transaction options for the outer `BatchTransaction`.
+     * @throws {HieroError} Naming the failed step, with its status and
+     *   transaction ID, when an inner transaction fails
+     */
+    async execute(
+        options: TransactionOptions = {},
+    ): Promise<BatchResult<TResults>> {
+        if (this.steps.length === 0) {
+            throw normalizeError(
+                new Error("Batch has no inner transactions."),
+                "BatchBuilder.execute",
+            );
+        }
+
+        const batchTx = new BatchTransaction();
+        for (const [index, { tx, prepared }] of this.steps.entries()) {
+            try {
+                // Inner transactions are paid for, and signed, by the operator
+                await this.context.signTransaction(tx);
+                batchTx.addInnerTransaction(tx);
+            } catch (error) {
+                throw normalizeError(
+                    error,
+                    `BatchBuilder.execute step ${index + 1} (${prepared.serviceName}.${prepared.methodName})`,
+                );
+            }
+        }
+
+        let transactionId: string;
+        try {
+            transactionId = await this.executor.run(
+                batchTx,
+                options,
+                {
+                    type: "AtomicBatch",
+                    serviceName: "BatchBuilder",
+                    methodName: "execute",
+                    timestamp: new Date(),
+                },
+                (_receipt, id) => id,
+            );
+        } catch (error) {
+            const batchError = normalizeError(error, "BatchBuilder.execute");
+            // Only an inner failure leaves inner receipts worth reading
+            if (
+                batchError.sdkStatus !==
+                Status.InnerTransactionFailed.toString()
+            ) {
+                throw batchError;
+            }
+            throw (await this.findFailedStep(batchError)) ?? batchError;
+        }
+
+        const results = await Promise.all(
+            this.steps.map(async ({ tx, prepared }) =>
+                prepared.processReceipt(
+                    await this.innerReceipt(tx),
+                    tx.transactionId!.toString(),
+                ),
+            ),
+        );
+
+        return { transactionId, results: results as TResults };
+    }
+
+    /**
+     * After a failed batch, find the first inner transaction whose receipt
+     * is neither a success nor a rolled-back success, and describe it.
+     * Returns `undefined` when the inner receipts cannot be read.
+     */
+    private async findFailedStep(
+        batchError: HieroError,
+    ): Promise<HieroError | undefined> {
+        for (const [index, { tx, prepared }] of this.steps.entries()) {
+            let receipt: TransactionReceipt;
+            try {
+                receipt = await this.innerReceipt(tx);
+            } catch {
+                return undefined;
+            }
+
+            if (
+                receipt.status !== Status.Success &&
+                receipt.status !== Status.RevertedSuccess
+            ) {
+                const status = receipt.status.toString();
+                return new HieroError(
+                    `Atomic batch failed at step ${index + 1} of ${this.steps.length} (${prepared.serviceName}.${prepared.methodName}): ${status}`,
+                    {
+                        code: HieroErrorCodes.SdkError,
+                        sdkStatus: status,
+                        context: `${prepared.serviceName}.${prepared.methodName}`,
+                        cause: batchError,
+                        transactionId: tx.transactionId!.toString(),
+                    },
+                );
+            }
+        }
+        return undefined;
+    }
+
+    private async innerReceipt(tx: Transaction): Promise<TransactionReceipt> {
+        return await new TransactionReceiptQuery()
+            .setTransactionId(tx.transactionId!)
+            .setValidateStatus(false)
+            .execute(this.context.client);
+    }
+}
@@ -0,0 +1,60 @@
+import type { HieroError } from "../../errors/index.js";
+import type { ExchangeRate } from "../../types/index.js";
+
+/**
+ * Estimated network fee for a transaction, priced from the fee schedule
+ * in file `0.0.111` and the mirror node's current exchange rate.
+ */
+export interface FeeEstimate {
+    /** Estimated total fee in tinybars */
+    tinybars: number;
+    /** Estimated total fee in US dollars */
+    usd: number;
+    /** Node component of `tinybars` */
+    nodeTinybars: number;
+    /** Network component of `tinybars` */
+    networkTinybars: number;
+    /** Service component of `tinybars` */
+    serviceTinybars: number;
+    /** Fee schedule entry used, e.g. `"TokenCreate"` */
+    requestType: string;
+    /** Fee schedule sub-type used, e.g. `"TOKEN_FUNGIBLE_COMMON"` */
+    subType: string;
+    /** Exchange rate used to convert USD cents to tinybars */
+    exchangeRate: ExchangeRate;
+}
+
+/**
+ * Outcome of `TransactionExecutor.dryRun`: whether the operation passes
+ * validation and, when it does, what the frozen transaction looks like
+ * and roughly what it will cost. Nothing is submitted.
+ */
+export interface DryRunReport {
+    /** `true` when the operation validated, built and froze cleanly */
+    valid: boolean;
+    /** Why the operation was rejected; set only when `valid` is `false` */
+    error?: HieroError;
+    /** Transaction type, e.g. `"TokenCreate"` */
+    type?: string;
+    /** Service class name, e.g. `"TokenService"` */
+    serviceName?: string;
+    /** Method name, e.g. `"createFungibleToken"` */
+    methodName?: string;
+    /** Transaction ID the frozen transaction would be submitted under */
+    transactionId?: string;
+    /** Human-readable, multi-line description of the transaction */
+    summary?: string;
+    /**
+     * Size in bytes of the transaction sent to one node, including the
+     * operator signature added at submission
+     */
+    sizeBytes?: number;
+    /** Signatures the transaction carries once the operator has signed */
+    signatureCount?: number;
+    /** Maximum fee the payer is willing to pay, in tinybars */
+    maxTransactionFeeTinybars?: number;
+    /** Estimated fee; absent when `valid` is `false` */
+    fee?: FeeEstimate;
+    /** `true` when the estimate is above `maxTransactionFeeTinybars` */
+    exceedsMaxTransactionFee?: boolean;
+}
@@ -0,0 +1,301 @@
+import type {
+    FeeComponents,
+    FeeData,
+    Transaction,
+    TransactionFeeSchedule,
+} from "@hiero-ledger/sdk";
+import {
+    FeeDataType,
+    FeeSchedules,
+    FileContentsQuery,
+    TokenBurnTransaction,
+    TokenCreateTransaction,
+    TokenMintTransaction,
+    TokenType,
+    TokenWipeTransaction,
+} from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../context/index.js";
+import type { MirrorNodeClient } from "../../mirror/index.js";
+import { HieroError, HieroErrorCodes } from "../../errors/index.js";
+import { QueryExecutor } from "./QueryExecutor.js";
+import type { FeeEstimate } from "./DryRunReport.js";
+import { feeDataTypeCode, transactionDataCase } from "./sdk-internals.js";
+
+/** System file holding the current and next fee schedules */
+const FEE_SCHEDULE_FILE_ID = "0.0.111";
+
+/** Fee schedule prices are in thousandths of a tinycent */
+const FEE_DIVISOR_FACTOR = 1000n;
+
+/** 1 USD = 100 cents = 10^10 tinycents */
+const TINYCENTS_PER_USD = 10_000_000_000;
+
+/** Used when the fee schedule carries no expiration time */
+const DEFAULT_SCHEDULE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Transaction body data cases whose fee schedule entry is named
+ * differently. Every other data case maps to its capitalized form,
+ * e.g. `cryptoTransfer` → `CryptoTransfer`.
+ */
+const REQUEST_TYPE_ALIASES = new Map<string, string>([
+    ["cryptoCreateAccount", "CryptoCreate"],
+    ["cryptoUpdateAccount", "CryptoUpdate"],
+    ["contractCreateInstance", "ContractCreate"],
+    ["contractUpdateInstance", "ContractUpdate"],
+    ["contractDeleteInstance", "ContractDelete"],
+    ["tokenCreation", "TokenCreate"],
+    ["tokenDeletion", "TokenDelete"],
+    ["tokenWipe", "TokenAccountWipe"],
+    ["tokenAssociate", "TokenAssociateToAccount"],
+    ["tokenDissociate", "TokenDissociateFromAccount"],
+    ["tokenFreeze", "TokenFreezeAccount"],
+    ["tokenUnfreeze", "TokenUnfreezeAccount"],
+    ["tokenGrantKyc", "TokenGrantKycToAccount"],
+    ["tokenRevokeKyc", "TokenRevokeKycFromAccount"],
+]);
+
+/**
+ * Resource usage the fee is priced against.
+ */
+export interface FeeUsage {
+    /** Size in bytes of the transaction sent to one node */
+    sizeBytes: number;
+    /** Signatures the transaction carries at submission */
+    signatureCount: number;
+}
+
+/**
+ * Estimates transaction fees without submitting anything.
+ *
+ * Prices come from the fee schedule in file `0.0.111`, read once through
+ * a consensus-node query and cached until the schedule expires. Tinycent
+ * prices are converted to tinybars with the mirror node's current
+ * exchange rate.
+ *
+ * The estimate prices the constant, per-byte and per-signature components
+ * of the schedule. Usage the network only knows after execution — storage,
+ * gas, custom fees — is not included, so treat the result as a floor for
+ * contract calls and as a close approximation for everything else.
+ */
+export class FeeEstimator {
+    private readonly queryExecutor: QueryExecutor;
+    private feeSchedules?: Promise<FeeSchedules>;
+    private feeSchedulesExpireAt = 0;
+
+    constructor(
+        context: IHieroContext,
+        private readonly mirrorNodeClient: MirrorNodeClient,
+    ) {
+        this.queryExecutor = new QueryExecutor(context);
+    }
+
+    /**
+     * Estimate the fee for a frozen transaction.
+     *
+     * @param tx - The frozen transaction to price.
+     * @param usage - Size and signature count at submission.
+     * @throws {HieroError} `NOT_FOUND` if the fee schedule has no entry
+     *   for the transaction type
+     */
+    async estimate(tx: Transaction, usage: FeeUsage): Promise<FeeEstimate> {
+        const [schedules, rates] = await Promise.all([
+            this.loadFeeSchedules(),
+            this.mirrorNodeClient.queryExchangeRates(),
+        ]);
+
+        const requestType = requestTypeOf(tx);
+        const subType = subTypeOf(tx);
+        const feeData = findFeeData(schedules, requestType, subType);
+
+        const nodeTinycents = componentFee(feeData.nodedata, usage);
+        const networkTinycents = componentFee(feeData.networkdata, usage);
+        // Service prices depend on state changes, not on the wire format
+        const serviceTinycents = componentFee(feeData.servicedata, {
+            sizeBytes: 0,
+            signatureCount: 0,
+        });
+
+        const exchangeRate = rates.currentRate;
+        const toTinybars = (tinycents: bigint): number =>
+            Number(
+                (tinycents * BigInt(exchangeRate.hbarEquivalent)) /
+                    BigInt(exchangeRate.centEquivalent),
+            );
+
+        const nodeTinybars = toTinybars(nodeTinycents);
+        const networkTinybars = toTinybars(networkTinycents);
+        const serviceTinybars = toTinybars(serviceTinycents);
+
+        return {
+            tinybars: nodeTinybars + networkTinybars + serviceTinybars,
+            usd:
+                Number(nodeTinycents + networkTinycents + serviceTinycents) /
+                TINYCENTS_PER_USD,
+            nodeTinybars,
+            networkTinybars,
+            serviceTinybars,
+            requestType,
+            subType: (feeData.feeDataType ?? FeeDataType.Default).toString(),
+            exchangeRate,
+        };
+    }
+
+    /**
+     * Read and decode the fee schedule file, reusing the cached copy until
+     * the current schedule expires.
+     */
+    private async loadFeeSchedules(): Promise<FeeSchedules> {
+        if (this.feeSchedules && Date.now() < this.feeSchedulesExpireAt) {
+            return this.feeSchedules;
+        }
+
+        const pending = this.queryExecutor
+            .run(
+                new FileContentsQuery().setFileId(FEE_SCHEDULE_FILE_ID),
+                {},
+                {
+                    type: "FileGetContents",
+                    serviceName: "FeeEstimator",
+                    methodName: "loadFeeSchedules",
+                    timestamp: new Date(),
+                },
+            )
+            .then((bytes) => FeeSchedules.fromBytes(bytes));
+
+        this.feeSchedules = pending;
+        this.feeSchedulesExpireAt = Number.POSITIVE_INFINITY;
+
+        try {
+            const schedules = await pending;
+            const expiresAt = schedules.current?.expirationTime;
+            this.feeSchedulesExpireAt = expiresAt
+                ? expiresAt.toDate().getTime()
+                : Date.now() + DEFAULT_SCHEDULE_TTL_MS;
+            return schedules;
+        } catch (error) {
+            // Drop the failed read so the next estimate retries
+            this.feeSchedules = undefined;
+            this.feeSchedulesExpireAt = 0;
+            throw error;
+        }
+    }
+}
+
+/**
+ * Fee schedule entry name for a transaction, e.g. `"TokenCreate"`.
+ */
+function requestTypeOf(tx: Transaction): string {
+    const dataCase = transactionDataCase(tx);
+    return (
+        REQUEST_TYPE_ALIASES.get(dataCase) ??
+        dataCase.charAt(0).toUpperCase() + dataCase.slice(1)
+    );
+}
+
+/**
+ * Fee schedule sub-type for the transaction. Token transactions are priced
+ * differently for fungible and non-fungible tokens; everything else uses
+ * the default entry.
+ */
+function subTypeOf(tx: Transaction): FeeDataType {
+    if (tx instanceof TokenCreateTransaction) {
+        const nft = tx.tokenType === TokenType.NonFungibleUnique;
+        if (tx.customFees.length > 0) {
+            return nft
+                ? FeeDataType.TokenNonFungibleUniqueWithCustomFees
+                : FeeDataType.TokenFungibleCommonWithCustomFees;
+        }
+        return nft
+            ? FeeDataType.TokenNonFungibleUnique
+            : FeeDataType.TokenFungibleCommon;
+    }
+    if (tx instanceof TokenMintTransaction) {
+        return tx.metadata.length > 0
+            ? FeeDataType.TokenNonFungibleUnique
+            : FeeDataType.TokenFungibleCommon;
+    }
+    if (
+        tx instanceof TokenBurnTransaction ||
+        tx instanceof TokenWipeTransaction
+    ) {
+        return (tx.serials?.length ?? 0) > 0
+            ? FeeDataType.TokenNonFungibleUnique
+            : FeeDataType.TokenFungibleCommon;
+    }
+    return FeeDataType.Default;
+}
+
+/**
+ * Pick the fee data for a request type and sub-type from the current
+ * schedule, falling back to the default sub-type.
+ */
+function findFeeData(
+    schedules: FeeSchedules,
+    requestType: string,
+    subType: FeeDataType,
+): FeeData {
+    const entry: TransactionFeeSchedule | undefined =
+        schedules.current?.transactionFeeSchedule?.find(
+            (schedule) =>
+                schedule.hederaFunctionality?.toString() === requestType,
+        );
+    const fees = entry?.fees?.length
+        ? entry.fees
+        : entry?.feeData
+          ? [entry.feeData]
+          : [];
+    const feeData =
+        fees.find(
+            (fee) =>
+                fee.feeDataType != null &&
+                feeDataTypeCode(fee.feeDataType) === feeDataTypeCode(subType),
+        ) ??
+        fees.find(
+            (fee) =>
+                feeDataTypeCode(fee.feeDataType ?? FeeDataType.Default) ===
+                feeDataTypeCode(FeeDataType.Default),
+        ) ??
+        fees[0];
+
+    if (feeData == null) {
+        throw new HieroError(
+            `Fee schedule ${FEE_SCHEDULE_FILE_ID} has no entry for ${requestType}`,
+            {
+                code: HieroErrorCodes.NotFound,
+                context: "FeeEstimator.estimate",
+            },
+        );
+    }
+    return feeData;
+}
+
+/**
+ * Price one fee component in tinycents: the constant plus per-byte and
+ * per-signature charges, clamped to the component's min/max.
+ */
+function componentFee(
+    components: FeeComponents | undefined,
+    usage: FeeUsage,
+): bigint {
+    if (components == null) {
+        return 0n;
+    }
+    const value = (long: { toString(): string } | undefined): bigint =>
+        BigInt(long?.toString() ?? "0");
+
+    let total =
+        value(components.constant) +
+        value(components.transactionBandwidthByte) * BigInt(usage.sizeBytes) +
+        value(components.transactionVerification) *
+            BigInt(usage.signatureCount);
+
+    const min = value(components.min);
+    const max = value(components.max);
+    if (total < min) {
+        total = min;
+    } else if (max > 0n && total > max) {
+        total = max;
+    }
+    return total / FEE_DIVISOR_FACTOR;
+}
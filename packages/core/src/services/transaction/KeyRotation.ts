@@ -0,0 +1,265 @@
+import type { Key, Query, Transaction } from "@hiero-ledger/sdk";
+import { PrivateKey } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../../context/index.js";
+import type { TransactionEvent } from "../../listeners/index.js";
+import type { MirrorKey } from "../../types/index.js";
+import { HieroError, HieroErrorCodes } from "../../errors/index.js";
+import {
+    evaluateKey,
+    mirrorKeyOf,
+    signedKeySet,
+} from "../../signatures/key-evaluation.js";
+import { TransactionExecutor } from "./TransactionExecutor.js";
+import { QueryExecutor } from "./QueryExecutor.js";
+import type {
+    ExternalSigner,
+    TransactionOptions,
+} from "./TransactionOptions.js";
+import type { ScheduleOptions } from "./ScheduleOptions.js";
+
+/** A key that signs a rotation: held locally, or in an HSM/KMS */
+export type RotationSigner = PrivateKey | ExternalSigner;
+
+/**
+ * Options shared by `AccountService.rotateKey`,
+ * `TokenService.rotateAdminKey` and `TopicService.rotateAdminKey`.
+ *
+ * A rotation must be signed by the key being replaced and by the new key.
+ * Signers may also be passed in `additionalSigners` or `externalSigners`;
+ * the operator's signature counts as well.
+ */
+export interface RotateKeyOptions extends TransactionOptions {
+    /** The key to rotate to. Any SDK key: a public key, key list or threshold. */
+    newKey: Key;
+    /**
+     * The key the entity is expected to have now. The rotation is refused
+     * if the key on the network differs, e.g. because someone else rotated
+     * it first.
+     */
+    expectedKey?: Key;
+    /** Signers satisfying the current key */
+    currentSigners?: RotationSigner[];
+    /** Signers satisfying the new key */
+    newSigners?: RotationSigner[];
+    /**
+     * Schedule the rotation instead of executing it, so the remaining
+     * holders of a threshold key can approve it with `ScheduleSignTransaction`.
+     * Pass `ScheduleOptions` to set the schedule's payer, admin key or memo.
+     */
+    schedule?: boolean | ScheduleOptions;
+}
+
+/**
+ * What a key rotation did, for the caller to store alongside its own
+ * key inventory.
+ */
+export interface KeyRotationRecord {
+    entityType: "account" | "token" | "topic";
+    entityId: string;
+    /** `"scheduled"` until the schedule collects its signatures and executes */
+    status: "rotated" | "scheduled";
+    previousKey: MirrorKey;
+    newKey: MirrorKey;
+    /** The update transaction, or the `ScheduleCreateTransaction` when scheduled */
+    transactionId: string;
+    scheduleId?: string;
+    /** ISO-8601 time the rotation completed or was scheduled */
+    timestamp: string;
+}
+
+/**
+ * The entity-specific half of a rotation, supplied by each service's
+ * rotation operation.
+ */
+export interface KeyRotationTarget<TInfo> {
+    entityType: KeyRotationRecord["entityType"];
+    entityId: string;
+    /** What the key is called in messages, e.g. `"admin key of token 0.0.5"` */
+    description: string;
+    /** Query returning the entity's info from a consensus node */
+    query: () => Query<TInfo>;
+    /** Picks the key out of the query result; `null` if it has none */
+    keyOf: (info: TInfo) => Key | null;
+    /** The update transaction setting the new key */
+    build: (newKey: Key) => Transaction;
+    /** Event of the update, e.g. `{ type: "TokenUpdate", ... }` */
+    event: Omit<TransactionEvent, "timestamp">;
+    /** Event of the info query */
+    queryEvent: Omit<TransactionEvent, "timestamp">;
+}
+
+/**
+ * Runs a key rotation: checks the entity's current key on a consensus
+ * node, submits or schedules the update signed by the current and new
+ * keys, and reads the key back once the update succeeds.
+ */
+export class KeyRotation {
+    private readonly executor: TransactionExecutor;
+    private readonly queryExecutor: QueryExecutor;
+
+    constructor(private readonly context: IHieroContext) {
+        this.executor = new TransactionExecutor(context);
+        this.queryExecutor = new QueryExecutor(context);
+    }
+
+    /**
+     * @throws {HieroError} `Rejected` if the entity's key is not the
+     *   expected one, the entity has no key to rotate, or the signers do
+     *   not satisfy the current and new keys
+     * @throws {HieroError} `Unknown` if the key read back after a
+     *   successful update is not the new key
+     */
+    async rotate<TInfo>(
+        target: KeyRotationTarget<TInfo>,
+        options: RotateKeyOptions,
+    ): Promise<KeyRotationRecord> {
+        const context = `${target.event.serviceName}.${target.event.methodName}`;
+        const currentKey = await this.fetchKey(target);
+        if (currentKey == null) {
+            throw new HieroError(
+                `The ${target.description} is not set, so it cannot be rotated.`,
+                { code: HieroErrorCodes.Rejected, context },
+            );
+        }
+        const previousKey = mirrorKeyOf(currentKey);
+        const newKey = mirrorKeyOf(options.newKey);
+        if (
+            options.expectedKey != null &&
+            !sameKey(previousKey, mirrorKeyOf(options.expectedKey))
+        ) {
+            throw new HieroError(
+                `The ${target.description} on the network is not the expected key.`,
+                { code: HieroErrorCodes.Rejected, context },
+            );
+        }
+
+        const txOptions = signingOptions(options);
+        const scheduleOptions =
+            options.schedule === true ? {} : options.schedule || undefined;
+        const tx = target.build(options.newKey);
+        const event = { ...target.event, timestamp: new Date() };
+
+        if (scheduleOptions != null) {
+            const { scheduleId, transactionId } =
+                await this.executor.scheduleRun(
+                    tx,
+                    txOptions,
+                    event,
+                    scheduleOptions,
+                );
+            return {
+                ...record(target, previousKey, newKey, transactionId),
+                status: "scheduled",
+                scheduleId,
+            };
+        }
+
+        this.assertSigned(
+            target.description,
+            txOptions,
+            previousKey,
+            newKey,
+            context,
+        );
+        const transactionId = await this.executor.run(
+            tx,
+            txOptions,
+            event,
+            (_receipt, id) => id,
+        );
+
+        const rotatedKey = await this.fetchKey(target);
+        if (rotatedKey == null || !sameKey(mirrorKeyOf(rotatedKey), newKey)) {
+            throw new HieroError(
+                `The rotation of the ${target.description} succeeded, but the network reports a different key.`,
+                { code: HieroErrorCodes.Unknown, context, transactionId },
+            );
+        }
+        return {
+            ...record(target, previousKey, newKey, transactionId),
+            status: "rotated",
+        };
+    }
+
+    private async fetchKey<TInfo>(
+        target: KeyRotationTarget<TInfo>,
+    ): Promise<Key | null> {
+        const info = await this.queryExecutor.run(
+            target.query(),
+            {},
+            { ...target.queryEvent, timestamp: new Date() },
+        );
+        return target.keyOf(info);
+    }
+
+    /** Both keys must be satisfied by the operator and the given signers */
+    private assertSigned(
+        description: string,
+        options: TransactionOptions,
+        previousKey: MirrorKey,
+        newKey: MirrorKey,
+        context: string,
+    ): void {
+        const signed = signedKeySet([
+            this.context.operatorPublicKey,
+            ...(options.additionalSigners ?? []).map((key) => key.publicKey),
+            ...(options.externalSigners ?? []).map((s) => s.publicKey),
+        ]);
+        const missing = [
+            { name: `current ${description}`, key: previousKey },
+            { name: `new ${description}`, key: newKey },
+        ].filter(({ key }) => !evaluateKey(key, signed).satisfied);
+        if (missing.length > 0) {
+            throw new HieroError(
+                `Key rotation is missing signatures from: ${missing.map((m) => m.name).join(", ")}.`,
+                { code: HieroErrorCodes.Rejected, context },
+            );
+        }
+    }
+}
+
+/** The transaction options with the rotation signers merged in */
+function signingOptions(options: RotateKeyOptions): TransactionOptions {
+    const {
+        newKey: _newKey,
+        expectedKey: _expectedKey,
+        currentSigners = [],
+        newSigners = [],
+        schedule: _schedule,
+        ...rest
+    } = options;
+    const signers = [...currentSigners, ...newSigners];
+    return {
+        ...rest,
+        additionalSigners: [
+            ...(rest.additionalSigners ?? []),
+            ...signers.filter((s): s is PrivateKey => s instanceof PrivateKey),
+        ],
+        externalSigners: [
+            ...(rest.externalSigners ?? []),
+            ...signers.filter(
+                (s): s is ExternalSigner => !(s instanceof PrivateKey),
+            ),
+        ],
+    };
+}
+
+function record(
+    target: Pick<KeyRotationTarget<unknown>, "entityType" | "entityId">,
+    previousKey: MirrorKey,
+    newKey: MirrorKey,
+    transactionId: string,
+): Omit<KeyRotationRecord, "status"> {
+    return {
+        entityType: target.entityType,
+        entityId: target.entityId,
+        previousKey,
+        newKey,
+        transactionId,
+        timestamp: new Date().toISOString(),
+    };
+}
+
+function sameKey(a: MirrorKey, b: MirrorKey): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,69 @@
+import type { TransactionReceipt } from "@hiero-ledger/sdk";
+import type { LegacySignature } from "./TransactionOptions.js";
+import type { TransactionEvent } from "../../listeners/index.js";
+
+/**
+ * A frozen, serialized transaction produced by an operation's `prepare()`
+ * instead of being submitted.
+ *
+ * The bytes can leave the process — to an offline approval tool, an HSM
+ * workflow, or a queue — and come back later for submission through
+ * `TransactionExecutor.submitPrepared`. Passing this object (rather than
+ * the bare bytes) to `submitPrepared` maps the receipt to the same result
+ * the original operation returns.
+ */
+export interface PreparedTransaction<TResult> {
+    /** Frozen transaction bytes, including any signatures applied so far */
+    bytes: Uint8Array;
+    /** Transaction ID, e.g. `"0.0.2@1700000000.123456789"` */
+    transactionId: string;
+    /**
+     * Hex SHA-384 of the transaction body sent to the first node. Signers
+     * compare it against the body they are asked to sign.
+     */
+    bodyHash: string;
+    /** Human-readable, multi-line description of the transaction */
+    summary: string;
+    /** Transaction type, e.g. `"TokenMint"` */
+    type: string;
+    /** Service class name, e.g. `"TokenService"` */
+    serviceName: string;
+    /** Method name, e.g. `"mintToken"` */
+    methodName: string;
+    /** Maps the receipt to the originating operation's result */
+    processReceipt: (
+        receipt: TransactionReceipt,
+        transactionId: string,
+    ) => TResult;
+}
+
+/**
+ * The event an operation reports and how it maps its receipt. Each
+ * operation builds it in one place and hands it to both
+ * `TransactionExecutor.run` and `prepare`, so a prepared transaction
+ * resolves to the same result as the direct call.
+ */
+export interface TransactionCall<TResult> {
+    event: TransactionEvent;
+    processReceipt: (
+        receipt: TransactionReceipt,
+        transactionId: string,
+    ) => TResult;
+}
+
+/**
+ * Options for `TransactionExecutor.submitPrepared`.
+ */
+export interface SubmitPreparedOptions {
+    /**
+     * Signatures collected offline over the prepared body bytes. Each one
+     * is verified against the transaction before it is submitted.
+     */
+    signatures?: LegacySignature[];
+
+    /**
+     * Who asked for this transaction, recorded by the audit logger;
+     * defaults to the operator account.
+     */
+    initiator?: string;
+}
@@ -1,7 +1,11 @@
 import type { Query } from "@hiero-ledger/sdk";
 import { AccountId, Hbar, Status, TransactionId } from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../context/index.js";
-import type { TransactionEvent } from "../../listeners/index.js";
+import type {
+    QueryInterceptorContext,
+    TransactionEvent,
+} from "../../listeners/index.js";
+import { runInterceptors } from "../../listeners/interceptor.js";
 import { normalizeError } from "../../errors/index.js";
 import type { QueryOptions } from "./QueryOptions.js";
 
@@ -9,7 +13,8 @@ import type { QueryOptions } from "./QueryOptions.js";
  * Owns the full query lifecycle shared across all SDK consensus-node queries:
  * applying base options (payer, payment cap, node targeting), executing the
  * query, normalising any error into a `HieroError`, and emitting before/after
- * lifecycle events.
+ * lifecycle events. Each query passes through the context's interceptors
+ * first.
  *
  * Sibling of `TransactionExecutor` — same observability surface, but for
  * queries (which don't produce receipts or transaction IDs of their own).
@@ -29,6 +34,34 @@ export class QueryExecutor {
         query: Query<TResult>,
         options: QueryOptions,
         event: TransactionEvent,
+    ): Promise<TResult> {
+        const ctx: QueryInterceptorContext = {
+            kind: "query",
+            query: query as Query<unknown>,
+            options,
+            event,
+            state: new Map(),
+        };
+
+        try {
+            return await runInterceptors(this.context.interceptors, ctx, () =>
+                this.runQuery(query, ctx.options, ctx.event),
+            );
+        } catch (error) {
+            throw normalizeError(
+                error,
+                `${ctx.event.serviceName}.${ctx.event.methodName}`,
+            );
+        }
+    }
+
+    /**
+     * `run()` without the interceptor chain.
+     */
+    private async runQuery<TResult>(
+        query: Query<TResult>,
+        options: QueryOptions,
+        event: TransactionEvent,
     ): Promise<TResult> {
         this.applyBaseOptions(query, options);
 
@@ -0,0 +1,142 @@
+/**
+ * How `TransactionExecutor` retries a submission that failed with a
+ * transient network status.
+ *
+ * Set it for every transaction with `HieroConfig.retryPolicy`, or for one
+ * call with `TransactionOptions.retryPolicy`; fields set per call override
+ * the global ones. Without either, a failed submission is not retried.
+ *
+ * These retries sit on top of the SDK's own node-level retries: they
+ * start over from a failed precheck or receipt, which the SDK surfaces
+ * as an error.
+ */
+export interface RetryPolicy {
+    /** Total attempts, including the first (default: 3) */
+    maxAttempts?: number;
+    /**
+     * Statuses retried with the same transaction ID
+     * (default: {@link DEFAULT_RETRYABLE_STATUSES})
+     */
+    retryableStatuses?: readonly string[];
+    /**
+     * Statuses retried after rebuilding the transaction with a fresh ID
+     * and signing it again (default: {@link DEFAULT_REGENERATE_ID_STATUSES}).
+     * Terminal for transactions carrying offline signatures, which cannot
+     * be re-created, and when `regenerateTransactionId` is `false`.
+     */
+    regenerateIdStatuses?: readonly string[];
+    /** Delay before the first retry in milliseconds (default: 500) */
+    initialDelayMs?: number;
+    /** Upper bound on any single delay in milliseconds (default: 8000) */
+    maxDelayMs?: number;
+    /** Factor applied to the delay after each retry (default: 2) */
+    multiplier?: number;
+    /**
+     * Fraction of each delay that is randomized, from 0 (fixed delays) to
+     * 1 (anywhere between zero and the full delay) (default: 0.5)
+     */
+    jitter?: number;
+}
+
+/**
+ * Statuses that mean the network did not process the transaction, so the
+ * same signed transaction can be sent again.
+ */
+export const DEFAULT_RETRYABLE_STATUSES: readonly string[] = [
+    "BUSY",
+    "PLATFORM_TRANSACTION_NOT_CREATED",
+    "PLATFORM_NOT_ACTIVE",
+];
+
+/**
+ * Statuses where the transaction ID itself is the problem — expired, or
+ * its valid start not accepted by the node.
+ *
+ * `DUPLICATE_TRANSACTION` is deliberately absent: it usually means an
+ * earlier submission of the same transaction was accepted, and sending it
+ * again under a new ID would execute it twice.
+ */
+export const DEFAULT_REGENERATE_ID_STATUSES: readonly string[] = [
+    "TRANSACTION_EXPIRED",
+    "INVALID_TRANSACTION_START",
+];
+
+/**
+ * What to do after a failed attempt.
+ *
+ * - `retry` — submit the same transaction again
+ * - `regenerate` — rebuild it with a fresh transaction ID, then submit
+ * - `terminal` — give up and throw
+ */
+export type RetryAction = "retry" | "regenerate" | "terminal";
+
+/** `RetryPolicy` with every default filled in. */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Merge the per-call policy over the global one. Returns `undefined` when
+ * neither is set, which disables retries.
+ */
+export function resolveRetryPolicy(
+    global: RetryPolicy | undefined,
+    perCall: RetryPolicy | undefined,
+): ResolvedRetryPolicy | undefined {
+    if (global == null && perCall == null) {
+        return undefined;
+    }
+    return {
+        maxAttempts: 3,
+        retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+        regenerateIdStatuses: DEFAULT_REGENERATE_ID_STATUSES,
+        initialDelayMs: 500,
+        maxDelayMs: 8000,
+        multiplier: 2,
+        jitter: 0.5,
+        ...withoutUndefined(global),
+        ...withoutUndefined(perCall),
+    };
+}
+
+/**
+ * Classify a failed attempt's status. Errors without a status never
+ * reached a verdict from the network and are terminal — the transaction
+ * may still reach consensus, so sending it again is not safe.
+ */
+export function retryActionFor(
+    policy: ResolvedRetryPolicy,
+    status: string | undefined,
+): RetryAction {
+    if (status == null) {
+        return "terminal";
+    }
+    if (policy.retryableStatuses.includes(status)) {
+        return "retry";
+    }
+    if (policy.regenerateIdStatuses.includes(status)) {
+        return "regenerate";
+    }
+    return "terminal";
+}
+
+/**
+ * Delay before the given retry (1 for the first), growing exponentially
+ * up to `maxDelayMs`, with the `jitter` fraction of it randomized.
+ */
+export function retryDelayMs(
+    policy: ResolvedRetryPolicy,
+    retry: number,
+    random: () => number = Math.random,
+): number {
+    const delay = Math.min(
+        policy.maxDelayMs,
+        policy.initialDelayMs * policy.multiplier ** (retry - 1),
+    );
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(delay * (1 - jitter * random()));
+}
+
+function withoutUndefined(policy: RetryPolicy | undefined): RetryPolicy {
+    return Object.fromEntries(
+        Object.entries(policy ?? {}).filter(([, value]) => value !== undefined),
+    );
+}
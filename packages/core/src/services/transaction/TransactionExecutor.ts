@@ -1,19 +1,110 @@
-import type { Transaction, TransactionReceipt } from "@hiero-ledger/sdk";
-import { AccountId } from "@hiero-ledger/sdk";
+import type {
+    PublicKey,
+    Transaction,
+    TransactionResponse,
+} from "@hiero-ledger/sdk";
+import {
+    AccountId,
+    ReceiptStatusError,
+    Status,
+    TransactionId,
+    TransactionReceipt,
+    TransactionReceiptQuery,
+} from "@hiero-ledger/sdk";
 import type { IHieroContext } from "../../context/index.js";
-import type { TransactionEvent } from "../../listeners/index.js";
-import { normalizeError } from "../../errors/index.js";
-import type { TransactionOptions } from "./TransactionOptions.js";
+import type {
+    ScheduleInterceptorContext,
+    TransactionEvent,
+    TransactionInterceptorContext,
+} from "../../listeners/index.js";
+import { runInterceptors } from "../../listeners/interceptor.js";
+import type { JournalEntry, TransactionJournal } from "../../journal/index.js";
+import type { AuditRecord } from "../../audit/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../../errors/index.js";
+import type {
+    TransactionOptions,
+    LegacySignature,
+} from "./TransactionOptions.js";
 import type { ScheduleOptions, ScheduledResult } from "./ScheduleOptions.js";
+import type {
+    PreparedTransaction,
+    SubmitPreparedOptions,
+} from "./PreparedTransaction.js";
+import type { DryRunReport, FeeEstimate } from "./DryRunReport.js";
+import {
+    assertNotExpired,
+    bodyHash,
+    decodeFrozen,
+    expiryOf,
+    runExclusive,
+    transactionType,
+} from "./frozen-transaction.js";
+import {
+    addLegacySignature,
+    clearFrozenState,
+    receiptWithStatus,
+    signaturePrefixesOf,
+    transactionBodyOf,
+} from "./sdk-internals.js";
+import type { FeeEstimator } from "./FeeEstimator.js";
+import type {
+    ResolvedRetryPolicy,
+    RetryAction,
+    RetryPolicy,
+} from "./RetryPolicy.js";
+import {
+    resolveRetryPolicy,
+    retryActionFor,
+    retryDelayMs,
+} from "./RetryPolicy.js";
+
+/**
+ * Approximate wire size of one signature pair — public key prefix plus
+ * signature and protobuf framing — used to account for the operator
+ * signature the client adds at submission.
+ */
+const SIGNATURE_PAIR_BYTES = 104;
+
+/**
+ * Calls in progress per idempotency key, per journal. Executors are
+ * created per service, so the locks live with the journal they guard.
+ */
+const idempotencyLocks = new WeakMap<
+    TransactionJournal,
+    Map<string, Promise<unknown>>
+>();
+
+/** Per-submission settings threaded from `run()` into `submit()` */
+interface SubmitOptions {
+    idempotencyKey?: string;
+    retryPolicy?: RetryPolicy;
+    /** Whether the transaction may be rebuilt with a fresh ID on retry */
+    canRegenerateId?: boolean;
+    /** Recorded in the audit log as who asked for the transaction */
+    initiator?: string;
+}
 
 /**
  * Owns the full transaction lifecycle shared across all service operations:
  * applying base options, optional freeze, additional signers, execute,
- * receipt, and before/after event emission.
+ * receipt, retries under a `RetryPolicy`, and before/after event emission.
  *
  * Operations call `run()` or `scheduleRun()`, supplying a pre-built transaction
  * and a `processReceipt` callback that maps the receipt to the operation's
- * return type. This keeps all boilerplate in one place.
+ * return type. This keeps all boilerplate in one place. Both calls pass
+ * through the context's interceptors before anything else happens. `prepare()` stops
+ * after freezing and signing and hands back the bytes; `submitPrepared()`
+ * picks the lifecycle up again from those bytes, passing the decoded
+ * transaction through the interceptors before it is submitted. `dryRun()` prepares a
+ * transaction only to report on it and estimate its fee.
+ *
+ * When the context has a transaction journal, every submission is recorded
+ * before it is sent and again once its outcome is known. With an audit
+ * logger, each submission is also appended to the audit log.
  */
 export class TransactionExecutor {
     constructor(private readonly context: IHieroContext) {}
@@ -25,6 +116,8 @@ export class TransactionExecutor {
      * @param options - Base transaction options (fees, signers, etc.).
      * @param event - Event metadata emitted before and after execution.
      * @param processReceipt - Maps the receipt + transactionId to the operation result.
+     * @throws {HieroError} `ConfigInvalid` if `options.idempotencyKey` is
+     *   set without a transaction journal
      */
     async run<TResult>(
         tx: Transaction,
@@ -34,50 +127,295 @@ export class TransactionExecutor {
             receipt: TransactionReceipt,
             transactionId: string,
         ) => TResult,
+    ): Promise<TResult> {
+        return await this.intercept(
+            {
+                kind: "transaction",
+                transaction: tx,
+                options,
+                event,
+                state: new Map(),
+            },
+            (ctx) =>
+                this.runTransaction(
+                    ctx.transaction,
+                    ctx.options,
+                    ctx.event,
+                    processReceipt,
+                ),
+        );
+    }
+
+    /**
+     * `run()` without the interceptor chain.
+     */
+    private async runTransaction<TResult>(
+        tx: Transaction,
+        options: TransactionOptions,
+        event: TransactionEvent,
+        processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult,
+    ): Promise<TResult> {
+        const idempotencyKey = options.idempotencyKey;
+        if (idempotencyKey != null) {
+            // Serialized per key, so a concurrent repeat waits for the
+            // first call's journal entry instead of submitting again
+            return await this.exclusive(idempotencyKey, async () => {
+                const recorded = await this.findRecorded(idempotencyKey, event);
+                if (recorded) {
+                    return await this.replay(recorded, processReceipt);
+                }
+                return await this.submitNew(tx, options, event, processReceipt);
+            });
+        }
+        return await this.submitNew(tx, options, event, processReceipt);
+    }
+
+    /**
+     * Apply the options, then sign and submit a transaction that has no
+     * earlier call to replay.
+     */
+    private async submitNew<TResult>(
+        tx: Transaction,
+        options: TransactionOptions,
+        event: TransactionEvent,
+        processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult,
     ): Promise<TResult> {
         // Apply base SDK options before any signing or execution
         this.applyBaseOptions(tx, options);
 
-        await this.context.emitBeforeTransaction(event);
-        const start = Date.now();
+        return await this.submit(
+            tx,
+            event,
+            processReceipt,
+            async () => {
+                await this.freezeAndSign(tx, options);
+            },
+            {
+                idempotencyKey: options.idempotencyKey,
+                retryPolicy: options.retryPolicy,
+                initiator: options.initiator,
+                // Offline signatures cover the old ID and cannot be redone
+                canRegenerateId:
+                    options.regenerateTransactionId !== false &&
+                    !options.legacySignatures?.length,
+            },
+        );
+    }
+
+    /**
+     * Build, freeze and sign a transaction without submitting it.
+     *
+     * Applies the same base options and signers as `run()`, so the bytes
+     * carry every signature available locally. No lifecycle events are
+     * emitted — they fire when the bytes are submitted.
+     *
+     * @param tx - The built (but not yet frozen) transaction.
+     * @param options - Base transaction options (fees, signers, etc.).
+     * @param event - Metadata recorded on the prepared transaction.
+     * @param processReceipt - Maps the receipt + transactionId to the operation result.
+     */
+    async prepare<TResult>(
+        tx: Transaction,
+        options: TransactionOptions,
+        event: TransactionEvent,
+        processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult,
+    ): Promise<PreparedTransaction<TResult>> {
+        this.applyBaseOptions(tx, options);
 
         try {
-            // Always freeze before signing or execution — the SDK requires
-            // a frozen transaction for sign/signWith/_addSignatureLegacy and
-            // custom networks may not auto-freeze correctly in execute().
-            tx.freezeWith(this.context.client);
+            await this.freezeAndSign(tx, options);
+
+            return {
+                bytes: tx.toBytes(),
+                transactionId: tx.transactionId!.toString(),
+                bodyHash: bodyHash(tx),
+                summary: summarize(tx, event),
+                type: event.type,
+                serviceName: event.serviceName,
+                methodName: event.methodName,
+                processReceipt,
+            };
+        } catch (error) {
+            throw normalizeError(
+                error,
+                `${event.serviceName}.${event.methodName}`,
+            );
+        }
+    }
 
-            // Apply offline signatures after freeze (requires stable tx hash)
-            this.applyLegacySignatures(tx, options);
+    /**
+     * Submit a transaction produced by `prepare()`, optionally adding
+     * signatures collected offline.
+     *
+     * The bytes are decoded and checked before anything is sent: the
+     * transaction must be frozen, still inside its valid window, match
+     * the prepared body hash, and every supplied signature must verify.
+     * The decoded transaction then passes through the context's
+     * interceptors, so a spending policy applies to it as to `run()`.
+     *
+     * @param prepared - The prepared transaction, or its bytes alone.
+     * @param options - Offline signatures to attach before submission.
+     * @returns The originating operation's result when given a
+     *   `PreparedTransaction`; the raw receipt when given bytes.
+     */
+    async submitPrepared<TResult>(
+        prepared: PreparedTransaction<TResult>,
+        options?: SubmitPreparedOptions,
+    ): Promise<TResult>;
+    async submitPrepared(
+        bytes: Uint8Array,
+        options?: SubmitPreparedOptions,
+    ): Promise<TransactionReceipt>;
+    async submitPrepared<TResult>(
+        prepared: PreparedTransaction<TResult> | Uint8Array,
+        options: SubmitPreparedOptions = {},
+    ): Promise<TResult | TransactionReceipt> {
+        const context = "TransactionExecutor.submitPrepared";
+        const tx = decodeFrozen(
+            prepared instanceof Uint8Array ? prepared : prepared.bytes,
+            context,
+        );
 
-            await this.applySigners(tx, options);
+        if (
+            !(prepared instanceof Uint8Array) &&
+            bodyHash(tx) !== prepared.bodyHash
+        ) {
+            throw normalizeError(
+                new Error(
+                    "Prepared transaction bytes do not match the prepared body hash.",
+                ),
+                context,
+            );
+        }
 
-            // execute() auto-signs with the operator key via the client
-            const response = await tx.execute(this.context.client);
-            const receipt = await response.getReceipt(this.context.client);
-            const transactionId = response.transactionId.toString();
-            const result = processReceipt(receipt, transactionId);
+        assertNotExpired(tx.transactionId!.toString(), expiryOf(tx), context);
+        applyVerifiedSignatures(tx, options.signatures ?? [], context);
 
-            await this.context.emitAfterTransaction({
-                ...event,
-                transactionId,
-                status: receipt.status.toString(),
-                durationMs: Date.now() - start,
-            });
+        const event: TransactionEvent =
+            prepared instanceof Uint8Array
+                ? {
+                      type: transactionType(tx),
+                      serviceName: "TransactionExecutor",
+                      methodName: "submitPrepared",
+                      timestamp: new Date(),
+                  }
+                : {
+                      type: prepared.type,
+                      serviceName: prepared.serviceName,
+                      methodName: prepared.methodName,
+                      timestamp: new Date(),
+                  };
+        const processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult | TransactionReceipt =
+            prepared instanceof Uint8Array
+                ? (receipt) => receipt
+                : prepared.processReceipt;
 
-            return result;
+        return await this.intercept(
+            {
+                kind: "transaction",
+                transaction: tx,
+                options: { initiator: options.initiator },
+                event,
+                state: new Map(),
+            },
+            (ctx) =>
+                this.submit(
+                    tx,
+                    ctx.event,
+                    processReceipt,
+                    () => Promise.resolve(),
+                    { initiator: ctx.options.initiator },
+                ),
+        );
+    }
+
+    /**
+     * Validate, build and freeze an operation's transaction and estimate
+     * its fee, without submitting it.
+     *
+     * Pass a callback that invokes one of the services' `prepareX`
+     * methods; it runs the operation's validator, builds the transaction
+     * and freezes it. A validation or build failure is reported on the
+     * result rather than thrown. No lifecycle events are emitted.
+     *
+     * @example
+     * ```ts
+     * const report = await new TransactionExecutor(context).dryRun(
+     *     () => tokenService.prepareCreateFungibleToken(options),
+     *     feeEstimator,
+     * );
+     * ```
+     *
+     * @param prepare - Produces the prepared transaction.
+     * @param feeEstimator - Prices the transaction from the fee schedule
+     *   and exchange rate.
+     * @throws {HieroError} If the fee schedule or exchange rate cannot be read
+     */
+    async dryRun(
+        prepare: () => Promise<PreparedTransaction<unknown>>,
+        feeEstimator: FeeEstimator,
+    ): Promise<DryRunReport> {
+        const context = "TransactionExecutor.dryRun";
+
+        let prepared: PreparedTransaction<unknown>;
+        try {
+            prepared = await prepare();
         } catch (error) {
-            await this.context.emitAfterTransaction({
-                ...event,
-                error:
-                    error instanceof Error ? error : new Error(String(error)),
-                durationMs: Date.now() - start,
+            return { valid: false, error: normalizeError(error, context) };
+        }
+
+        const tx = decodeFrozen(prepared.bytes, context);
+
+        // execute() adds the operator signature unless it is already there
+        const operatorSigned = hasSignatureFrom(
+            tx,
+            this.context.operatorPublicKey,
+        );
+        const signatureCount = countSignatures(tx) + (operatorSigned ? 0 : 1);
+        const sizeBytes =
+            (await tx.size) + (operatorSigned ? 0 : SIGNATURE_PAIR_BYTES);
+
+        let fee: FeeEstimate;
+        try {
+            fee = await feeEstimator.estimate(tx, {
+                sizeBytes,
+                signatureCount,
             });
-            throw normalizeError(
-                error,
-                `${event.serviceName}.${event.methodName}`,
-            );
+        } catch (error) {
+            throw normalizeError(error, context);
         }
+
+        const maxTransactionFeeTinybars = tx.maxTransactionFee
+            ?.toTinybars()
+            .toNumber();
+
+        return {
+            valid: true,
+            type: prepared.type,
+            serviceName: prepared.serviceName,
+            methodName: prepared.methodName,
+            transactionId: prepared.transactionId,
+            summary: prepared.summary,
+            sizeBytes,
+            signatureCount,
+            maxTransactionFeeTinybars,
+            fee,
+            exceedsMaxTransactionFee:
+                maxTransactionFeeTinybars != null &&
+                fee.tinybars > maxTransactionFeeTinybars,
+        };
     }
 
     /**
@@ -97,6 +435,34 @@ export class TransactionExecutor {
         options: TransactionOptions,
         event: TransactionEvent,
         scheduleOptions: ScheduleOptions = {},
+    ): Promise<ScheduledResult> {
+        return await this.intercept(
+            {
+                kind: "schedule",
+                transaction: tx,
+                options,
+                scheduleOptions,
+                event,
+                state: new Map(),
+            },
+            (ctx) =>
+                this.runSchedule(
+                    ctx.transaction,
+                    ctx.options,
+                    ctx.event,
+                    ctx.scheduleOptions,
+                ),
+        );
+    }
+
+    /**
+     * `scheduleRun()` without the interceptor chain.
+     */
+    private async runSchedule(
+        tx: Transaction,
+        options: TransactionOptions,
+        event: TransactionEvent,
+        scheduleOptions: ScheduleOptions,
     ): Promise<ScheduledResult> {
         // tx.schedule() wraps the inner transaction in a ScheduleCreateTransaction
         const scheduleTx = tx.schedule();
@@ -117,7 +483,7 @@ export class TransactionExecutor {
             scheduleTx.setScheduleMemo(scheduleOptions.scheduleMemo);
         }
 
-        return await this.run(
+        return await this.runTransaction(
             scheduleTx,
             options,
             event,
@@ -128,6 +494,474 @@ export class TransactionExecutor {
         );
     }
 
+    /**
+     * Run an operation inside the context's interceptor chain, normalizing
+     * a rejection from an interceptor like any other failure.
+     */
+    private async intercept<
+        TContext extends
+            TransactionInterceptorContext | ScheduleInterceptorContext,
+        TResult,
+    >(
+        ctx: TContext,
+        operation: (ctx: TContext) => Promise<TResult>,
+    ): Promise<TResult> {
+        try {
+            return await runInterceptors(
+                this.context.interceptors,
+                ctx,
+                operation,
+            );
+        } catch (error) {
+            throw normalizeError(
+                error,
+                `${ctx.event.serviceName}.${ctx.event.methodName}`,
+            );
+        }
+    }
+
+    /**
+     * Emit lifecycle events around signing, execution and receipt
+     * processing. `beforeExecute` runs after `onBeforeTransaction`, so a
+     * signing failure is reported like any other. Under a retry policy,
+     * failed attempts are retried between the two events.
+     */
+    private async submit<TResult>(
+        tx: Transaction,
+        event: TransactionEvent,
+        processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult,
+        beforeExecute: () => Promise<void>,
+        submitOptions: SubmitOptions = {},
+    ): Promise<TResult> {
+        await this.context.emitBeforeTransaction(event);
+        const start = Date.now();
+        const policy = resolveRetryPolicy(
+            this.context.retryPolicy,
+            submitOptions.retryPolicy,
+        );
+
+        try {
+            let outcome: {
+                receipt: TransactionReceipt;
+                transactionId: string;
+                nodeAccountId: string;
+            };
+            let signed = false;
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    if (!signed) {
+                        await beforeExecute();
+                        signed = true;
+                    }
+                    outcome = await this.attempt(tx, event, submitOptions);
+                    break;
+                } catch (error) {
+                    const action = await this.beforeRetry(
+                        tx,
+                        event,
+                        error,
+                        attempt,
+                        policy,
+                        submitOptions.canRegenerateId ?? false,
+                    );
+                    if (action === "regenerate") {
+                        signed = false;
+                    }
+                }
+            }
+
+            const { receipt, transactionId, nodeAccountId } = outcome;
+            const result = processReceipt(receipt, transactionId);
+
+            await this.context.emitAfterTransaction({
+                ...event,
+                transactionId,
+                nodeAccountId,
+                status: receipt.status.toString(),
+                durationMs: Date.now() - start,
+            });
+
+            return result;
+        } catch (error) {
+            await this.context.emitAfterTransaction({
+                ...event,
+                error:
+                    error instanceof Error ? error : new Error(String(error)),
+                durationMs: Date.now() - start,
+            });
+            throw normalizeError(
+                error,
+                `${event.serviceName}.${event.methodName}`,
+            );
+        }
+    }
+
+    /**
+     * Submit a signed transaction once and wait for its receipt, recording
+     * it in the journal and the audit log when they are configured.
+     */
+    private async attempt(
+        tx: Transaction,
+        event: TransactionEvent,
+        submitOptions: SubmitOptions,
+    ): Promise<{
+        receipt: TransactionReceipt;
+        transactionId: string;
+        nodeAccountId: string;
+    }> {
+        let entry: JournalEntry | undefined;
+
+        try {
+            entry = await this.journalInFlight(
+                tx,
+                event,
+                submitOptions.idempotencyKey,
+            );
+
+            // execute() auto-signs with the operator key via the client
+            const response = await tx.execute(this.context.client);
+            const receipt = await response.getReceipt(this.context.client);
+            await this.journalOutcome(entry, () => ({
+                status: "succeeded",
+                receiptStatus: receipt.status.toString(),
+                receipt: receipt.toBytes(),
+            }));
+            await this.audit(
+                tx,
+                event,
+                submitOptions.initiator,
+                { outcome: "succeeded", status: receipt.status.toString() },
+                response,
+            );
+            return {
+                receipt,
+                transactionId: response.transactionId.toString(),
+                nodeAccountId: response.nodeId.toString(),
+            };
+        } catch (error) {
+            const normalized = normalizeError(
+                error,
+                `${event.serviceName}.${event.methodName}`,
+            );
+            // A status means the network answered; without one the
+            // transaction may still reach consensus, so it stays in flight
+            if (normalized.sdkStatus != null) {
+                await this.journalOutcome(entry, () => ({
+                    status: "failed",
+                    receiptStatus: normalized.sdkStatus,
+                    error: normalized.message,
+                }));
+            }
+            await this.audit(tx, event, submitOptions.initiator, {
+                outcome: "failed",
+                status: normalized.sdkStatus,
+                error: normalized.message,
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Append a submitted transaction to the audit log. Best effort like
+     * the journal outcome: the transaction has already been sent, so a
+     * failing sink is reported as a process warning instead.
+     */
+    private async audit(
+        tx: Transaction,
+        event: TransactionEvent,
+        initiator: string | undefined,
+        outcome: Pick<AuditRecord, "outcome" | "status" | "error">,
+        response?: TransactionResponse,
+    ): Promise<void> {
+        const auditLogger = this.context.auditLogger;
+        if (auditLogger == null) {
+            return;
+        }
+
+        const transactionId = tx.transactionId?.toString() ?? "";
+        let chargedFee: string | undefined;
+        if (response != null && auditLogger.recordChargedFees) {
+            try {
+                const record = await response.getRecord(this.context.client);
+                chargedFee = record.transactionFee.toTinybars().toString();
+            } catch (error) {
+                // The entry is still recorded, only without its fee
+                process.emitWarning(
+                    `Charged fee lookup failed for ${transactionId} during ${event.serviceName}.${event.methodName}: ${normalizeError(error).message}`,
+                    "HieroAuditWarning",
+                );
+            }
+        }
+        try {
+            const body = transactionBody(tx);
+            await auditLogger.record({
+                transactionId,
+                type: event.type,
+                serviceName: event.serviceName,
+                methodName: event.methodName,
+                initiator:
+                    initiator ?? this.context.operatorAccountId.toString(),
+                operatorAccountId: this.context.operatorAccountId.toString(),
+                body,
+                signerPublicKeys: signerPublicKeys(tx),
+                ...outcome,
+                maxTransactionFee: String(body.transactionFee ?? "0"),
+                chargedFee,
+            });
+        } catch (error) {
+            process.emitWarning(
+                `Audit log write failed for ${transactionId} during ${event.serviceName}.${event.methodName}: ${normalizeError(error).message}`,
+                "HieroAuditWarning",
+            );
+        }
+    }
+
+    /**
+     * Decide what follows a failed attempt. Rethrows the error when it is
+     * terminal or the policy's attempts are used up; otherwise emits the
+     * retry event and waits out the backoff. When the transaction needs a
+     * fresh ID it is reset, to be frozen and signed again by the caller.
+     */
+    private async beforeRetry(
+        tx: Transaction,
+        event: TransactionEvent,
+        error: unknown,
+        attempt: number,
+        policy: ResolvedRetryPolicy | undefined,
+        canRegenerateId: boolean,
+    ): Promise<RetryAction> {
+        if (policy == null || attempt >= policy.maxAttempts) {
+            throw error;
+        }
+
+        const status = normalizeError(error).sdkStatus;
+        const action = retryActionFor(policy, status);
+        if (
+            action === "terminal" ||
+            (action === "regenerate" && !canRegenerateId)
+        ) {
+            throw error;
+        }
+
+        const delayMs = retryDelayMs(policy, attempt);
+        await this.context.emitTransactionRetry({
+            ...event,
+            timestamp: new Date(),
+            attempt: attempt + 1,
+            maxAttempts: policy.maxAttempts,
+            delayMs,
+            status: status!,
+            transactionId: tx.transactionId?.toString(),
+            regenerateTransactionId: action === "regenerate",
+            error: error instanceof Error ? error : new Error(String(error)),
+        });
+        await sleep(delayMs);
+
+        if (action === "regenerate") {
+            regenerateTransactionId(tx);
+        }
+        return action;
+    }
+
+    /**
+     * Look up an earlier call made with the same idempotency key.
+     */
+    private async findRecorded(
+        idempotencyKey: string,
+        event: TransactionEvent,
+    ): Promise<JournalEntry | undefined> {
+        const context = `${event.serviceName}.${event.methodName}`;
+        const journal = this.context.journal;
+        if (journal == null) {
+            throw new HieroError(
+                "idempotencyKey requires a transactionJournal in the Hiero config.",
+                { code: HieroErrorCodes.ConfigInvalid, context },
+            );
+        }
+
+        try {
+            return await journal.findByIdempotencyKey(idempotencyKey);
+        } catch (error) {
+            throw normalizeError(error, context);
+        }
+    }
+
+    /**
+     * Run `task` once every earlier call with the same idempotency key on
+     * this context's journal has settled.
+     */
+    private exclusive<T>(
+        idempotencyKey: string,
+        task: () => Promise<T>,
+    ): Promise<T> {
+        const journal = this.context.journal;
+        if (journal == null) {
+            // findRecorded rejects the call
+            return task();
+        }
+        let locks = idempotencyLocks.get(journal);
+        if (locks == null) {
+            locks = new Map();
+            idempotencyLocks.set(journal, locks);
+        }
+        return runExclusive(locks, idempotencyKey, task);
+    }
+
+    /**
+     * Answer a repeated call from its journal entry instead of submitting
+     * again: map the recorded receipt, rethrow the recorded failure, or —
+     * when the outcome was never recorded — fetch the receipt now.
+     *
+     * A success recovered from the mirror node has no receipt, and the
+     * nodes no longer hold it, so the operation's result is mapped from a
+     * receipt carrying only the recorded status.
+     */
+    private async replay<TResult>(
+        entry: JournalEntry,
+        processReceipt: (
+            receipt: TransactionReceipt,
+            transactionId: string,
+        ) => TResult,
+    ): Promise<TResult> {
+        const context = `${entry.serviceName}.${entry.methodName}`;
+
+        if (entry.status === "failed") {
+            throw new HieroError(
+                entry.error ??
+                    `Transaction ${entry.transactionId} failed with ${entry.receiptStatus}`,
+                {
+                    code: HieroErrorCodes.SdkError,
+                    sdkStatus: entry.receiptStatus,
+                    context,
+                    transactionId: entry.transactionId,
+                },
+            );
+        }
+
+        if (entry.status === "succeeded" && entry.receipt != null) {
+            try {
+                return processReceipt(
+                    TransactionReceipt.fromBytes(entry.receipt),
+                    entry.transactionId,
+                );
+            } catch (error) {
+                throw normalizeError(error, context);
+            }
+        }
+
+        if (entry.status === "succeeded") {
+            try {
+                return processReceipt(
+                    receiptWithStatus(Status.Success),
+                    entry.transactionId,
+                );
+            } catch (error) {
+                throw new HieroError(
+                    `Transaction ${entry.transactionId} succeeded, but its receipt has expired and the result cannot be rebuilt; look it up on the mirror node.`,
+                    {
+                        code: HieroErrorCodes.NotFound,
+                        context,
+                        cause: error instanceof Error ? error : undefined,
+                        transactionId: entry.transactionId,
+                    },
+                );
+            }
+        }
+
+        try {
+            const receipt = await new TransactionReceiptQuery()
+                .setTransactionId(TransactionId.fromString(entry.transactionId))
+                .execute(this.context.client);
+            await this.journalOutcome(entry, () => ({
+                status: "succeeded",
+                receiptStatus: receipt.status.toString(),
+                receipt: receipt.toBytes(),
+            }));
+            return processReceipt(receipt, entry.transactionId);
+        } catch (error) {
+            const normalized = normalizeError(error, context);
+            // Only a consensus failure is final; a failed lookup is retried
+            // on the next call
+            if (error instanceof ReceiptStatusError) {
+                await this.journalOutcome(entry, () => ({
+                    status: "failed",
+                    receiptStatus: normalized.sdkStatus,
+                    error: normalized.message,
+                }));
+            }
+            throw normalized;
+        }
+    }
+
+    /**
+     * Record a transaction as in flight before it is sent. The operator
+     * signature is added first so the stored bytes are exactly what the
+     * network receives. A journal write failure aborts the submission.
+     */
+    private async journalInFlight(
+        tx: Transaction,
+        event: TransactionEvent,
+        idempotencyKey: string | undefined,
+    ): Promise<JournalEntry | undefined> {
+        const journal = this.context.journal;
+        if (journal == null) {
+            return undefined;
+        }
+
+        await this.context.signTransaction(tx);
+
+        const transactionId = tx.transactionId!;
+        const validStart = transactionId.validStart!.toDate().getTime();
+        const now = new Date().toISOString();
+        const entry: JournalEntry = {
+            transactionId: transactionId.toString(),
+            idempotencyKey,
+            type: event.type,
+            serviceName: event.serviceName,
+            methodName: event.methodName,
+            bytes: tx.toBytes(),
+            expiresAt: new Date(
+                validStart + tx.transactionValidDuration * 1000,
+            ).toISOString(),
+            status: "in-flight",
+            createdAt: now,
+            updatedAt: now,
+        };
+        await journal.put(entry);
+        return entry;
+    }
+
+    /**
+     * Record a transaction's outcome. Best effort: the transaction has
+     * already been sent, so a journal failure must not turn its result
+     * into an error — the entry stays in flight for recovery instead.
+     */
+    private async journalOutcome(
+        entry: JournalEntry | undefined,
+        outcome: () => Pick<
+            JournalEntry,
+            "status" | "receiptStatus" | "receipt" | "error"
+        >,
+    ): Promise<void> {
+        const journal = this.context.journal;
+        if (entry == null || journal == null) {
+            return;
+        }
+
+        try {
+            await journal.put({
+                ...entry,
+                ...outcome(),
+                updatedAt: new Date().toISOString(),
+            });
+        } catch {
+            // Left in flight; recoverInFlightTransactions resolves it later
+        }
+    }
+
     /**
      * Apply the base `TransactionOptions` fields to the SDK transaction before
      * it is frozen or executed.
@@ -156,6 +990,11 @@ export class TransactionExecutor {
             tx.setHighVolume(options.highVolume);
         }
 
+        if (options.batchKey != null) {
+            // Freezing then targets node 0.0.0, as inner transactions require
+            tx.setBatchKey(options.batchKey);
+        }
+
         if (options.nodeAccountIds?.length) {
             // Convert string IDs to AccountId objects as required by the SDK
             tx.setNodeAccountIds(
@@ -164,6 +1003,24 @@ export class TransactionExecutor {
         }
     }
 
+    /**
+     * Freeze the transaction and apply every configured signature.
+     */
+    private async freezeAndSign(
+        tx: Transaction,
+        options: TransactionOptions,
+    ): Promise<void> {
+        // Always freeze before signing or execution — the SDK requires
+        // a frozen transaction for sign/signWith/_addSignatureLegacy and
+        // custom networks may not auto-freeze correctly in execute().
+        tx.freezeWith(this.context.client);
+
+        // Apply offline signatures after freeze (requires stable tx hash)
+        this.applyLegacySignatures(tx, options);
+
+        await this.applySigners(tx, options);
+    }
+
     /**
      * Apply pre-computed offline signatures. Must be called after freeze.
      */
@@ -173,7 +1030,7 @@ export class TransactionExecutor {
     ): void {
         if (options.legacySignatures) {
             for (const { publicKey, signature } of options.legacySignatures) {
-                tx._addSignatureLegacy(publicKey, signature);
+                addLegacySignature(tx, publicKey, signature);
             }
         }
     }
@@ -195,3 +1052,120 @@ export class TransactionExecutor {
         }
     }
 }
+
+/**
+ * Decoded body of a frozen transaction as sent to its first node, in the
+ * JSON form the audit log stores.
+ */
+function transactionBody(tx: Transaction): Record<string, unknown> {
+    return toAuditJson(transactionBodyOf(tx)) as Record<string, unknown>;
+}
+
+/**
+ * Convert a protobuf object to plain JSON: 64-bit integers become decimal
+ * strings, byte fields hex strings, and unset fields are dropped.
+ */
+function toAuditJson(value: unknown): unknown {
+    if (value instanceof Uint8Array) {
+        return Buffer.from(value).toString("hex");
+    }
+    if (Array.isArray(value)) {
+        return value.map(toAuditJson);
+    }
+    if (value !== null && typeof value === "object") {
+        if ("low" in value && "high" in value && "unsigned" in value) {
+            return String(value);
+        }
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([, field]) => field != null)
+                .map(([key, field]) => [key, toAuditJson(field)]),
+        );
+    }
+    return value;
+}
+
+/**
+ * DER-encoded hex public keys of every signature on a frozen transaction —
+ * the operator's, additional and external signers' and legacy ones alike.
+ */
+function signerPublicKeys(tx: Transaction): string[] {
+    const keys = new Set<string>();
+    for (const [, byTransactionId] of tx.getSignatures()) {
+        for (const [, byPublicKey] of byTransactionId) {
+            for (const [publicKey] of byPublicKey) {
+                keys.add(publicKey.toStringDer());
+            }
+        }
+    }
+    return [...keys];
+}
+
+/**
+ * Describe a frozen transaction for a human approver.
+ */
+function summarize(tx: Transaction, event: TransactionEvent): string {
+    const transactionId = tx.transactionId!;
+    const lines = [
+        `${event.type} (${event.serviceName}.${event.methodName})`,
+        `Transaction ID: ${transactionId.toString()}`,
+        `Valid from: ${transactionId.validStart!.toDate().toISOString()} for ${tx.transactionValidDuration}s`,
+        `Nodes: ${(tx.nodeAccountIds ?? []).map(String).join(", ")}`,
+    ];
+    if (tx.maxTransactionFee != null) {
+        lines.push(`Max fee: ${tx.maxTransactionFee.toString()}`);
+    }
+    if (tx.transactionMemo) {
+        lines.push(`Memo: ${JSON.stringify(tx.transactionMemo)}`);
+    }
+    lines.push(`Signatures: ${countSignatures(tx)}`);
+    return lines.join("\n");
+}
+
+/**
+ * Give a frozen transaction a fresh ID from the same payer and drop its
+ * body and signatures, so it can be frozen and signed again. The SDK has
+ * no public way to do this.
+ */
+function regenerateTransactionId(tx: Transaction): void {
+    const payer = tx.transactionId!.accountId!;
+    clearFrozenState(tx);
+    tx.setTransactionId(TransactionId.generate(payer));
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function countSignatures(tx: Transaction): number {
+    return signaturePrefixesOf(tx).length;
+}
+
+function hasSignatureFrom(tx: Transaction, publicKey: PublicKey): boolean {
+    const prefix = Buffer.from(publicKey.toBytesRaw());
+    return signaturePrefixesOf(tx).some((pubKeyPrefix) =>
+        prefix.equals(pubKeyPrefix),
+    );
+}
+
+/**
+ * Attach offline signatures and check each one against the transaction,
+ * so a wrong key or a signature over different bytes fails before submission.
+ */
+function applyVerifiedSignatures(
+    tx: Transaction,
+    signatures: LegacySignature[],
+    context: string,
+): void {
+    for (const { publicKey, signature } of signatures) {
+        addLegacySignature(tx, publicKey, signature);
+        if (!publicKey.verifyTransaction(tx)) {
+            throw normalizeError(
+                new Error(
+                    `Signature from ${publicKey.toString()} does not verify against the prepared transaction.`,
+                ),
+                context,
+            );
+        }
+    }
+}
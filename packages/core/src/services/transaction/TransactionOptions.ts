@@ -1,4 +1,5 @@
-import type { Hbar, PublicKey, PrivateKey } from "@hiero-ledger/sdk";
+import type { Hbar, Key, PublicKey, PrivateKey } from "@hiero-ledger/sdk";
+import type { RetryPolicy } from "./RetryPolicy.js";
 
 /**
  * An external signer delegates signing to a function — used for HSM, KMS,
@@ -81,6 +82,37 @@ export interface TransactionOptions {
      */
     highVolume?: boolean;
 
+    /**
+     * Batch key for an inner transaction of an atomic batch (HIP-551).
+     *
+     * A transaction with a batch key is only accepted inside a batch
+     * signed by that key. Usually set by spreading
+     * `BatchBuilder.batchOptions` into a `prepare*` call.
+     */
+    batchKey?: Key;
+
+    /**
+     * Caller-chosen key identifying this logical operation (e.g. an order
+     * or payment ID). Requires `transactionJournal` in the config.
+     *
+     * A repeat call with the same key does not submit again: it returns
+     * the recorded result, rethrows the recorded failure, or — if the
+     * earlier attempt's outcome is unknown — resumes the receipt lookup.
+     */
+    idempotencyKey?: string;
+
+    /**
+     * Retry policy for this call, merged over `HieroConfig.retryPolicy`.
+     * Pass `{ maxAttempts: 1 }` to disable a global policy for one call.
+     */
+    retryPolicy?: RetryPolicy;
+
+    /**
+     * Who asked for this transaction, e.g. an end-user or service ID.
+     * Recorded by the audit logger; defaults to the operator account.
+     */
+    initiator?: string;
+
     /**
      * Additional private keys that must co-sign this transaction (e.g., a
      * multi-sig account's threshold keys).
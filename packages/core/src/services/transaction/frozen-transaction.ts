@@ -0,0 +1,92 @@
+import { createHash } from "node:crypto";
+import { Transaction } from "@hiero-ledger/sdk";
+import { normalizeError } from "../../errors/index.js";
+import { bodyBytesOf, transactionDataCase } from "./sdk-internals.js";
+
+/**
+ * Helpers for frozen transactions handed around as bytes, shared by
+ * `TransactionExecutor` and `SignatureCollector`. Both must agree on
+ * `bodyHash`: it is what a prepared transaction is checked against
+ * before it is submitted.
+ */
+
+/**
+ * Decode transaction bytes, rejecting a transaction that is not frozen
+ * or has no transaction ID.
+ *
+ * @throws {HieroError} If the bytes do not decode or are not frozen
+ */
+export function decodeFrozen(bytes: Uint8Array, context: string): Transaction {
+    let tx: Transaction;
+    try {
+        tx = Transaction.fromBytes(bytes);
+    } catch (error) {
+        throw normalizeError(error, context);
+    }
+    if (!tx.isFrozen() || tx.transactionId?.validStart == null) {
+        throw normalizeError(
+            new Error("Transaction must be frozen with a transaction ID."),
+            context,
+        );
+    }
+    return tx;
+}
+
+/** When a frozen transaction's valid window closes, as an ISO timestamp */
+export function expiryOf(tx: Transaction): string {
+    const validStart = tx.transactionId!.validStart!.toDate().getTime();
+    return new Date(
+        validStart + tx.transactionValidDuration * 1000,
+    ).toISOString();
+}
+
+/** @throws {HieroError} If `expiresAt` has passed */
+export function assertNotExpired(
+    transactionId: string,
+    expiresAt: string,
+    context: string,
+): void {
+    if (Date.now() >= Date.parse(expiresAt)) {
+        throw normalizeError(
+            new Error(`Transaction ${transactionId} expired at ${expiresAt}.`),
+            context,
+        );
+    }
+}
+
+/**
+ * Hex SHA-384 of the body bytes for the first node. Every node's body
+ * differs only in the node account ID, so one hash identifies the payload.
+ */
+export function bodyHash(tx: Transaction): string {
+    return createHash("sha384").update(bodyBytesOf(tx)).digest("hex");
+}
+
+/**
+ * Transaction type from the body's data field, e.g. `"CryptoTransfer"`.
+ */
+export function transactionType(tx: Transaction): string {
+    const dataCase = transactionDataCase(tx);
+    return dataCase.charAt(0).toUpperCase() + dataCase.slice(1);
+}
+
+/**
+ * Run `task` once every earlier task queued in `locks` under `key` has
+ * settled, removing the entry when the queue drains.
+ */
+export function runExclusive<T>(
+    locks: Map<string, Promise<unknown>>,
+    key: string,
+    task: () => Promise<T>,
+): Promise<T> {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    locks.set(key, next);
+    const release = () => {
+        if (locks.get(key) === next) {
+            locks.delete(key);
+        }
+    };
+    next.then(release, release);
+    return next;
+}
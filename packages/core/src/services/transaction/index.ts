@@ -1,10 +1,32 @@
 export { TransactionExecutor } from "./TransactionExecutor.js";
 export { QueryExecutor } from "./QueryExecutor.js";
+export { FeeEstimator } from "./FeeEstimator.js";
+export { BatchBuilder } from "./BatchBuilder.js";
+export type { BatchResult } from "./BatchBuilder.js";
+export { KeyRotation } from "./KeyRotation.js";
+export type {
+    KeyRotationRecord,
+    KeyRotationTarget,
+    RotateKeyOptions,
+    RotationSigner,
+} from "./KeyRotation.js";
+export type { FeeUsage } from "./FeeEstimator.js";
 export type {
     TransactionOptions,
     FlowOptions,
     ExternalSigner,
     LegacySignature,
 } from "./TransactionOptions.js";
+export {
+    DEFAULT_RETRYABLE_STATUSES,
+    DEFAULT_REGENERATE_ID_STATUSES,
+} from "./RetryPolicy.js";
+export type { RetryPolicy } from "./RetryPolicy.js";
 export type { QueryOptions } from "./QueryOptions.js";
 export type { ScheduleOptions, ScheduledResult } from "./ScheduleOptions.js";
+export type {
+    PreparedTransaction,
+    SubmitPreparedOptions,
+    TransactionCall,
+} from "./PreparedTransaction.js";
+export type { DryRunReport, FeeEstimate } from "./DryRunReport.js";
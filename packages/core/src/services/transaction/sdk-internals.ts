@@ -0,0 +1,113 @@
+import type {
+    AccountId,
+    FeeDataType,
+    PublicKey,
+    Status,
+    Transaction,
+} from "@hiero-ledger/sdk";
+import { TransactionReceipt } from "@hiero-ledger/sdk";
+
+/**
+ * Every use of SDK members outside its public API, in one place.
+ *
+ * The SDK offers no public way to read a frozen transaction's body, its
+ * data case or its token fields, nor to discard its signatures. The
+ * helpers below reach into underscore-prefixed members for these, so an
+ * SDK upgrade that renames one breaks only this module; its unit test
+ * exercises each helper against real SDK objects and fails first.
+ */
+
+/** A token movement, as held by transfer and airdrop transactions */
+export interface TokenMovement {
+    accountId: { toString(): string };
+    amount: { isNegative(): boolean };
+    isApproved: boolean;
+}
+
+/**
+ * Name of the body's data field, e.g. `"cryptoTransfer"`. Class names
+ * are not reliable here — the SDK bundle is minified.
+ */
+export function transactionDataCase(tx: Transaction): string {
+    return (
+        tx as unknown as { _getTransactionDataCase(): string }
+    )._getTransactionDataCase();
+}
+
+/** Protobuf body of a frozen transaction as sent to its first node */
+export function transactionBodyOf(tx: Transaction): object {
+    return (
+        tx as unknown as {
+            _makeTransactionBody(nodeAccountId: AccountId | null): object;
+        }
+    )._makeTransactionBody(tx.nodeAccountIds?.[0] ?? null);
+}
+
+/**
+ * Serialized body sent to the first node. Every node's body differs only
+ * in the node account ID.
+ */
+export function bodyBytesOf(tx: Transaction): Uint8Array {
+    return tx._signedTransactions.list[0]?.bodyBytes ?? new Uint8Array();
+}
+
+/** Public key prefixes of the signatures over the first node's body */
+export function signaturePrefixesOf(tx: Transaction): Uint8Array[] {
+    return (tx._signedTransactions.list[0]?.sigMap?.sigPair ?? []).flatMap(
+        (pair) => (pair.pubKeyPrefix != null ? [pair.pubKeyPrefix] : []),
+    );
+}
+
+/** Attach a signature computed elsewhere over the frozen body bytes */
+export function addLegacySignature(
+    tx: Transaction,
+    publicKey: PublicKey,
+    signature: Uint8Array | Uint8Array[],
+): void {
+    tx._addSignatureLegacy(publicKey, signature);
+}
+
+/**
+ * Drop a frozen transaction's bodies, IDs and signatures so it can take a
+ * new transaction ID. `_resetTransaction` keeps the set of signer keys,
+ * which would make re-signing a no-op.
+ */
+export function clearFrozenState(tx: Transaction): void {
+    const internals = tx as unknown as {
+        _transactions: { clear(): void };
+        _signedTransactions: { clear(): void };
+        _transactionIds: { clear(): void };
+        _signerPublicKeys: Set<string>;
+        _publicKeys: unknown[];
+        _transactionSigners: unknown[];
+    };
+    internals._transactions.clear();
+    internals._signedTransactions.clear();
+    internals._transactionIds.clear();
+    internals._signerPublicKeys.clear();
+    internals._publicKeys.length = 0;
+    internals._transactionSigners.length = 0;
+}
+
+/** Fungible token movements of a transfer or airdrop transaction */
+export function tokenTransfersOf(tx: Transaction): TokenMovement[] {
+    return (tx as unknown as { _tokenTransfers: TokenMovement[] })
+        ._tokenTransfers;
+}
+
+/** Token ID of a token transaction; `TokenUpdateNfts` has no getter for it */
+export function tokenIdOf(tx: Transaction): string {
+    return String((tx as unknown as { _tokenId: unknown })._tokenId);
+}
+
+/** Receipt carrying only a status, for a receipt that can no longer be fetched */
+export function receiptWithStatus(status: Status): TransactionReceipt {
+    return TransactionReceipt._fromProtobuf({
+        receipt: { status: status.valueOf() },
+    });
+}
+
+/** Numeric code of a fee data type, for comparing instances */
+export function feeDataTypeCode(type: FeeDataType): number {
+    return type._code;
+}
@@ -0,0 +1,129 @@
+import { mkdir, open, readdir, readFile, rename, rm } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../errors/index.js";
+import type { PendingTransaction, SignatureStore } from "./signature-store.js";
+import { oldestFirst } from "./signature-store.js";
+
+/** `PendingTransaction` with its bytes base64-encoded for JSON */
+type StoredPending = Omit<PendingTransaction, "bytes"> & { bytes: string };
+
+/**
+ * Signature store keeping one JSON file per transaction in a directory.
+ *
+ * Each `put` writes a temporary file and renames it over the old one, so a
+ * crash never leaves a half-written transaction. The store does not lock:
+ * the directory can be shared by several processes only as long as each
+ * transaction is signed through one `SignatureCollector`.
+ */
+export class FileSignatureStore implements SignatureStore {
+    private readonly directory: string;
+
+    /**
+     * @param directory - Where the files are kept; created on the first
+     *   `put`. A relative directory is resolved once, here.
+     */
+    constructor(directory: string) {
+        this.directory = resolve(directory);
+    }
+
+    async put(pending: PendingTransaction): Promise<void> {
+        const path = this.pathOf(pending.transactionId);
+        try {
+            await mkdir(this.directory, { recursive: true });
+            const file = await open(`${path}.tmp`, "w");
+            try {
+                await file.writeFile(JSON.stringify(toStored(pending)), "utf8");
+                await file.datasync();
+            } finally {
+                await file.close();
+            }
+            await rename(`${path}.tmp`, path);
+        } catch (error) {
+            throw normalizeError(error, "FileSignatureStore.put");
+        }
+    }
+
+    async get(transactionId: string): Promise<PendingTransaction | undefined> {
+        return this.read(this.pathOf(transactionId));
+    }
+
+    async list(): Promise<PendingTransaction[]> {
+        let names: string[];
+        try {
+            names = await readdir(this.directory);
+        } catch (error) {
+            if ((error as { code?: string }).code === "ENOENT") {
+                return [];
+            }
+            throw normalizeError(error, "FileSignatureStore.list");
+        }
+
+        const pending: PendingTransaction[] = [];
+        for (const name of names.filter((n) => n.endsWith(".json"))) {
+            const stored = await this.read(join(this.directory, name));
+            if (stored) {
+                pending.push(stored);
+            }
+        }
+        return oldestFirst(pending);
+    }
+
+    async delete(transactionId: string): Promise<void> {
+        try {
+            await rm(this.pathOf(transactionId), { force: true });
+        } catch (error) {
+            throw normalizeError(error, "FileSignatureStore.delete");
+        }
+    }
+
+    /** File name from the transaction ID, keeping it inside the directory */
+    private pathOf(transactionId: string): string {
+        return join(
+            this.directory,
+            `${transactionId.replace(/[^\w.@-]/g, "_")}.json`,
+        );
+    }
+
+    private async read(path: string): Promise<PendingTransaction | undefined> {
+        let text: string;
+        try {
+            text = await readFile(path, "utf8");
+        } catch (error) {
+            if ((error as { code?: string }).code === "ENOENT") {
+                return undefined;
+            }
+            throw normalizeError(error, "FileSignatureStore.get");
+        }
+
+        try {
+            return fromStored(JSON.parse(text) as StoredPending);
+        } catch (cause) {
+            throw new HieroError(
+                `Signature store file ${path} is not valid JSON.`,
+                {
+                    code: HieroErrorCodes.CodecError,
+                    context: "FileSignatureStore.get",
+                    cause: cause instanceof Error ? cause : undefined,
+                },
+            );
+        }
+    }
+}
+
+function toStored(pending: PendingTransaction): StoredPending {
+    return {
+        ...pending,
+        bytes: Buffer.from(pending.bytes).toString("base64"),
+    };
+}
+
+function fromStored(stored: StoredPending): PendingTransaction {
+    return {
+        ...stored,
+        bytes: new Uint8Array(Buffer.from(stored.bytes, "base64")),
+    };
+}
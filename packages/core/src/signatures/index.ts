@@ -0,0 +1,31 @@
+export {
+    evaluateKey,
+    mirrorKeyOf,
+    signedKeySet,
+    type KeyEvaluation,
+    type UnsatisfiedKeyGroup,
+} from "./key-evaluation.js";
+export {
+    InMemorySignatureStore,
+    type KeyRequirement,
+    type PendingTransaction,
+    type PendingTransactionStatus,
+    type SignatureStore,
+} from "./signature-store.js";
+export { FileSignatureStore } from "./file-signature-store.js";
+export {
+    SignatureRequirementAnalyzer,
+    createSignatureCheckInterceptor,
+    evaluateRequirements,
+    signaturePublicKeys,
+    type KeyRequirementStatus,
+    type RequirementOptions,
+    type SignatureCheckInterceptorOptions,
+    type SignatureRequirementAnalysis,
+} from "./signature-requirement-analyzer.js";
+export {
+    SignatureCollector,
+    type SignatureCollectionStatus,
+    type SignatureCollectorOptions,
+    type StartCollectionOptions,
+} from "./signature-collector.js";
@@ -0,0 +1,152 @@
+import type { Key } from "@hiero-ledger/sdk";
+import {
+    ContractId,
+    DelegateContractId,
+    KeyList,
+    PublicKey,
+} from "@hiero-ledger/sdk";
+import type { MirrorKey } from "../types/index.js";
+
+/**
+ * A key list or threshold that does not yet have enough signatures.
+ */
+export interface UnsatisfiedKeyGroup {
+    /** Where the group sits in the key, e.g. `"key"` or `"key.keys[1]"` */
+    path: string;
+    /** Signatures the group needs — a key list needs all of its keys */
+    threshold: number;
+    /** Members of the group already satisfied */
+    satisfied: number;
+    /** Hex public keys of the group's simple keys that have not signed */
+    missingKeys: string[];
+}
+
+/**
+ * Outcome of {@link evaluateKey}.
+ */
+export interface KeyEvaluation {
+    satisfied: boolean;
+    /**
+     * Every group still short of signatures, outermost first. Nested
+     * groups are listed too, as signing any of them can complete their
+     * parent.
+     */
+    unsatisfied: UnsatisfiedKeyGroup[];
+}
+
+/**
+ * Check whether a key tree is satisfied by a set of signing keys.
+ *
+ * Simple keys are matched on their raw hex public key, as the mirror node
+ * reports them and as `PublicKey.toStringRaw()` returns them. Contract
+ * keys and undecodable keys cannot be satisfied by signatures.
+ *
+ * @param key - The key to evaluate.
+ * @param signed - Raw hex public keys that have signed, see {@link signedKeySet}.
+ */
+export function evaluateKey(
+    key: MirrorKey,
+    signed: ReadonlySet<string>,
+): KeyEvaluation {
+    const unsatisfied: UnsatisfiedKeyGroup[] = [];
+    const satisfied = evaluateNode(key, signed, "key", unsatisfied);
+    if (!satisfied && unsatisfied.length === 0) {
+        // A bare key is a group of one
+        unsatisfied.push({
+            path: "key",
+            threshold: 1,
+            satisfied: 0,
+            missingKeys: isSimple(key) ? [key.key.toLowerCase()] : [],
+        });
+    }
+    return { satisfied, unsatisfied };
+}
+
+/**
+ * Normalize public keys into the set {@link evaluateKey} matches against.
+ */
+export function signedKeySet(publicKeys: Iterable<PublicKey>): Set<string> {
+    const signed = new Set<string>();
+    for (const publicKey of publicKeys) {
+        signed.add(publicKey.toStringRaw().toLowerCase());
+    }
+    return signed;
+}
+
+/**
+ * Convert an SDK key, e.g. a new admin key set on a transaction, into the
+ * tree {@link evaluateKey} works on.
+ */
+export function mirrorKeyOf(key: Key): MirrorKey {
+    if (key instanceof PublicKey) {
+        return key.type === "ED25519"
+            ? { type: "ed25519", key: key.toStringRaw() }
+            : { type: "ecdsaSecp256k1", key: key.toStringRaw() };
+    }
+    if (key instanceof KeyList) {
+        const keys = key.toArray().map(mirrorKeyOf);
+        return key.threshold != null
+            ? { type: "threshold", threshold: key.threshold, keys }
+            : { type: "keyList", keys };
+    }
+    // DelegateContractId extends ContractId, so check it first
+    if (key instanceof DelegateContractId) {
+        return { type: "delegatableContract", contractId: key.toString() };
+    }
+    if (key instanceof ContractId) {
+        return { type: "contract", contractId: key.toString() };
+    }
+    return { type: "unknown", key: key.toString() };
+}
+
+function evaluateNode(
+    key: MirrorKey,
+    signed: ReadonlySet<string>,
+    path: string,
+    unsatisfied: UnsatisfiedKeyGroup[],
+): boolean {
+    switch (key.type) {
+        case "ed25519":
+        case "ecdsaSecp256k1":
+            return signed.has(key.key.toLowerCase());
+        case "threshold":
+        case "keyList": {
+            const threshold =
+                key.type === "threshold" ? key.threshold : key.keys.length;
+            const group: UnsatisfiedKeyGroup = {
+                path,
+                threshold,
+                satisfied: 0,
+                missingKeys: [],
+            };
+            const nested: UnsatisfiedKeyGroup[] = [];
+            for (const [index, child] of key.keys.entries()) {
+                if (
+                    evaluateNode(
+                        child,
+                        signed,
+                        `${path}.keys[${index}]`,
+                        nested,
+                    )
+                ) {
+                    group.satisfied++;
+                } else if (isSimple(child)) {
+                    group.missingKeys.push(child.key.toLowerCase());
+                }
+            }
+            if (group.satisfied >= threshold) {
+                return true;
+            }
+            unsatisfied.push(group, ...nested);
+            return false;
+        }
+        default:
+            return false;
+    }
+}
+
+function isSimple(
+    key: MirrorKey,
+): key is Extract<MirrorKey, { type: "ed25519" | "ecdsaSecp256k1" }> {
+    return key.type === "ed25519" || key.type === "ecdsaSecp256k1";
+}
@@ -0,0 +1,410 @@
+import type { Transaction } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../context/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../errors/index.js";
+import { TransactionExecutor } from "../services/transaction/TransactionExecutor.js";
+import type { PreparedTransaction } from "../services/transaction/PreparedTransaction.js";
+import type { LegacySignature } from "../services/transaction/TransactionOptions.js";
+import {
+    assertNotExpired,
+    bodyHash,
+    decodeFrozen,
+    expiryOf,
+    runExclusive,
+    transactionType,
+} from "../services/transaction/frozen-transaction.js";
+import { addLegacySignature } from "../services/transaction/sdk-internals.js";
+import type { KeyRequirementStatus } from "./signature-requirement-analyzer.js";
+import {
+    evaluateRequirements,
+    signaturePublicKeys,
+    SignatureRequirementAnalyzer,
+} from "./signature-requirement-analyzer.js";
+import type {
+    KeyRequirement,
+    PendingTransaction,
+    PendingTransactionStatus,
+    SignatureStore,
+} from "./signature-store.js";
+import { InMemorySignatureStore } from "./signature-store.js";
+
+/**
+ * Calls in progress per transaction, per store. Collectors sharing a store
+ * must wait for each other, so the locks live with the store.
+ */
+const collectionLocks = new WeakMap<
+    SignatureStore,
+    Map<string, Promise<unknown>>
+>();
+
+/**
+ * Options for {@link SignatureCollector}.
+ */
+export interface SignatureCollectorOptions {
+    /** Where pending transactions are kept (default: in memory) */
+    store?: SignatureStore;
+    /** Submit as soon as every requirement is met (default: `true`) */
+    autoSubmit?: boolean;
+}
+
+/**
+ * Options for {@link SignatureCollector.start}.
+ */
+export interface StartCollectionOptions {
+    /**
+     * Keys that must sign. When omitted they are worked out by a
+     * {@link SignatureRequirementAnalyzer}.
+     */
+    requirements?: KeyRequirement[];
+    /**
+     * Further accounts whose keys must sign, for roles the analyzer does
+     * not know about. Ignored with `requirements`.
+     */
+    accounts?: string[];
+}
+
+/**
+ * Where a pending transaction stands, returned by every
+ * {@link SignatureCollector} call.
+ */
+export interface SignatureCollectionStatus {
+    transactionId: string;
+    type: string;
+    summary?: string;
+    bodyHash: string;
+    status: PendingTransactionStatus;
+    expiresAt: string;
+    /**
+     * Raw hex public keys counted as signed — those on the transaction and
+     * the operator's, which the client adds at submission
+     */
+    signerPublicKeys: string[];
+    requirements: KeyRequirementStatus[];
+    /** Whether every requirement is met */
+    complete: boolean;
+    receiptStatus?: string;
+    error?: string;
+}
+
+/**
+ * Collects signatures on a frozen transaction from several parties and
+ * submits it once every required key has signed.
+ *
+ * Start collection with the bytes from an operation's `prepare*` call.
+ * The required keys are worked out by a
+ * {@link SignatureRequirementAnalyzer} and the transaction is kept in a {@link SignatureStore}, so signatures can
+ * arrive in any order over the transaction's valid window, and collection
+ * survives a restart. Each party signs the body bytes offline — as with
+ * `legacySignatures` — and hands the signature to `addSignatures`, which
+ * verifies it before storing it. `status` reports which key lists and
+ * thresholds are still short of signatures.
+ *
+ * Calls for one transaction are serialized across every collector in the
+ * process that shares the same store, so concurrent signatures are not
+ * lost. Separate processes sharing a store are not serialized: two of
+ * them adding signatures to the same transaction at once can lose one.
+ *
+ * @example
+ * ```ts
+ * const collector = new SignatureCollector(context, mirrorNodeClient, {
+ *     store: new FileSignatureStore("./pending"),
+ * });
+ * const prepared = await accountService.prepareTransferHbar(options);
+ * await collector.start(prepared);
+ * // later, for each party
+ * const status = await collector.addSignatures(prepared.transactionId, [
+ *     { publicKey, signature },
+ * ]);
+ * ```
+ */
+export class SignatureCollector {
+    private readonly store: SignatureStore;
+    private readonly autoSubmit: boolean;
+    private readonly analyzer: SignatureRequirementAnalyzer;
+
+    constructor(
+        private readonly context: IHieroContext,
+        mirrorNodeClient: MirrorNodeClient,
+        options: SignatureCollectorOptions = {},
+    ) {
+        this.store = options.store ?? new InMemorySignatureStore();
+        this.autoSubmit = options.autoSubmit ?? true;
+        this.analyzer = new SignatureRequirementAnalyzer(
+            context,
+            mirrorNodeClient,
+        );
+    }
+
+    /**
+     * Start collecting signatures for a frozen transaction. Starting a
+     * transaction that is already stored returns its current status.
+     *
+     * @param prepared - The prepared transaction, or its bytes alone.
+     * @param options - Required keys, or extra accounts to require.
+     * @throws {HieroError} If the transaction is not frozen, has expired, or
+     *   an involved account cannot be found on the mirror node
+     */
+    async start(
+        prepared: PreparedTransaction<unknown> | Uint8Array,
+        options: StartCollectionOptions = {},
+    ): Promise<SignatureCollectionStatus> {
+        const context = "SignatureCollector.start";
+        const bytes =
+            prepared instanceof Uint8Array ? prepared : prepared.bytes;
+        const tx = decodeFrozen(bytes, context);
+        const transactionId = tx.transactionId!.toString();
+
+        return this.exclusive(transactionId, async () => {
+            const existing = await this.store.get(transactionId);
+            if (existing) {
+                return this.describe(
+                    existing,
+                    decodeFrozen(existing.bytes, context),
+                );
+            }
+
+            const expiresAt = expiryOf(tx);
+            assertNotExpired(transactionId, expiresAt, context);
+
+            let requirements: KeyRequirement[];
+            try {
+                requirements =
+                    options.requirements ??
+                    (await this.analyzer.requirements(tx, {
+                        accounts: options.accounts,
+                    }));
+            } catch (error) {
+                throw normalizeError(error, context);
+            }
+
+            const now = new Date().toISOString();
+            const pending: PendingTransaction = {
+                transactionId,
+                type: transactionType(tx),
+                summary:
+                    prepared instanceof Uint8Array
+                        ? undefined
+                        : prepared.summary,
+                bytes: tx.toBytes(),
+                bodyHash: bodyHash(tx),
+                requirements,
+                status: "collecting",
+                expiresAt,
+                createdAt: now,
+                updatedAt: now,
+            };
+            await this.store.put(pending);
+            return this.advance(pending, tx);
+        });
+    }
+
+    /**
+     * Add signatures from one or more parties. Each signature is attached
+     * to the transaction and verified against its body bytes before
+     * anything is stored. Once every requirement is met the transaction
+     * is submitted, unless `autoSubmit` is off.
+     *
+     * @param transactionId - ID of a transaction passed to `start`.
+     * @param signatures - Signatures over the body bytes, one per node for
+     *   transactions sent to several nodes.
+     * @throws {HieroError} `NotFound` for an unknown transaction,
+     *   `Rejected` if it is no longer collecting, or if a signature does
+     *   not verify or the transaction has expired
+     */
+    async addSignatures(
+        transactionId: string,
+        signatures: LegacySignature[],
+    ): Promise<SignatureCollectionStatus> {
+        const context = "SignatureCollector.addSignatures";
+
+        return this.exclusive(transactionId, async () => {
+            const pending = await this.collecting(transactionId, context);
+            assertNotExpired(transactionId, pending.expiresAt, context);
+
+            const tx = decodeFrozen(pending.bytes, context);
+            for (const { publicKey, signature } of signatures) {
+                addLegacySignature(tx, publicKey, signature);
+                if (!publicKey.verifyTransaction(tx)) {
+                    throw new HieroError(
+                        `Signature from ${publicKey.toString()} does not verify against transaction ${transactionId}.`,
+                        { code: HieroErrorCodes.Rejected, context },
+                    );
+                }
+            }
+
+            pending.bytes = tx.toBytes();
+            pending.updatedAt = new Date().toISOString();
+            await this.store.put(pending);
+            return this.advance(pending, tx);
+        });
+    }
+
+    /**
+     * Submit a transaction whose requirements are all met — for use with
+     * `autoSubmit: false`, or to retry a submission that failed without a
+     * network status.
+     *
+     * @throws {HieroError} `Rejected` if requirements are unmet or the
+     *   transaction is no longer collecting
+     */
+    async submit(transactionId: string): Promise<SignatureCollectionStatus> {
+        const context = "SignatureCollector.submit";
+
+        return this.exclusive(transactionId, async () => {
+            const pending = await this.collecting(transactionId, context);
+            const tx = decodeFrozen(pending.bytes, context);
+            if (!this.describe(pending, tx).complete) {
+                throw new HieroError(
+                    `Transaction ${transactionId} still needs signatures.`,
+                    { code: HieroErrorCodes.Rejected, context },
+                );
+            }
+            return this.submitNow(pending, tx);
+        });
+    }
+
+    /**
+     * Report which requirements of a transaction are still unmet.
+     *
+     * @throws {HieroError} `NotFound` for an unknown transaction
+     */
+    async status(transactionId: string): Promise<SignatureCollectionStatus> {
+        const pending = await this.load(
+            transactionId,
+            "SignatureCollector.status",
+        );
+        return this.describe(
+            pending,
+            decodeFrozen(pending.bytes, "SignatureCollector.status"),
+        );
+    }
+
+    /**
+     * Return a stored transaction, e.g. to hand its bytes to a signer.
+     *
+     * @throws {HieroError} `NotFound` for an unknown transaction
+     */
+    async get(transactionId: string): Promise<PendingTransaction> {
+        return this.load(transactionId, "SignatureCollector.get");
+    }
+
+    /** Submit when complete and `autoSubmit` is on */
+    private async advance(
+        pending: PendingTransaction,
+        tx: Transaction,
+    ): Promise<SignatureCollectionStatus> {
+        const status = this.describe(pending, tx);
+        if (!status.complete || !this.autoSubmit) {
+            return status;
+        }
+        return this.submitNow(pending, tx);
+    }
+
+    private async submitNow(
+        pending: PendingTransaction,
+        tx: Transaction,
+    ): Promise<SignatureCollectionStatus> {
+        try {
+            const receipt = await new TransactionExecutor(
+                this.context,
+            ).submitPrepared(pending.bytes);
+            pending.status = "submitted";
+            pending.receiptStatus = receipt.status.toString();
+            pending.error = undefined;
+        } catch (error) {
+            const normalized = normalizeError(
+                error,
+                "SignatureCollector.submit",
+            );
+            // Without a status the network may never have seen it, so it
+            // stays collecting and can be submitted again
+            if (normalized.sdkStatus != null) {
+                pending.status = "failed";
+                pending.receiptStatus = normalized.sdkStatus;
+            }
+            pending.error = normalized.message;
+            pending.updatedAt = new Date().toISOString();
+            await this.store.put(pending);
+            throw normalized;
+        }
+        pending.updatedAt = new Date().toISOString();
+        await this.store.put(pending);
+        return this.describe(pending, tx);
+    }
+
+    private describe(
+        pending: PendingTransaction,
+        tx: Transaction,
+    ): SignatureCollectionStatus {
+        const { signerPublicKeys, requirements, satisfied } =
+            evaluateRequirements(pending.requirements, [
+                ...signaturePublicKeys(tx),
+                this.context.operatorPublicKey,
+            ]);
+        return {
+            transactionId: pending.transactionId,
+            type: pending.type,
+            summary: pending.summary,
+            bodyHash: pending.bodyHash,
+            status: pending.status,
+            expiresAt: pending.expiresAt,
+            signerPublicKeys,
+            requirements,
+            complete: satisfied,
+            receiptStatus: pending.receiptStatus,
+            error: pending.error,
+        };
+    }
+
+    private async load(
+        transactionId: string,
+        context: string,
+    ): Promise<PendingTransaction> {
+        const pending = await this.store.get(transactionId);
+        if (pending == null) {
+            throw new HieroError(
+                `No transaction ${transactionId} is collecting signatures.`,
+                { code: HieroErrorCodes.NotFound, context },
+            );
+        }
+        return pending;
+    }
+
+    private async collecting(
+        transactionId: string,
+        context: string,
+    ): Promise<PendingTransaction> {
+        const pending = await this.load(transactionId, context);
+        if (pending.status !== "collecting") {
+            throw new HieroError(
+                `Transaction ${transactionId} is already ${pending.status}.`,
+                {
+                    code: HieroErrorCodes.Rejected,
+                    context,
+                    sdkStatus: pending.receiptStatus,
+                },
+            );
+        }
+        return pending;
+    }
+
+    /**
+     * Run `task` once every earlier call for the same transaction on this
+     * collector's store has settled.
+     */
+    private exclusive<T>(
+        transactionId: string,
+        task: () => Promise<T>,
+    ): Promise<T> {
+        let locks = collectionLocks.get(this.store);
+        if (locks == null) {
+            locks = new Map();
+            collectionLocks.set(this.store, locks);
+        }
+        return runExclusive(locks, transactionId, task);
+    }
+}
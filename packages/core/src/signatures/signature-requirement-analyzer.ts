@@ -0,0 +1,685 @@
+import type { AccountId, Key, PublicKey } from "@hiero-ledger/sdk";
+import {
+    AccountAllowanceApproveTransaction,
+    AccountAllowanceDeleteTransaction,
+    AccountCreateTransaction,
+    AccountDeleteTransaction,
+    AccountUpdateTransaction,
+    ContractCreateTransaction,
+    ContractDeleteTransaction,
+    ContractUpdateTransaction,
+    FileAppendTransaction,
+    FileCreateTransaction,
+    FileDeleteTransaction,
+    FileUpdateTransaction,
+    KeyList,
+    ScheduleDeleteTransaction,
+    TokenAirdropTransaction,
+    TokenAssociateTransaction,
+    TokenBurnTransaction,
+    TokenCreateTransaction,
+    TokenDeleteTransaction,
+    TokenDissociateTransaction,
+    TokenFeeScheduleUpdateTransaction,
+    TokenFreezeTransaction,
+    TokenGrantKycTransaction,
+    TokenMintTransaction,
+    TokenPauseTransaction,
+    TokenRejectTransaction,
+    TokenRevokeKycTransaction,
+    TokenUnfreezeTransaction,
+    TokenUnpauseTransaction,
+    TokenUpdateNftsTransaction,
+    TokenUpdateTransaction,
+    TokenWipeTransaction,
+    TopicCreateTransaction,
+    TopicDeleteTransaction,
+    TopicMessageSubmitTransaction,
+    TopicUpdateTransaction,
+    Transaction,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../context/index.js";
+import type { Interceptor } from "../listeners/index.js";
+import type { MirrorNodeClient } from "../mirror/index.js";
+import type {
+    MirrorAccountInfo,
+    MirrorKey,
+    MirrorTokenInfo,
+} from "../types/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+    normalizeError,
+} from "../errors/index.js";
+import { FileInfoQuery } from "../services/file/queries/index.js";
+import type { PreparedTransaction } from "../services/transaction/PreparedTransaction.js";
+import type { TokenMovement } from "../services/transaction/sdk-internals.js";
+import {
+    tokenIdOf,
+    tokenTransfersOf,
+} from "../services/transaction/sdk-internals.js";
+import type { KeyEvaluation } from "./key-evaluation.js";
+import { evaluateKey, mirrorKeyOf, signedKeySet } from "./key-evaluation.js";
+import type { KeyRequirement } from "./signature-store.js";
+
+/** Stands in for a key the entity does not have, so it can never be met */
+const MISSING_KEY: MirrorKey = { type: "unknown", key: "" };
+
+/**
+ * A key requirement together with how far its signatures have come.
+ */
+export interface KeyRequirementStatus extends KeyRequirement, KeyEvaluation {}
+
+/**
+ * Options for {@link SignatureRequirementAnalyzer.requirements}.
+ */
+export interface RequirementOptions {
+    /**
+     * Further accounts whose keys must sign, for roles the analyzer does
+     * not know about
+     */
+    accounts?: string[];
+}
+
+/**
+ * Outcome of {@link SignatureRequirementAnalyzer.analyze}.
+ */
+export interface SignatureRequirementAnalysis {
+    /** Raw hex public keys counted as signed */
+    signerPublicKeys: string[];
+    requirements: KeyRequirementStatus[];
+    /** Whether every requirement is met */
+    satisfied: boolean;
+}
+
+/**
+ * Works out which keys must sign a transaction, and whether a set of
+ * public keys is enough to sign it.
+ *
+ * Requirements follow the network's signing rules for each transaction
+ * type: the payer, senders and allowance owners, receivers that require
+ * signatures, treasury and auto-renew accounts, the token key an operation
+ * needs (admin, supply, wipe, freeze, KYC, pause, fee schedule, metadata),
+ * topic admin and submit keys, contract and schedule admin keys, and any
+ * new admin key a transaction sets. Keys are read from the mirror node,
+ * except file keys, which only a consensus `FileInfoQuery` reports.
+ *
+ * An entity without the key an operation needs — a token without a supply
+ * key, an immutable topic — gives a requirement that can never be met.
+ *
+ * @example
+ * ```ts
+ * const analyzer = new SignatureRequirementAnalyzer(context, mirrorNodeClient);
+ * const { satisfied, requirements } = await analyzer.analyze(prepared, [
+ *     treasuryKey.publicKey,
+ * ]);
+ * ```
+ */
+export class SignatureRequirementAnalyzer {
+    constructor(
+        private readonly context: IHieroContext,
+        private readonly mirrorNodeClient: MirrorNodeClient,
+    ) {}
+
+    /**
+     * Keys that must sign the transaction, payer first. An account is
+     * required once, under its first role.
+     *
+     * @param tx - The transaction, frozen or not. Without a transaction ID
+     *   the operator is taken as the payer.
+     * @throws {HieroError} `NotFound` if an involved account has no key on
+     *   the mirror node, or the mirror node error for an unknown entity
+     */
+    async requirements(
+        tx: Transaction,
+        options: RequirementOptions = {},
+    ): Promise<KeyRequirement[]> {
+        try {
+            return await new RequirementBuilder(
+                this.context,
+                this.mirrorNodeClient,
+                tx,
+            ).build(options.accounts ?? []);
+        } catch (error) {
+            throw normalizeError(
+                error,
+                "SignatureRequirementAnalyzer.requirements",
+            );
+        }
+    }
+
+    /**
+     * Evaluate the transaction's requirements against the keys that will
+     * sign it: `signers`, the signatures already on the transaction, and
+     * the operator's key, which the client adds at submission.
+     *
+     * @param tx - The transaction, a prepared transaction or its bytes.
+     * @param signers - Further public keys that will sign, as `PublicKey`s
+     *   or raw hex.
+     */
+    async analyze(
+        tx: Transaction | PreparedTransaction<unknown> | Uint8Array,
+        signers: Iterable<PublicKey | string> = [],
+    ): Promise<SignatureRequirementAnalysis> {
+        const transaction = toTransaction(tx);
+        const requirements = await this.requirements(transaction);
+        return evaluateRequirements(requirements, [
+            ...signaturePublicKeys(transaction),
+            this.context.operatorPublicKey,
+            ...signers,
+        ]);
+    }
+}
+
+/**
+ * Evaluate requirements against the keys that sign.
+ *
+ * @param signers - Public keys that sign, as `PublicKey`s or raw hex.
+ */
+export function evaluateRequirements(
+    requirements: readonly KeyRequirement[],
+    signers: Iterable<PublicKey | string>,
+): SignatureRequirementAnalysis {
+    const keys: PublicKey[] = [];
+    const hex: string[] = [];
+    for (const signer of signers) {
+        if (typeof signer === "string") {
+            hex.push(signer.toLowerCase());
+        } else {
+            keys.push(signer);
+        }
+    }
+    const signed = signedKeySet(keys);
+    hex.forEach((key) => signed.add(key));
+
+    const statuses = requirements.map((requirement) => ({
+        ...requirement,
+        ...evaluateKey(requirement.key, signed),
+    }));
+    return {
+        signerPublicKeys: [...signed],
+        requirements: statuses,
+        satisfied: statuses.every((r) => r.satisfied),
+    };
+}
+
+/**
+ * Public keys of every signature on a transaction.
+ */
+export function signaturePublicKeys(tx: Transaction): PublicKey[] {
+    const keys: PublicKey[] = [];
+    if (!tx.isFrozen()) {
+        return keys;
+    }
+    for (const [, byTransactionId] of tx.getSignatures()) {
+        for (const [, byPublicKey] of byTransactionId) {
+            for (const [publicKey] of byPublicKey) {
+                keys.push(publicKey);
+            }
+        }
+    }
+    return keys;
+}
+
+/**
+ * Options for {@link createSignatureCheckInterceptor}.
+ */
+export interface SignatureCheckInterceptorOptions {
+    /**
+     * What to do when a requirement is unmet: emit a `HieroSignatureWarning`
+     * process warning and submit anyway (default), or reject the call
+     */
+    onMissing?: "warn" | "reject";
+}
+
+/**
+ * Create an interceptor that checks every transaction's signature
+ * requirements before it is signed and submitted, so a missing signature
+ * is reported up front instead of as an `INVALID_SIGNATURE` receipt.
+ *
+ * The operator's key, `additionalSigners`, `externalSigners` and
+ * `legacySignatures` count as signing. Scheduled transactions are not
+ * checked, as their signatures are collected on the network.
+ *
+ * With `onMissing: "reject"` an unmet requirement, or a failed lookup,
+ * rejects the call with a `HieroError` whose code is `Rejected`. With
+ * `"warn"` both only emit a warning.
+ */
+export function createSignatureCheckInterceptor(
+    analyzer: SignatureRequirementAnalyzer,
+    options: SignatureCheckInterceptorOptions = {},
+): Interceptor {
+    const reject = options.onMissing === "reject";
+
+    return async (ctx, next) => {
+        if (ctx.kind !== "transaction") {
+            return await next();
+        }
+
+        const context = `${ctx.event.serviceName}.${ctx.event.methodName}`;
+        let missing: KeyRequirementStatus[];
+        try {
+            const { requirements } = await analyzer.analyze(ctx.transaction, [
+                ...(ctx.options.additionalSigners ?? []).map(
+                    (key) => key.publicKey,
+                ),
+                ...(ctx.options.externalSigners ?? []).map(
+                    (signer) => signer.publicKey,
+                ),
+                ...(ctx.options.legacySignatures ?? []).map(
+                    (signature) => signature.publicKey,
+                ),
+            ]);
+            missing = requirements.filter((r) => !r.satisfied);
+        } catch (error) {
+            if (reject) {
+                throw normalizeError(error, context);
+            }
+            process.emitWarning(
+                `Could not check the signatures ${context} needs: ${normalizeError(error).message}`,
+                "HieroSignatureWarning",
+            );
+            return await next();
+        }
+
+        if (missing.length > 0) {
+            const message = `${context} is missing signatures from: ${missing
+                .map((r) => r.description)
+                .join(", ")}.`;
+            if (reject) {
+                throw new HieroError(message, {
+                    code: HieroErrorCodes.Rejected,
+                    context,
+                });
+            }
+            process.emitWarning(message, "HieroSignatureWarning");
+        }
+        return await next();
+    };
+}
+
+/**
+ * Collects the requirements of one transaction, looking each entity up
+ * once.
+ */
+class RequirementBuilder {
+    private readonly entries: Array<
+        KeyRequirement | { role: string; accountId: string }
+    > = [];
+    private readonly accountIds = new Set<string>();
+    private readonly receivers = new Set<string>();
+    private readonly accounts = new Map<string, MirrorAccountInfo>();
+    private readonly tokens = new Map<string, MirrorTokenInfo>();
+    private readonly payer: string;
+
+    constructor(
+        private readonly context: IHieroContext,
+        private readonly mirrorNodeClient: MirrorNodeClient,
+        private readonly tx: Transaction,
+    ) {
+        this.payer = (
+            tx.transactionId?.accountId ?? context.operatorAccountId
+        ).toString();
+    }
+
+    async build(extraAccounts: string[]): Promise<KeyRequirement[]> {
+        this.account("payer", this.payer);
+        await this.collect();
+        for (const accountId of extraAccounts) {
+            this.account("account", accountId);
+        }
+        await this.receiversRequiringSignatures();
+
+        const requirements: KeyRequirement[] = [];
+        for (const entry of this.entries) {
+            if ("key" in entry) {
+                requirements.push(entry);
+                continue;
+            }
+            const info = await this.lookupAccount(entry.accountId);
+            if (info.keyTree == null) {
+                throw new HieroError(
+                    `Account ${entry.accountId} has no key on the mirror node.`,
+                    { code: HieroErrorCodes.NotFound },
+                );
+            }
+            requirements.push({
+                description: `${entry.role} ${entry.accountId}`,
+                accountId: entry.accountId,
+                key: info.keyTree,
+            });
+        }
+        return requirements;
+    }
+
+    private async collect(): Promise<void> {
+        const tx = this.tx;
+
+        if (
+            tx instanceof TransferTransaction ||
+            tx instanceof TokenAirdropTransaction
+        ) {
+            this.transfers(tx);
+        } else if (tx instanceof AccountAllowanceApproveTransaction) {
+            for (const approval of [
+                ...tx.hbarApprovals,
+                ...tx.tokenApprovals,
+                ...tx.tokenNftApprovals,
+            ]) {
+                this.optionalAccount(
+                    "allowance owner",
+                    approval.ownerAccountId,
+                );
+            }
+        } else if (tx instanceof AccountAllowanceDeleteTransaction) {
+            for (const deletion of tx.tokenNftAllowanceDeletions) {
+                this.optionalAccount(
+                    "allowance owner",
+                    deletion.ownerAccountId,
+                );
+            }
+        } else if (tx instanceof AccountCreateTransaction) {
+            if (tx.key != null && tx.receiverSignatureRequired) {
+                this.newKey("new account key", tx.key);
+            }
+        } else if (tx instanceof AccountUpdateTransaction) {
+            this.optionalAccount("account", tx.accountId);
+            if (tx.key != null) {
+                this.newKey("new account key", tx.key);
+            }
+        } else if (tx instanceof AccountDeleteTransaction) {
+            this.optionalAccount("account", tx.accountId);
+            this.optionalReceiver(tx.transferAccountId);
+        } else if (tx instanceof TokenCreateTransaction) {
+            this.optionalAccount("treasury", tx.treasuryAccountId);
+            this.optionalAccount("auto-renew account", tx.autoRenewAccountId);
+            if (tx.adminKey != null) {
+                this.newKey("new token admin key", tx.adminKey);
+            }
+        } else if (tx instanceof TokenUpdateTransaction) {
+            await this.tokenKey("admin", tokenIdOf(tx), (t) => t.adminKeyTree);
+            if (tx.adminKey != null) {
+                this.newKey("new token admin key", tx.adminKey);
+            }
+            this.optionalAccount("new treasury", tx.treasuryAccountId);
+            this.optionalAccount("auto-renew account", tx.autoRenewAccountId);
+        } else if (tx instanceof TokenDeleteTransaction) {
+            await this.tokenKey("admin", tokenIdOf(tx), (t) => t.adminKeyTree);
+        } else if (
+            tx instanceof TokenMintTransaction ||
+            tx instanceof TokenBurnTransaction
+        ) {
+            await this.tokenKey(
+                "supply",
+                tokenIdOf(tx),
+                (t) => t.supplyKeyTree,
+            );
+        } else if (tx instanceof TokenWipeTransaction) {
+            await this.tokenKey("wipe", tokenIdOf(tx), (t) => t.wipeKeyTree);
+        } else if (
+            tx instanceof TokenFreezeTransaction ||
+            tx instanceof TokenUnfreezeTransaction
+        ) {
+            await this.tokenKey(
+                "freeze",
+                tokenIdOf(tx),
+                (t) => t.freezeKeyTree,
+            );
+        } else if (
+            tx instanceof TokenGrantKycTransaction ||
+            tx instanceof TokenRevokeKycTransaction
+        ) {
+            await this.tokenKey("KYC", tokenIdOf(tx), (t) => t.kycKeyTree);
+        } else if (
+            tx instanceof TokenPauseTransaction ||
+            tx instanceof TokenUnpauseTransaction
+        ) {
+            await this.tokenKey("pause", tokenIdOf(tx), (t) => t.pauseKeyTree);
+        } else if (tx instanceof TokenFeeScheduleUpdateTransaction) {
+            await this.tokenKey(
+                "fee schedule",
+                tokenIdOf(tx),
+                (t) => t.feeScheduleKeyTree,
+            );
+        } else if (tx instanceof TokenUpdateNftsTransaction) {
+            await this.tokenKey(
+                "metadata",
+                tokenIdOf(tx),
+                (t) => t.metadataKeyTree,
+            );
+        } else if (
+            tx instanceof TokenAssociateTransaction ||
+            tx instanceof TokenDissociateTransaction
+        ) {
+            this.optionalAccount("account", tx.accountId);
+        } else if (tx instanceof TokenRejectTransaction) {
+            this.optionalAccount("owner", tx.ownerId);
+        } else if (tx instanceof TopicCreateTransaction) {
+            const adminKey = tx.getAdminKey();
+            if (adminKey != null) {
+                this.newKey("new topic admin key", adminKey);
+            }
+            this.optionalAccount(
+                "auto-renew account",
+                tx.getAutoRenewAccountId(),
+            );
+        } else if (
+            tx instanceof TopicUpdateTransaction ||
+            tx instanceof TopicDeleteTransaction
+        ) {
+            const topicId = String(tx.topicId);
+            const topic = await this.mirrorNodeClient.queryTopic(topicId);
+            this.entityKey(`admin key of topic ${topicId}`, topic.adminKeyTree);
+            if (tx instanceof TopicUpdateTransaction) {
+                if (tx.adminKey != null) {
+                    this.newKey("new topic admin key", tx.adminKey);
+                }
+                this.optionalAccount(
+                    "auto-renew account",
+                    tx.autoRenewAccountId,
+                );
+            }
+        } else if (tx instanceof TopicMessageSubmitTransaction) {
+            const topicId = String(tx.topicId);
+            const topic = await this.mirrorNodeClient.queryTopic(topicId);
+            // Anyone may submit to a topic without a submit key
+            if (topic.submitKeyTree != null) {
+                this.entityKey(
+                    `submit key of topic ${topicId}`,
+                    topic.submitKeyTree,
+                );
+            }
+        } else if (tx instanceof ContractCreateTransaction) {
+            if (tx.adminKey != null) {
+                this.newKey("new contract admin key", tx.adminKey);
+            }
+            this.optionalAccount("auto-renew account", tx.autoRenewAccountId);
+        } else if (
+            tx instanceof ContractUpdateTransaction ||
+            tx instanceof ContractDeleteTransaction
+        ) {
+            const contractId = String(tx.contractId);
+            const contract =
+                await this.mirrorNodeClient.queryContract(contractId);
+            this.entityKey(
+                `admin key of contract ${contractId}`,
+                contract.adminKeyTree,
+            );
+            if (tx instanceof ContractUpdateTransaction) {
+                if (tx.adminKey != null) {
+                    this.newKey("new contract admin key", tx.adminKey);
+                }
+                this.optionalAccount(
+                    "auto-renew account",
+                    tx.autoRenewAccountId,
+                );
+            } else {
+                this.optionalReceiver(tx.transferAccountId);
+            }
+        } else if (tx instanceof ScheduleDeleteTransaction) {
+            const scheduleId = String(tx.scheduleId);
+            const schedule =
+                await this.mirrorNodeClient.querySchedule(scheduleId);
+            this.entityKey(
+                `admin key of schedule ${scheduleId}`,
+                schedule.adminKeyTree,
+            );
+        } else if (tx instanceof FileCreateTransaction) {
+            // Every top-level key of a new file signs its creation
+            if (tx.keys != null && tx.keys.length > 0) {
+                this.newKey("new file keys", new KeyList(tx.keys));
+            }
+        } else if (
+            tx instanceof FileUpdateTransaction ||
+            tx instanceof FileAppendTransaction ||
+            tx instanceof FileDeleteTransaction
+        ) {
+            await this.fileKeys(tx);
+        }
+    }
+
+    /** Senders of transfers and airdrops, noting receivers for later */
+    private transfers(tx: TransferTransaction | TokenAirdropTransaction) {
+        const movements: TokenMovement[] = [];
+        if (tx instanceof TransferTransaction) {
+            movements.push(...tx.hbarTransfersList);
+        }
+        movements.push(...tokenTransfersOf(tx));
+
+        for (const transfer of movements) {
+            const accountId = transfer.accountId.toString();
+            if (transfer.amount.isNegative() && !transfer.isApproved) {
+                this.account("sender", accountId);
+            } else if (!transfer.amount.isNegative()) {
+                this.receivers.add(accountId);
+            }
+        }
+        for (const transfers of tx.nftTransfers.values()) {
+            for (const transfer of transfers) {
+                if (!transfer.isApproved) {
+                    this.account("sender", transfer.sender.toString());
+                }
+                this.receivers.add(transfer.recipient.toString());
+            }
+        }
+    }
+
+    /**
+     * Receivers that must sign. Airdrops to such accounts become pending
+     * airdrops instead, so only transfers need the receiver's key.
+     */
+    private async receiversRequiringSignatures(): Promise<void> {
+        if (this.tx instanceof TokenAirdropTransaction) {
+            return;
+        }
+        for (const accountId of this.receivers) {
+            if (!this.accountIds.has(accountId)) {
+                const info = await this.lookupAccount(accountId);
+                if (info.receiverSigRequired) {
+                    this.account("receiver", accountId);
+                }
+            }
+        }
+    }
+
+    private account(role: string, accountId: string): void {
+        if (!this.accountIds.has(accountId)) {
+            this.accountIds.add(accountId);
+            this.entries.push({ role, accountId });
+        }
+    }
+
+    /** An account set on the transaction; unset means the payer */
+    private optionalAccount(role: string, accountId: AccountId | null): void {
+        if (accountId != null) {
+            this.account(role, accountId.toString());
+        }
+    }
+
+    /** An account receiving the remaining balance of a deleted entity */
+    private optionalReceiver(accountId: AccountId | null): void {
+        if (accountId != null) {
+            this.receivers.add(accountId.toString());
+        }
+    }
+
+    private newKey(description: string, key: Key): void {
+        this.entries.push({ description, key: mirrorKeyOf(key) });
+    }
+
+    private entityKey(description: string, key: MirrorKey | undefined): void {
+        this.entries.push(
+            key != null
+                ? { description, key }
+                : { description: `${description} (not set)`, key: MISSING_KEY },
+        );
+    }
+
+    private async tokenKey(
+        name: string,
+        tokenId: string,
+        select: (token: MirrorTokenInfo) => MirrorKey | undefined,
+    ): Promise<void> {
+        let info = this.tokens.get(tokenId);
+        if (info == null) {
+            info = await this.mirrorNodeClient.queryTokenById(tokenId);
+            this.tokens.set(tokenId, info);
+        }
+        this.entityKey(`${name} key of token ${tokenId}`, select(info));
+    }
+
+    /**
+     * File keys come from a consensus query. Every top-level key signs an
+     * update or append; any one of them may sign a delete.
+     */
+    private async fileKeys(
+        tx:
+            | FileUpdateTransaction
+            | FileAppendTransaction
+            | FileDeleteTransaction,
+    ): Promise<void> {
+        const fileId = String(tx.fileId);
+        const { keys } = await new FileInfoQuery(this.context).execute(fileId);
+        const members = keys?.toArray() ?? [];
+        if (members.length === 0) {
+            this.entityKey(`keys of file ${fileId}`, undefined);
+            return;
+        }
+        this.entityKey(
+            `keys of file ${fileId}`,
+            tx instanceof FileDeleteTransaction
+                ? {
+                      type: "threshold",
+                      threshold: 1,
+                      keys: members.map(mirrorKeyOf),
+                  }
+                : { type: "keyList", keys: members.map(mirrorKeyOf) },
+        );
+        if (tx instanceof FileUpdateTransaction && tx.keys != null) {
+            this.newKey("new file keys", new KeyList(tx.keys));
+        }
+    }
+
+    private async lookupAccount(accountId: string): Promise<MirrorAccountInfo> {
+        let info = this.accounts.get(accountId);
+        if (info == null) {
+            info = await this.mirrorNodeClient.queryAccount(accountId);
+            this.accounts.set(accountId, info);
+        }
+        return info;
+    }
+}
+
+function toTransaction(
+    tx: Transaction | PreparedTransaction<unknown> | Uint8Array,
+): Transaction {
+    if (tx instanceof Transaction) {
+        return tx;
+    }
+    try {
+        return Transaction.fromBytes(tx instanceof Uint8Array ? tx : tx.bytes);
+    } catch (error) {
+        throw normalizeError(error, "SignatureRequirementAnalyzer.analyze");
+    }
+}
@@ -0,0 +1,113 @@
+import type { MirrorKey } from "../types/index.js";
+
+/**
+ * Lifecycle of a transaction collecting signatures.
+ *
+ * - `collecting` — waiting for signatures, or for a submission to be retried
+ * - `submitted` — sent once every requirement was met; see `receiptStatus`
+ * - `failed` — the network rejected it; it cannot be submitted again
+ */
+export type PendingTransactionStatus = "collecting" | "submitted" | "failed";
+
+/**
+ * A key that must sign a pending transaction.
+ */
+export interface KeyRequirement {
+    /** Why the key must sign, e.g. `"payer 0.0.2"` or `"sender 0.0.1001"` */
+    description: string;
+    /** Account whose key this is, when it belongs to an account */
+    accountId?: string;
+    /** The key structure, as held on the network */
+    key: MirrorKey;
+}
+
+/**
+ * A frozen transaction held by a {@link SignatureCollector} until every
+ * party has signed.
+ */
+export interface PendingTransaction {
+    /** Transaction ID, e.g. `"0.0.2@1700000000.123456789"` */
+    transactionId: string;
+    /** Transaction type, e.g. `"CryptoTransfer"` */
+    type: string;
+    /** Human-readable description, when started from a prepared transaction */
+    summary?: string;
+    /** Frozen transaction bytes with every signature collected so far */
+    bytes: Uint8Array;
+    /** Hex SHA-384 of the body sent to the first node, for signers to compare */
+    bodyHash: string;
+    /** Keys that must sign before the transaction is submitted */
+    requirements: KeyRequirement[];
+    status: PendingTransactionStatus;
+    /** Network status once submitted, e.g. `"SUCCESS"` */
+    receiptStatus?: string;
+    /** Failure message for `failed` transactions, or the last failed submission */
+    error?: string;
+    /** ISO time after which the network no longer accepts the transaction */
+    expiresAt: string;
+    /** ISO time collection started */
+    createdAt: string;
+    /** ISO time of the last update */
+    updatedAt: string;
+}
+
+/**
+ * Storage for pending transactions, shared by every process that accepts
+ * signatures for them. Implementations must make `put` durable before
+ * resolving.
+ */
+export interface SignatureStore {
+    /** Insert the transaction, or replace the one with the same `transactionId` */
+    put(pending: PendingTransaction): Promise<void>;
+    /** Return the transaction with this ID, or `undefined` */
+    get(transactionId: string): Promise<PendingTransaction | undefined>;
+    /** Return every stored transaction, oldest first */
+    list(): Promise<PendingTransaction[]>;
+    /** Remove the transaction with this ID, if stored */
+    delete(transactionId: string): Promise<void>;
+}
+
+/**
+ * In-memory signature store, for a single process or for tests.
+ */
+export class InMemorySignatureStore implements SignatureStore {
+    private readonly pending = new Map<string, PendingTransaction>();
+
+    put(pending: PendingTransaction): Promise<void> {
+        this.pending.set(pending.transactionId, copy(pending));
+        return Promise.resolve();
+    }
+
+    get(transactionId: string): Promise<PendingTransaction | undefined> {
+        const pending = this.pending.get(transactionId);
+        return Promise.resolve(pending ? copy(pending) : undefined);
+    }
+
+    list(): Promise<PendingTransaction[]> {
+        return Promise.resolve(oldestFirst([...this.pending.values()]));
+    }
+
+    delete(transactionId: string): Promise<void> {
+        this.pending.delete(transactionId);
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Sort pending transactions by creation time, copying each.
+ */
+export function oldestFirst(
+    pending: PendingTransaction[],
+): PendingTransaction[] {
+    return pending
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(copy);
+}
+
+function copy(pending: PendingTransaction): PendingTransaction {
+    return {
+        ...pending,
+        bytes: new Uint8Array(pending.bytes),
+        requirements: pending.requirements.map((r) => ({ ...r })),
+    };
+}
@@ -0,0 +1,312 @@
+import {
+    context,
+    metrics,
+    propagation,
+    SpanKind,
+    SpanStatusCode,
+    trace,
+} from "@opentelemetry/api";
+import type {
+    Attributes,
+    Counter,
+    Histogram,
+    MeterProvider,
+    Span,
+    Tracer,
+    TracerProvider,
+} from "@opentelemetry/api";
+import { Hbar } from "@hiero-ledger/sdk";
+import type { IHieroContext } from "../context/HieroContext.interface.js";
+import type {
+    Interceptor,
+    InterceptorContext,
+    TransactionEvent,
+    TransactionListener,
+    TransactionRetryEvent,
+} from "../listeners/index.js";
+import type { MirrorTransport } from "../mirror/mirror-node-transport.js";
+import { normalizeError } from "../errors/index.js";
+
+/** Instrumentation scope name reported with every span and metric */
+const SCOPE = "@hiero-enterprise/core";
+
+/**
+ * Options for {@link HieroTelemetry}.
+ */
+export interface HieroTelemetryOptions {
+    /** Tracer provider (default: the provider registered globally) */
+    tracerProvider?: TracerProvider;
+    /** Meter provider (default: the provider registered globally) */
+    meterProvider?: MeterProvider;
+}
+
+/**
+ * OpenTelemetry instrumentation for transactions, queries and mirror node
+ * requests.
+ *
+ * Every `TransactionExecutor.run`, `scheduleRun` and `QueryExecutor.run`
+ * gets a client span named after the service method, e.g.
+ * `TokenService.mintToken`, carrying the transaction type, ID, node
+ * account ID, status, retry attempt and maximum fee as `hiero.*`
+ * attributes. Only the maximum fee is available: the fee actually charged
+ * is known only from the transaction record, a paid query, so it is left
+ * to the audit log's `recordChargedFees`. Each mirror node HTTP attempt
+ * gets a client span with the standard `http.*` and `url.*` attributes,
+ * and the active trace context is injected into its headers.
+ *
+ * Spans start from the active context, and mirror node requests made
+ * inside an operation nest under its span. The Express, Fastify and
+ * NestJS adapters run each request through {@link withRequestContext},
+ * so operations nest under the request span of the application's HTTP
+ * instrumentation, or under the caller's trace from the request headers.
+ * Either way a context manager must be registered.
+ *
+ * Recorded metrics:
+ * - `hiero.transaction.duration` / `hiero.query.duration` / `hiero.mirror.request.duration` — histograms in milliseconds
+ * - `hiero.transactions` / `hiero.queries` / `hiero.mirror.requests` — counters
+ * - `hiero.transaction.retries` — counter of retried submissions
+ *
+ * Set `HieroConfig.telemetry` to instrument a context and the runtime's
+ * mirror node client, or call {@link HieroTelemetry.instrument} and
+ * {@link HieroTelemetry.wrapTransport} directly.
+ */
+export class HieroTelemetry {
+    private readonly tracer: Tracer;
+    /** Spans started by this instance, to tell them from foreign ones */
+    private readonly spans = new WeakSet<Span>();
+    private readonly transactionDuration: Histogram;
+    private readonly transactions: Counter;
+    private readonly retries: Counter;
+    private readonly queryDuration: Histogram;
+    private readonly queries: Counter;
+    private readonly mirrorDuration: Histogram;
+    private readonly mirrorRequests: Counter;
+
+    /**
+     * Interceptor that wraps each call in a span and records its metrics.
+     * Register it before other interceptors so that their rejections are
+     * traced too.
+     */
+    readonly interceptor: Interceptor = (ctx, next) => this.trace(ctx, next);
+
+    /**
+     * Listener that adds the transaction ID, node and retries to the
+     * active operation span.
+     */
+    readonly listener: TransactionListener = {
+        onAfterTransaction: (event) => this.annotate(event),
+        onTransactionRetry: (event) => this.recordRetry(event),
+    };
+
+    constructor(options: HieroTelemetryOptions = {}) {
+        this.tracer = (options.tracerProvider ?? trace).getTracer(SCOPE);
+        const meter = (options.meterProvider ?? metrics).getMeter(SCOPE);
+
+        this.transactionDuration = meter.createHistogram(
+            "hiero.transaction.duration",
+            { description: "Duration of transactions", unit: "ms" },
+        );
+        this.transactions = meter.createCounter("hiero.transactions", {
+            description: "Transactions run, by outcome",
+        });
+        this.retries = meter.createCounter("hiero.transaction.retries", {
+            description: "Transaction submissions retried under a retry policy",
+        });
+        this.queryDuration = meter.createHistogram("hiero.query.duration", {
+            description: "Duration of consensus node queries",
+            unit: "ms",
+        });
+        this.queries = meter.createCounter("hiero.queries", {
+            description: "Consensus node queries run, by outcome",
+        });
+        this.mirrorDuration = meter.createHistogram(
+            "hiero.mirror.request.duration",
+            {
+                description: "Duration of mirror node HTTP requests",
+                unit: "ms",
+            },
+        );
+        this.mirrorRequests = meter.createCounter("hiero.mirror.requests", {
+            description: "Mirror node HTTP requests, by response status",
+        });
+    }
+
+    /**
+     * Register the interceptor and listener with a context.
+     */
+    instrument(hieroContext: IHieroContext): void {
+        hieroContext.addInterceptor(this.interceptor);
+        hieroContext.addTransactionListener(this.listener);
+    }
+
+    /**
+     * Run a request handler in the trace context of its request. The
+     * active span, such as the request span of the application's HTTP
+     * instrumentation, is kept; without one, the caller's context is
+     * extracted from the request headers with the registered propagator.
+     *
+     * @param headers - Incoming request headers.
+     * @param handler - Continues handling the request.
+     */
+    withRequestContext<T>(
+        headers: Readonly<Record<string, string | string[] | undefined>>,
+        handler: () => T,
+    ): T {
+        const active = context.active();
+        return context.with(
+            trace.getSpan(active)
+                ? active
+                : propagation.extract(active, headers),
+            handler,
+        );
+    }
+
+    /**
+     * Wrap a mirror node transport so that each HTTP attempt is traced.
+     *
+     * @param transport - Transport to wrap (default: the global `fetch`).
+     */
+    wrapTransport(
+        transport: MirrorTransport = (url, request) => fetch(url, request),
+    ): MirrorTransport {
+        return async (url, request) => {
+            const { hostname } = new URL(url);
+            const attributes: Attributes = {
+                "http.request.method": request.method,
+                "server.address": hostname,
+            };
+            const span = this.tracer.startSpan(request.method, {
+                kind: SpanKind.CLIENT,
+                attributes: { ...attributes, "url.full": url },
+            });
+            const active = trace.setSpan(context.active(), span);
+            const headers = { ...request.headers };
+            propagation.inject(active, headers);
+            const start = performance.now();
+
+            try {
+                const response = await context.with(active, () =>
+                    transport(url, { ...request, headers }),
+                );
+                attributes["http.response.status_code"] = response.status;
+                if (response.status >= 400) {
+                    attributes["error.type"] = String(response.status);
+                    span.setStatus({ code: SpanStatusCode.ERROR });
+                }
+                return response;
+            } catch (error) {
+                attributes["error.type"] =
+                    error instanceof Error ? error.name : "Error";
+                recordError(span, error);
+                throw error;
+            } finally {
+                span.setAttributes(attributes);
+                span.end();
+                this.mirrorDuration.record(
+                    performance.now() - start,
+                    attributes,
+                );
+                this.mirrorRequests.add(1, attributes);
+            }
+        };
+    }
+
+    private async trace(
+        ctx: InterceptorContext,
+        next: () => Promise<unknown>,
+    ): Promise<unknown> {
+        const attributes: Attributes = {
+            "hiero.operation.kind": ctx.kind,
+            "hiero.transaction.type": ctx.event.type,
+            "hiero.service": ctx.event.serviceName,
+            "hiero.method": ctx.event.methodName,
+        };
+        const span = this.tracer.startSpan(
+            `${ctx.event.serviceName}.${ctx.event.methodName}`,
+            { kind: SpanKind.CLIENT, attributes },
+        );
+        this.spans.add(span);
+        const start = performance.now();
+
+        try {
+            const result = await context.with(
+                trace.setSpan(context.active(), span),
+                next,
+            );
+            attributes["hiero.status"] = "SUCCESS";
+            return result;
+        } catch (error) {
+            const normalized = normalizeError(error);
+            attributes["hiero.status"] =
+                normalized.sdkStatus ?? normalized.code;
+            recordError(span, normalized);
+            throw error;
+        } finally {
+            // The charged fee would take a paid record query
+            if (ctx.kind !== "query") {
+                const fee =
+                    ctx.options.maxTransactionFee ??
+                    (ctx.kind === "transaction"
+                        ? ctx.transaction.maxTransactionFee
+                        : null);
+                if (fee != null) {
+                    span.setAttribute(
+                        "hiero.transaction.max_fee",
+                        (fee instanceof Hbar ? fee : new Hbar(fee))
+                            .toTinybars()
+                            .toNumber(),
+                    );
+                }
+            }
+            span.setAttributes(attributes);
+            span.end();
+
+            const durationMs = performance.now() - start;
+            if (ctx.kind === "query") {
+                this.queryDuration.record(durationMs, attributes);
+                this.queries.add(1, attributes);
+            } else {
+                this.transactionDuration.record(durationMs, attributes);
+                this.transactions.add(1, attributes);
+            }
+        }
+    }
+
+    private annotate(event: TransactionEvent): void {
+        const span = this.activeSpan();
+        if (event.transactionId != null) {
+            span?.setAttribute("hiero.transaction.id", event.transactionId);
+        }
+        if (event.nodeAccountId != null) {
+            span?.setAttribute("hiero.node.account_id", event.nodeAccountId);
+        }
+    }
+
+    private recordRetry(event: TransactionRetryEvent): void {
+        const span = this.activeSpan();
+        span?.setAttribute("hiero.retry.attempt", event.attempt);
+        span?.addEvent("hiero.retry", {
+            "hiero.retry.attempt": event.attempt,
+            "hiero.retry.delay_ms": event.delayMs,
+            "hiero.status": event.status,
+        });
+        this.retries.add(1, {
+            "hiero.transaction.type": event.type,
+            "hiero.service": event.serviceName,
+            "hiero.method": event.methodName,
+            "hiero.status": event.status,
+        });
+    }
+
+    /** The innermost operation span of this instance, if one is active */
+    private activeSpan(): Span | undefined {
+        const span = trace.getSpan(context.active());
+        return span && this.spans.has(span) ? span : undefined;
+    }
+}
+
+function recordError(span: Span, error: unknown): void {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    span.recordException(exception);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+}
@@ -0,0 +1,4 @@
+export {
+    HieroTelemetry,
+    type HieroTelemetryOptions,
+} from "./hiero-telemetry.js";
@@ -28,6 +28,9 @@ export interface Account {
     evmAddress?: string;
 }
 
+import type { MirrorKey } from "./key.js";
+import type { TransactionInfo } from "./transaction.js";
+
 /**
  * Extended account information from the mirror node.
  */
@@ -36,8 +39,17 @@ export interface MirrorAccountInfo {
     accountId: string;
     /** The EVM address */
     evmAddress?: string;
-    /** The public key */
+    /** The account alias (base32), if the account was created by alias */
+    alias?: string;
+    /**
+     * The account key as the mirror node reports it — the hex public key
+     * for a simple key, or the hex-encoded protobuf for a composite key
+     */
     key?: string;
+    /** The account key as a tree, so threshold and key-list keys can be inspected */
+    keyTree?: MirrorKey;
+    /** Whether transfers into the account must be signed by its key */
+    receiverSigRequired?: boolean;
     /** Account balance in tinybars */
     balance: number;
     /** Whether the account has been deleted */
@@ -52,8 +64,19 @@ export interface MirrorAccountInfo {
     stakedAccountId?: string;
     stakedNodeId?: number;
     stakePeriodStart?: string;
+    /** Staking reward (tinybars) the account will receive at its next reward payout */
+    pendingReward?: number;
+    /** Whether the account declines staking rewards */
+    declineReward?: boolean;
+    /** Ethereum transaction nonce */
+    ethereumNonce?: number;
     /** Account creation timestamp */
     createdTimestamp?: string;
     /** Expiration timestamp */
     expirationTimestamp?: string;
+    /**
+     * Most recent transactions involving the account, as embedded in the
+     * account response (the first page only)
+     */
+    transactions?: TransactionInfo[];
 }
@@ -0,0 +1,39 @@
+/**
+ * An HBAR allowance granted by an account (mirror node data).
+ */
+export interface MirrorCryptoAllowance {
+    /** Account that granted the allowance */
+    owner: string;
+    /** Account allowed to spend */
+    spender: string;
+    /** Remaining allowance in tinybars (string for precision) */
+    amount: string;
+    /** Originally granted allowance in tinybars (string for precision) */
+    amountGranted: string;
+    /** Consensus timestamp of the last change */
+    timestamp: string;
+}
+
+/**
+ * A fungible token allowance granted by an account (mirror node data).
+ */
+export interface MirrorTokenAllowance extends MirrorCryptoAllowance {
+    /** Token ID */
+    tokenId: string;
+}
+
+/**
+ * An NFT allowance granted by an account (mirror node data).
+ */
+export interface MirrorNftAllowance {
+    /** Account that granted the allowance */
+    owner: string;
+    /** Account allowed to spend */
+    spender: string;
+    /** Token ID */
+    tokenId: string;
+    /** Whether the spender may transfer every serial of the token */
+    approvedForAll: boolean;
+    /** Consensus timestamp of the last change */
+    timestamp: string;
+}
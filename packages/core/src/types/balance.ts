@@ -8,6 +8,8 @@ export interface Balance {
     hbars: string;
     /** Token balances associated with this account */
     tokens: TokenBalance[];
+    /** Consensus timestamp of the balance snapshot, for historical queries */
+    timestamp?: string;
 }
 
 /**
@@ -18,6 +20,16 @@ export interface TokenBalance {
     tokenId: string;
     /** Balance amount (string for precision with large values) */
     balance: string;
-    /** Token decimals */
-    decimals: number;
+    /** Token decimals, when the endpoint reports them */
+    decimals?: number;
+}
+
+/**
+ * One holder's balance of a token, from a token holder query.
+ */
+export interface TokenHolderBalance extends TokenBalance {
+    /** Holder account ID */
+    accountId: string;
+    /** Consensus timestamp of the balance snapshot */
+    timestamp?: string;
 }
@@ -0,0 +1,27 @@
+/**
+ * Represents a record file / block (mirror node data).
+ */
+export interface MirrorBlock {
+    /** Block number */
+    number: number;
+    /** Block hash (hex, `0x`-prefixed) */
+    hash: string;
+    /** Hash of the previous block */
+    previousHash: string;
+    /** Record file name */
+    name: string;
+    /** Number of transactions in the block */
+    count: number;
+    /** HAPI version that produced the block */
+    hapiVersion?: string;
+    /** Total gas used by contract transactions in the block */
+    gasUsed: number;
+    /** Aggregated logs bloom filter (hex encoded) */
+    logsBloom?: string;
+    /** Size of the record file in bytes */
+    size?: number;
+    /** Consensus timestamp of the first transaction */
+    timestampFrom: string;
+    /** Consensus timestamp of the last transaction */
+    timestampTo: string;
+}
@@ -1,3 +1,5 @@
+import type { MirrorKey } from "./key.js";
+
 /**
  * Result of a smart contract function call.
  */
@@ -13,3 +15,113 @@ export interface ContractCallResult {
     /** Error message if the call failed */
     errorMessage?: string;
 }
+
+/**
+ * Represents a smart contract entity (mirror node data).
+ */
+export interface MirrorContractInfo {
+    /** Contract ID */
+    contractId: string;
+    /** EVM address of the contract (hex, `0x`-prefixed) */
+    evmAddress: string;
+    /** Admin key (can update/delete the contract) */
+    adminKey?: string;
+    /** Admin key as a tree, so threshold and key-list keys can be inspected */
+    adminKeyTree?: MirrorKey;
+    /** Auto-renew account ID */
+    autoRenewAccount?: string;
+    /** Auto-renew period in seconds */
+    autoRenewPeriod?: number;
+    /** File ID holding the contract's initcode */
+    fileId?: string;
+    /** Contract memo */
+    memo?: string;
+    /** Maximum number of automatic token associations */
+    maxAutomaticTokenAssociations?: number;
+    /** EVM nonce */
+    nonce?: number;
+    /** Account that receives the balance when the contract is deleted */
+    obtainerId?: string;
+    /** Creation timestamp */
+    createdTimestamp?: string;
+    /** Expiration timestamp */
+    expirationTimestamp?: string;
+    /** Whether the contract is deleted */
+    deleted: boolean;
+    /** Runtime bytecode (hex), only present on single-contract lookups */
+    runtimeBytecode?: string;
+}
+
+/**
+ * The outcome of a single contract call or creation (mirror node data).
+ */
+export interface MirrorContractResult {
+    /** Contract ID that was called or created */
+    contractId: string;
+    /** Consensus timestamp of the transaction */
+    timestamp: string;
+    /** Ethereum-style transaction hash */
+    hash?: string;
+    /** EVM address of the caller */
+    from?: string;
+    /** EVM address of the callee */
+    to?: string;
+    /** HBAR sent with the call, in tinybars (string for precision) */
+    amount: string;
+    /** Gas limit supplied by the caller */
+    gasLimit: number;
+    /** Gas consumed by the call */
+    gasUsed: number;
+    /** Transaction result status (e.g. "SUCCESS", "CONTRACT_REVERT_EXECUTED") */
+    result: string;
+    /** EVM status (`0x1` on success) */
+    status?: string;
+    /** Whether the call succeeded */
+    successful: boolean;
+    /** Raw call result bytes (hex encoded) */
+    callResult?: string;
+    /** Revert reason or error message if the call failed */
+    errorMessage?: string;
+    /** Function selector and ABI-encoded arguments (hex encoded) */
+    functionParameters?: string;
+    /** Contracts created during the call */
+    createdContractIds: string[];
+    /** Number of the block containing the transaction */
+    blockNumber?: number;
+    /** Hash of the block containing the transaction */
+    blockHash?: string;
+    /** Event logs emitted by the call (only present on single-result lookups) */
+    logs: MirrorContractLog[];
+}
+
+/**
+ * An event log emitted by a contract call.
+ */
+export interface MirrorContractLog {
+    /** EVM address of the emitting contract */
+    address: string;
+    /** Contract ID of the emitting contract */
+    contractId: string;
+    /** Log data (hex encoded) */
+    data: string;
+    /** Position of the log within the transaction */
+    index: number;
+    /** Indexed topics (hex encoded) */
+    topics: string[];
+}
+
+/**
+ * A single storage slot of a contract (mirror node data).
+ */
+export interface MirrorContractStateEntry {
+    /** Contract ID */
+    contractId: string;
+    /** EVM address of the contract */
+    address: string;
+    /** Storage slot (hex encoded) */
+    slot: string;
+    /** Slot value (hex encoded) */
+    value: string;
+    /** Consensus timestamp of the last change to this slot */
+    timestamp: string;
+}
@@ -0,0 +1,131 @@
+/**
+ * Sort direction accepted by the mirror node's `order` parameter.
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * A consensus timestamp, either in the mirror node's `seconds.nanos` string
+ * form (e.g. `"1700000000.123456789"`) or as a `Date` (millisecond precision).
+ */
+export type MirrorTimestamp = string | Date;
+
+/**
+ * Comparison operators for a single query parameter. Multiple bounds may be
+ * combined, e.g. `{ gte: t1, lt: t2 }` for a half-open range.
+ */
+export interface RangeFilter<T> {
+    eq?: T;
+    gt?: T;
+    gte?: T;
+    lt?: T;
+    lte?: T;
+}
+
+/**
+ * Parameters shared by every list endpoint.
+ */
+export interface ListFilter {
+    /** Maximum number of items per page (1–100, mirror node default: 25) */
+    limit?: number;
+    /** Sort direction (mirror node default depends on the endpoint) */
+    order?: SortOrder;
+}
+
+/**
+ * Filter for transaction list queries.
+ */
+export interface TransactionFilter extends ListFilter {
+    /** Consensus timestamp; a bare value matches exactly */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+    /** Only successful or only failed transactions */
+    result?: "success" | "fail";
+}
+
+/**
+ * Filter for topic message list queries.
+ */
+export interface TopicMessageFilter extends ListFilter {
+    /** Topic sequence number; a bare value matches exactly */
+    sequenceNumber?: number | RangeFilter<number>;
+    /** Consensus timestamp; a bare value matches exactly */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+}
+
+/**
+ * Filter for NFT list queries.
+ */
+export interface NftFilter extends ListFilter {
+    /** Serial number; a bare value matches exactly */
+    serialNumber?: number | RangeFilter<number>;
+}
+
+/**
+ * Filter for token list queries.
+ */
+export type TokenFilter = ListFilter;
+
+/**
+ * Filter for contract list queries.
+ */
+export type ContractFilter = ListFilter;
+
+/**
+ * Filter for contract result list queries.
+ */
+export interface ContractResultFilter extends ListFilter {
+    /** Consensus timestamp; a bare value matches exactly */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+    /** Block number; a bare value matches exactly */
+    blockNumber?: number | RangeFilter<number>;
+}
+
+/**
+ * Filter for contract state queries.
+ */
+export interface ContractStateFilter extends ListFilter {
+    /** Read the state as of this consensus timestamp instead of the latest */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+}
+
+/**
+ * Filter for schedule list queries.
+ */
+export interface ScheduleFilter extends ListFilter {
+    /** Only schedules created by this account */
+    accountId?: string;
+}
+
+/**
+ * Filter for block list queries.
+ */
+export interface BlockFilter extends ListFilter {
+    /** Block number; a bare value matches exactly */
+    blockNumber?: number | RangeFilter<number>;
+    /** Consensus timestamp; a bare value matches exactly */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+}
+
+/**
+ * Filter for balance snapshot queries (`/balances` and token holders).
+ */
+export interface BalanceFilter extends ListFilter {
+    /** Only this account */
+    accountId?: string;
+    /**
+     * Balance in the smallest unit — tinybars, or token base units for
+     * token holder queries; a bare value matches exactly
+     */
+    balance?: number | bigint | RangeFilter<number | bigint>;
+    /**
+     * Snapshot consensus timestamp; use `{ lte: t }` for balances as of `t`
+     */
+    timestamp?: MirrorTimestamp | RangeFilter<MirrorTimestamp>;
+}
+
+/**
+ * Filter for allowance list queries.
+ */
+export interface AllowanceFilter extends ListFilter {
+    /** Only allowances granted to this spender */
+    spenderId?: string;
+}
@@ -1,7 +1,8 @@
 // Data model barrel export
 export type { Account, MirrorAccountInfo } from "./account.js";
 export { AccountType, OperatorKeyType } from "./account.js";
-export type { Balance, TokenBalance } from "./balance.js";
+export type { Balance, TokenBalance, TokenHolderBalance } from "./balance.js";
+export type { MirrorKey } from "./key.js";
 export type {
     MirrorTokenInfo,
     MirrorTokenType,
@@ -12,8 +13,29 @@ export type {
     MirrorRoyaltyFee,
 } from "./token.js";
 export type { Nft, NftMetadata } from "./nft.js";
-export type { ContractCallResult } from "./contract.js";
-export type { MirrorTopic, MirrorTopicMessage } from "./topic.js";
+export type {
+    ContractCallResult,
+    MirrorContractInfo,
+    MirrorContractResult,
+    MirrorContractLog,
+    MirrorContractStateEntry,
+} from "./contract.js";
+export type { MirrorSchedule, MirrorScheduleSignature } from "./schedule.js";
+export type { MirrorBlock } from "./block.js";
+export type {
+    MirrorCryptoAllowance,
+    MirrorTokenAllowance,
+    MirrorNftAllowance,
+} from "./allowance.js";
+export type {
+    MirrorTopic,
+    MirrorTopicMessage,
+    MirrorTopicChunkInfo,
+    TopicStreamMessage,
+    TopicStreamPosition,
+    TopicStreamCheckpoint,
+    TopicStreamOptions,
+} from "./topic.js";
 export type {
     TransactionInfo,
     Transfer,
@@ -37,18 +59,40 @@ export type {
     NetworkVersionInfo,
     SemanticVersion,
 } from "@hiero-ledger/sdk";
-export type { Page, PageLinks } from "./page.js";
+export type { Page, PageLinks, PaginationOptions } from "./page.js";
+export type {
+    SortOrder,
+    MirrorTimestamp,
+    RangeFilter,
+    ListFilter,
+    TransactionFilter,
+    TopicMessageFilter,
+    NftFilter,
+    TokenFilter,
+    ContractFilter,
+    ContractResultFilter,
+    ContractStateFilter,
+    ScheduleFilter,
+    BlockFilter,
+    AllowanceFilter,
+    BalanceFilter,
+} from "./filter.js";
 export type { HieroServices } from "./services.js";
 export type {
     MirrorPageResponse,
     MirrorAccountResponse,
+    MirrorAmount,
     MirrorTokenBalance,
+    MirrorAccountBalanceRaw,
+    MirrorTokenHolderRaw,
     MirrorNft,
     MirrorTokenResponse,
     MirrorFixedFeeRaw,
     MirrorFractionalFeeRaw,
     MirrorRoyaltyFeeRaw,
     MirrorTopicMessageRaw,
+    MirrorKeyRaw,
+    MirrorChunkInfoRaw,
     MirrorTransaction,
     MirrorTransfer,
     MirrorTokenTransfer,
@@ -59,4 +103,16 @@ export type {
     MirrorExchangeRate,
     MirrorNetworkSupplyResponse,
     MirrorNetworkStakeResponse,
+    MirrorTimestampRange,
+    MirrorTopicResponse,
+    MirrorContractResponse,
+    MirrorContractResultRaw,
+    MirrorContractLogRaw,
+    MirrorContractStateRaw,
+    MirrorScheduleResponse,
+    MirrorScheduleSignatureRaw,
+    MirrorBlockResponse,
+    MirrorCryptoAllowanceRaw,
+    MirrorTokenAllowanceRaw,
+    MirrorNftAllowanceRaw,
 } from "./mirror-node.js";
@@ -0,0 +1,18 @@
+/**
+ * Structured form of a Hiero `Key`, as decoded from the mirror node.
+ *
+ * Simple keys carry the hex-encoded public key. Composite keys nest:
+ * a `threshold` key is satisfied by `threshold` of its `keys`, a
+ * `keyList` by all of them. Contract keys are satisfied by the named
+ * contract (a `delegatableContract` also when it is called through
+ * another contract). Deprecated or undecodable keys are reported as
+ * `unknown` with the raw hex.
+ */
+export type MirrorKey =
+    | { type: "ed25519"; key: string }
+    | { type: "ecdsaSecp256k1"; key: string }
+    | { type: "threshold"; threshold: number; keys: MirrorKey[] }
+    | { type: "keyList"; keys: MirrorKey[] }
+    | { type: "contract"; contractId: string }
+    | { type: "delegatableContract"; contractId: string }
+    | { type: "unknown"; key: string };
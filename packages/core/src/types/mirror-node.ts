@@ -7,23 +7,53 @@ export interface MirrorAccountResponse {
     account: string;
     alias?: string;
     evm_address?: string;
-    key?: { key: string };
-    balance?: { balance: number; tokens: MirrorTokenBalance[] };
+    key?: MirrorKeyRaw | null;
+    balance?: { balance: MirrorAmount; tokens: MirrorTokenBalance[] };
     deleted?: boolean;
     auto_renew_period?: number;
     memo?: string;
     max_automatic_token_associations?: number;
-    staked_account_id?: string;
-    staked_node_id?: number;
-    stake_period_start?: string;
+    staked_account_id?: string | null;
+    staked_node_id?: number | null;
+    stake_period_start?: string | null;
     created_timestamp?: string;
     expiry_timestamp?: string;
+    receiver_sig_required?: boolean | null;
+    pending_reward?: number;
+    decline_reward?: boolean;
+    ethereum_nonce?: number;
+    transactions?: MirrorTransaction[];
 }
 
+export interface MirrorKeyRaw {
+    _type?: string;
+    key: string;
+}
+
+/**
+ * An integer amount; a string when beyond `Number.MAX_SAFE_INTEGER`, so
+ * no digits are lost in parsing.
+ */
+export type MirrorAmount = number | string;
+
 export interface MirrorTokenBalance {
     token_id: string;
-    balance: number;
-    decimals: number;
+    balance: MirrorAmount;
+    decimals?: number;
+}
+
+/** Item of `/api/v1/balances`; the page carries the snapshot `timestamp` */
+export interface MirrorAccountBalanceRaw {
+    account: string;
+    balance: MirrorAmount;
+    tokens?: { token_id: string; balance: MirrorAmount }[];
+}
+
+/** Item of `/api/v1/tokens/{id}/balances` */
+export interface MirrorTokenHolderRaw {
+    account: string;
+    balance: MirrorAmount;
+    decimals?: number;
 }
 
 export interface MirrorNft {
@@ -46,13 +76,14 @@ export interface MirrorTokenResponse {
     total_supply: string;
     max_supply: string;
     treasury_account_id: string;
-    admin_key?: { key: string };
-    supply_key?: { key: string };
-    freeze_key?: { key: string };
-    wipe_key?: { key: string };
-    kyc_key?: { key: string };
-    pause_key?: { key: string };
-    fee_schedule_key?: { key: string };
+    admin_key?: MirrorKeyRaw | null;
+    supply_key?: MirrorKeyRaw | null;
+    freeze_key?: MirrorKeyRaw | null;
+    wipe_key?: MirrorKeyRaw | null;
+    kyc_key?: MirrorKeyRaw | null;
+    pause_key?: MirrorKeyRaw | null;
+    fee_schedule_key?: MirrorKeyRaw | null;
+    metadata_key?: MirrorKeyRaw | null;
     deleted: boolean;
     pause_status?: string;
     custom_fees?: {
@@ -97,6 +128,18 @@ export interface MirrorTopicMessageRaw {
     running_hash: string;
     consensus_timestamp: string;
     payer_account_id?: string;
+    chunk_info?: MirrorChunkInfoRaw | null;
+}
+
+export interface MirrorChunkInfoRaw {
+    initial_transaction_id: {
+        account_id: string;
+        nonce?: number;
+        scheduled?: boolean;
+        transaction_valid_start: string;
+    };
+    number: number;
+    total: number;
 }
 
 export interface MirrorTransaction {
@@ -171,3 +214,127 @@ export interface MirrorNetworkStakeResponse {
     staking_periods_stored: number;
     unreserved_staking_reward_balance: number;
 }
+
+export interface MirrorTimestampRange {
+    from: string;
+    to: string | null;
+}
+
+export interface MirrorTopicResponse {
+    topic_id: string;
+    memo?: string;
+    admin_key?: MirrorKeyRaw | null;
+    submit_key?: MirrorKeyRaw | null;
+    auto_renew_account?: string | null;
+    auto_renew_period?: number | null;
+    created_timestamp?: string | null;
+    deleted: boolean;
+}
+
+export interface MirrorContractResponse {
+    contract_id: string;
+    evm_address: string;
+    admin_key?: MirrorKeyRaw | null;
+    auto_renew_account?: string | null;
+    auto_renew_period?: number | null;
+    file_id?: string | null;
+    memo?: string;
+    max_automatic_token_associations?: number;
+    nonce?: number | null;
+    obtainer_id?: string | null;
+    created_timestamp?: string | null;
+    expiration_timestamp?: string | null;
+    deleted: boolean;
+    runtime_bytecode?: string | null;
+}
+
+export interface MirrorContractResultRaw {
+    contract_id: string;
+    timestamp: string;
+    hash?: string;
+    from?: string;
+    to?: string | null;
+    amount?: number;
+    gas_limit: number;
+    gas_used: number;
+    result: string;
+    status?: string;
+    call_result?: string | null;
+    error_message?: string | null;
+    function_parameters?: string;
+    created_contract_ids?: string[] | null;
+    block_number?: number;
+    block_hash?: string;
+    logs?: MirrorContractLogRaw[];
+}
+
+export interface MirrorContractLogRaw {
+    address: string;
+    contract_id: string;
+    data: string | null;
+    index: number;
+    topics: string[];
+}
+
+export interface MirrorContractStateRaw {
+    contract_id: string;
+    address: string;
+    slot: string;
+    value: string;
+    timestamp: string;
+}
+
+export interface MirrorScheduleResponse {
+    schedule_id: string;
+    creator_account_id: string;
+    payer_account_id: string;
+    admin_key?: MirrorKeyRaw | null;
+    memo?: string;
+    consensus_timestamp: string;
+    executed_timestamp?: string | null;
+    expiration_time?: string | null;
+    wait_for_expiry?: boolean;
+    deleted: boolean;
+    transaction_body: string;
+    signatures?: MirrorScheduleSignatureRaw[];
+}
+
+export interface MirrorScheduleSignatureRaw {
+    consensus_timestamp: string;
+    public_key_prefix: string;
+    signature: string;
+    type: string;
+}
+
+export interface MirrorBlockResponse {
+    number: number;
+    hash: string;
+    previous_hash: string;
+    name: string;
+    count: number;
+    hapi_version?: string;
+    gas_used?: number | null;
+    logs_bloom?: string | null;
+    size?: number | null;
+    timestamp: MirrorTimestampRange;
+}
+
+export interface MirrorCryptoAllowanceRaw {
+    owner: string;
+    spender: string;
+    amount: number;
+    amount_granted: number;
+    timestamp: MirrorTimestampRange;
+}
+
+export interface MirrorTokenAllowanceRaw extends MirrorCryptoAllowanceRaw {
+    token_id: string;
+}
+
+export interface MirrorNftAllowanceRaw {
+    owner: string;
+    spender: string;
+    token_id: string;
+    approved_for_all: boolean;
+    timestamp: MirrorTimestampRange;
+}
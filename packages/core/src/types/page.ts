@@ -17,3 +17,15 @@ export interface PageLinks {
     /** Link to the next page (null if no more pages) */
     next: string | null;
 }
+
+/**
+ * Options controlling how far an async pager walks `links.next`.
+ */
+export interface PaginationOptions {
+    /** Stop after yielding this many items (default: unlimited) */
+    maxItems?: number;
+    /** Stop after fetching this many pages (default: unlimited) */
+    maxPages?: number;
+    /** Abort the walk, including any in-flight page request */
+    signal?: AbortSignal;
+}
@@ -0,0 +1,49 @@
+import type { MirrorKey } from "./key.js";
+
+/**
+ * Represents a scheduled transaction (mirror node data).
+ */
+export interface MirrorSchedule {
+    /** Schedule ID */
+    scheduleId: string;
+    /** Account that created the schedule */
+    creatorAccountId: string;
+    /** Account paying for the inner transaction */
+    payerAccountId: string;
+    /** Admin key (can delete the schedule) */
+    adminKey?: string;
+    /** Admin key as a tree, so threshold and key-list keys can be inspected */
+    adminKeyTree?: MirrorKey;
+    /** Schedule memo */
+    memo?: string;
+    /** Consensus timestamp of the schedule creation */
+    consensusTimestamp: string;
+    /** Consensus timestamp of execution, if executed */
+    executedTimestamp?: string;
+    /** Expiration time, if one was set explicitly */
+    expirationTime?: string;
+    /** Whether execution waits for the expiration time */
+    waitForExpiry: boolean;
+    /** Whether the schedule is deleted */
+    deleted: boolean;
+    /** Whether the inner transaction has been executed */
+    executed: boolean;
+    /** Serialized inner transaction body (base64 encoded) */
+    transactionBody: string;
+    /** Signatures collected so far */
+    signatures: MirrorScheduleSignature[];
+}
+
+/**
+ * A signature attached to a scheduled transaction.
+ */
+export interface MirrorScheduleSignature {
+    /** Consensus timestamp at which the signature was added */
+    consensusTimestamp: string;
+    /** Public key prefix (base64 encoded) */
+    publicKeyPrefix: string;
+    /** Signature bytes (base64 encoded) */
+    signature: string;
+    /** Key type (e.g. "ED25519", "ECDSA_SECP256K1") */
+    type: string;
+}
@@ -5,12 +5,18 @@ import type { ScheduleService } from "../services/schedule/index.js";
 import type { FileService } from "../services/file/index.js";
 import type { ContractService } from "../services/contract/index.js";
 import type { TopicService } from "../services/topic/index.js";
+import type { FeeEstimator } from "../services/transaction/index.js";
 import type { AccountRepository } from "../repositories/account-repository.js";
 import type { NftRepository } from "../repositories/nft-repository.js";
 import type { TokenRepository } from "../repositories/token-repository.js";
 import type { TopicRepository } from "../repositories/topic-repository.js";
 import type { TransactionRepository } from "../repositories/transaction-repository.js";
 import type { NetworkRepository } from "../repositories/network-repository.js";
+import type { ContractRepository } from "../repositories/contract-repository.js";
+import type { ScheduleRepository } from "../repositories/schedule-repository.js";
+import type { BlockRepository } from "../repositories/block-repository.js";
+import type { AllowanceRepository } from "../repositories/allowance-repository.js";
+import type { BalanceRepository } from "../repositories/balance-repository.js";
 
 /**
  * All services made available through framework integrations.
@@ -24,10 +30,16 @@ export interface HieroServices {
     tokenService: TokenService;
     contractService: ContractService;
     topicService: TopicService;
+    feeEstimator: FeeEstimator;
     accountRepository: AccountRepository;
     nftRepository: NftRepository;
     tokenRepository: TokenRepository;
     topicRepository: TopicRepository;
     transactionRepository: TransactionRepository;
     networkRepository: NetworkRepository;
+    contractRepository: ContractRepository;
+    scheduleRepository: ScheduleRepository;
+    blockRepository: BlockRepository;
+    allowanceRepository: AllowanceRepository;
+    balanceRepository: BalanceRepository;
 }
@@ -1,3 +1,5 @@
+import type { MirrorKey } from "./key.js";
+
 /**
  * Full token information from the mirror node.
  */
@@ -32,6 +34,24 @@ export interface MirrorTokenInfo {
     pauseKey?: string;
     /** Fee schedule key */
     feeScheduleKey?: string;
+    /** Metadata key (can update token and NFT metadata) */
+    metadataKey?: string;
+    /** Admin key as a tree, so threshold and key-list keys can be inspected */
+    adminKeyTree?: MirrorKey;
+    /** Supply key as a tree */
+    supplyKeyTree?: MirrorKey;
+    /** Freeze key as a tree */
+    freezeKeyTree?: MirrorKey;
+    /** Wipe key as a tree */
+    wipeKeyTree?: MirrorKey;
+    /** KYC key as a tree */
+    kycKeyTree?: MirrorKey;
+    /** Pause key as a tree */
+    pauseKeyTree?: MirrorKey;
+    /** Fee schedule key as a tree */
+    feeScheduleKeyTree?: MirrorKey;
+    /** Metadata key as a tree */
+    metadataKeyTree?: MirrorKey;
     /** Whether the token is deleted */
     deleted: boolean;
     /** Whether the token is paused */
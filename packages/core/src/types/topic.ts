@@ -1,3 +1,5 @@
+import type { MirrorKey } from "./key.js";
+
 /**
  * Represents a topic on the Hiero consensus service (mirror node data).
  */
@@ -10,6 +12,10 @@ export interface MirrorTopic {
     adminKey?: string;
     /** Submit key (required to submit messages if set) */
     submitKey?: string;
+    /** Admin key as a tree, so threshold and key-list keys can be inspected */
+    adminKeyTree?: MirrorKey;
+    /** Submit key as a tree */
+    submitKeyTree?: MirrorKey;
     /** Auto-renew account ID */
     autoRenewAccount?: string;
     /** Auto-renew period in seconds */
@@ -36,4 +42,75 @@ export interface MirrorTopicMessage {
     consensusTimestamp: string;
     /** Payer account ID */
     payerAccountId?: string;
+    /** Position of this message within a chunked submission, if chunked */
+    chunkInfo?: MirrorTopicChunkInfo;
+}
+
+/**
+ * Identifies one chunk of a message that was split across several
+ * `TopicMessageSubmitTransaction`s.
+ */
+export interface MirrorTopicChunkInfo {
+    /** Transaction ID of the first chunk (`account@seconds.nanos`), shared by every chunk */
+    initialTransactionId: string;
+    /** 1-based chunk number */
+    number: number;
+    /** Total number of chunks */
+    total: number;
+}
+
+/**
+ * A complete topic message delivered by `TopicRepository.stream`. Chunked
+ * submissions are reassembled: `message` holds the joined payload and the
+ * remaining fields describe the chunk that completed it.
+ */
+export interface TopicStreamMessage extends MirrorTopicMessage {
+    /** Sequence numbers of every chunk, in chunk order (one entry if unchunked) */
+    chunkSequenceNumbers: string[];
+}
+
+/**
+ * Where a topic stream stopped, as persisted by a {@link TopicStreamCheckpoint}.
+ */
+export interface TopicStreamPosition {
+    /** Sequence number of the last delivered message (its final chunk) */
+    lastSequenceNumber: number;
+    /**
+     * First sequence number to read on resume. Lower than
+     * `lastSequenceNumber + 1` while a chunked message is half received.
+     */
+    resumeFrom: number;
+}
+
+/**
+ * Persistence hook for a topic stream's position, so a restarted process
+ * resumes where the previous one stopped.
+ */
+export interface TopicStreamCheckpoint {
+    /** Return the saved position for a topic, or `undefined` to start fresh */
+    load(topicId: string): Promise<TopicStreamPosition | undefined>;
+    /** Persist the position after a delivered message has been processed */
+    save(topicId: string, position: TopicStreamPosition): Promise<void>;
+}
+
+/**
+ * Options for `TopicRepository.stream`.
+ */
+export interface TopicStreamOptions {
+    /** First sequence number to deliver when no checkpoint is saved (default: 1) */
+    fromSequence?: number;
+    /** Delay between polls once the stream has caught up (default: 2000) */
+    pollIntervalMs?: number;
+    /** Messages requested per page (1–100, default: 100) */
+    pageSize?: number;
+    /** Load and save the stream position across restarts */
+    checkpoint?: TopicStreamCheckpoint;
+    /**
+     * How long after the first chunk every chunk of a message must reach
+     * consensus. A message still missing chunks once a later message passes
+     * this point is skipped (default: 180000, the longest valid duration)
+     */
+    chunkTimeoutMs?: number;
+    /** Stop the stream; the iterator rejects with `ABORTED` */
+    signal?: AbortSignal;
 }
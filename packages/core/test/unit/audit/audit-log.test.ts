@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+    AUDIT_GENESIS_HASH,
+    AuditLogger,
+    FileAuditSink,
+    InMemoryAuditSink,
+    anchorAuditChain,
+    hashAuditEntry,
+    runAuditVerifierCli,
+    verifyAuditChain,
+    verifyAuditLogFile,
+} from "../../../src/audit/index.js";
+import type { AuditRecord } from "../../../src/audit/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+
+function record(overrides: Partial<AuditRecord> = {}): AuditRecord {
+    return {
+        transactionId: "0.0.2@1700000000.000000001",
+        type: "CryptoTransfer",
+        serviceName: "AccountService",
+        methodName: "transferHbar",
+        initiator: "user-42",
+        operatorAccountId: "0.0.2",
+        body: { transactionFee: "200000000", memo: "" },
+        signerPublicKeys: ["302a300506032b6570032100aa"],
+        outcome: "succeeded",
+        status: "SUCCESS",
+        maxTransactionFee: "200000000",
+        ...overrides,
+    };
+}
+
+describe("AuditLogger", () => {
+    it("chains each entry to the hash of the one before", async () => {
+        const sink = new InMemoryAuditSink();
+        const logger = new AuditLogger(sink);
+
+        const first = await logger.record(record());
+        const second = await logger.record(
+            record({ transactionId: "0.0.2@1700000000.000000002" }),
+        );
+
+        expect(first.sequence).toBe(1);
+        expect(first.previousHash).toBe(AUDIT_GENESIS_HASH);
+        expect(second.sequence).toBe(2);
+        expect(second.previousHash).toBe(first.hash);
+        expect(hashAuditEntry(second)).toBe(second.hash);
+        expect(await logger.last()).toEqual(second);
+    });
+
+    it("keeps concurrent records in call order", async () => {
+        const sink = new InMemoryAuditSink();
+        const logger = new AuditLogger(sink);
+
+        await Promise.all(
+            [1, 2, 3].map((n) =>
+                logger.record(
+                    record({ transactionId: `0.0.2@1700000000.00000000${n}` }),
+                ),
+            ),
+        );
+
+        const entries = await sink.readAll();
+        expect(entries.map((e) => e.transactionId.slice(-1))).toEqual([
+            "1",
+            "2",
+            "3",
+        ]);
+        expect(verifyAuditChain(entries).valid).toBe(true);
+    });
+
+    it("continues the chain after a failed write", async () => {
+        const sink = new InMemoryAuditSink();
+        const logger = new AuditLogger(sink);
+        vi.spyOn(sink, "append").mockRejectedValueOnce(new Error("disk full"));
+
+        await expect(logger.record(record())).rejects.toBeInstanceOf(
+            HieroError,
+        );
+        const entry = await logger.record(record());
+
+        expect(entry.sequence).toBe(1);
+        expect(verifyAuditChain(await sink.readAll()).valid).toBe(true);
+    });
+});
+
+describe("verifyAuditChain", () => {
+    async function chain() {
+        const sink = new InMemoryAuditSink();
+        const logger = new AuditLogger(sink);
+        for (const n of [1, 2, 3]) {
+            await logger.record(
+                record({ transactionId: `0.0.2@1700000000.00000000${n}` }),
+            );
+        }
+        return sink.readAll();
+    }
+
+    it("accepts an intact chain and reports its head", async () => {
+        const entries = await chain();
+
+        expect(verifyAuditChain(entries)).toEqual({
+            valid: true,
+            entries: 3,
+            headHash: entries[2].hash,
+        });
+    });
+
+    it("detects an edited entry", async () => {
+        const entries = await chain();
+        entries[1].body = { ...entries[1].body, memo: "edited" };
+
+        expect(verifyAuditChain(entries)).toMatchObject({
+            valid: false,
+            failure: {
+                position: 2,
+                reason: "hash does not match the entry's contents",
+            },
+        });
+    });
+
+    it("detects a removed entry", async () => {
+        const entries = await chain();
+        entries.splice(1, 1);
+
+        expect(verifyAuditChain(entries).failure).toEqual({
+            position: 2,
+            reason: "expected sequence 2, found 3",
+        });
+    });
+
+    it("detects a rewrite that drops an anchored entry", async () => {
+        const entries = await chain();
+        const anchored = entries[2].hash;
+
+        expect(verifyAuditChain(entries, anchored).valid).toBe(true);
+        expect(verifyAuditChain(entries.slice(0, 2), anchored)).toMatchObject({
+            valid: false,
+            failure: { reason: "the anchored hash is not in the log" },
+        });
+    });
+});
+
+describe("FileAuditSink", () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "audit-"));
+        path = join(dir, "audit.jsonl");
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("continues the chain written by an earlier instance", async () => {
+        const first = await new AuditLogger(new FileAuditSink(path)).record(
+            record(),
+        );
+
+        const second = await new AuditLogger(new FileAuditSink(path)).record(
+            record(),
+        );
+
+        expect(second.sequence).toBe(2);
+        expect(second.previousHash).toBe(first.hash);
+        expect(await verifyAuditLogFile(path)).toMatchObject({
+            valid: true,
+            entries: 2,
+            headHash: second.hash,
+        });
+    });
+
+    it("cuts off a torn final line before appending", async () => {
+        await new AuditLogger(new FileAuditSink(path)).record(record());
+        await appendFile(path, '{"transactionId":"0.0.2@17', "utf8");
+
+        expect(await new FileAuditSink(path).readAll()).toHaveLength(1);
+        await new AuditLogger(new FileAuditSink(path)).record(record());
+
+        const lines = (await readFile(path, "utf8")).trim().split("\n");
+        expect(lines).toHaveLength(2);
+        expect((await verifyAuditLogFile(path)).valid).toBe(true);
+    });
+
+    it("rejects a complete line that is not JSON", async () => {
+        await writeFile(path, "not json\n", "utf8");
+
+        const error = (await verifyAuditLogFile(path).catch(
+            (e: unknown) => e,
+        )) as HieroError;
+
+        expect(error.code).toBe(HieroErrorCodes.CodecError);
+    });
+});
+
+describe("runAuditVerifierCli", () => {
+    let dir: string;
+    let path: string;
+    let lines: { out: string[]; err: string[] };
+    const output = {
+        out: (line: string) => lines.out.push(line),
+        err: (line: string) => lines.err.push(line),
+    };
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "audit-"));
+        path = join(dir, "audit.jsonl");
+        lines = { out: [], err: [] };
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("exits 0 for an intact log and prints its head", async () => {
+        const logger = new AuditLogger(new FileAuditSink(path));
+        await logger.record(record());
+        const head = await logger.record(record());
+
+        expect(await runAuditVerifierCli([path], output)).toBe(0);
+        expect(lines.out).toEqual([
+            `Audit log is intact: 2 entries, head ${head.hash}`,
+        ]);
+    });
+
+    it("exits 1 for a broken chain or a missing anchor", async () => {
+        await new AuditLogger(new FileAuditSink(path)).record(record());
+
+        expect(
+            await runAuditVerifierCli(
+                [path, "--anchor", "ab".repeat(24)],
+                output,
+            ),
+        ).toBe(1);
+        expect(lines.err[0]).toContain("the anchored hash is not in the log");
+    });
+
+    it("exits 2 for a missing file or bad arguments", async () => {
+        expect(await runAuditVerifierCli([path], output)).toBe(2);
+        expect(await runAuditVerifierCli([], output)).toBe(2);
+        expect(await runAuditVerifierCli([path, "--bogus"], output)).toBe(2);
+        expect(lines.err[0]).toMatch(/^Cannot verify .*ENOENT/);
+        expect(lines.err[1]).toMatch(/^Usage: hiero-verify-audit-log/);
+    });
+});
+
+describe("anchorAuditChain", () => {
+    it("submits the head hash to the topic", async () => {
+        const logger = new AuditLogger(new InMemoryAuditSink());
+        const head = await logger.record(record());
+        const submitMessage = vi.fn().mockResolvedValue({
+            transactionId: "0.0.2@1700000001.000000000",
+        });
+
+        const { anchor } = await anchorAuditChain(
+            logger,
+            { submitMessage },
+            { topicId: "0.0.5000" },
+        );
+
+        expect(anchor).toEqual({
+            type: "hiero-audit-anchor",
+            sequence: 1,
+            hash: head.hash,
+        });
+        expect(submitMessage).toHaveBeenCalledWith({
+            topicId: "0.0.5000",
+            message: JSON.stringify(anchor),
+        });
+    });
+
+    it("refuses to anchor an empty log", async () => {
+        const error = (await anchorAuditChain(
+            new AuditLogger(new InMemoryAuditSink()),
+            { submitMessage: vi.fn() },
+            { topicId: "0.0.5000" },
+        ).catch((e: unknown) => e)) as HieroError;
+
+        expect(error.code).toBe(HieroErrorCodes.NotFound);
+    });
+});
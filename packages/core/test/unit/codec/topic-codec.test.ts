@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+    binaryCodec,
+    decodeTopicPayload,
+    encodeTopicPayload,
+    jsonCodec,
+    textCodec,
+} from "../../../src/codec/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("textCodec", () => {
+    it("round-trips UTF-8 text", () => {
+        const codec = textCodec();
+        expect(codec.decode(codec.encode("héllo ✓"))).toBe("héllo ✓");
+    });
+
+    it("rejects malformed UTF-8", () => {
+        expect(() =>
+            textCodec().decode(new Uint8Array([0xff, 0xfe])),
+        ).toThrow();
+    });
+});
+
+describe("jsonCodec", () => {
+    it("round-trips JSON values", () => {
+        const codec = jsonCodec<{ amount: number }>();
+        expect(codec.decode(codec.encode({ amount: 5 }))).toEqual({
+            amount: 5,
+        });
+    });
+
+    it("narrows the parsed value with parse", () => {
+        const codec = jsonCodec({
+            parse: (value) => {
+                if (typeof value !== "number") throw new Error("not a number");
+                return value;
+            },
+        });
+
+        expect(codec.decode(bytes("42"))).toBe(42);
+        expect(() => codec.decode(bytes('"42"'))).toThrow("not a number");
+    });
+});
+
+describe("binaryCodec", () => {
+    it("accepts protobuf.js-style writers with finish()", () => {
+        const codec = binaryCodec<number[]>({
+            encode: (value) => ({ finish: () => new Uint8Array(value) }),
+            decode: (data) => [...data],
+        });
+
+        expect(codec.encode([1, 2, 3])).toEqual(new Uint8Array([1, 2, 3]));
+        expect(codec.decode(new Uint8Array([4, 5]))).toEqual([4, 5]);
+    });
+});
+
+describe("encodeTopicPayload / decodeTopicPayload", () => {
+    it("wraps encode failures in a CODEC_ERROR", () => {
+        const cyclic: Record<string, unknown> = {};
+        cyclic["self"] = cyclic;
+
+        let error: unknown;
+        try {
+            encodeTopicPayload(jsonCodec(), cyclic, "Test");
+        } catch (err) {
+            error = err;
+        }
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect((error as HieroError).code).toBe(HieroErrorCodes.CodecError);
+        expect((error as HieroError).context).toBe("Test");
+    });
+
+    it("returns decode failures instead of throwing", () => {
+        const result = decodeTopicPayload(jsonCodec(), bytes("{oops"), "Test");
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error.code).toBe(HieroErrorCodes.CodecError);
+            expect(result.error.cause).toBeInstanceOf(SyntaxError);
+        }
+    });
+
+    it("returns the decoded value on success", () => {
+        expect(decodeTopicPayload(textCodec(), bytes("hi"), "Test")).toEqual({
+            ok: true,
+            value: "hi",
+        });
+    });
+});
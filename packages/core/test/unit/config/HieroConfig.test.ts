@@ -1,7 +1,12 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+    assertEnvConfigValid,
     resolveConfigFromEnv,
     resolveMirrorNodeUrl,
+    resolveMirrorNodeUrls,
 } from "../../../src/config/index.js";
 import { OperatorKeyType } from "../../../src/types/index.js";
 
@@ -41,6 +46,32 @@ describe("resolveMirrorNodeUrl", () => {
     });
 });
 
+describe("resolveMirrorNodeUrls", () => {
+    it("wraps a single URL in a list", () => {
+        expect(resolveMirrorNodeUrls("testnet")).toEqual([
+            "https://testnet.mirrornode.hedera.com",
+        ]);
+        expect(resolveMirrorNodeUrls("devnet", "http://custom:8080")).toEqual([
+            "http://custom:8080",
+        ]);
+    });
+
+    it("keeps an explicit list in order", () => {
+        expect(
+            resolveMirrorNodeUrls("testnet", [
+                "http://a:8080",
+                "http://b:8080",
+            ]),
+        ).toEqual(["http://a:8080", "http://b:8080"]);
+    });
+
+    it("falls back to the network default for an empty list", () => {
+        expect(resolveMirrorNodeUrls("mainnet", [])).toEqual([
+            "https://mainnet.mirrornode.hedera.com",
+        ]);
+    });
+});
+
 describe("resolveConfigFromEnv", () => {
     const env = process.env;
 
@@ -68,6 +99,33 @@ describe("resolveConfigFromEnv", () => {
         process.env = env;
     });
 
+    it("splits a comma-separated HIERO_MIRROR_NODE_URL", () => {
+        process.env = {
+            HIERO_NETWORK: "testnet",
+            HIERO_OPERATOR_ID: "0.0.1",
+            HIERO_OPERATOR_KEY: "key123",
+            HIERO_OPERATOR_KEY_TYPE: "ED25519",
+            HIERO_MIRROR_NODE_URL: "http://a:8080, http://b:8080",
+        };
+        expect(resolveConfigFromEnv()?.mirrorNodeUrl).toEqual([
+            "http://a:8080",
+            "http://b:8080",
+        ]);
+        process.env = env;
+    });
+
+    it("reads the mirror node API key", () => {
+        process.env = {
+            HIERO_NETWORK: "testnet",
+            HIERO_OPERATOR_ID: "0.0.1",
+            HIERO_OPERATOR_KEY: "key123",
+            HIERO_OPERATOR_KEY_TYPE: "ED25519",
+            HIERO_MIRROR_NODE_API_KEY: "secret",
+        };
+        expect(resolveConfigFromEnv()?.mirrorNodeApiKey).toBe("secret");
+        process.env = env;
+    });
+
     it("returns null when operatorKeyType is missing", () => {
         process.env = {
             HIERO_NETWORK: "testnet",
@@ -78,3 +136,85 @@ describe("resolveConfigFromEnv", () => {
         process.env = env;
     });
 });
+
+describe("resolveConfigFromEnv with secret files", () => {
+    const env = process.env;
+    const base = {
+        HIERO_NETWORK: "testnet",
+        HIERO_OPERATOR_ID: "0.0.1",
+    };
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "hiero-env-"));
+    });
+
+    afterEach(async () => {
+        process.env = env;
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads a _FILE variable, trimming the trailing newline", async () => {
+        const path = join(dir, "api_key");
+        await writeFile(path, "secret\n");
+        process.env = {
+            ...base,
+            HIERO_OPERATOR_KEY: "key123",
+            HIERO_OPERATOR_KEY_TYPE: "ed25519",
+            HIERO_MIRROR_NODE_API_KEY_FILE: path,
+        };
+
+        expect(resolveConfigFromEnv()?.mirrorNodeApiKey).toBe("secret");
+    });
+
+    it("loads HIERO_OPERATOR_KEY_FILE lazily through a provider", () => {
+        const path = join(dir, "operator_key");
+        process.env = {
+            ...base,
+            HIERO_OPERATOR_KEY_FILE: path,
+            HIERO_OPERATOR_KEY_TYPE: "ed25519",
+            HIERO_OPERATOR_PUBLIC_KEY: "302a...",
+        };
+
+        // The file does not exist yet: nothing is read until the key is loaded
+        const config = resolveConfigFromEnv();
+
+        expect(config?.operatorKey).toBeUndefined();
+        expect(config?.operatorKeyProvider?.source).toBe(`key file ${path}`);
+        expect(config?.operatorPublicKey).toBe("302a...");
+    });
+
+    it("names what a key file or keystore still needs", () => {
+        process.env = { ...base, HIERO_OPERATOR_KEY_FILE: "/run/secrets/k" };
+        expect(resolveConfigFromEnv()).toBeNull();
+        expect(() => assertEnvConfigValid()).toThrow(
+            /HIERO_OPERATOR_KEY_TYPE[\s\S]*HIERO_OPERATOR_PUBLIC_KEY/,
+        );
+
+        process.env = { ...base, HIERO_OPERATOR_KEYSTORE: "/k.json" };
+        expect(() => assertEnvConfigValid()).toThrow(
+            /HIERO_OPERATOR_KEYSTORE_PASSPHRASE/,
+        );
+    });
+
+    it("rejects conflicting sources", () => {
+        process.env = {
+            ...base,
+            HIERO_OPERATOR_KEY: "key123",
+            HIERO_OPERATOR_KEY_FILE: "/run/secrets/k",
+            HIERO_OPERATOR_KEY_TYPE: "ed25519",
+        };
+        expect(() => resolveConfigFromEnv()).toThrow(
+            "Set only one of HIERO_OPERATOR_KEY, HIERO_OPERATOR_KEY_FILE.",
+        );
+
+        process.env = {
+            ...base,
+            HIERO_OPERATOR_KEY: "key123",
+            HIERO_OPERATOR_KEY_TYPE: "ed25519",
+            HIERO_MIRROR_NODE_API_KEY: "a",
+            HIERO_MIRROR_NODE_API_KEY_FILE: "/run/secrets/a",
+        };
+        expect(() => resolveConfigFromEnv()).toThrow(/not both/);
+    });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { HieroContext } from "../../../src/context/index.js";
 import { OperatorKeyType } from "../../../src/types/index.js";
-import type { Transaction } from "@hiero-ledger/sdk";
+import type { PublicKey, Transaction } from "@hiero-ledger/sdk";
 import { Client, PrivateKey } from "@hiero-ledger/sdk";
 import * as configModule from "../../../src/config/index.js";
 
@@ -11,6 +11,7 @@ vi.mock("@hiero-ledger/sdk", async (importOriginal) => {
 
     const mockClient = {
         setOperator: vi.fn().mockReturnThis(),
+        setOperatorWith: vi.fn().mockReturnThis(),
         setRequestTimeout: vi.fn().mockReturnThis(),
         setMaxAttempts: vi.fn().mockReturnThis(),
         setMinBackoff: vi.fn().mockReturnThis(),
@@ -57,6 +58,7 @@ describe("HieroContext", () => {
             "302e020100300506032b6570042204203b054ddd0c62d577ce0fbb0e92dcce0d5bea42a98a5c9663271939881ce19208",
         operatorKeyType: OperatorKeyType.DER,
     };
+    const { operatorKey: _operatorKey, ...publicConfig } = validConfig;
 
     beforeEach(() => {
         vi.clearAllMocks();
@@ -66,7 +68,7 @@ describe("HieroContext", () => {
         it("creates a context with valid explicit config", () => {
             const ctx = new HieroContext(validConfig);
 
-            expect(ctx.config).toEqual(validConfig);
+            expect(ctx.config).toEqual(publicConfig);
             expect(ctx.operatorAccountId.toString()).toBe("0.0.2");
             expect(ctx.operatorPublicKey.toString()).toBe(
                 "mock-public-key-der",
@@ -75,6 +77,15 @@ describe("HieroContext", () => {
             expect(ctx.client.setOperator).toHaveBeenCalled();
         });
 
+        it("does not keep the plaintext operator key on config", () => {
+            const ctx = new HieroContext(validConfig);
+
+            expect(ctx.config).not.toHaveProperty("operatorKey");
+            expect(JSON.stringify(ctx.config)).not.toContain(
+                validConfig.operatorKey,
+            );
+        });
+
         it("creates independent instances (no singleton)", () => {
             const ctx1 = new HieroContext(validConfig);
             const ctx2 = new HieroContext(validConfig);
@@ -92,7 +103,7 @@ describe("HieroContext", () => {
 
             const ctx = new HieroContext();
 
-            expect(ctx.config).toEqual(validConfig);
+            expect(ctx.config).toEqual(publicConfig);
             expect(configModule.assertEnvConfigValid).toHaveBeenCalled();
             expect(configModule.resolveConfigFromEnv).toHaveBeenCalled();
         });
@@ -174,6 +185,86 @@ describe("HieroContext", () => {
         });
     });
 
+    describe("Operator Signer", () => {
+        const publicKey = {
+            toString: () => "hsm-public-key",
+        } as unknown as PublicKey;
+
+        function signerConfig() {
+            const sign = vi.fn().mockResolvedValue(new Uint8Array([1, 2]));
+            return {
+                sign,
+                config: {
+                    network: "testnet",
+                    operatorId: "0.0.2",
+                    operatorSigner: { publicKey, sign },
+                },
+            };
+        }
+
+        it("sets the client operator from the external signer", async () => {
+            const { sign, config } = signerConfig();
+            const ctx = new HieroContext(config);
+
+            expect(ctx.client.setOperator).not.toHaveBeenCalled();
+            expect(ctx.client.setOperatorWith).toHaveBeenCalledWith(
+                ctx.operatorAccountId,
+                publicKey,
+                expect.any(Function),
+            );
+            expect(ctx.operatorPublicKey).toBe(publicKey);
+
+            const clientSigner = vi.mocked(ctx.client.setOperatorWith).mock
+                .calls[0][2];
+            await clientSigner(new Uint8Array([9]));
+            expect(sign).toHaveBeenCalledWith(new Uint8Array([9]));
+        });
+
+        it("signTransaction signs through the external signer", async () => {
+            const { sign, config } = signerConfig();
+            const ctx = new HieroContext(config);
+            const mockTx = {
+                signWith: vi.fn(
+                    async (
+                        _key: PublicKey,
+                        signer: (message: Uint8Array) => Promise<Uint8Array>,
+                    ) => {
+                        await signer(new Uint8Array([7]));
+                        return "signed";
+                    },
+                ),
+            } as unknown as Transaction;
+
+            const result = await ctx.signTransaction(mockTx);
+
+            expect(result).toBe("signed");
+            expect(mockTx.signWith).toHaveBeenCalledWith(
+                publicKey,
+                expect.any(Function),
+            );
+            expect(sign).toHaveBeenCalledWith(new Uint8Array([7]));
+        });
+
+        it("rejects an operator key together with a signer", () => {
+            const { config } = signerConfig();
+            expect(
+                () => new HieroContext({ ...validConfig, ...config }),
+            ).toThrow(
+                /only one of operatorKey, operatorKeyProvider and operatorSigner/,
+            );
+        });
+
+        it("requires an operator key or a signer", () => {
+            expect(
+                () =>
+                    new HieroContext({
+                        network: "testnet",
+                        operatorId: "0.0.2",
+                    }),
+            ).toThrow(/Missing operator credentials/);
+        });
+    });
+
     describe("Key Type Parsing", () => {
         it("parses DER key via PrivateKey.fromStringDer", () => {
             const ctx = new HieroContext({
@@ -258,6 +349,114 @@ describe("HieroContext", () => {
             });
             expect(mockListener.onAfterTransaction).not.toHaveBeenCalled();
         });
+
+        it("isolates a failing listener and reports it", async () => {
+            const onListenerError = vi.fn();
+            const ctx = new HieroContext({ ...validConfig, onListenerError });
+            const after = vi.fn();
+            ctx.addTransactionListener({
+                onBeforeTransaction: () => {
+                    throw new Error("listener bug");
+                },
+            });
+            ctx.addTransactionListener({ onBeforeTransaction: after });
+            const event = {
+                type: "AccountCreate",
+                serviceName: "Test",
+                methodName: "test",
+                timestamp: new Date(),
+            };
+
+            await expect(ctx.emitBeforeTransaction(event)).resolves.toBe(
+                undefined,
+            );
+
+            expect(after).toHaveBeenCalledTimes(1);
+            expect(onListenerError).toHaveBeenCalledWith(
+                expect.objectContaining({ message: "listener bug" }),
+                event,
+            );
+        });
+
+        it("reports listener failures as warnings by default", async () => {
+            const ctx = new HieroContext(validConfig);
+            const warn = vi
+                .spyOn(process, "emitWarning")
+                .mockImplementation(() => undefined);
+            ctx.addTransactionListener({
+                onAfterTransaction: () => Promise.reject(new Error("boom")),
+            });
+
+            await ctx.emitAfterTransaction({
+                type: "AccountCreate",
+                serviceName: "Test",
+                methodName: "test",
+                timestamp: new Date(),
+            });
+
+            expect(warn).toHaveBeenCalledWith(
+                expect.stringContaining("Test.test: boom"),
+                "HieroListenerWarning",
+            );
+            warn.mockRestore();
+        });
+
+        it("registers and removes interceptors in order", () => {
+            const ctx = new HieroContext(validConfig);
+            const first = vi.fn();
+            const second = vi.fn();
+
+            ctx.addInterceptor(first);
+            ctx.addInterceptor(second);
+            expect(ctx.interceptors).toEqual([first, second]);
+
+            ctx.removeInterceptor(first);
+            expect(ctx.interceptors).toEqual([second]);
+        });
+
+        it("instruments itself when telemetry is enabled", () => {
+            const ctx = new HieroContext({ ...validConfig, telemetry: true });
+
+            expect(ctx.telemetry).toBeDefined();
+            expect(ctx.interceptors).toEqual([ctx.telemetry!.interceptor]);
+            expect(new HieroContext(validConfig).telemetry).toBeUndefined();
+        });
+
+        it("registers the configured spending policy first", () => {
+            const ctx = new HieroContext({
+                ...validConfig,
+                spendingPolicy: { hbar: { perTransaction: 10 } },
+            });
+            const added = vi.fn();
+            ctx.addInterceptor(added);
+
+            expect(ctx.interceptors).toHaveLength(2);
+            expect(ctx.interceptors[1]).toBe(added);
+        });
+
+        it("emits retry events to listeners that handle them", async () => {
+            const ctx = new HieroContext(validConfig);
+            const onTransactionRetry = vi.fn();
+            ctx.addTransactionListener({ onBeforeTransaction: vi.fn() });
+            ctx.addTransactionListener({ onTransactionRetry });
+
+            await ctx.emitTransactionRetry({
+                type: "AccountCreate",
+                serviceName: "Test",
+                methodName: "test",
+                timestamp: new Date(),
+                attempt: 2,
+                maxAttempts: 3,
+                delayMs: 500,
+                status: "BUSY",
+                regenerateTransactionId: false,
+                error: new Error("BUSY"),
+            });
+
+            expect(onTransactionRetry).toHaveBeenCalledWith(
+                expect.objectContaining({ attempt: 2, status: "BUSY" }),
+            );
+        });
     });
 
     describe("SDK Tuning", () => {
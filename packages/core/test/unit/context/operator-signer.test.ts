@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    AccountId,
+    Hbar,
+    PrivateKey,
+    TransactionId,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import { HieroContext } from "../../../src/context/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import type { SecretProvider } from "../../../src/secrets/index.js";
+
+/**
+ * Software stand-in for an HSM or KMS signer: the context only ever sees
+ * the public key and the async sign function.
+ */
+function softwareSigner(key: PrivateKey) {
+    return {
+        publicKey: key.publicKey,
+        sign: (message: Uint8Array) => Promise.resolve(key.sign(message)),
+    };
+}
+
+function signerPublicKeys(tx: TransferTransaction): string[] {
+    const keys: string[] = [];
+    for (const [, byTransactionId] of tx.getSignatures()) {
+        for (const [, byPublicKey] of byTransactionId) {
+            for (const [publicKey] of byPublicKey) {
+                keys.push(publicKey.toStringDer());
+            }
+        }
+    }
+    return keys;
+}
+
+describe("HieroContext with an operator signer", () => {
+    const key = PrivateKey.generateED25519();
+    let ctx: HieroContext;
+
+    afterEach(() => {
+        ctx.close();
+    });
+
+    function frozenTransfer(): TransferTransaction {
+        const operator = AccountId.fromString("0.0.2");
+        return new TransferTransaction()
+            .addHbarTransfer(operator, new Hbar(-1))
+            .addHbarTransfer("0.0.1001", new Hbar(1))
+            .setTransactionId(TransactionId.generate(operator))
+            .freezeWith(ctx.client);
+    }
+
+    it("produces operator signatures that verify against the public key", async () => {
+        ctx = new HieroContext({
+            network: "local",
+            networkNodes: { "127.0.0.1:50211": "0.0.3" },
+            operatorId: "0.0.2",
+            operatorSigner: softwareSigner(key),
+        });
+
+        const tx = await ctx.signTransaction(frozenTransfer());
+
+        expect(signerPublicKeys(tx)).toEqual([key.publicKey.toStringDer()]);
+        expect(key.publicKey.verifyTransaction(tx)).toBe(true);
+    });
+
+    it("lets the client sign as the operator at submission", async () => {
+        ctx = new HieroContext({
+            network: "local",
+            networkNodes: { "127.0.0.1:50211": "0.0.3" },
+            operatorId: "0.0.2",
+            operatorSigner: softwareSigner(key),
+        });
+
+        const tx = await frozenTransfer().signWithOperator(ctx.client);
+
+        expect(ctx.client.operatorPublicKey?.toStringDer()).toBe(
+            key.publicKey.toStringDer(),
+        );
+        expect(key.publicKey.verifyTransaction(tx)).toBe(true);
+    });
+
+    describe("with an operator key provider", () => {
+        function provider(loaded = key) {
+            const loadKey = vi.fn(() => Promise.resolve(loaded));
+            const secrets: SecretProvider = {
+                source: "test vault",
+                publicKey: key.publicKey,
+                loadKey,
+            };
+            return { secrets, loadKey };
+        }
+
+        it("loads the key on the first signature only", async () => {
+            const { secrets, loadKey } = provider();
+            ctx = new HieroContext({
+                network: "local",
+                networkNodes: { "127.0.0.1:50211": "0.0.3" },
+                operatorId: "0.0.2",
+                operatorKeyProvider: secrets,
+            });
+
+            expect(ctx.operatorPublicKey.equals(key.publicKey)).toBe(true);
+            expect(loadKey).not.toHaveBeenCalled();
+
+            const first = await ctx.signTransaction(frozenTransfer());
+            await ctx.signTransaction(frozenTransfer());
+
+            expect(loadKey).toHaveBeenCalledTimes(1);
+            expect(key.publicKey.verifyTransaction(first)).toBe(true);
+        });
+
+        it("rejects a loaded key that is not the operator key", async () => {
+            const { secrets } = provider(PrivateKey.generateED25519());
+            ctx = new HieroContext({
+                network: "local",
+                networkNodes: { "127.0.0.1:50211": "0.0.3" },
+                operatorId: "0.0.2",
+                operatorKeyProvider: secrets,
+            });
+
+            const error = (await ctx
+                .signTransaction(frozenTransfer())
+                .catch((e: unknown) => e)) as HieroError;
+
+            expect(error).toBeInstanceOf(HieroError);
+            expect(error.code).toBe(HieroErrorCodes.ConfigInvalid);
+            expect(error.message).toMatch(/test vault does not match/);
+        });
+
+        it("needs the public key when the source does not store it", () => {
+            const { loadKey } = provider();
+            const config = {
+                network: "local",
+                networkNodes: { "127.0.0.1:50211": "0.0.3" },
+                operatorId: "0.0.2",
+                operatorKeyProvider: { source: "test vault", loadKey },
+            };
+
+            expect(() => new HieroContext(config)).toThrow(
+                /Set operatorPublicKey/,
+            );
+            ctx = new HieroContext({
+                ...config,
+                operatorPublicKey: key.publicKey.toStringDer(),
+            });
+            expect(ctx.operatorPublicKey.equals(key.publicKey)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    AccountId,
+    ExchangeRate,
+    Status,
+    TransactionReceipt,
+    TransactionReceiptQuery,
+} from "@hiero-ledger/sdk";
+import {
+    InMemoryTransactionJournal,
+    recoverInFlightTransactions,
+    type JournalEntry,
+} from "../../../src/journal/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { createMockContext } from "../../utils/mock-context.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { IHieroContext } from "../../../src/context/index.js";
+import { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+const rate = new ExchangeRate({
+    hbars: 30000,
+    cents: 120000,
+    expirationTime: new Date(0),
+});
+
+function receipt(status: Status): TransactionReceipt {
+    return new TransactionReceipt({
+        status,
+        accountId: AccountId.fromString("0.0.1001"),
+        exchangeRate: rate,
+        nextExchangeRate: rate,
+    } as never);
+}
+
+/** An in-flight entry that expires `expiresInMs` from now */
+function entry(expiresInMs: number, seconds = 1700000000): JournalEntry {
+    const now = new Date().toISOString();
+    return {
+        transactionId: `0.0.2@${seconds}.000000001`,
+        type: "CryptoTransfer",
+        serviceName: "AccountService",
+        methodName: "transferHbar",
+        bytes: new Uint8Array([1]),
+        expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+        status: "in-flight",
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+describe("recoverInFlightTransactions", () => {
+    let context: IHieroContext;
+    let journal: InMemoryTransactionJournal;
+    let mirror: ReturnType<typeof createMockMirrorNodeClient>;
+    let receiptQuery: ReturnType<typeof vi.spyOn>;
+
+    function mirrorNodeClient(): MirrorNodeClient {
+        return mirror as unknown as MirrorNodeClient;
+    }
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        journal = new InMemoryTransactionJournal();
+        context = createMockContext();
+        (context as { journal: unknown }).journal = journal;
+        mirror = createMockMirrorNodeClient();
+        receiptQuery = vi.spyOn(TransactionReceiptQuery.prototype, "execute");
+    });
+
+    it("does nothing without a journal", async () => {
+        (context as { journal: unknown }).journal = undefined;
+
+        expect(
+            await recoverInFlightTransactions(context, mirrorNodeClient()),
+        ).toEqual({
+            resolved: [],
+            pending: [],
+        });
+    });
+
+    it("resolves recent entries from the receipt", async () => {
+        await journal.put(entry(60_000));
+        receiptQuery.mockResolvedValue(receipt(Status.Success));
+
+        const { resolved, pending } = await recoverInFlightTransactions(
+            context,
+            mirrorNodeClient(),
+        );
+
+        expect(pending).toEqual([]);
+        expect(resolved[0]).toMatchObject({
+            status: "succeeded",
+            receiptStatus: "SUCCESS",
+        });
+        expect(TransactionReceipt.fromBytes(resolved[0].receipt!).status).toBe(
+            Status.Success,
+        );
+        expect(await journal.findInFlight()).toEqual([]);
+    });
+
+    it("records a failed receipt status", async () => {
+        await journal.put(entry(60_000));
+        receiptQuery.mockResolvedValue(receipt(Status.InvalidSignature));
+
+        const { resolved } = await recoverInFlightTransactions(
+            context,
+            mirrorNodeClient(),
+        );
+
+        expect(resolved[0]).toMatchObject({
+            status: "failed",
+            receiptStatus: "INVALID_SIGNATURE",
+        });
+    });
+
+    it("falls back to the mirror node for entries past receipt retention", async () => {
+        await journal.put(entry(-600_000));
+        const queryTransaction = vi
+            .spyOn(mirror, "queryTransaction")
+            .mockResolvedValue({
+                ...(await mirror.queryTransaction("x")),
+                result: "SUCCESS",
+                successful: true,
+            });
+
+        const { resolved } = await recoverInFlightTransactions(
+            context,
+            mirrorNodeClient(),
+        );
+
+        expect(receiptQuery).not.toHaveBeenCalled();
+        expect(queryTransaction).toHaveBeenCalledWith(
+            "0.0.2-1700000000-000000001",
+        );
+        expect(resolved[0]).toMatchObject({
+            status: "succeeded",
+            receiptStatus: "SUCCESS",
+        });
+    });
+
+    it("marks expired transactions unknown to the mirror node as failed", async () => {
+        await journal.put(entry(-600_000));
+        // The mirror node answers 404 for a transaction ID it has never seen
+        const fetch = vi
+            .spyOn(globalThis, "fetch")
+            .mockResolvedValue(
+                new Response(null, { status: 404, statusText: "Not Found" }),
+            );
+
+        const { resolved } = await recoverInFlightTransactions(
+            context,
+            new MirrorNodeClient("https://testnet.mirrornode.hedera.com"),
+        );
+
+        expect(fetch.mock.calls[0][0]).toBe(
+            "https://testnet.mirrornode.hedera.com/api/v1/transactions/0.0.2-1700000000-000000001",
+        );
+
+        expect(resolved[0].status).toBe("failed");
+        expect(resolved[0].error).toContain(
+            "expired without reaching consensus",
+        );
+    });
+
+    it("leaves unexpired unknown transactions pending", async () => {
+        await journal.put(entry(60_000));
+        receiptQuery.mockResolvedValue(receipt(Status.Unknown));
+        vi.spyOn(mirror, "queryTransaction").mockRejectedValue(
+            new HieroError("Transaction not found", {
+                code: HieroErrorCodes.NotFound,
+            }),
+        );
+
+        const { resolved, pending } = await recoverInFlightTransactions(
+            context,
+            mirrorNodeClient(),
+        );
+
+        expect(resolved).toEqual([]);
+        expect(pending).toHaveLength(1);
+        expect(await journal.findInFlight()).toHaveLength(1);
+    });
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+    FileTransactionJournal,
+    InMemoryTransactionJournal,
+    type JournalEntry,
+    type TransactionJournal,
+} from "../../../src/journal/index.js";
+
+function entry(overrides: Partial<JournalEntry> = {}): JournalEntry {
+    return {
+        transactionId: "0.0.2@1700000000.000000001",
+        type: "CryptoTransfer",
+        serviceName: "AccountService",
+        methodName: "transferHbar",
+        bytes: new Uint8Array([1, 2, 3]),
+        expiresAt: "2023-11-14T22:15:20.000Z",
+        status: "in-flight",
+        createdAt: "2023-11-14T22:13:20.000Z",
+        updatedAt: "2023-11-14T22:13:20.000Z",
+        ...overrides,
+    };
+}
+
+describe.each([
+    ["InMemoryTransactionJournal", () => new InMemoryTransactionJournal()],
+    [
+        "FileTransactionJournal",
+        async () =>
+            new FileTransactionJournal(
+                join(await mkdtemp(join(tmpdir(), "journal-")), "tx.jsonl"),
+            ),
+    ],
+])("%s", (_name, create) => {
+    let journal: TransactionJournal;
+
+    beforeEach(async () => {
+        journal = await create();
+    });
+
+    it("replaces an entry with the same transaction ID", async () => {
+        await journal.put(entry());
+        await journal.put(
+            entry({
+                status: "succeeded",
+                receiptStatus: "SUCCESS",
+                receipt: new Uint8Array([9]),
+            }),
+        );
+
+        const stored = await journal.get("0.0.2@1700000000.000000001");
+        expect(stored).toMatchObject({
+            status: "succeeded",
+            receiptStatus: "SUCCESS",
+        });
+        expect(stored!.receipt).toEqual(new Uint8Array([9]));
+        expect(stored!.bytes).toEqual(new Uint8Array([1, 2, 3]));
+        expect(await journal.findInFlight()).toEqual([]);
+    });
+
+    it("finds the latest entry for an idempotency key", async () => {
+        await journal.put(
+            entry({ idempotencyKey: "order-1", status: "failed" }),
+        );
+        await journal.put(
+            entry({
+                transactionId: "0.0.2@1700000001.000000001",
+                idempotencyKey: "order-1",
+                createdAt: "2023-11-14T22:13:21.000Z",
+            }),
+        );
+
+        const found = await journal.findByIdempotencyKey("order-1");
+        expect(found!.transactionId).toBe("0.0.2@1700000001.000000001");
+        expect(await journal.findByIdempotencyKey("order-2")).toBeUndefined();
+    });
+
+    it("lists in-flight entries oldest first", async () => {
+        await journal.put(
+            entry({
+                transactionId: "0.0.2@1700000002.0",
+                createdAt: "2023-11-14T22:13:22.000Z",
+            }),
+        );
+        await journal.put(entry());
+        await journal.put(
+            entry({ transactionId: "0.0.2@1700000003.0", status: "failed" }),
+        );
+
+        const ids = (await journal.findInFlight()).map((e) => e.transactionId);
+        expect(ids).toEqual([
+            "0.0.2@1700000000.000000001",
+            "0.0.2@1700000002.0",
+        ]);
+    });
+
+    it("returns copies that do not alias stored entries", async () => {
+        await journal.put(entry());
+
+        const stored = (await journal.get("0.0.2@1700000000.000000001"))!;
+        stored.status = "succeeded";
+
+        expect((await journal.get("0.0.2@1700000000.000000001"))!.status).toBe(
+            "in-flight",
+        );
+    });
+});
+
+describe("FileTransactionJournal persistence", () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "journal-"));
+        path = join(dir, "tx.jsonl");
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("replays entries written by an earlier instance", async () => {
+        const first = new FileTransactionJournal(path);
+        await first.put(entry({ idempotencyKey: "order-1" }));
+        await first.put(
+            entry({ idempotencyKey: "order-1", status: "succeeded" }),
+        );
+
+        const reopened = new FileTransactionJournal(path);
+        const found = await reopened.findByIdempotencyKey("order-1");
+
+        expect(found).toMatchObject({ status: "succeeded" });
+        expect(found!.bytes).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it("skips a torn final line", async () => {
+        await new FileTransactionJournal(path).put(entry());
+        await appendFile(path, '{"transactionId":"0.0.2@17', "utf8");
+
+        const reopened = new FileTransactionJournal(path);
+
+        expect(await reopened.findInFlight()).toHaveLength(1);
+    });
+
+    it("cuts off a torn final line before the next append", async () => {
+        await new FileTransactionJournal(path).put(entry());
+        await appendFile(path, '{"transactionId":"0.0.2@17', "utf8");
+
+        const reopened = new FileTransactionJournal(path);
+        await reopened.put(entry({ transactionId: "0.0.2@1700000001.0" }));
+
+        expect(
+            await new FileTransactionJournal(path).get("0.0.2@1700000001.0"),
+        ).toMatchObject({ status: "in-flight" });
+        expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(
+            2,
+        );
+    });
+
+    it("compacts the file to one line per transaction", async () => {
+        const journal = new FileTransactionJournal(path);
+        await journal.put(entry());
+        await journal.put(entry({ status: "succeeded" }));
+        await journal.put(entry({ transactionId: "0.0.2@1700000001.0" }));
+
+        await journal.compact();
+
+        const lines = (await readFile(path, "utf8")).trim().split("\n");
+        expect(lines).toHaveLength(2);
+        expect(
+            (await new FileTransactionJournal(path).get(
+                "0.0.2@1700000000.000000001",
+            ))!.status,
+        ).toBe("succeeded");
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { Mnemonic } from "@hiero-ledger/sdk";
+import {
+    HdWallet,
+    generateMnemonic,
+    hieroDerivationPath,
+    isValidMnemonic,
+} from "../../../src/keys/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { AccountType } from "../../../src/types/index.js";
+
+const phrase =
+    "inmate flip alley wear offer often piece magnet surge toddler submit right radio absent pear floor belt raven price stove replace reduce plate home";
+
+describe("mnemonics", () => {
+    it("generates valid 24- and 12-word phrases", async () => {
+        const long = await generateMnemonic();
+        const short = await generateMnemonic(12);
+
+        expect(long.split(" ")).toHaveLength(24);
+        expect(short.split(" ")).toHaveLength(12);
+        expect(await isValidMnemonic(long)).toBe(true);
+        expect(await isValidMnemonic(short)).toBe(true);
+    });
+
+    it("rejects bad checksums, unknown words and other lengths", async () => {
+        const words = phrase.split(" ");
+
+        expect(
+            await isValidMnemonic([...words.slice(0, 23), "abandon"].join(" ")),
+        ).toBe(false);
+        expect(
+            await isValidMnemonic(["hiero", ...words.slice(1)].join(" ")),
+        ).toBe(false);
+        expect(await isValidMnemonic(words.slice(0, 22).join(" "))).toBe(false);
+    });
+
+    it("reports why a wallet cannot be opened", async () => {
+        const error = (await HdWallet.fromMnemonic("abandon abandon").catch(
+            (e: unknown) => e,
+        )) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.ConfigInvalid);
+        expect(error.message).toMatch(/12 or 24 words/);
+    });
+});
+
+describe("HdWallet", () => {
+    it("derives the SDK's standard ED25519 and ECDSA keys", async () => {
+        const wallet = await HdWallet.fromMnemonic(phrase);
+        const mnemonic = await Mnemonic.fromString(phrase);
+
+        const ed = await wallet.deriveKey({ index: 3 });
+        const ecdsa = await wallet.deriveKey({
+            keyType: AccountType.ECDSA,
+            index: 3,
+        });
+
+        expect(ed).toMatchObject({
+            path: "m/44'/3030'/0'/0'/3'",
+            keyType: AccountType.ED25519,
+            evmAddress: undefined,
+        });
+        expect(ed.publicKey.toStringRaw()).toBe(
+            (
+                await mnemonic.toStandardEd25519PrivateKey("", 3)
+            ).publicKey.toStringRaw(),
+        );
+        const expected = (
+            await mnemonic.toStandardECDSAsecp256k1PrivateKey("", 3)
+        ).publicKey;
+        expect(ecdsa.path).toBe("m/44'/3030'/0'/0/3");
+        expect(ecdsa.publicKey.toStringRaw()).toBe(expected.toStringRaw());
+        expect(ecdsa.evmAddress).toBe(`0x${expected.toEvmAddress()}`);
+    });
+
+    it("derives along a custom path and with a passphrase", async () => {
+        const mnemonic = await Mnemonic.fromString(phrase);
+        const wallet = await HdWallet.fromMnemonic(phrase, "pepper");
+
+        const evm = await wallet.deriveKey({
+            keyType: AccountType.ECDSA,
+            path: "m/44'/60'/0'/0/7",
+        });
+
+        expect(evm.publicKey.toStringRaw()).toBe(
+            (
+                await mnemonic.toStandardECDSAsecp256k1PrivateKeyCustomDerivationPath(
+                    "pepper",
+                    "m/44'/60'/0'/0/7",
+                )
+            ).publicKey.toStringRaw(),
+        );
+    });
+
+    it("opens the same wallet from the seed", async () => {
+        const seed = await (await Mnemonic.fromString(phrase)).toSeed("");
+
+        const fromSeed = await HdWallet.fromSeed(seed).deriveKey({ index: 9 });
+        const fromPhrase = await (
+            await HdWallet.fromMnemonic(phrase)
+        ).deriveKey({ index: 9 });
+
+        expect(fromSeed.publicKey.equals(fromPhrase.publicKey)).toBe(true);
+    });
+
+    it("returns signers whose signatures verify", async () => {
+        const wallet = await HdWallet.fromMnemonic(phrase);
+        const message = new TextEncoder().encode("pay 5 hbar");
+
+        for (const keyType of [AccountType.ED25519, AccountType.ECDSA]) {
+            const signer = await wallet.signer({ keyType, index: 1 });
+            const { publicKey } = await wallet.deriveKey({ keyType, index: 1 });
+
+            expect(signer.publicKey.equals(publicKey)).toBe(true);
+            expect(publicKey.verify(message, await signer.sign(message))).toBe(
+                true,
+            );
+        }
+    });
+
+    it("builds createAccount key options", async () => {
+        const wallet = await HdWallet.fromMnemonic(phrase);
+        const { publicKey } = await wallet.deriveKey({
+            keyType: AccountType.ECDSA,
+            index: 2,
+        });
+
+        await expect(
+            wallet.accountOptions({
+                keyType: AccountType.ECDSA,
+                index: 2,
+                alias: true,
+            }),
+        ).resolves.toEqual({
+            publicKey: publicKey.toStringRaw(),
+            keyType: AccountType.ECDSA,
+            alias: true,
+        });
+    });
+
+    it("rejects unhardened ED25519 steps and out-of-range indexes", async () => {
+        const wallet = await HdWallet.fromMnemonic(phrase);
+
+        await expect(
+            wallet.deriveKey({ path: "m/44'/3030'/0'/0/1" }),
+        ).rejects.toThrow(/only have hardened children/);
+        await expect(wallet.deriveKey({ index: 2 ** 31 })).rejects.toThrow(
+            HieroError,
+        );
+        expect(() => hieroDerivationPath(AccountType.ECDSA, -1)).toThrow(
+            /from 0 to 2\^31 - 1/,
+        );
+    });
+});
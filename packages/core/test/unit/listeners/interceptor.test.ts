@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { runInterceptors } from "../../../src/listeners/interceptor.js";
+import { HieroError } from "../../../src/errors/index.js";
+import type {
+    Interceptor,
+    QueryInterceptorContext,
+} from "../../../src/listeners/index.js";
+
+function queryContext(): QueryInterceptorContext {
+    return {
+        kind: "query",
+        query: {} as never,
+        options: {},
+        event: {
+            type: "AccountBalanceQuery",
+            serviceName: "AccountService",
+            methodName: "getBalance",
+            timestamp: new Date(0),
+        },
+        state: new Map(),
+    };
+}
+
+describe("runInterceptors", () => {
+    it("runs the operation directly without interceptors", async () => {
+        const result = await runInterceptors([], queryContext(), () =>
+            Promise.resolve("result"),
+        );
+
+        expect(result).toBe("result");
+    });
+
+    it("nests interceptors in registration order", async () => {
+        const calls: string[] = [];
+        const named =
+            (name: string): Interceptor =>
+            async (_ctx, next) => {
+                calls.push(`${name}:before`);
+                const result = await next();
+                calls.push(`${name}:after`);
+                return result;
+            };
+
+        await runInterceptors([named("a"), named("b")], queryContext(), () => {
+            calls.push("operation");
+            return Promise.resolve();
+        });
+
+        expect(calls).toEqual([
+            "a:before",
+            "b:before",
+            "operation",
+            "b:after",
+            "a:after",
+        ]);
+    });
+
+    it("lets interceptors change the context the operation sees", async () => {
+        const interceptor: Interceptor = (ctx, next) => {
+            if (ctx.kind === "query") {
+                ctx.options = { ...ctx.options, nodeAccountIds: ["0.0.3"] };
+            }
+            ctx.state.set("tag", "audited");
+            return next();
+        };
+
+        const seen = await runInterceptors(
+            [interceptor],
+            queryContext(),
+            (ctx) => Promise.resolve([ctx.options, ctx.state.get("tag")]),
+        );
+
+        expect(seen).toEqual([{ nodeAccountIds: ["0.0.3"] }, "audited"]);
+    });
+
+    it("lets an interceptor replace the result or short-circuit", async () => {
+        let ran = false;
+        const cached: Interceptor = () => Promise.resolve("cached");
+
+        const result = await runInterceptors([cached], queryContext(), () => {
+            ran = true;
+            return Promise.resolve("fresh");
+        });
+
+        expect(result).toBe("cached");
+        expect(ran).toBe(false);
+    });
+
+    it("propagates a rejection without running the operation", async () => {
+        let ran = false;
+        const veto: Interceptor = () =>
+            Promise.reject(new Error("not allowed"));
+
+        await expect(
+            runInterceptors([veto], queryContext(), () => {
+                ran = true;
+                return Promise.resolve();
+            }),
+        ).rejects.toThrow("not allowed");
+        expect(ran).toBe(false);
+    });
+
+    it("rejects a second call to next()", async () => {
+        const twice: Interceptor = async (_ctx, next) => {
+            await next();
+            return next();
+        };
+
+        await expect(
+            runInterceptors([twice], queryContext(), () => Promise.resolve()),
+        ).rejects.toBeInstanceOf(HieroError);
+    });
+});
@@ -32,6 +32,7 @@ vi.mock("@hiero-ledger/sdk", async (importOriginal) => {
         schedule: vi.fn(),
         execute: vi.fn().mockResolvedValue({
             transactionId: { toString: () => "0.0.123@1234567890.000000000" },
+            nodeId: { toString: () => "0.0.3" },
             getReceipt: vi.fn().mockResolvedValue({
                 status: { toString: () => "SUCCESS" },
                 accountId: { toString: () => "0.0.12345" },
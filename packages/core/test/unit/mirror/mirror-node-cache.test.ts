@@ -0,0 +1,208 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+    LruCacheStore,
+    MirrorResponseCache,
+    classifyMirrorPath,
+    type MirrorCacheStore,
+} from "../../../src/mirror/mirror-node-cache.js";
+
+describe("LruCacheStore", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("evicts the least recently used entry past capacity", async () => {
+        const store = new LruCacheStore(2);
+        await store.set("a", 1, null);
+        await store.set("b", 2, null);
+        await store.get("a");
+        await store.set("c", 3, null);
+
+        expect(await store.get("a")).toBe(1);
+        expect(await store.get("b")).toBeUndefined();
+        expect(await store.get("c")).toBe(3);
+        expect(store.size).toBe(2);
+    });
+
+    it("expires entries after their TTL", async () => {
+        vi.useFakeTimers();
+        const store = new LruCacheStore();
+        await store.set("a", 1, 1_000);
+
+        vi.advanceTimersByTime(999);
+        expect(await store.get("a")).toBe(1);
+        vi.advanceTimersByTime(1);
+        expect(await store.get("a")).toBeUndefined();
+    });
+
+    it("deletes keys by prefix", async () => {
+        const store = new LruCacheStore();
+        await store.set("/api/v1/tokens/0.0.1", 1, null);
+        await store.set("/api/v1/tokens/0.0.1/nfts", 2, null);
+        await store.set("/api/v1/tokens/0.0.2", 3, null);
+
+        await store.deleteByPrefix("/api/v1/tokens/0.0.1");
+
+        expect(store.size).toBe(1);
+        expect(await store.get("/api/v1/tokens/0.0.2")).toBe(3);
+    });
+});
+
+describe("classifyMirrorPath", () => {
+    it.each([
+        ["/api/v1/accounts/0.0.1", "accounts", false],
+        ["/api/v1/accounts/0.0.1/nfts?token.id=0.0.2", "nfts", false],
+        ["/api/v1/accounts/0.0.1/allowances/crypto", "allowances", false],
+        ["/api/v1/tokens/0.0.2", "tokens", false],
+        ["/api/v1/tokens/0.0.2/nfts/5", "nfts", false],
+        ["/api/v1/topics/0.0.3", "topics", false],
+        ["/api/v1/topics/0.0.3/messages", "topicMessages", false],
+        ["/api/v1/topics/0.0.3/messages/7", "topicMessages", true],
+        ["/api/v1/transactions?account.id=0.0.1", "transactions", false],
+        ["/api/v1/transactions/0.0.1-1700000000-0", "transactions", true],
+        ["/api/v1/contracts/0.0.4", "contracts", false],
+        ["/api/v1/contracts/0.0.4/results", "contracts", false],
+        ["/api/v1/contracts/results/0xabc", "contracts", true],
+        ["/api/v1/blocks", "blocks", false],
+        ["/api/v1/blocks/42", "blocks", true],
+        ["/api/v1/network/exchangerate", "network", false],
+        ["/api/v1/unknown", undefined, false],
+    ])("classifies %s", (path, family, immutable) => {
+        expect(classifyMirrorPath(path)).toEqual({ family, immutable });
+    });
+});
+
+describe("MirrorResponseCache", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("shares one in-flight fetch between concurrent callers", async () => {
+        const cache = new MirrorResponseCache();
+        let resolve!: (value: string) => void;
+        const fetcher = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+
+        const a = cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher);
+        const b = cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher);
+        await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+        resolve("token");
+
+        await expect(a).resolves.toBe("token");
+        await expect(b).resolves.toBe("token");
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies per-family TTLs and caches immutable paths forever", async () => {
+        vi.useFakeTimers();
+        const cache = new MirrorResponseCache({
+            defaultTtlMs: 1_000,
+            ttlMs: { network: 60_000 },
+        });
+        const fetcher = vi.fn(() => Promise.resolve("fresh"));
+
+        await cache.getOrFetch("/api/v1/accounts/0.0.1", fetcher);
+        await cache.getOrFetch("/api/v1/network/exchangerate", fetcher);
+        await cache.getOrFetch("/api/v1/transactions/0.0.1-1-0", fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(3);
+
+        vi.advanceTimersByTime(30_000);
+        await cache.getOrFetch("/api/v1/accounts/0.0.1", fetcher);
+        await cache.getOrFetch("/api/v1/network/exchangerate", fetcher);
+        await cache.getOrFetch("/api/v1/transactions/0.0.1-1-0", fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(4);
+
+        vi.advanceTimersByTime(365 * 24 * 60 * 60 * 1000);
+        await cache.getOrFetch("/api/v1/transactions/0.0.1-1-0", fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(4);
+    });
+
+    it("does not cache a family whose TTL is 0", async () => {
+        const cache = new MirrorResponseCache({ ttlMs: { accounts: 0 } });
+        const fetcher = vi.fn(() => Promise.resolve("fresh"));
+
+        await cache.getOrFetch("/api/v1/accounts/0.0.1", fetcher);
+        await cache.getOrFetch("/api/v1/accounts/0.0.1", fetcher);
+
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache failed fetches", async () => {
+        const cache = new MirrorResponseCache();
+        const fetcher = vi
+            .fn<() => Promise<string>>()
+            .mockRejectedValueOnce(new Error("boom"))
+            .mockResolvedValueOnce("ok");
+
+        await expect(
+            cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher),
+        ).rejects.toThrow("boom");
+        await expect(
+            cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher),
+        ).resolves.toBe("ok");
+    });
+
+    it("falls through to the fetcher when the store fails", async () => {
+        const store: MirrorCacheStore = {
+            get: () => Promise.reject(new Error("store down")),
+            set: () => Promise.reject(new Error("store down")),
+            delete: () => Promise.resolve(),
+            deleteByPrefix: () => Promise.resolve(),
+            clear: () => Promise.resolve(),
+        };
+        const cache = new MirrorResponseCache({ store });
+
+        await expect(
+            cache.getOrFetch("/api/v1/tokens/0.0.1", () =>
+                Promise.resolve("ok"),
+            ),
+        ).resolves.toBe("ok");
+    });
+
+    it("invalidates by path prefix", async () => {
+        const cache = new MirrorResponseCache();
+        const fetcher = vi.fn(() => Promise.resolve("fresh"));
+
+        await cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher);
+        await cache.invalidate("/api/v1/tokens/0.0.1");
+        await cache.getOrFetch("/api/v1/tokens/0.0.1", fetcher);
+
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache a fetch that was pending when the cache was invalidated", async () => {
+        const cache = new MirrorResponseCache();
+        let resolveStale!: (value: string) => void;
+        const stale = vi.fn(
+            () => new Promise<string>((r) => (resolveStale = r)),
+        );
+        const fresh = vi.fn(() => Promise.resolve("fresh"));
+
+        const before = cache.getOrFetch("/api/v1/accounts/0.0.1", stale);
+        await vi.waitFor(() => expect(stale).toHaveBeenCalled());
+        await cache.invalidate("/api/v1/accounts/0.0.1");
+        resolveStale("stale");
+
+        await expect(before).resolves.toBe("stale");
+        await expect(
+            cache.getOrFetch("/api/v1/accounts/0.0.1", fresh),
+        ).resolves.toBe("fresh");
+        await expect(
+            cache.getOrFetch("/api/v1/accounts/0.0.1", fresh),
+        ).resolves.toBe("fresh");
+        expect(fresh).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not share a pending fetch with callers after an invalidation", async () => {
+        const cache = new MirrorResponseCache();
+        const stale = vi.fn(() => new Promise<string>(() => {}));
+        const fresh = vi.fn(() => Promise.resolve("fresh"));
+
+        void cache.getOrFetch("/api/v1/accounts/0.0.1", stale);
+        await vi.waitFor(() => expect(stale).toHaveBeenCalled());
+        await cache.invalidate();
+
+        await expect(
+            cache.getOrFetch("/api/v1/accounts/0.0.1", fresh),
+        ).resolves.toBe("fresh");
+    });
+});
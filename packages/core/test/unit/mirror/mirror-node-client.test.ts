@@ -1,6 +1,7 @@
 import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
 import { MirrorNodeClient } from "../../../src/mirror/mirror-node-client.js";
 import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import type { MirrorTransport } from "../../../src/mirror/index.js";
 
 describe("MirrorNodeClient", () => {
     let client: MirrorNodeClient;
@@ -13,6 +14,13 @@ describe("MirrorNodeClient", () => {
         vi.restoreAllMocks();
     });
 
+    function jsonResponse(body: unknown): Response {
+        return new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
     describe("constructor", () => {
         it("removes trailing slash from base URL", () => {
             const c = new MirrorNodeClient("https://example.com///");
@@ -42,6 +50,29 @@ describe("MirrorNodeClient", () => {
                 HieroError,
             );
         });
+
+        it("reports a 404 as NOT_FOUND and other client errors as HTTP errors", async () => {
+            vi.spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(
+                    new Response(null, {
+                        status: 404,
+                        statusText: "Not Found",
+                    }),
+                )
+                .mockResolvedValueOnce(
+                    new Response(null, {
+                        status: 400,
+                        statusText: "Bad Request",
+                    }),
+                );
+
+            await expect(
+                client.queryTransaction("0.0.2-1700000000-000000001"),
+            ).rejects.toMatchObject({ code: HieroErrorCodes.NotFound });
+            await expect(client.queryAccount("0.0.1")).rejects.toMatchObject({
+                code: HieroErrorCodes.MirrorNodeHttpError,
+            });
+        });
     });
 
     describe("queryAccount", () => {
@@ -72,6 +103,54 @@ describe("MirrorNodeClient", () => {
             expect(info.deleted).toBe(false);
             expect(info.memo).toBe("test account");
         });
+
+        it("maps the key tree, reward settings and embedded transactions", async () => {
+            vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    account: "0.0.12345",
+                    key: {
+                        _type: "ProtobufEncoded",
+                        // KeyList { ed25519: 0x0102 }
+                        key: "32060a0412020102",
+                    },
+                    receiver_sig_required: true,
+                    pending_reward: 1200,
+                    decline_reward: false,
+                    ethereum_nonce: 3,
+                    staked_node_id: null,
+                    transactions: [
+                        {
+                            transaction_id: "0.0.12345-1700000000-000000001",
+                            name: "CRYPTOTRANSFER",
+                            result: "SUCCESS",
+                            consensus_timestamp: "1700000001.000000000",
+                            valid_start_timestamp: "1700000000.000000001",
+                            charged_tx_fee: 100,
+                            transfers: [],
+                            token_transfers: [],
+                            nft_transfers: [],
+                            staking_reward_transfers: [],
+                        },
+                    ],
+                }),
+            );
+
+            const info = await client.queryAccount("0.0.12345");
+
+            expect(info.keyTree).toEqual({
+                type: "keyList",
+                keys: [{ type: "ed25519", key: "0102" }],
+            });
+            expect(info.receiverSigRequired).toBe(true);
+            expect(info.pendingReward).toBe(1200);
+            expect(info.declineReward).toBe(false);
+            expect(info.ethereumNonce).toBe(3);
+            expect(info.stakedNodeId).toBeUndefined();
+            expect(info.transactions).toHaveLength(1);
+            expect(info.transactions?.[0].transactionId).toBe(
+                "0.0.12345-1700000000-000000001",
+            );
+        });
     });
 
     describe("queryNftsByAccount", () => {
@@ -163,6 +242,322 @@ describe("MirrorNodeClient", () => {
         });
     });
 
+    describe("queryTopic", () => {
+        it("converts topic metadata, flattening key objects", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    topic_id: "0.0.100",
+                    memo: "audit trail",
+                    admin_key: { _type: "ED25519", key: "abcd" },
+                    submit_key: null,
+                    auto_renew_account: null,
+                    auto_renew_period: 7776000,
+                    created_timestamp: "1700000000.000000000",
+                    deleted: false,
+                }),
+            );
+
+            const topic = await client.queryTopic("0.0.100");
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/topics/0.0.100",
+            );
+            expect(topic).toEqual({
+                topicId: "0.0.100",
+                memo: "audit trail",
+                adminKey: "abcd",
+                submitKey: undefined,
+                adminKeyTree: { type: "ed25519", key: "abcd" },
+                submitKeyTree: undefined,
+                autoRenewAccount: undefined,
+                autoRenewPeriod: 7776000,
+                createdTimestamp: "1700000000.000000000",
+                deleted: false,
+            });
+        });
+    });
+
+    describe("queryTopicMessageBySequence", () => {
+        it("converts chunk info into an initial transaction id", async () => {
+            vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    topic_id: "0.0.100",
+                    sequence_number: 7,
+                    message: "aGk=",
+                    running_hash: "abcd",
+                    consensus_timestamp: "1700000000.000000007",
+                    chunk_info: {
+                        initial_transaction_id: {
+                            account_id: "0.0.5",
+                            nonce: 0,
+                            scheduled: false,
+                            transaction_valid_start: "1699999999.000000001",
+                        },
+                        number: 2,
+                        total: 3,
+                    },
+                }),
+            );
+
+            const msg = await client.queryTopicMessageBySequence("0.0.100", 7);
+
+            expect(msg.chunkInfo).toEqual({
+                initialTransactionId: "0.0.5@1699999999.000000001",
+                number: 2,
+                total: 3,
+            });
+        });
+    });
+
+    describe("queryContractResult", () => {
+        it("converts a contract result including its logs", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    contract_id: "0.0.777",
+                    timestamp: "1700000000.000000001",
+                    hash: "0xabc",
+                    amount: 5,
+                    gas_limit: 300000,
+                    gas_used: 24000,
+                    result: "CONTRACT_REVERT_EXECUTED",
+                    error_message: "0x08c379a0",
+                    created_contract_ids: null,
+                    block_number: 42,
+                    logs: [
+                        {
+                            address:
+                                "0x0000000000000000000000000000000000000309",
+                            contract_id: "0.0.777",
+                            data: null,
+                            index: 0,
+                            topics: ["0x01"],
+                        },
+                    ],
+                }),
+            );
+
+            const result = await client.queryContractResult("0xabc");
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/contracts/results/0xabc",
+            );
+            expect(result.amount).toBe("5");
+            expect(result.successful).toBe(false);
+            expect(result.errorMessage).toBe("0x08c379a0");
+            expect(result.createdContractIds).toEqual([]);
+            expect(result.logs).toEqual([
+                {
+                    address: "0x0000000000000000000000000000000000000309",
+                    contractId: "0.0.777",
+                    data: "0x",
+                    index: 0,
+                    topics: ["0x01"],
+                },
+            ]);
+        });
+    });
+
+    describe("querySchedule", () => {
+        it("marks a schedule executed when it has an executed timestamp", async () => {
+            vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    schedule_id: "0.0.666",
+                    creator_account_id: "0.0.1",
+                    payer_account_id: "0.0.2",
+                    consensus_timestamp: "1700000000.000000000",
+                    executed_timestamp: "1700000005.000000000",
+                    deleted: false,
+                    transaction_body: "CgIYAQ==",
+                    signatures: [
+                        {
+                            consensus_timestamp: "1700000000.000000000",
+                            public_key_prefix: "AAE=",
+                            signature: "AgM=",
+                            type: "ED25519",
+                        },
+                    ],
+                }),
+            );
+
+            const schedule = await client.querySchedule("0.0.666");
+
+            expect(schedule.executed).toBe(true);
+            expect(schedule.waitForExpiry).toBe(false);
+            expect(schedule.signatures[0].publicKeyPrefix).toBe("AAE=");
+        });
+    });
+
+    describe("queryBlock", () => {
+        it("flattens the block timestamp range", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    number: 42,
+                    hash: "0xdead",
+                    previous_hash: "0xbeef",
+                    name: "2023-01-01T00_00_00.000000000Z.rcd.gz",
+                    count: 3,
+                    gas_used: null,
+                    timestamp: {
+                        from: "1700000000.000000000",
+                        to: "1700000001.999999999",
+                    },
+                }),
+            );
+
+            const block = await client.queryBlock(42);
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/blocks/42",
+            );
+            expect(block.gasUsed).toBe(0);
+            expect(block.timestampFrom).toBe("1700000000.000000000");
+            expect(block.timestampTo).toBe("1700000001.999999999");
+        });
+    });
+
+    describe("queryTokenAllowances", () => {
+        it("converts allowances with string amounts", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    allowances: [
+                        {
+                            owner: "0.0.1",
+                            spender: "0.0.2",
+                            token_id: "0.0.3",
+                            amount: 40,
+                            amount_granted: 100,
+                            timestamp: {
+                                from: "1700000000.000000000",
+                                to: null,
+                            },
+                        },
+                    ],
+                    links: { next: null },
+                }),
+            );
+
+            const page = await client.queryTokenAllowances("0.0.1", {
+                spenderId: "0.0.2",
+            });
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/accounts/0.0.1/allowances/tokens?spender.id=0.0.2",
+            );
+            expect(page.data).toEqual([
+                {
+                    owner: "0.0.1",
+                    spender: "0.0.2",
+                    tokenId: "0.0.3",
+                    amount: "40",
+                    amountGranted: "100",
+                    timestamp: "1700000000.000000000",
+                },
+            ]);
+        });
+    });
+
+    describe("balance snapshots", () => {
+        it("converts account balances with the snapshot timestamp", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    timestamp: "1700000000.000000000",
+                    balances: [
+                        {
+                            account: "0.0.42",
+                            balance: 500,
+                            tokens: [{ token_id: "0.0.7", balance: 12 }],
+                        },
+                    ],
+                    links: { next: null },
+                }),
+            );
+
+            const balance = await client.queryAccountBalanceAt(
+                "0.0.42",
+                new Date(1_700_000_000_000),
+            );
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/balances" +
+                    "?account.id=0.0.42&timestamp=lte:1700000000.000000000&limit=1",
+            );
+            expect(balance).toEqual({
+                accountId: "0.0.42",
+                hbars: "500",
+                tokens: [{ tokenId: "0.0.7", balance: "12" }],
+                timestamp: "1700000000.000000000",
+            });
+        });
+
+        it("throws NOT_FOUND when no snapshot includes the account", async () => {
+            vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    timestamp: null,
+                    balances: [],
+                    links: { next: null },
+                }),
+            );
+
+            await expect(
+                client.queryAccountBalanceAt("0.0.42", "1600000000.000000000"),
+            ).rejects.toMatchObject({ code: HieroErrorCodes.NotFound });
+        });
+
+        it("queries token holders above a balance at a timestamp", async () => {
+            const spy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                jsonResponse({
+                    timestamp: "1700000000.000000000",
+                    balances: [{ account: "0.0.9", balance: 250, decimals: 2 }],
+                    links: { next: null },
+                }),
+            );
+
+            const page = await client.queryTokenBalances("0.0.7", {
+                balance: { gte: 100n },
+                timestamp: { lte: "1700000000.000000000" },
+            });
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/tokens/0.0.7/balances" +
+                    "?account.balance=gte:100&timestamp=lte:1700000000.000000000",
+            );
+            expect(page.data).toEqual([
+                {
+                    accountId: "0.0.9",
+                    tokenId: "0.0.7",
+                    balance: "250",
+                    decimals: 2,
+                    timestamp: "1700000000.000000000",
+                },
+            ]);
+        });
+
+        it("keeps every digit of balances beyond Number.MAX_SAFE_INTEGER", async () => {
+            // Written out by hand: JSON.stringify cannot produce these
+            vi.spyOn(globalThis, "fetch").mockResolvedValue(
+                new Response(
+                    '{"timestamp":"1700000000.000000000","balances":[' +
+                        '{"account":"0.0.42","balance":9007199254740993,' +
+                        '"tokens":[{"token_id":"0.0.7","balance":123456789012345678901}]},' +
+                        '{"account":"0.0.43","balance":-9007199254740993,"tokens":[]}' +
+                        '],"links":{"next":null}}',
+                    {
+                        status: 200,
+                        headers: { "Content-Type": "application/json" },
+                    },
+                ),
+            );
+
+            const page = await client.queryBalances();
+
+            expect(page.data[0].hbars).toBe("9007199254740993");
+            expect(page.data[0].tokens[0].balance).toBe(
+                "123456789012345678901",
+            );
+            expect(page.data[1].hbars).toBe("-9007199254740993");
+        });
+    });
+
     describe("schema validation", () => {
         it("rejects account response missing 'account' field", async () => {
             vi.spyOn(globalThis, "fetch").mockResolvedValue(
@@ -233,4 +628,526 @@ describe("MirrorNodeClient", () => {
             expect(err.code).toBe(HieroErrorCodes.MirrorNodeSchemaMismatch);
         });
     });
+
+    describe("paginate", () => {
+        function nftPage(serials: number[], next: string | null): Response {
+            return new Response(
+                JSON.stringify({
+                    nfts: serials.map((serial) => ({
+                        token_id: "0.0.99",
+                        serial_number: serial,
+                        account_id: "0.0.12345",
+                        metadata: "",
+                        deleted: false,
+                    })),
+                    links: { next },
+                }),
+                {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                },
+            );
+        }
+
+        async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+            const out: T[] = [];
+            for await (const item of iter) out.push(item);
+            return out;
+        }
+
+        it("follows links.next until it is null", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(
+                    nftPage([1, 2], "/api/v1/accounts/0.0.12345/nfts?p=2"),
+                )
+                .mockResolvedValueOnce(nftPage([3], null));
+
+            const nfts = await collect(
+                client.paginateNftsByAccount("0.0.12345"),
+            );
+
+            expect(nfts.map((n) => n.serialNumber)).toEqual([1, 2, 3]);
+            expect(spy).toHaveBeenCalledTimes(2);
+            expect(spy.mock.calls[1][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/accounts/0.0.12345/nfts?p=2",
+            );
+        });
+
+        it("stops after maxItems without fetching further pages", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(nftPage([1, 2, 3], "/next"));
+
+            const nfts = await collect(
+                client.paginateNftsByAccount("0.0.12345", { maxItems: 2 }),
+            );
+
+            expect(nfts).toHaveLength(2);
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not fetch another page when maxItems ends on a page boundary", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(nftPage([1, 2], "/next"));
+
+            const nfts = await collect(
+                client.paginateNftsByAccount("0.0.12345", {
+                    limit: 2,
+                    maxItems: 2,
+                }),
+            );
+
+            expect(nfts.map((n) => n.serialNumber)).toEqual([1, 2]);
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it("stops after maxPages", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(nftPage([1], "/page-2"))
+                .mockResolvedValueOnce(nftPage([2], "/page-3"));
+
+            const nfts = await collect(
+                client.paginateNftsByAccount("0.0.12345", { maxPages: 2 }),
+            );
+
+            expect(nfts.map((n) => n.serialNumber)).toEqual([1, 2]);
+            expect(spy).toHaveBeenCalledTimes(2);
+        });
+
+        it("does not fetch the next page when the consumer breaks early", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(nftPage([1, 2], "/next"));
+
+            for await (const nft of client.paginateNftsByAccount("0.0.1")) {
+                expect(nft.serialNumber).toBe(1);
+                break;
+            }
+
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it("rejects with ABORTED once the signal fires", async () => {
+            const controller = new AbortController();
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValueOnce(nftPage([1], "/next"));
+
+            const err = await (async () => {
+                for await (const _nft of client.paginateNftsByAccount("0.0.1", {
+                    signal: controller.signal,
+                })) {
+                    controller.abort();
+                }
+            })().catch((e) => e);
+
+            expect(err).toBeInstanceOf(HieroError);
+            expect(err.code).toBe(HieroErrorCodes.Aborted);
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it("cancels an in-flight page request when the signal fires", async () => {
+            const controller = new AbortController();
+            vi.spyOn(globalThis, "fetch").mockImplementation(
+                (_url, init) =>
+                    new Promise((_resolve, reject) => {
+                        init?.signal?.addEventListener("abort", () =>
+                            reject(new DOMException("aborted", "AbortError")),
+                        );
+                        controller.abort();
+                    }),
+            );
+
+            const err = await collect(
+                client.paginateTopicMessages("0.0.5", {
+                    signal: controller.signal,
+                }),
+            ).catch((e) => e);
+
+            expect(err).toBeInstanceOf(HieroError);
+            expect(err.code).toBe(HieroErrorCodes.Aborted);
+        });
+    });
+
+    describe("query filters", () => {
+        function emptyPage(key: string): Response {
+            return new Response(
+                JSON.stringify({ [key]: [], links: { next: null } }),
+                {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                },
+            );
+        }
+
+        it("compiles a transaction filter into the query string", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValue(emptyPage("transactions"));
+
+            await client.queryTransactionsByAccount("0.0.42", {
+                timestamp: {
+                    gte: "1700000000.000000000",
+                    lt: new Date(1_700_086_400_500),
+                },
+                result: "fail",
+                order: "desc",
+                limit: 50,
+            });
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/transactions" +
+                    "?account.id=0.0.42" +
+                    "&timestamp=gte:1700000000.000000000" +
+                    "&timestamp=lt:1700086400.500000000" +
+                    "&result=fail&order=desc&limit=50",
+            );
+        });
+
+        it("applies the filter to the first page of an iterator", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValue(emptyPage("messages"));
+
+            for await (const _ of client.paginateTopicMessages("0.0.7", {
+                sequenceNumber: { gt: 10 },
+                maxPages: 1,
+            })) {
+                // drain
+            }
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/topics/0.0.7/messages?sequencenumber=gt:10",
+            );
+        });
+
+        it("percent-encodes ids in paths and query values", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockResolvedValue(emptyPage("nfts"));
+
+            await client.queryNftsByAccountAndTokenId(
+                "0.0.1/../admin",
+                "0.0.9&limit=100",
+            );
+
+            expect(spy.mock.calls[0][0]).toBe(
+                "https://testnet.mirrornode.hedera.com/api/v1/accounts/0.0.1%2F..%2Fadmin/nfts?token.id=0.0.9%26limit%3D100",
+            );
+        });
+
+        it("rejects an invalid filter without calling the mirror node", async () => {
+            const spy = vi.spyOn(globalThis, "fetch");
+
+            await expect(
+                client.queryNftsByTokenId("0.0.9", { limit: 0 }),
+            ).rejects.toThrow(/limit must be an integer between 1 and 100/);
+            await expect(
+                client.queryTransactionsByAccount("0.0.42", {
+                    timestamp: { gte: "yesterday" },
+                }),
+            ).rejects.toThrow(/timestamp.gte must be in "seconds.nanos" form/);
+            expect(spy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("response cache", () => {
+        const rates = {
+            current_rate: {
+                cent_equivalent: 12,
+                hbar_equivalent: 1,
+                expiration_time: 1,
+            },
+            next_rate: {
+                cent_equivalent: 13,
+                hbar_equivalent: 1,
+                expiration_time: 2,
+            },
+        };
+
+        it("does not cache when no cache is configured", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation(() => Promise.resolve(jsonResponse(rates)));
+
+            await client.queryExchangeRates();
+            await client.queryExchangeRates();
+
+            expect(spy).toHaveBeenCalledTimes(2);
+        });
+
+        it("serves repeated and concurrent reads from one request", async () => {
+            const cached = new MirrorNodeClient(
+                "https://testnet.mirrornode.hedera.com",
+                { cache: {} },
+            );
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation(() => Promise.resolve(jsonResponse(rates)));
+
+            const [a, b] = await Promise.all([
+                cached.queryExchangeRates(),
+                cached.queryExchangeRates(),
+            ]);
+            const c = await cached.queryExchangeRates();
+
+            expect(spy).toHaveBeenCalledTimes(1);
+            expect(a).toEqual(b);
+            expect(c.currentRate.centEquivalent).toBe(12);
+        });
+
+        it("refetches after invalidateCache", async () => {
+            const cached = new MirrorNodeClient(
+                "https://testnet.mirrornode.hedera.com",
+                { cache: {} },
+            );
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation(() => Promise.resolve(jsonResponse(rates)));
+
+            await cached.queryExchangeRates();
+            await cached.invalidateCache("/api/v1/network");
+            await cached.queryExchangeRates();
+
+            expect(spy).toHaveBeenCalledTimes(2);
+        });
+
+        it("lets an aborted caller leave without cancelling the shared fetch", async () => {
+            const cached = new MirrorNodeClient(
+                "https://testnet.mirrornode.hedera.com",
+                { cache: {} },
+            );
+            let respond!: (res: Response) => void;
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation(
+                    () => new Promise<Response>((r) => (respond = r)),
+                );
+            const controller = new AbortController();
+
+            const iter = cached.paginateNftsByAccount("0.0.1", {
+                signal: controller.signal,
+            });
+            const first = iter.next();
+            const other = cached.queryNftsByAccount("0.0.1");
+            await vi.waitFor(() => expect(spy).toHaveBeenCalled());
+            controller.abort();
+
+            const err = await first.catch((e: unknown) => e);
+            expect((err as HieroError).code).toBe(HieroErrorCodes.Aborted);
+
+            respond(jsonResponse({ nfts: [], links: { next: null } }));
+            await expect(other).resolves.toEqual({
+                data: [],
+                links: { next: null },
+            });
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("failover", () => {
+        const primary = "https://primary.example.com";
+        const backup = "https://backup.example.com";
+        const rates = {
+            current_rate: {
+                cent_equivalent: 12,
+                hbar_equivalent: 1,
+                expiration_time: 1,
+            },
+            next_rate: {
+                cent_equivalent: 13,
+                hbar_equivalent: 1,
+                expiration_time: 2,
+            },
+        };
+
+        function urlOf(input: Parameters<typeof fetch>[0]): string {
+            return input instanceof Request ? input.url : String(input);
+        }
+
+        it("rejects an empty URL list", () => {
+            expect(() => new MirrorNodeClient([])).toThrow(HieroError);
+        });
+
+        it("moves a 5xx retry to the next endpoint without waiting", async () => {
+            const failing = new MirrorNodeClient([primary, backup]);
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation((input) =>
+                    Promise.resolve(
+                        urlOf(input).startsWith(primary)
+                            ? new Response(null, { status: 503 })
+                            : jsonResponse(rates),
+                    ),
+                );
+            const started = Date.now();
+
+            await failing.queryExchangeRates();
+
+            expect(Date.now() - started).toBeLessThan(100);
+            expect(spy.mock.calls.map(([input]) => urlOf(input))).toEqual([
+                `${primary}/api/v1/network/exchangerate`,
+                `${backup}/api/v1/network/exchangerate`,
+            ]);
+            expect(failing.activeEndpoint).toBe(backup);
+        });
+
+        it("fails over on a network error", async () => {
+            const failing = new MirrorNodeClient([primary, backup]);
+            vi.spyOn(globalThis, "fetch").mockImplementation((input) =>
+                urlOf(input).startsWith(primary)
+                    ? Promise.reject(new Error("ECONNREFUSED"))
+                    : Promise.resolve(jsonResponse(rates)),
+            );
+
+            await expect(failing.queryExchangeRates()).resolves.toBeDefined();
+            expect(failing.endpointStatus()[0].consecutiveFailures).toBe(1);
+        });
+
+        it("skips an endpoint with an open breaker", async () => {
+            const failing = new MirrorNodeClient([primary, backup], {
+                circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+            });
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockImplementation((input) =>
+                    Promise.resolve(
+                        urlOf(input).startsWith(primary)
+                            ? new Response(null, { status: 500 })
+                            : jsonResponse(rates),
+                    ),
+                );
+
+            await failing.queryExchangeRates();
+            await failing.queryExchangeRates();
+
+            expect(spy).toHaveBeenCalledTimes(3);
+            expect(failing.endpointStatus()[0].state).toBe("open");
+        });
+
+        it("routes around an endpoint that sent Retry-After", async () => {
+            const failing = new MirrorNodeClient([primary, backup]);
+            vi.spyOn(globalThis, "fetch").mockImplementation((input) =>
+                Promise.resolve(
+                    urlOf(input).startsWith(primary)
+                        ? new Response(null, {
+                              status: 429,
+                              headers: { "Retry-After": "30" },
+                          })
+                        : jsonResponse(rates),
+                ),
+            );
+
+            await failing.queryExchangeRates();
+
+            const [status] = failing.endpointStatus();
+            expect(status.state).toBe("closed");
+            expect(status.retryAfterUntil).toBeGreaterThan(Date.now());
+        });
+
+        it("does not retry a network error on a single endpoint", async () => {
+            const spy = vi
+                .spyOn(globalThis, "fetch")
+                .mockRejectedValue(new Error("ECONNREFUSED"));
+
+            await expect(client.queryExchangeRates()).rejects.toThrow(
+                /Mirror node request failed/,
+            );
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("transport and headers", () => {
+        const rates = {
+            current_rate: {
+                cent_equivalent: 12,
+                hbar_equivalent: 1,
+                expiration_time: 1,
+            },
+            next_rate: {
+                cent_equivalent: 13,
+                hbar_equivalent: 1,
+                expiration_time: 2,
+            },
+        };
+
+        it("sends requests through a custom transport", async () => {
+            const global = vi.spyOn(globalThis, "fetch");
+            const transport = vi.fn<MirrorTransport>(() =>
+                Promise.resolve(jsonResponse(rates)),
+            );
+            const custom = new MirrorNodeClient("https://mirror.example.com", {
+                transport,
+            });
+
+            await custom.queryExchangeRates();
+
+            expect(global).not.toHaveBeenCalled();
+            expect(transport).toHaveBeenCalledWith(
+                "https://mirror.example.com/api/v1/network/exchangerate",
+                expect.objectContaining({ method: "GET" }),
+            );
+        });
+
+        it("adds the API key and static headers", async () => {
+            const transport = vi.fn<MirrorTransport>(() =>
+                Promise.resolve(jsonResponse(rates)),
+            );
+            const custom = new MirrorNodeClient("https://mirror.example.com", {
+                transport,
+                apiKey: "secret",
+                headers: { "x-tenant": "acme" },
+            });
+
+            await custom.queryExchangeRates();
+
+            expect(transport.mock.calls[0][1].headers).toEqual({
+                Accept: "application/json",
+                "x-api-key": "secret",
+                "x-tenant": "acme",
+            });
+        });
+
+        it("resolves an async header provider before every attempt", async () => {
+            let token = 0;
+            const transport = vi
+                .fn<MirrorTransport>()
+                .mockResolvedValueOnce(new Response(null, { status: 503 }))
+                .mockResolvedValueOnce(jsonResponse(rates));
+            const custom = new MirrorNodeClient("https://mirror.example.com", {
+                transport,
+                headers: () =>
+                    Promise.resolve({ authorization: `Bearer ${++token}` }),
+            });
+
+            await custom.queryExchangeRates();
+
+            expect(
+                transport.mock.calls.map(
+                    ([, req]) => req.headers.authorization,
+                ),
+            ).toEqual(["Bearer 1", "Bearer 2"]);
+        });
+
+        it("fails without a request when the header provider throws", async () => {
+            const transport = vi.fn<MirrorTransport>();
+            const custom = new MirrorNodeClient("https://mirror.example.com", {
+                transport,
+                headers: () => Promise.reject(new Error("vault sealed")),
+            });
+
+            const err = await custom
+                .queryExchangeRates()
+                .catch((e: unknown) => e);
+
+            expect(err).toBeInstanceOf(HieroError);
+            expect((err as HieroError).code).toBe(
+                HieroErrorCodes.MirrorNodeError,
+            );
+            expect(transport).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MirrorEndpointPool } from "../../../src/mirror/mirror-node-endpoints.js";
+
+describe("MirrorEndpointPool", () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1_000_000;
+        vi.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function pool(): MirrorEndpointPool {
+        return new MirrorEndpointPool(["https://primary", "https://backup"], {
+            failureThreshold: 2,
+            cooldownMs: 10_000,
+        });
+    }
+
+    it("prefers the first endpoint while it is healthy", () => {
+        const p = pool();
+        p.recordFailure("https://primary");
+
+        expect(p.select()).toBe("https://primary");
+        expect(p.status()[0].state).toBe("closed");
+    });
+
+    it("moves a retry off the endpoint that just failed", () => {
+        const p = pool();
+        p.recordFailure("https://primary");
+
+        expect(p.select("https://primary")).toBe("https://backup");
+        expect(p.select("https://backup")).toBe("https://primary");
+    });
+
+    it("opens the breaker after repeated failures and fails over", () => {
+        const p = pool();
+        p.recordFailure("https://primary");
+        p.recordFailure("https://primary");
+
+        expect(p.select()).toBe("https://backup");
+        expect(p.active).toBe("https://backup");
+        expect(p.status()[0]).toMatchObject({
+            state: "open",
+            consecutiveFailures: 2,
+            openedAt: 1_000_000,
+        });
+    });
+
+    it("sends a single half-open probe after the cooldown", () => {
+        const p = pool();
+        p.recordFailure("https://primary");
+        p.recordFailure("https://primary");
+
+        now += 10_000;
+        expect(p.select()).toBe("https://primary");
+        expect(p.status()[0].state).toBe("half-open");
+        // A second request while the probe is in flight stays on the backup
+        expect(p.select()).toBe("https://backup");
+
+        p.recordSuccess("https://primary");
+        expect(p.select()).toBe("https://primary");
+        expect(p.status()[0].state).toBe("closed");
+    });
+
+    it("re-opens the breaker when the probe fails", () => {
+        const p = pool();
+        p.recordFailure("https://primary");
+        p.recordFailure("https://primary");
+        now += 10_000;
+        p.select();
+
+        p.recordFailure("https://primary");
+
+        expect(p.status()[0]).toMatchObject({
+            state: "open",
+            openedAt: 1_010_000,
+        });
+        expect(p.select()).toBe("https://backup");
+    });
+
+    it("keeps a deferred endpoint out of rotation until Retry-After elapses", () => {
+        const p = pool();
+        p.deferFor("https://primary", 5_000);
+
+        expect(p.select()).toBe("https://backup");
+        expect(p.alternativeDelayMs("https://backup")).toBe(5_000);
+        now += 5_000;
+        expect(p.select()).toBe("https://primary");
+    });
+
+    it("falls back to the soonest endpoint when none is available", () => {
+        const p = pool();
+        p.deferFor("https://primary", 5_000);
+        p.deferFor("https://backup", 1_000);
+
+        expect(p.select()).toBe("https://backup");
+    });
+
+    it("reports no alternative for a single endpoint", () => {
+        const p = new MirrorEndpointPool(["https://only"]);
+
+        expect(p.alternativeDelayMs("https://only")).toBeNull();
+    });
+});
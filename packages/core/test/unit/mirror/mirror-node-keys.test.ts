@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+    convertMirrorKey,
+    decodeProtobufKey,
+} from "../../../src/mirror/mirror-node-keys.js";
+
+/** Encode a length-delimited protobuf field (short payloads only). */
+function field(num: number, payload: Uint8Array): Uint8Array {
+    return new Uint8Array([(num << 3) | 2, payload.length, ...payload]);
+}
+
+function varintField(num: number, value: number): Uint8Array {
+    return new Uint8Array([num << 3, value]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    return new Uint8Array(parts.flatMap((part) => [...part]));
+}
+
+const ed = new Uint8Array(32).fill(0xaa);
+const ecdsa = new Uint8Array(33).fill(0xbb);
+const edKey = field(2, ed);
+const ecdsaKey = field(7, ecdsa);
+
+describe("decodeProtobufKey", () => {
+    it("decodes a threshold key over mixed key types", () => {
+        const contract = field(
+            1,
+            concat(varintField(1, 0), varintField(2, 0), varintField(3, 99)),
+        );
+        const keyList = concat(
+            field(1, edKey),
+            field(1, ecdsaKey),
+            field(1, contract),
+        );
+        const bytes = field(5, concat(varintField(1, 2), field(2, keyList)));
+
+        expect(decodeProtobufKey(bytes)).toEqual({
+            type: "threshold",
+            threshold: 2,
+            keys: [
+                { type: "ed25519", key: "aa".repeat(32) },
+                { type: "ecdsaSecp256k1", key: "bb".repeat(33) },
+                { type: "contract", contractId: "0.0.99" },
+            ],
+        });
+    });
+
+    it("decodes nested key lists", () => {
+        const inner = field(6, field(1, edKey));
+        const bytes = field(6, concat(field(1, inner), field(1, ecdsaKey)));
+
+        expect(decodeProtobufKey(bytes)).toEqual({
+            type: "keyList",
+            keys: [
+                {
+                    type: "keyList",
+                    keys: [{ type: "ed25519", key: "aa".repeat(32) }],
+                },
+                { type: "ecdsaSecp256k1", key: "bb".repeat(33) },
+            ],
+        });
+    });
+
+    it("decodes a delegatable contract key with an EVM address", () => {
+        const bytes = field(8, field(4, new Uint8Array([0x12, 0x34])));
+
+        expect(decodeProtobufKey(bytes)).toEqual({
+            type: "delegatableContract",
+            contractId: "0.0.1234",
+        });
+    });
+
+    it("rejects truncated input", () => {
+        expect(() => decodeProtobufKey(edKey.subarray(0, 10))).toThrow();
+    });
+});
+
+describe("convertMirrorKey", () => {
+    it("passes simple keys through", () => {
+        expect(convertMirrorKey({ _type: "ED25519", key: "abcd" })).toEqual({
+            type: "ed25519",
+            key: "abcd",
+        });
+    });
+
+    it("decodes ProtobufEncoded keys", () => {
+        expect(
+            convertMirrorKey({
+                _type: "ProtobufEncoded",
+                key: Buffer.from(field(6, field(1, edKey))).toString("hex"),
+            }),
+        ).toEqual({
+            type: "keyList",
+            keys: [{ type: "ed25519", key: "aa".repeat(32) }],
+        });
+    });
+
+    it("falls back to unknown when the protobuf is malformed", () => {
+        expect(
+            convertMirrorKey({ _type: "ProtobufEncoded", key: "0aff" }),
+        ).toEqual({ type: "unknown", key: "0aff" });
+    });
+});
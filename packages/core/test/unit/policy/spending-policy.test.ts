@@ -0,0 +1,316 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    AccountAllowanceApproveTransaction,
+    BatchTransaction,
+    ContractExecuteTransaction,
+    Hbar,
+    NftId,
+    PrivateKey,
+    TokenAirdropTransaction,
+    TokenCreateTransaction,
+    TransactionId,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import type { Transaction } from "@hiero-ledger/sdk";
+import { createSpendingPolicyInterceptor } from "../../../src/policy/index.js";
+import type { SpendingPolicy } from "../../../src/policy/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import type {
+    ScheduleInterceptorContext,
+    TransactionInterceptorContext,
+} from "../../../src/listeners/index.js";
+import type { TransactionOptions } from "../../../src/services/transaction/TransactionOptions.js";
+
+const event = {
+    type: "CryptoTransfer",
+    serviceName: "AccountService",
+    methodName: "transferHbar",
+    timestamp: new Date(0),
+};
+
+function transactionContext(
+    transaction: Transaction,
+    options: TransactionOptions = {},
+): TransactionInterceptorContext {
+    return {
+        kind: "transaction",
+        transaction,
+        options,
+        event,
+        state: new Map(),
+    };
+}
+
+function scheduleContext(transaction: Transaction): ScheduleInterceptorContext {
+    return {
+        kind: "schedule",
+        transaction,
+        options: {},
+        scheduleOptions: {},
+        event,
+        state: new Map(),
+    };
+}
+
+function hbarTransfer(hbar: number, to = "0.0.3"): TransferTransaction {
+    return new TransferTransaction()
+        .addHbarTransfer("0.0.2", new Hbar(-hbar))
+        .addHbarTransfer(to, new Hbar(hbar));
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HieroError> {
+    const error = await promise.then(
+        () => undefined,
+        (error: unknown) => error,
+    );
+    expect(error).toBeInstanceOf(HieroError);
+    return error as HieroError;
+}
+
+function enforce(policy: SpendingPolicy, now?: () => number) {
+    const interceptor = createSpendingPolicyInterceptor(policy, { now });
+    const next = vi.fn(() => Promise.resolve("result"));
+    return {
+        next,
+        run: (
+            ctx: TransactionInterceptorContext | ScheduleInterceptorContext,
+        ) => interceptor(ctx, next),
+    };
+}
+
+describe("createSpendingPolicyInterceptor", () => {
+    it("passes transactions within every limit", async () => {
+        const { run, next } = enforce({ hbar: { perTransaction: 10 } });
+
+        await expect(run(transactionContext(hbarTransfer(10)))).resolves.toBe(
+            "result",
+        );
+        expect(next).toHaveBeenCalledOnce();
+    });
+
+    it("rejects HBAR transfers above the per-transaction limit", async () => {
+        const { run, next } = enforce({ hbar: { perTransaction: 10 } });
+
+        const error = await rejection(
+            run(transactionContext(hbarTransfer(11))),
+        );
+
+        expect(error.code).toBe(HieroErrorCodes.PolicyViolation);
+        expect(error.rule).toBe("hbar.perTransaction");
+        expect(error.context).toBe("AccountService.transferHbar");
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it("limits each token by the amount credited", async () => {
+        const { run } = enforce({
+            tokens: { "0.0.7": { perTransaction: 100n } },
+        });
+        const tx = new TransferTransaction()
+            .addTokenTransfer("0.0.7", "0.0.2", -150)
+            .addTokenTransfer("0.0.7", "0.0.3", 75)
+            .addTokenTransfer("0.0.7", "0.0.4", 75);
+
+        const error = await rejection(run(transactionContext(tx)));
+
+        expect(error.rule).toBe("tokens.0.0.7.perTransaction");
+    });
+
+    it("counts NFT serials in airdrops", async () => {
+        const { run } = enforce({ nfts: { "0.0.8": { perTransaction: 1 } } });
+        const tx = new TokenAirdropTransaction()
+            .addNftTransfer(NftId.fromString("0.0.8/1"), "0.0.2", "0.0.3")
+            .addNftTransfer(NftId.fromString("0.0.8/2"), "0.0.2", "0.0.3");
+
+        const error = await rejection(run(transactionContext(tx)));
+
+        expect(error.rule).toBe("nfts.0.0.8.perTransaction");
+    });
+
+    it("treats allowances as movements to the spender", async () => {
+        const { run } = enforce({
+            hbar: { perTransaction: 5 },
+            deniedRecipients: ["0.0.666"],
+        });
+
+        const tooMuch =
+            new AccountAllowanceApproveTransaction().approveHbarAllowance(
+                "0.0.2",
+                "0.0.3",
+                new Hbar(6),
+            );
+        expect((await rejection(run(transactionContext(tooMuch)))).rule).toBe(
+            "hbar.perTransaction",
+        );
+
+        const denied =
+            new AccountAllowanceApproveTransaction().approveHbarAllowance(
+                "0.0.2",
+                "0.0.666",
+                new Hbar(1),
+            );
+        expect((await rejection(run(transactionContext(denied)))).rule).toBe(
+            "deniedRecipients",
+        );
+    });
+
+    it("rejects an allowance over every serial when the collection is limited", async () => {
+        const { run } = enforce({ nfts: { "0.0.8": { perWindow: 100 } } });
+        const tx =
+            new AccountAllowanceApproveTransaction().approveTokenNftAllowanceAllSerials(
+                "0.0.8",
+                "0.0.2",
+                "0.0.3",
+            );
+
+        const error = await rejection(run(transactionContext(tx)));
+
+        expect(error.rule).toBe("nfts.0.0.8.perWindow");
+    });
+
+    it("limits the payable amount of contract calls", async () => {
+        const { run } = enforce({
+            hbar: { perTransaction: 1 },
+            allowedRecipients: ["0.0.3"],
+        });
+        const tx = new ContractExecuteTransaction()
+            .setContractId("0.0.1001")
+            .setPayableAmount(new Hbar(1));
+
+        const error = await rejection(run(transactionContext(tx)));
+
+        expect(error.rule).toBe("allowedRecipients");
+        expect(error.message).toContain("0.0.1001");
+    });
+
+    it("checks the inner transactions of a batch", async () => {
+        const { run, next } = enforce({
+            hbar: { perTransaction: 10 },
+            deniedRecipients: ["0.0.666"],
+        });
+        const batch = (...inner: TransferTransaction[]) =>
+            new BatchTransaction().setInnerTransactions(
+                inner.map((tx) =>
+                    tx
+                        .setBatchKey(PrivateKey.generateED25519().publicKey)
+                        .setTransactionId(TransactionId.generate("0.0.2"))
+                        .freeze(),
+                ),
+            );
+
+        const denied = await rejection(
+            run(transactionContext(batch(hbarTransfer(1, "0.0.666")))),
+        );
+        const total = await rejection(
+            run(transactionContext(batch(hbarTransfer(6), hbarTransfer(6)))),
+        );
+
+        expect(denied.rule).toBe("deniedRecipients");
+        expect(total.rule).toBe("hbar.perTransaction");
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it("enforces rolling windows and forgets old spending", async () => {
+        let now = 0;
+        const { run } = enforce(
+            { hbar: { perWindow: 10, windowMs: 1_000 } },
+            () => now,
+        );
+
+        await run(transactionContext(hbarTransfer(6)));
+        const error = await rejection(run(transactionContext(hbarTransfer(5))));
+        expect(error.rule).toBe("hbar.perWindow");
+
+        now = 1_001;
+        await expect(run(transactionContext(hbarTransfer(5)))).resolves.toBe(
+            "result",
+        );
+    });
+
+    it("releases reserved amounts when the transaction fails", async () => {
+        const interceptor = createSpendingPolicyInterceptor({
+            hbar: { perWindow: 10 },
+        });
+        const failed = new HieroError("INSUFFICIENT_PAYER_BALANCE", {
+            code: HieroErrorCodes.SdkError,
+        });
+
+        await expect(
+            interceptor(transactionContext(hbarTransfer(8)), () =>
+                Promise.reject(failed),
+            ),
+        ).rejects.toBe(failed);
+        await expect(
+            interceptor(transactionContext(hbarTransfer(8)), () =>
+                Promise.resolve("result"),
+            ),
+        ).resolves.toBe("result");
+    });
+
+    it("keeps amounts reserved when the outcome is unknown", async () => {
+        const interceptor = createSpendingPolicyInterceptor({
+            hbar: { perWindow: 10 },
+        });
+        const timedOut = new HieroError("timed out", {
+            code: HieroErrorCodes.TimedOut,
+        });
+
+        await expect(
+            interceptor(transactionContext(hbarTransfer(8)), () =>
+                Promise.reject(timedOut),
+            ),
+        ).rejects.toBe(timedOut);
+        const error = await rejection(
+            interceptor(transactionContext(hbarTransfer(8)), () =>
+                Promise.resolve("result"),
+            ),
+        );
+        expect(error.rule).toBe("hbar.perWindow");
+    });
+
+    it("requires large transfers to be scheduled", async () => {
+        const { run } = enforce({ hbar: { requireScheduleAbove: 50 } });
+
+        const error = await rejection(
+            run(transactionContext(hbarTransfer(51))),
+        );
+        expect(error.rule).toBe("hbar.requireScheduleAbove");
+
+        await expect(run(scheduleContext(hbarTransfer(51)))).resolves.toBe(
+            "result",
+        );
+    });
+
+    it("rejects a maximum fee above the policy's", async () => {
+        const { run } = enforce({ maxTransactionFee: 2 });
+
+        const error = await rejection(
+            run(
+                transactionContext(new TokenCreateTransaction(), {
+                    maxTransactionFee: 3,
+                }),
+            ),
+        );
+
+        expect(error.rule).toBe("maxTransactionFee");
+    });
+
+    it("caps transactions without a maximum fee", async () => {
+        const { run } = enforce({ maxTransactionFee: 2 });
+        const ctx = transactionContext(new TokenCreateTransaction());
+
+        await run(ctx);
+
+        expect(ctx.options.maxTransactionFee).toEqual(new Hbar(2));
+    });
+
+    it("rejects invalid policies", () => {
+        expect(() =>
+            createSpendingPolicyInterceptor({ hbar: { perTransaction: -1 } }),
+        ).toThrow(HieroError);
+        expect(() =>
+            createSpendingPolicyInterceptor({
+                tokens: { "0.0.7": { perWindow: 1n, windowMs: 0 } },
+            }),
+        ).toThrow(HieroError);
+    });
+});
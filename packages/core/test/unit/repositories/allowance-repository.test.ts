@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AllowanceRepository } from "../../../src/repositories/allowance-repository.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+describe("AllowanceRepository", () => {
+    let repo: AllowanceRepository;
+    let mockClient: ReturnType<typeof createMockMirrorNodeClient>;
+
+    beforeEach(() => {
+        mockClient = createMockMirrorNodeClient();
+        repo = new AllowanceRepository(
+            mockClient as unknown as MirrorNodeClient,
+        );
+    });
+
+    it("delegates findCryptoAllowances to queryCryptoAllowances", async () => {
+        const spy = vi.spyOn(mockClient, "queryCryptoAllowances");
+        await repo.findCryptoAllowances("0.0.123");
+        expect(spy).toHaveBeenCalledWith("0.0.123", undefined);
+    });
+
+    it("delegates findTokenAllowances to queryTokenAllowances", async () => {
+        const spy = vi.spyOn(mockClient, "queryTokenAllowances");
+        await repo.findTokenAllowances("0.0.123", { spenderId: "0.0.456" });
+        expect(spy).toHaveBeenCalledWith("0.0.123", { spenderId: "0.0.456" });
+    });
+
+    it("delegates findNftAllowances to queryNftAllowances", async () => {
+        const spy = vi.spyOn(mockClient, "queryNftAllowances");
+        await repo.findNftAllowances("0.0.123");
+        expect(spy).toHaveBeenCalledWith("0.0.123", undefined);
+    });
+
+    it("delegates iterateNftAllowances to paginateNftAllowances", () => {
+        const spy = vi.spyOn(mockClient, "paginateNftAllowances");
+        repo.iterateNftAllowances("0.0.123", { maxPages: 1 });
+        expect(spy).toHaveBeenCalledWith("0.0.123", { maxPages: 1 });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BalanceRepository } from "../../../src/repositories/balance-repository.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+describe("BalanceRepository", () => {
+    let repo: BalanceRepository;
+    let mockClient: ReturnType<typeof createMockMirrorNodeClient>;
+
+    beforeEach(() => {
+        mockClient = createMockMirrorNodeClient();
+        repo = new BalanceRepository(mockClient as unknown as MirrorNodeClient);
+    });
+
+    it("delegates findBalances to queryBalances", async () => {
+        const spy = vi.spyOn(mockClient, "queryBalances");
+        await repo.findBalances({ accountId: "0.0.123" });
+        expect(spy).toHaveBeenCalledWith({ accountId: "0.0.123" });
+    });
+
+    it("delegates findAccountBalanceAt to queryAccountBalanceAt", async () => {
+        const spy = vi.spyOn(mockClient, "queryAccountBalanceAt");
+        await repo.findAccountBalanceAt("0.0.123", "1700000000.000000000");
+        expect(spy).toHaveBeenCalledWith("0.0.123", "1700000000.000000000");
+    });
+
+    it("delegates findTokenHolders to queryTokenBalances", async () => {
+        const spy = vi.spyOn(mockClient, "queryTokenBalances");
+        await repo.findTokenHolders("0.0.456");
+        expect(spy).toHaveBeenCalledWith("0.0.456", undefined);
+    });
+
+    it("findTokenHoldersAt filters by snapshot time and minimum balance", async () => {
+        const spy = vi.spyOn(mockClient, "queryTokenBalances");
+        await repo.findTokenHoldersAt("0.0.456", "1700000000.000000000", 10n, {
+            limit: 50,
+        });
+        expect(spy).toHaveBeenCalledWith("0.0.456", {
+            limit: 50,
+            timestamp: { lte: "1700000000.000000000" },
+            balance: { gte: 10n },
+        });
+    });
+
+    it("delegates iterateTokenHolders to paginateTokenBalances", () => {
+        const spy = vi.spyOn(mockClient, "paginateTokenBalances");
+        repo.iterateTokenHolders("0.0.456", { maxPages: 1 });
+        expect(spy).toHaveBeenCalledWith("0.0.456", { maxPages: 1 });
+    });
+});
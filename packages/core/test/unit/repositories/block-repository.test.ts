@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BlockRepository } from "../../../src/repositories/block-repository.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+describe("BlockRepository", () => {
+    let repo: BlockRepository;
+    let mockClient: ReturnType<typeof createMockMirrorNodeClient>;
+
+    beforeEach(() => {
+        mockClient = createMockMirrorNodeClient();
+        repo = new BlockRepository(mockClient as unknown as MirrorNodeClient);
+    });
+
+    it("delegates findAll to queryBlocks", async () => {
+        const spy = vi.spyOn(mockClient, "queryBlocks");
+        await repo.findAll({ blockNumber: { gte: 100 } });
+        expect(spy).toHaveBeenCalledWith({ blockNumber: { gte: 100 } });
+    });
+
+    it("delegates findByHashOrNumber to queryBlock", async () => {
+        const spy = vi.spyOn(mockClient, "queryBlock");
+        await repo.findByHashOrNumber(42);
+        expect(spy).toHaveBeenCalledWith(42);
+    });
+
+    it("delegates iterateAll to paginateBlocks", () => {
+        const spy = vi.spyOn(mockClient, "paginateBlocks");
+        repo.iterateAll();
+        expect(spy).toHaveBeenCalledWith(undefined);
+    });
+});
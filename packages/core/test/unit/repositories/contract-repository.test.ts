@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ContractRepository } from "../../../src/repositories/contract-repository.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+describe("ContractRepository", () => {
+    let repo: ContractRepository;
+    let mockClient: ReturnType<typeof createMockMirrorNodeClient>;
+
+    beforeEach(() => {
+        mockClient = createMockMirrorNodeClient();
+        repo = new ContractRepository(
+            mockClient as unknown as MirrorNodeClient,
+        );
+    });
+
+    it("delegates findAll to queryContracts", async () => {
+        const spy = vi.spyOn(mockClient, "queryContracts");
+        await repo.findAll({ limit: 10 });
+        expect(spy).toHaveBeenCalledWith({ limit: 10 });
+    });
+
+    it("delegates findById to queryContract", async () => {
+        const spy = vi.spyOn(mockClient, "queryContract");
+        await repo.findById("0.0.777");
+        expect(spy).toHaveBeenCalledWith("0.0.777");
+    });
+
+    it("delegates findResults to queryContractResults", async () => {
+        const spy = vi.spyOn(mockClient, "queryContractResults");
+        await repo.findResults("0.0.777", { order: "desc" });
+        expect(spy).toHaveBeenCalledWith("0.0.777", { order: "desc" });
+    });
+
+    it("delegates findResult to queryContractResult", async () => {
+        const spy = vi.spyOn(mockClient, "queryContractResult");
+        await repo.findResult("0.0.123@1234567890.000000000");
+        expect(spy).toHaveBeenCalledWith("0.0.123@1234567890.000000000");
+    });
+
+    it("delegates findState to queryContractState", async () => {
+        const spy = vi.spyOn(mockClient, "queryContractState");
+        await repo.findState("0.0.777");
+        expect(spy).toHaveBeenCalledWith("0.0.777", undefined);
+    });
+
+    it("delegates iterateResults to paginateContractResults", () => {
+        const spy = vi.spyOn(mockClient, "paginateContractResults");
+        repo.iterateResults("0.0.777", { maxPages: 2 });
+        expect(spy).toHaveBeenCalledWith("0.0.777", { maxPages: 2 });
+    });
+});
@@ -14,8 +14,8 @@ describe("NftRepository", () => {
 
     it("delegates findByOwner to queryNftsByAccount", async () => {
         const spy = vi.spyOn(mockClient, "queryNftsByAccount");
-        await repo.findByOwner("0.0.123");
-        expect(spy).toHaveBeenCalledWith("0.0.123");
+        await repo.findByOwner("0.0.123", { limit: 50 });
+        expect(spy).toHaveBeenCalledWith("0.0.123", { limit: 50 });
     });
 
     it("delegates findBySerial to queryNftsByTokenIdAndSerial", async () => {
@@ -23,4 +23,16 @@ describe("NftRepository", () => {
         await repo.findBySerial("0.0.99", 5);
         expect(spy).toHaveBeenCalledWith("0.0.99", 5);
     });
+
+    it("delegates iterateByOwner to paginateNftsByAccount", () => {
+        const spy = vi.spyOn(mockClient, "paginateNftsByAccount");
+        repo.iterateByOwner("0.0.123", { maxItems: 10 });
+        expect(spy).toHaveBeenCalledWith("0.0.123", { maxItems: 10 });
+    });
+
+    it("delegates iterateByOwnerAndType to paginateNftsByAccountAndTokenId", () => {
+        const spy = vi.spyOn(mockClient, "paginateNftsByAccountAndTokenId");
+        repo.iterateByOwnerAndType("0.0.123", "0.0.99");
+        expect(spy).toHaveBeenCalledWith("0.0.123", "0.0.99", undefined);
+    });
 });
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ScheduleRepository } from "../../../src/repositories/schedule-repository.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+
+describe("ScheduleRepository", () => {
+    let repo: ScheduleRepository;
+    let mockClient: ReturnType<typeof createMockMirrorNodeClient>;
+
+    beforeEach(() => {
+        mockClient = createMockMirrorNodeClient();
+        repo = new ScheduleRepository(
+            mockClient as unknown as MirrorNodeClient,
+        );
+    });
+
+    it("delegates findAll to querySchedules", async () => {
+        const spy = vi.spyOn(mockClient, "querySchedules");
+        await repo.findAll({ accountId: "0.0.123" });
+        expect(spy).toHaveBeenCalledWith({ accountId: "0.0.123" });
+    });
+
+    it("delegates findById to querySchedule", async () => {
+        const spy = vi.spyOn(mockClient, "querySchedule");
+        await repo.findById("0.0.666");
+        expect(spy).toHaveBeenCalledWith("0.0.666");
+    });
+
+    it("delegates iterateAll to paginateSchedules", () => {
+        const spy = vi.spyOn(mockClient, "paginateSchedules");
+        repo.iterateAll({ maxItems: 5 });
+        expect(spy).toHaveBeenCalledWith({ maxItems: 5 });
+    });
+});
@@ -2,6 +2,15 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { TopicRepository } from "../../../src/repositories/topic-repository.js";
 import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
 import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+import type {
+    MirrorTopicMessage,
+    TopicMessageFilter,
+    TopicStreamCheckpoint,
+    TopicStreamMessage,
+    TopicStreamPosition,
+} from "../../../src/types/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { textCodec } from "../../../src/codec/index.js";
 
 describe("TopicRepository", () => {
     let repo: TopicRepository;
@@ -12,10 +21,18 @@ describe("TopicRepository", () => {
         repo = new TopicRepository(mockClient as unknown as MirrorNodeClient);
     });
 
+    it("delegates findTopicById to queryTopic", async () => {
+        const spy = vi.spyOn(mockClient, "queryTopic");
+        await repo.findTopicById("0.0.100");
+        expect(spy).toHaveBeenCalledWith("0.0.100");
+    });
+
     it("delegates findByTopicId to queryTopicMessages", async () => {
         const spy = vi.spyOn(mockClient, "queryTopicMessages");
-        await repo.findByTopicId("0.0.100");
-        expect(spy).toHaveBeenCalledWith("0.0.100");
+        await repo.findByTopicId("0.0.100", { sequenceNumber: { gt: 10 } });
+        expect(spy).toHaveBeenCalledWith("0.0.100", {
+            sequenceNumber: { gt: 10 },
+        });
     });
 
     it("delegates findByTopicIdAndSequenceNumber to queryTopicMessageBySequence", async () => {
@@ -23,4 +40,221 @@ describe("TopicRepository", () => {
         await repo.findByTopicIdAndSequenceNumber("0.0.100", 5);
         expect(spy).toHaveBeenCalledWith("0.0.100", 5);
     });
+
+    it("delegates iterateByTopicId to paginateTopicMessages", () => {
+        const spy = vi.spyOn(mockClient, "paginateTopicMessages");
+        repo.iterateByTopicId("0.0.100");
+        expect(spy).toHaveBeenCalledWith("0.0.100", undefined);
+    });
+
+    it("decodes message payloads when given a codec", async () => {
+        vi.spyOn(mockClient, "queryTopicMessages").mockResolvedValue({
+            data: [
+                {
+                    topicId: "0.0.100",
+                    sequenceNumber: "1",
+                    message: Buffer.from("hi").toString("base64"),
+                    runningHash: "h1",
+                    consensusTimestamp: "1700000000.1",
+                },
+                {
+                    topicId: "0.0.100",
+                    sequenceNumber: "2",
+                    message: Buffer.from([0xff]).toString("base64"),
+                    runningHash: "h2",
+                    consensusTimestamp: "1700000000.2",
+                },
+            ],
+            links: { next: null },
+        });
+
+        const page = await repo.findByTopicId(
+            "0.0.100",
+            undefined,
+            textCodec(),
+        );
+
+        expect(page.data[0].payload).toEqual({ ok: true, value: "hi" });
+        expect(page.data[1].payload.ok).toBe(false);
+    });
+
+    describe("stream", () => {
+        let topic: MirrorTopicMessage[];
+
+        function message(
+            sequence: number,
+            text: string,
+            chunk?: [string, number, number],
+        ): MirrorTopicMessage {
+            return {
+                topicId: "0.0.100",
+                sequenceNumber: String(sequence),
+                message: Buffer.from(text).toString("base64"),
+                runningHash: `hash-${sequence}`,
+                consensusTimestamp: `1700000000.${sequence}`,
+                chunkInfo: chunk && {
+                    initialTransactionId: chunk[0],
+                    number: chunk[1],
+                    total: chunk[2],
+                },
+            };
+        }
+
+        function text(msg: TopicStreamMessage): string {
+            return Buffer.from(msg.message, "base64").toString();
+        }
+
+        beforeEach(() => {
+            topic = [];
+            vi.spyOn(mockClient, "paginateTopicMessages").mockImplementation(
+                async function* (_topicId, options?: TopicMessageFilter) {
+                    const range = options?.sequenceNumber;
+                    const after =
+                        typeof range === "object" ? (range.gt ?? 0) : 0;
+                    for (const msg of topic) {
+                        if (Number(msg.sequenceNumber) > after) {
+                            yield await Promise.resolve(msg);
+                        }
+                    }
+                },
+            );
+        });
+
+        async function take(
+            iterable: AsyncIterable<TopicStreamMessage>,
+            count: number,
+        ): Promise<TopicStreamMessage[]> {
+            const out: TopicStreamMessage[] = [];
+            for await (const msg of iterable) {
+                out.push(msg);
+                if (out.length === count) break;
+            }
+            return out;
+        }
+
+        it("starts at fromSequence and polls for new messages", async () => {
+            topic = [message(1, "a"), message(2, "b")];
+            const iter = repo
+                .stream("0.0.100", { fromSequence: 2, pollIntervalMs: 5 })
+                [Symbol.asyncIterator]();
+
+            const first = await iter.next();
+            const second = iter.next();
+            topic.push(message(3, "c"));
+
+            expect(text(first.value as TopicStreamMessage)).toBe("b");
+            expect(text((await second).value as TopicStreamMessage)).toBe("c");
+            await iter.return?.();
+        });
+
+        it("reassembles interleaved chunks", async () => {
+            topic = [
+                message(1, "hel", ["0.0.5@1.1", 1, 2]),
+                message(2, "solo"),
+                message(3, "wor", ["0.0.6@1.2", 1, 2]),
+                message(4, "lo", ["0.0.5@1.1", 2, 2]),
+                message(5, "ld", ["0.0.6@1.2", 2, 2]),
+            ];
+
+            const out = await take(
+                repo.stream("0.0.100", { pollIntervalMs: 5 }),
+                3,
+            );
+
+            expect(out.map(text)).toEqual(["solo", "hello", "world"]);
+            expect(out[1]).toMatchObject({
+                sequenceNumber: "4",
+                chunkSequenceNumbers: ["1", "4"],
+            });
+        });
+
+        it("resumes from a checkpoint without gaps or repeats", async () => {
+            topic = [
+                message(1, "hel", ["0.0.5@1.1", 1, 2]),
+                message(2, "solo"),
+                message(3, "lo", ["0.0.5@1.1", 2, 2]),
+                message(4, "next"),
+            ];
+            let saved: TopicStreamPosition | undefined;
+            const checkpoint: TopicStreamCheckpoint = {
+                load: () => Promise.resolve(saved),
+                save: (_topicId, position) => {
+                    saved = position;
+                    return Promise.resolve();
+                },
+            };
+
+            // The first run delivers "solo", then "hello", and stops before
+            // finishing "hello". The half-received chunk at 1 pins resumeFrom.
+            const run = repo
+                .stream("0.0.100", { checkpoint, pollIntervalMs: 5 })
+                [Symbol.asyncIterator]();
+            await run.next();
+            await run.next();
+            await run.return?.();
+            expect(saved).toEqual({ lastSequenceNumber: 2, resumeFrom: 1 });
+
+            const out = await take(
+                repo.stream("0.0.100", { checkpoint, pollIntervalMs: 5 }),
+                2,
+            );
+
+            expect(out.map(text)).toEqual(["hello", "next"]);
+        });
+
+        it("skips a chunked message whose chunks can no longer arrive", async () => {
+            const emitWarning = vi
+                .spyOn(process, "emitWarning")
+                .mockImplementation(() => undefined);
+            topic = [
+                message(1, "hel", ["0.0.5@1.1", 1, 2]),
+                message(2, "solo"),
+                {
+                    ...message(3, "later"),
+                    consensusTimestamp: "1700000181.000000000",
+                },
+                message(4, "next"),
+            ];
+            const saved: TopicStreamPosition[] = [];
+            const checkpoint: TopicStreamCheckpoint = {
+                load: () => Promise.resolve(undefined),
+                save: (_topicId, position) => {
+                    saved.push(position);
+                    return Promise.resolve();
+                },
+            };
+
+            const out = await take(
+                repo.stream("0.0.100", { checkpoint, pollIntervalMs: 5 }),
+                3,
+            );
+
+            expect(out.map(text)).toEqual(["solo", "later", "next"]);
+            expect(saved.at(-1)).toEqual({
+                lastSequenceNumber: 3,
+                resumeFrom: 4,
+            });
+            expect(emitWarning).toHaveBeenCalledWith(
+                expect.stringContaining("1 of 2 chunks of 0.0.5@1.1"),
+                "HieroTopicStreamWarning",
+            );
+        });
+
+        it("rejects with ABORTED while waiting for new messages", async () => {
+            const controller = new AbortController();
+            const iter = repo
+                .stream("0.0.100", {
+                    pollIntervalMs: 60_000,
+                    signal: controller.signal,
+                })
+                [Symbol.asyncIterator]();
+
+            const pending = iter.next();
+            setTimeout(() => controller.abort(), 5);
+            const err = await pending.catch((e: unknown) => e);
+
+            expect(err).toBeInstanceOf(HieroError);
+            expect((err as HieroError).code).toBe(HieroErrorCodes.Aborted);
+        });
+    });
 });
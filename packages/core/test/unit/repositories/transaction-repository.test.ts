@@ -17,13 +17,24 @@ describe("TransactionRepository", () => {
     it("delegates findByAccount to queryTransactionsByAccount", async () => {
         const spy = vi.spyOn(mockClient, "queryTransactionsByAccount");
         await repo.findByAccount("0.0.123");
-        expect(spy).toHaveBeenCalledWith("0.0.123");
+        expect(spy).toHaveBeenCalledWith("0.0.123", undefined);
+    });
+
+    it("forwards the filter from findByAccount", async () => {
+        const spy = vi.spyOn(mockClient, "queryTransactionsByAccount");
+        const filter = { result: "fail" as const, order: "desc" as const };
+        await repo.findByAccount("0.0.123", filter);
+        expect(spy).toHaveBeenCalledWith("0.0.123", filter);
     });
 
     it("delegates findByAccountAndType to queryTransactionsByAccountAndType", async () => {
         const spy = vi.spyOn(mockClient, "queryTransactionsByAccountAndType");
         await repo.findByAccountAndType("0.0.123", "CRYPTOTRANSFER");
-        expect(spy).toHaveBeenCalledWith("0.0.123", "CRYPTOTRANSFER");
+        expect(spy).toHaveBeenCalledWith(
+            "0.0.123",
+            "CRYPTOTRANSFER",
+            undefined,
+        );
     });
 
     it("delegates findById to queryTransaction", async () => {
@@ -31,4 +42,10 @@ describe("TransactionRepository", () => {
         await repo.findById("0.0.123@1234567890.000");
         expect(spy).toHaveBeenCalledWith("0.0.123@1234567890.000");
     });
+
+    it("delegates iterateByAccount to paginateTransactionsByAccount", () => {
+        const spy = vi.spyOn(mockClient, "paginateTransactionsByAccount");
+        repo.iterateByAccount("0.0.123", { maxPages: 3 });
+        expect(spy).toHaveBeenCalledWith("0.0.123", { maxPages: 3 });
+    });
 });
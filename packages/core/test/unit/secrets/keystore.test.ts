@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PrivateKey } from "@hiero-ledger/sdk";
+import {
+    decryptKeystore,
+    encryptKeystore,
+    keystoreSecretProvider,
+} from "../../../src/secrets/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+
+// Cheap parameters keep the tests fast; the defaults are far costlier
+const fast = { scryptCost: 2 ** 10, pbkdf2Iterations: 1000 };
+
+describe("encryptKeystore / decryptKeystore", () => {
+    it("round-trips ED25519 and ECDSA keys with scrypt and PBKDF2", async () => {
+        for (const key of [
+            PrivateKey.generateED25519(),
+            PrivateKey.generateECDSA(),
+        ]) {
+            for (const kdf of ["scrypt", "pbkdf2"] as const) {
+                const keystore = await encryptKeystore(key, "hunter2", {
+                    ...fast,
+                    kdf,
+                });
+
+                expect(keystore.crypto.kdf).toBe(kdf);
+                expect(JSON.stringify(keystore)).not.toContain(
+                    key.toStringRaw(),
+                );
+                const decrypted = await decryptKeystore(keystore, "hunter2");
+                expect(decrypted.toStringDer()).toBe(key.toStringDer());
+            }
+        }
+    });
+
+    it("rejects a wrong passphrase", async () => {
+        const keystore = await encryptKeystore(
+            PrivateKey.generateED25519(),
+            "hunter2",
+            fast,
+        );
+
+        const error = (await decryptKeystore(keystore, "hunter3").catch(
+            (e: unknown) => e,
+        )) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.ConfigInvalid);
+        expect(error.message).toMatch(/wrong passphrase/);
+    });
+
+    it("detects a swapped public key", async () => {
+        const keystore = await encryptKeystore(
+            PrivateKey.generateED25519(),
+            "hunter2",
+            fast,
+        );
+        keystore.publicKey =
+            PrivateKey.generateED25519().publicKey.toStringDer();
+
+        await expect(decryptKeystore(keystore, "hunter2")).rejects.toThrow(
+            /damaged/,
+        );
+    });
+});
+
+describe("keystoreSecretProvider", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "keystore-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("knows the public key and asks for the passphrase only on load", async () => {
+        const key = PrivateKey.generateECDSA();
+        const path = join(dir, "operator.json");
+        await writeFile(
+            path,
+            JSON.stringify(await encryptKeystore(key, "hunter2", fast)),
+        );
+        const passphrase = vi.fn(() => Promise.resolve("hunter2"));
+
+        const provider = keystoreSecretProvider(path, passphrase);
+
+        expect(provider.source).toBe(`keystore ${path}`);
+        expect(provider.publicKey?.equals(key.publicKey)).toBe(true);
+        expect(passphrase).not.toHaveBeenCalled();
+        expect((await provider.loadKey()).toStringDer()).toBe(
+            key.toStringDer(),
+        );
+    });
+
+    it("fails at startup for a missing or malformed keystore", async () => {
+        const path = join(dir, "operator.json");
+        expect(() => keystoreSecretProvider(path, "x")).toThrow(
+            /Cannot read keystore/,
+        );
+
+        await writeFile(path, JSON.stringify({ version: 2 }));
+        expect(() => keystoreSecretProvider(path, "x")).toThrow(
+            /Not a supported keystore/,
+        );
+    });
+});
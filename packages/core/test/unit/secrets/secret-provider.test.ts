@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PrivateKey, PublicKey } from "@hiero-ledger/sdk";
+import {
+    keyFileSecretProvider,
+    pemSecretProvider,
+} from "../../../src/secrets/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { OperatorKeyType } from "../../../src/types/index.js";
+
+/** A PEM key pair as OpenSSL writes it, and its SDK public key */
+function pemKeyPair(type: "ed25519" | "secp256k1", passphrase?: string) {
+    const { privateKey, publicKey } =
+        type === "ed25519"
+            ? generateKeyPairSync("ed25519")
+            : generateKeyPairSync("ec", { namedCurve: "secp256k1" });
+    const pem = privateKey.export(
+        passphrase == null
+            ? { format: "pem", type: "pkcs8" }
+            : {
+                  format: "pem",
+                  type: "pkcs8",
+                  cipher: "aes-256-cbc",
+                  passphrase,
+              },
+    ) as string;
+    const der = publicKey.export({ format: "der", type: "spki" });
+    return { pem, publicKey: PublicKey.fromBytes(der) };
+}
+
+describe("secret providers", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "secrets-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe("pemSecretProvider", () => {
+        it("decrypts encrypted PKCS#8 ED25519 and secp256k1 keys", async () => {
+            for (const type of ["ed25519", "secp256k1"] as const) {
+                const { pem, publicKey } = pemKeyPair(type, "hunter2");
+                const path = join(dir, `${type}.pem`);
+                await writeFile(path, pem);
+
+                const key = await pemSecretProvider(path, () =>
+                    Promise.resolve("hunter2"),
+                ).loadKey();
+
+                expect(key.publicKey.equals(publicKey)).toBe(true);
+            }
+        });
+
+        it("reads an unencrypted key without a passphrase", async () => {
+            const { pem, publicKey } = pemKeyPair("ed25519");
+            const path = join(dir, "operator.pem");
+            await writeFile(path, pem);
+
+            const key = await pemSecretProvider(path).loadKey();
+
+            expect(key.publicKey.equals(publicKey)).toBe(true);
+        });
+
+        it("reports a wrong passphrase with the file", async () => {
+            const { pem } = pemKeyPair("ed25519", "hunter2");
+            const path = join(dir, "operator.pem");
+            await writeFile(path, pem);
+
+            const error = (await pemSecretProvider(path, "hunter3")
+                .loadKey()
+                .catch((e: unknown) => e)) as HieroError;
+
+            expect(error).toBeInstanceOf(HieroError);
+            expect(error.code).toBe(HieroErrorCodes.ConfigInvalid);
+            expect(error.message).toContain(
+                `Cannot load the operator key from PEM file ${path}`,
+            );
+        });
+    });
+
+    describe("keyFileSecretProvider", () => {
+        it("reads a mounted key file when the key is loaded", async () => {
+            const path = join(dir, "operator_key");
+            const provider = keyFileSecretProvider(
+                path,
+                OperatorKeyType.ED25519,
+            );
+            const key = PrivateKey.generateED25519();
+            await writeFile(path, `${key.toStringRaw()}\n`);
+
+            expect((await provider.loadKey()).toStringRaw()).toBe(
+                key.toStringRaw(),
+            );
+        });
+
+        it("reports a missing file", async () => {
+            await expect(
+                keyFileSecretProvider(
+                    join(dir, "missing"),
+                    OperatorKeyType.ECDSA,
+                ).loadKey(),
+            ).rejects.toThrow(/Cannot load the operator key from key file/);
+        });
+    });
+});
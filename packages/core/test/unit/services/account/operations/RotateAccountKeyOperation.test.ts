@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    AccountInfoQuery,
+    AccountUpdateTransaction,
+    KeyList,
+    PrivateKey,
+} from "@hiero-ledger/sdk";
+import type { Key } from "@hiero-ledger/sdk";
+import { AccountService } from "../../../../../src/services/account/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+} from "../../../../../src/errors/index.js";
+import { createMockContext } from "../../../../utils/mock-context.js";
+import { reattachMockChain } from "../../../../utils/sdk-mocks.js";
+import type { IHieroContext } from "../../../../../src/context/index.js";
+
+const mocks = await vi.hoisted(async () => {
+    const { buildMockTxBundle } =
+        await import("../../../../utils/sdk-mocks.js");
+    return buildMockTxBundle(["setAccountId", "setKey"]);
+});
+
+vi.mock("@hiero-ledger/sdk", async (importOriginal) => {
+    const actual = await importOriginal<Record<string, unknown>>();
+    return {
+        ...actual,
+        AccountUpdateTransaction: vi.fn(function () {
+            return mocks.tx;
+        }),
+    };
+});
+
+const operatorKey = PrivateKey.generateED25519();
+const oldKey = PrivateKey.generateED25519();
+const newKey = PrivateKey.generateECDSA();
+
+/** Answer successive `AccountInfoQuery` executions with these keys */
+function onChainKeys(...keys: Key[]) {
+    const spy = vi.spyOn(AccountInfoQuery.prototype, "execute");
+    for (const key of keys) {
+        spy.mockResolvedValueOnce({ key } as never);
+    }
+    return spy;
+}
+
+describe("RotateAccountKeyOperation (via AccountService)", () => {
+    let context: IHieroContext;
+    let service: AccountService;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.clearAllMocks();
+        reattachMockChain(mocks);
+        context = createMockContext();
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey.publicKey;
+        service = new AccountService(context);
+    });
+
+    it("rotates the key signed by both keys and records the change", async () => {
+        const query = onChainKeys(oldKey.publicKey, newKey.publicKey);
+
+        const record = await service.rotateKey({
+            accountId: "0.0.999",
+            newKey: newKey.publicKey,
+            expectedKey: oldKey.publicKey,
+            currentSigners: [oldKey],
+            newSigners: [newKey],
+        });
+
+        expect(record).toMatchObject({
+            entityType: "account",
+            entityId: "0.0.999",
+            status: "rotated",
+            previousKey: {
+                type: "ed25519",
+                key: oldKey.publicKey.toStringRaw(),
+            },
+            newKey: {
+                type: "ecdsaSecp256k1",
+                key: newKey.publicKey.toStringRaw(),
+            },
+            transactionId: "0.0.123@1234567890.000000000",
+        });
+        expect(query).toHaveBeenCalledTimes(2);
+
+        const tx = vi.mocked(AccountUpdateTransaction).mock.results[0].value;
+        expect(tx.setAccountId).toHaveBeenCalledWith("0.0.999");
+        expect(tx.setKey).toHaveBeenCalledWith(newKey.publicKey);
+        expect(tx.sign).toHaveBeenCalledWith(oldKey);
+        expect(tx.sign).toHaveBeenCalledWith(newKey);
+    });
+
+    it("refuses when the key on the network is not the expected one", async () => {
+        onChainKeys(PrivateKey.generateED25519().publicKey);
+
+        const error = (await service
+            .rotateKey({
+                accountId: "0.0.999",
+                newKey: newKey.publicKey,
+                expectedKey: oldKey.publicKey,
+                currentSigners: [oldKey],
+                newSigners: [newKey],
+            })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.Rejected);
+        expect(error.message).toMatch(/not the expected key/);
+        expect(AccountUpdateTransaction).not.toHaveBeenCalled();
+    });
+
+    it("names the key whose signature is missing", async () => {
+        onChainKeys(oldKey.publicKey);
+
+        await expect(
+            service.rotateKey({
+                accountId: "0.0.999",
+                newKey: newKey.publicKey,
+                currentSigners: [oldKey],
+            }),
+        ).rejects.toThrow(
+            "Key rotation is missing signatures from: new key of account 0.0.999.",
+        );
+        expect(mocks.tx.execute).not.toHaveBeenCalled();
+    });
+
+    it("schedules a threshold rotation with the signatures at hand", async () => {
+        const [a, b] = [
+            PrivateKey.generateED25519(),
+            PrivateKey.generateED25519(),
+        ];
+        const query = onChainKeys(new KeyList([a.publicKey, b.publicKey], 2));
+
+        const record = await service.rotateKey({
+            accountId: "0.0.999",
+            newKey: newKey.publicKey,
+            currentSigners: [a],
+            newSigners: [newKey],
+            schedule: { scheduleMemo: "rotate treasury key" },
+        });
+
+        expect(record).toMatchObject({
+            status: "scheduled",
+            scheduleId: "0.0.777",
+            previousKey: { type: "threshold", threshold: 2 },
+        });
+        expect(query).toHaveBeenCalledTimes(1);
+        expect(mocks.scheduleTx.setScheduleMemo).toHaveBeenCalledWith(
+            "rotate treasury key",
+        );
+        expect(mocks.scheduleTx.sign).toHaveBeenCalledWith(a);
+    });
+
+    it("fails when the network does not report the new key afterwards", async () => {
+        onChainKeys(oldKey.publicKey, oldKey.publicKey);
+
+        const error = (await service
+            .rotateKey({
+                accountId: "0.0.999",
+                newKey: newKey.publicKey,
+                currentSigners: [oldKey],
+                newSigners: [newKey],
+            })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error.code).toBe(HieroErrorCodes.Unknown);
+        expect(error.transactionId).toBe("0.0.123@1234567890.000000000");
+    });
+
+    it("rejects a malformed account ID before querying the network", async () => {
+        const query = vi.spyOn(AccountInfoQuery.prototype, "execute");
+
+        const error = (await service
+            .rotateKey({ accountId: "account-1", newKey: newKey.publicKey })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.SdkError);
+        expect(error.message).toBe(
+            'accountId "account-1" is not a valid account ID.',
+        );
+        expect(query).not.toHaveBeenCalled();
+    });
+});
@@ -266,4 +266,18 @@ describe("FileCreateOperation (via FileService)", () => {
             expect(vi.mocked(FileAppendTransaction)).toHaveBeenCalledTimes(1);
         });
     });
+
+    describe("prepareCreateFile", () => {
+        it("rejects contents that would need a follow-up append", async () => {
+            const large = Buffer.alloc(4200, 0x61);
+
+            await expect(
+                service.prepareCreateFile({ contents: large }),
+            ).rejects.toMatchObject({
+                code: HieroErrorCodes.SdkError,
+                context: "FileService.prepareCreateFile",
+            });
+            expect(vi.mocked(FileCreateTransaction)).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -20,6 +20,7 @@ const mockReceipt = {
 
 const mockResponse = {
     transactionId: { toString: () => "0.0.2@1234567890.000000000" },
+    nodeId: { toString: () => "0.0.3" },
     getReceipt: vi.fn().mockResolvedValue(mockReceipt),
 };
 
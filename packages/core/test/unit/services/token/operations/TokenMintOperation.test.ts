@@ -3,6 +3,7 @@ import { TokenMintTransaction, PrivateKey } from "@hiero-ledger/sdk";
 import { TokenService } from "../../../../../src/services/token/index.js";
 import { createMockContext } from "../../../../utils/mock-context.js";
 import { reattachMockChain } from "../../../../utils/sdk-mocks.js";
+import { TransactionExecutor } from "../../../../../src/services/transaction/index.js";
 import type { IHieroContext } from "../../../../../src/context/index.js";
 
 const mocks = await vi.hoisted(async () => {
@@ -79,6 +80,32 @@ describe("TokenMintOperation (via TokenService)", () => {
         expect(tx.sign).toHaveBeenCalledWith(signer);
     });
 
+    it("prepares a mint whose receipt maps to the minted serials", async () => {
+        const prepare = vi
+            .spyOn(TransactionExecutor.prototype, "prepare")
+            .mockResolvedValue({} as never);
+
+        await service.prepareMintToken({ tokenId: "0.0.500", amount: 5 });
+
+        const [tx, , event, processReceipt] = prepare.mock.calls[0];
+        expect(tx).toBe(mocks.tx);
+        expect(event).toMatchObject({
+            type: "TokenMint",
+            serviceName: "TokenService",
+            methodName: "mintToken",
+        });
+        const serials = [1, 2];
+        expect(processReceipt({ serials } as never, "0.0.2@1.0")).toBe(serials);
+        expect(mocks.tx.execute).not.toHaveBeenCalled();
+        prepare.mockRestore();
+    });
+
+    it("validates before preparing", async () => {
+        await expect(
+            service.prepareMintToken({ tokenId: "0.0.500" }),
+        ).rejects.toThrow(/requires either amount \(fungible\) or metadata/i);
+    });
+
     it("wraps mint in ScheduleCreateTransaction", async () => {
         const result = await service.scheduleMintToken(
             {
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    PrivateKey,
+    TokenInfoQuery,
+    TokenUpdateTransaction,
+} from "@hiero-ledger/sdk";
+import { TokenService } from "../../../../../src/services/token/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+} from "../../../../../src/errors/index.js";
+import { createMockContext } from "../../../../utils/mock-context.js";
+import { reattachMockChain } from "../../../../utils/sdk-mocks.js";
+import type { IHieroContext } from "../../../../../src/context/index.js";
+
+const mocks = await vi.hoisted(async () => {
+    const { buildMockTxBundle } =
+        await import("../../../../utils/sdk-mocks.js");
+    return buildMockTxBundle(["setTokenId", "setAdminKey"]);
+});
+
+vi.mock("@hiero-ledger/sdk", async (importOriginal) => {
+    const actual = await importOriginal<Record<string, unknown>>();
+    return {
+        ...actual,
+        TokenUpdateTransaction: vi.fn(function () {
+            return mocks.tx;
+        }),
+    };
+});
+
+const operatorKey = PrivateKey.generateED25519();
+const newAdmin = PrivateKey.generateED25519();
+
+describe("TokenRotateAdminKeyOperation (via TokenService)", () => {
+    let context: IHieroContext;
+    let service: TokenService;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.clearAllMocks();
+        reattachMockChain(mocks);
+        context = createMockContext();
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey.publicKey;
+        service = new TokenService(context);
+    });
+
+    it("rotates an operator-held admin key to the new key", async () => {
+        vi.spyOn(TokenInfoQuery.prototype, "execute")
+            .mockResolvedValueOnce({ adminKey: operatorKey.publicKey } as never)
+            .mockResolvedValueOnce({ adminKey: newAdmin.publicKey } as never);
+
+        const record = await service.rotateAdminKey({
+            tokenId: "0.0.12345",
+            newKey: newAdmin.publicKey,
+            newSigners: [newAdmin],
+        });
+
+        expect(record).toMatchObject({
+            entityType: "token",
+            entityId: "0.0.12345",
+            status: "rotated",
+        });
+        const tx = vi.mocked(TokenUpdateTransaction).mock.results[0].value;
+        expect(tx.setTokenId).toHaveBeenCalledWith("0.0.12345");
+        expect(tx.setAdminKey).toHaveBeenCalledWith(newAdmin.publicKey);
+    });
+
+    it("refuses to rotate the admin key of an immutable token", async () => {
+        vi.spyOn(TokenInfoQuery.prototype, "execute").mockResolvedValueOnce({
+            adminKey: null,
+        } as never);
+
+        const error = (await service
+            .rotateAdminKey({
+                tokenId: "0.0.12345",
+                newKey: newAdmin.publicKey,
+            })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.Rejected);
+        expect(error.message).toBe(
+            "The admin key of token 0.0.12345 is not set, so it cannot be rotated.",
+        );
+    });
+
+    it("rejects a malformed token ID before querying the network", async () => {
+        const query = vi.spyOn(TokenInfoQuery.prototype, "execute");
+
+        const error = (await service
+            .rotateAdminKey({ tokenId: "token-1", newKey: newAdmin.publicKey })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.SdkError);
+        expect(error.message).toBe(
+            'tokenId "token-1" is not a valid token ID.',
+        );
+        expect(query).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { PrivateKey, TokenId } from "@hiero-ledger/sdk";
+import { HieroError } from "../../../../../src/errors/index.js";
+import { TokenRotateAdminKeyValidator } from "../../../../../src/services/token/validation/index.js";
+import type { TokenRotateAdminKeyOperationOptions } from "../../../../../src/services/token/operations/index.js";
+
+describe("TokenRotateAdminKeyValidator", () => {
+    const validator = new TokenRotateAdminKeyValidator();
+    const newKey = PrivateKey.generateED25519().publicKey;
+
+    const baseOptions: TokenRotateAdminKeyOperationOptions = {
+        tokenId: "0.0.12345",
+        newKey,
+    };
+
+    describe("tokenId", () => {
+        it("passes with a valid tokenId", () => {
+            expect(() => validator.validate(baseOptions)).not.toThrow();
+        });
+
+        it("passes with a TokenId instance", () => {
+            expect(() =>
+                validator.validate({
+                    ...baseOptions,
+                    tokenId: TokenId.fromString("0.0.12345"),
+                }),
+            ).not.toThrow();
+        });
+
+        it("throws when tokenId is undefined", () => {
+            expect(() =>
+                validator.validate({
+                    ...baseOptions,
+                    tokenId: undefined as unknown as string,
+                }),
+            ).toThrow(/tokenId is required/);
+        });
+
+        it("throws when tokenId is whitespace only", () => {
+            expect(() =>
+                validator.validate({ ...baseOptions, tokenId: "   " }),
+            ).toThrow(/tokenId cannot be empty/);
+        });
+
+        it("throws a HieroError when tokenId is malformed", () => {
+            expect(() =>
+                validator.validate({ ...baseOptions, tokenId: "0.0.x" }),
+            ).toThrow(HieroError);
+            expect(() =>
+                validator.validate({ ...baseOptions, tokenId: "0.0.x" }),
+            ).toThrow('tokenId "0.0.x" is not a valid token ID.');
+        });
+    });
+});
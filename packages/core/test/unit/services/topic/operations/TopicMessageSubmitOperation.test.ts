@@ -4,6 +4,8 @@ import { TopicService } from "../../../../../src/services/topic/index.js";
 import { createMockContext } from "../../../../utils/mock-context.js";
 import { reattachMockChain } from "../../../../utils/sdk-mocks.js";
 import type { IHieroContext } from "../../../../../src/context/index.js";
+import { jsonCodec } from "../../../../../src/codec/index.js";
+import { HieroErrorCodes } from "../../../../../src/errors/index.js";
 
 const mocks = await vi.hoisted(async () => {
     const { buildMockTxBundle } =
@@ -154,6 +156,37 @@ describe("TopicMessageSubmitOperation (via TopicService)", () => {
             ).not.toHaveBeenCalled();
         });
 
+        it("encodes a typed message with the given codec", async () => {
+            await service.submitMessage({
+                topicId: "0.0.12345",
+                message: { kind: "transfer", amount: 5 },
+                codec: jsonCodec<{ kind: string; amount: number }>(),
+            });
+
+            const tx = vi.mocked(TopicMessageSubmitTransaction).mock.results[0]
+                .value;
+            expect(tx.setMessage).toHaveBeenCalledWith(
+                new TextEncoder().encode('{"kind":"transfer","amount":5}'),
+            );
+        });
+
+        it("rejects with CODEC_ERROR when the codec cannot encode", async () => {
+            await expect(
+                service.submitMessage({
+                    topicId: "0.0.12345",
+                    message: 1n,
+                    codec: jsonCodec<bigint>(),
+                }),
+            ).rejects.toMatchObject({
+                code: HieroErrorCodes.CodecError,
+                context: "TopicService.submitMessage",
+            });
+
+            expect(
+                vi.mocked(TopicMessageSubmitTransaction),
+            ).not.toHaveBeenCalled();
+        });
+
         it("rejects an empty message before touching the SDK", async () => {
             await expect(
                 service.submitMessage({
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    PrivateKey,
+    TopicInfoQuery,
+    TopicUpdateTransaction,
+} from "@hiero-ledger/sdk";
+import { TopicService } from "../../../../../src/services/topic/index.js";
+import {
+    HieroError,
+    HieroErrorCodes,
+} from "../../../../../src/errors/index.js";
+import { createMockContext } from "../../../../utils/mock-context.js";
+import { reattachMockChain } from "../../../../utils/sdk-mocks.js";
+import type { IHieroContext } from "../../../../../src/context/index.js";
+
+const mocks = await vi.hoisted(async () => {
+    const { buildMockTxBundle } =
+        await import("../../../../utils/sdk-mocks.js");
+    return buildMockTxBundle(["setTopicId", "setAdminKey"]);
+});
+
+vi.mock("@hiero-ledger/sdk", async (importOriginal) => {
+    const actual = await importOriginal<Record<string, unknown>>();
+    return {
+        ...actual,
+        TopicUpdateTransaction: vi.fn(function () {
+            return mocks.tx;
+        }),
+    };
+});
+
+const operatorKey = PrivateKey.generateED25519();
+const newAdmin = PrivateKey.generateED25519();
+
+describe("TopicRotateAdminKeyOperation (via TopicService)", () => {
+    let context: IHieroContext;
+    let service: TopicService;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.clearAllMocks();
+        reattachMockChain(mocks);
+        context = createMockContext();
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey.publicKey;
+        service = new TopicService(context);
+    });
+
+    it("rotates an operator-held admin key to the new key", async () => {
+        vi.spyOn(TopicInfoQuery.prototype, "execute")
+            .mockResolvedValueOnce({ adminKey: operatorKey.publicKey } as never)
+            .mockResolvedValueOnce({ adminKey: newAdmin.publicKey } as never);
+
+        const record = await service.rotateAdminKey({
+            topicId: "0.0.12345",
+            newKey: newAdmin.publicKey,
+            newSigners: [newAdmin],
+        });
+
+        expect(record).toMatchObject({
+            entityType: "topic",
+            entityId: "0.0.12345",
+            status: "rotated",
+        });
+        const tx = vi.mocked(TopicUpdateTransaction).mock.results[0].value;
+        expect(tx.setTopicId).toHaveBeenCalledWith("0.0.12345");
+        expect(tx.setAdminKey).toHaveBeenCalledWith(newAdmin.publicKey);
+    });
+
+    it("refuses to rotate the admin key of an immutable topic", async () => {
+        vi.spyOn(TopicInfoQuery.prototype, "execute").mockResolvedValueOnce({
+            adminKey: null,
+        } as never);
+
+        const error = (await service
+            .rotateAdminKey({
+                topicId: "0.0.12345",
+                newKey: newAdmin.publicKey,
+            })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.Rejected);
+        expect(error.message).toBe(
+            "The admin key of topic 0.0.12345 is not set, so it cannot be rotated.",
+        );
+    });
+
+    it("rejects a malformed topic ID before querying the network", async () => {
+        const query = vi.spyOn(TopicInfoQuery.prototype, "execute");
+
+        const error = (await service
+            .rotateAdminKey({ topicId: "topic-1", newKey: newAdmin.publicKey })
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.SdkError);
+        expect(error.message).toBe(
+            'topicId "topic-1" is not a valid topic ID.',
+        );
+        expect(query).not.toHaveBeenCalled();
+    });
+});
@@ -4,6 +4,8 @@ import { TopicService } from "../../../../../src/services/topic/index.js";
 import { TopicMessageQuery } from "../../../../../src/services/topic/queries/index.js";
 import { createMockContext } from "../../../../utils/mock-context.js";
 import type { IHieroContext } from "../../../../../src/context/index.js";
+import { jsonCodec } from "../../../../../src/codec/index.js";
+import { HieroErrorCodes } from "../../../../../src/errors/index.js";
 
 const mocks = vi.hoisted(() => {
     const subscriptionHandle = { unsubscribe: vi.fn() };
@@ -171,6 +173,40 @@ describe("TopicMessageQuery (via TopicService)", () => {
         expect(vi.mocked(SdkTopicMessageQuery)).toHaveBeenCalledTimes(2);
     });
 
+    it("decodes each message with the codec and reports failures per message", () => {
+        const received: unknown[] = [];
+        service.subscribeToMessages(
+            { topicId: "0.0.1234", codec: jsonCodec<{ n: number }>() },
+            (msg) => received.push(msg.payload),
+        );
+        const sdkListener = mocks.mockQuery.subscribe.mock.calls[0][2];
+
+        sdkListener(
+            buildSdkTopicMessage({
+                contents: new TextEncoder().encode('{"n":1}'),
+            }),
+        );
+        sdkListener(
+            buildSdkTopicMessage({ contents: new TextEncoder().encode("{") }),
+        );
+        sdkListener(
+            buildSdkTopicMessage({
+                contents: new TextEncoder().encode('{"n":2}'),
+            }),
+        );
+
+        expect(received).toEqual([
+            { ok: true, value: { n: 1 } },
+            {
+                ok: false,
+                error: expect.objectContaining({
+                    code: HieroErrorCodes.CodecError,
+                }),
+            },
+            { ok: true, value: { n: 2 } },
+        ]);
+    });
+
     describe("subscribeRaw", () => {
         it("passes the raw SDK message straight to the listener", () => {
             const query = new TopicMessageQuery(context);
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { PrivateKey, TopicId } from "@hiero-ledger/sdk";
+import { HieroError } from "../../../../../src/errors/index.js";
+import { TopicRotateAdminKeyValidator } from "../../../../../src/services/topic/validation/index.js";
+import type { TopicRotateAdminKeyOperationOptions } from "../../../../../src/services/topic/operations/index.js";
+
+describe("TopicRotateAdminKeyValidator", () => {
+    const validator = new TopicRotateAdminKeyValidator();
+    const newKey = PrivateKey.generateED25519().publicKey;
+
+    const baseOptions: TopicRotateAdminKeyOperationOptions = {
+        topicId: "0.0.12345",
+        newKey,
+    };
+
+    describe("topicId", () => {
+        it("passes with a valid topicId", () => {
+            expect(() => validator.validate(baseOptions)).not.toThrow();
+        });
+
+        it("passes with a TopicId instance", () => {
+            expect(() =>
+                validator.validate({
+                    ...baseOptions,
+                    topicId: TopicId.fromString("0.0.12345"),
+                }),
+            ).not.toThrow();
+        });
+
+        it("throws when topicId is undefined", () => {
+            expect(() =>
+                validator.validate({
+                    ...baseOptions,
+                    topicId: undefined as unknown as string,
+                }),
+            ).toThrow(/topicId is required/);
+        });
+
+        it("throws when topicId is whitespace only", () => {
+            expect(() =>
+                validator.validate({ ...baseOptions, topicId: "   " }),
+            ).toThrow(/topicId cannot be empty/);
+        });
+
+        it("throws a HieroError when topicId is malformed", () => {
+            expect(() =>
+                validator.validate({ ...baseOptions, topicId: "0.0.x" }),
+            ).toThrow(HieroError);
+            expect(() =>
+                validator.validate({ ...baseOptions, topicId: "0.0.x" }),
+            ).toThrow('topicId "0.0.x" is not a valid topic ID.');
+        });
+    });
+});
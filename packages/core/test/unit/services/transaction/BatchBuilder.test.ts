@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    AccountId,
+    BatchTransaction,
+    Hbar,
+    PrivateKey,
+    Status,
+    TransactionId,
+    TransactionReceiptQuery,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import {
+    BatchBuilder,
+    TransactionExecutor,
+} from "../../../../src/services/transaction/index.js";
+import { HieroError } from "../../../../src/errors/index.js";
+import { createMockContext } from "../../../utils/mock-context.js";
+import type { IHieroContext } from "../../../../src/context/index.js";
+import type { TransactionOptions } from "../../../../src/services/transaction/index.js";
+
+const operatorKey = PrivateKey.generateED25519().publicKey;
+
+describe("BatchBuilder", () => {
+    let context: IHieroContext;
+    let executor: TransactionExecutor;
+    let batch: BatchBuilder;
+    let receiptQuery: ReturnType<typeof vi.spyOn>;
+    let batchExecute: ReturnType<typeof vi.spyOn>;
+
+    function prepareTransfer<T>(
+        result: T,
+        methodName: string,
+        options: TransactionOptions = batch.batchOptions,
+    ) {
+        const payer = AccountId.fromString("0.0.2");
+        const tx = new TransferTransaction()
+            .addHbarTransfer(payer, new Hbar(-1))
+            .addHbarTransfer("0.0.1001", new Hbar(1))
+            .setTransactionId(TransactionId.generate(payer));
+        return executor.prepare(
+            tx,
+            options,
+            {
+                type: "CryptoTransfer",
+                serviceName: "AccountService",
+                methodName,
+                timestamp: new Date(0),
+            },
+            (_receipt, transactionId) => ({ result, transactionId }),
+        );
+    }
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        context = createMockContext();
+        (context as { client: unknown }).client = null;
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey;
+        executor = new TransactionExecutor(context);
+        batch = new BatchBuilder(context);
+
+        // The outer batch has no client to take a transaction ID from
+        vi.spyOn(BatchTransaction.prototype, "freezeWith").mockReturnThis();
+        batchExecute = vi
+            .spyOn(BatchTransaction.prototype, "execute")
+            .mockResolvedValue({
+                transactionId: { toString: () => "0.0.2@1700000000.000000000" },
+                nodeId: { toString: () => "0.0.3" },
+                getReceipt: vi
+                    .fn()
+                    .mockResolvedValue({ status: Status.Success }),
+            } as never);
+        receiptQuery = vi
+            .spyOn(TransactionReceiptQuery.prototype, "execute")
+            .mockResolvedValue({ status: Status.Success } as never);
+    });
+
+    it("defaults the batch key to the operator key", () => {
+        expect(batch.batchKey).toBe(operatorKey);
+        expect(batch.batchOptions).toEqual({ batchKey: operatorKey });
+    });
+
+    it("submits the steps as one batch and returns typed results in order", async () => {
+        const first = await prepareTransfer("first", "transferHbar");
+        const second = await prepareTransfer(42, "transferHbar");
+
+        const { transactionId, results } = await batch
+            .add(first)
+            .add(second)
+            .execute();
+
+        expect(transactionId).toBe("0.0.2@1700000000.000000000");
+        expect(results[0]).toEqual({
+            result: "first",
+            transactionId: first.transactionId,
+        });
+        expect(results[1].result).toBe(42);
+        expect(batchExecute).toHaveBeenCalledTimes(1);
+        expect(context.signTransaction).toHaveBeenCalledTimes(2);
+        expect(receiptQuery).toHaveBeenCalledTimes(2);
+
+        const inner = (batchExecute.mock.contexts[0] as BatchTransaction)
+            .innerTransactions;
+        expect(inner.map((tx) => tx.transactionId!.toString())).toEqual([
+            first.transactionId,
+            second.transactionId,
+        ]);
+        expect(inner[0].batchKey!.toString()).toBe(operatorKey.toString());
+    });
+
+    it("rejects a step prepared without the batch key", async () => {
+        const prepared = await prepareTransfer("x", "transferHbar", {});
+
+        expect(() => batch.add(prepared)).toThrow(
+            /step 1 \(AccountService\.transferHbar\) has no batch key/,
+        );
+    });
+
+    it("rejects an empty batch", async () => {
+        await expect(batch.execute()).rejects.toBeInstanceOf(HieroError);
+        expect(batchExecute).not.toHaveBeenCalled();
+    });
+
+    it("names the inner step that failed", async () => {
+        batchExecute.mockRejectedValue(
+            Object.assign(new Error("receipt for batch failed"), {
+                status: Status.InnerTransactionFailed,
+                transactionId: { toString: () => "0.0.2@1700000000.0" },
+            }),
+        );
+        receiptQuery
+            .mockResolvedValueOnce({ status: Status.RevertedSuccess } as never)
+            .mockResolvedValueOnce({
+                status: Status.InsufficientPayerBalance,
+            } as never);
+
+        const first = await prepareTransfer("first", "transferHbar");
+        const second = await prepareTransfer("second", "transferToken");
+
+        const error = (await batch
+            .add(first)
+            .add(second)
+            .execute()
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.message).toBe(
+            "Atomic batch failed at step 2 of 2 (AccountService.transferToken): INSUFFICIENT_PAYER_BALANCE",
+        );
+        expect(error.sdkStatus).toBe("INSUFFICIENT_PAYER_BALANCE");
+        expect(error.context).toBe("AccountService.transferToken");
+        expect(error.transactionId).toBe(second.transactionId);
+        expect(error.cause).toBeInstanceOf(HieroError);
+    });
+
+    it("rethrows outer failures without reading inner receipts", async () => {
+        batchExecute.mockRejectedValue(new Error("INVALID_SIGNATURE"));
+
+        await expect(
+            batch.add(await prepareTransfer("x", "transferHbar")).execute(),
+        ).rejects.toThrow("INVALID_SIGNATURE");
+        expect(receiptQuery).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    FeeComponents,
+    FeeData,
+    FeeDataType,
+    FeeSchedule,
+    FeeSchedules,
+    FileContentsQuery,
+    Long,
+    RequestType,
+    Timestamp,
+    TokenCreateTransaction,
+    TokenType,
+    TransactionFeeSchedule,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import { FeeEstimator } from "../../../../src/services/transaction/index.js";
+import { HieroError, HieroErrorCodes } from "../../../../src/errors/index.js";
+import { createMockContext } from "../../../utils/mock-context.js";
+import { createMockMirrorNodeClient } from "../../../utils/mock-mirror-node.js";
+import type { MirrorNodeClient } from "../../../../src/mirror/index.js";
+
+function components(
+    constant: number,
+    perByte = 0,
+    perSignature = 0,
+): FeeComponents {
+    return new FeeComponents({
+        constant: Long.fromNumber(constant),
+        transactionBandwidthByte: Long.fromNumber(perByte),
+        transactionVerification: Long.fromNumber(perSignature),
+        min: Long.ZERO,
+        max: Long.fromNumber(1e15),
+    });
+}
+
+function tokenCreateSchedule(): Uint8Array {
+    return new FeeSchedules({
+        currentFeeSchedule: new FeeSchedule({
+            transactionFeeSchedule: [
+                new TransactionFeeSchedule({
+                    hederaFunctionality: RequestType.TokenCreate,
+                    fees: [
+                        new FeeData({
+                            feeDataType: FeeDataType.Default,
+                            nodedata: components(1e9),
+                            networkdata: components(2e9),
+                            servicedata: components(1e12),
+                        }),
+                        new FeeData({
+                            feeDataType: FeeDataType.TokenFungibleCommon,
+                            nodedata: components(1e9, 1000, 100_000),
+                            networkdata: components(2e9),
+                            servicedata: components(997e9),
+                        }),
+                    ],
+                }),
+            ],
+            expirationTime: new Timestamp(4_102_444_800, 0),
+        }),
+    }).toBytes();
+}
+
+describe("FeeEstimator", () => {
+    let estimator: FeeEstimator;
+    let contentsSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        contentsSpy = vi
+            .spyOn(FileContentsQuery.prototype, "execute")
+            .mockResolvedValue(tokenCreateSchedule());
+        estimator = new FeeEstimator(
+            createMockContext(),
+            createMockMirrorNodeClient() as unknown as MirrorNodeClient,
+        );
+    });
+
+    it("prices each component from the matching sub-type", async () => {
+        const estimate = await estimator.estimate(
+            new TokenCreateTransaction().setTokenType(TokenType.FungibleCommon),
+            { sizeBytes: 200, signatureCount: 2 },
+        );
+
+        // Mock rate: 30000 HBAR per 120000 cents, so 4 tinycents per tinybar
+        expect(estimate).toMatchObject({
+            nodeTinybars: 250_100,
+            networkTinybars: 500_000,
+            serviceTinybars: 249_250_000,
+            tinybars: 250_000_100,
+            requestType: "TokenCreate",
+            subType: "TOKEN_FUNGIBLE_COMMON",
+        });
+        expect(estimate.usd).toBeCloseTo(0.10000004, 10);
+        expect(estimate.exchangeRate.hbarEquivalent).toBe(30000);
+    });
+
+    it("falls back to the default entry when the sub-type is not listed", async () => {
+        const estimate = await estimator.estimate(
+            new TokenCreateTransaction().setTokenType(
+                TokenType.NonFungibleUnique,
+            ),
+            { sizeBytes: 200, signatureCount: 2 },
+        );
+
+        expect(estimate.subType).toBe("DEFAULT");
+        expect(estimate.serviceTinybars).toBe(250_000_000);
+    });
+
+    it("reads the fee schedule file once while it is current", async () => {
+        const tx = new TokenCreateTransaction();
+        await estimator.estimate(tx, { sizeBytes: 100, signatureCount: 1 });
+        await estimator.estimate(tx, { sizeBytes: 100, signatureCount: 1 });
+
+        expect(contentsSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries the fee schedule read after a failure", async () => {
+        contentsSpy.mockRejectedValueOnce(new Error("BUSY"));
+        const tx = new TokenCreateTransaction();
+
+        await expect(
+            estimator.estimate(tx, { sizeBytes: 100, signatureCount: 1 }),
+        ).rejects.toBeInstanceOf(HieroError);
+        await estimator.estimate(tx, { sizeBytes: 100, signatureCount: 1 });
+
+        expect(contentsSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("throws NOT_FOUND when the schedule has no entry for the type", async () => {
+        const error = await estimator
+            .estimate(new TransferTransaction(), {
+                sizeBytes: 100,
+                signatureCount: 1,
+            })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect((error as HieroError).code).toBe(HieroErrorCodes.NotFound);
+        expect((error as HieroError).message).toContain("CryptoTransfer");
+    });
+});
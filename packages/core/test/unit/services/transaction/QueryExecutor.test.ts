@@ -4,7 +4,10 @@ import { QueryExecutor } from "../../../../src/services/transaction/index.js";
 import { createMockContext } from "../../../utils/mock-context.js";
 import { HieroError } from "../../../../src/errors/index.js";
 import type { IHieroContext } from "../../../../src/context/index.js";
-import type { TransactionEvent } from "../../../../src/listeners/index.js";
+import type {
+    InterceptorContext,
+    TransactionEvent,
+} from "../../../../src/listeners/index.js";
 
 interface MockQuery {
     setPaymentTransactionId: ReturnType<typeof vi.fn>;
@@ -248,4 +251,41 @@ describe("QueryExecutor", () => {
             expect((afterCall.error as Error).message).toBe("string failure");
         });
     });
+
+    describe("interceptors", () => {
+        it("passes the query, options and event through the chain", async () => {
+            const seen: unknown[] = [];
+            (context as { interceptors: unknown }).interceptors = [
+                (ctx: InterceptorContext, next: () => Promise<unknown>) => {
+                    seen.push(ctx.kind, ctx.event.methodName);
+                    if (ctx.kind === "query") {
+                        seen.push(ctx.query);
+                        ctx.options = { nodeAccountIds: ["0.0.3"] };
+                    }
+                    return next();
+                },
+            ];
+
+            const result = await executor.run(query as never, {}, SAMPLE_EVENT);
+
+            expect(result).toBe("query-result");
+            expect(seen).toEqual(["query", "getNetworkVersionInfo", query]);
+            expect(query.setNodeAccountIds).toHaveBeenCalledTimes(1);
+        });
+
+        it("normalises a rejection before anything is emitted", async () => {
+            (context as { interceptors: unknown }).interceptors = [
+                () => Promise.reject(new Error("blocked")),
+            ];
+
+            const error = (await executor
+                .run(query as never, {}, SAMPLE_EVENT)
+                .catch((e: unknown) => e)) as HieroError;
+
+            expect(error).toBeInstanceOf(HieroError);
+            expect(error.context).toBe("NetworkService.getNetworkVersionInfo");
+            expect(query.execute).not.toHaveBeenCalled();
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+    });
 });
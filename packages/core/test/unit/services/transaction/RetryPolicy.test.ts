@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+    DEFAULT_REGENERATE_ID_STATUSES,
+    DEFAULT_RETRYABLE_STATUSES,
+    resolveRetryPolicy,
+    retryActionFor,
+    retryDelayMs,
+} from "../../../../src/services/transaction/RetryPolicy.js";
+
+describe("RetryPolicy", () => {
+    describe("resolveRetryPolicy()", () => {
+        it("disables retries when no policy is set", () => {
+            expect(resolveRetryPolicy(undefined, undefined)).toBeUndefined();
+        });
+
+        it("fills in defaults", () => {
+            expect(resolveRetryPolicy({}, undefined)).toEqual({
+                maxAttempts: 3,
+                retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+                regenerateIdStatuses: DEFAULT_REGENERATE_ID_STATUSES,
+                initialDelayMs: 500,
+                maxDelayMs: 8000,
+                multiplier: 2,
+                jitter: 0.5,
+            });
+        });
+
+        it("lets per-call fields override global ones", () => {
+            const policy = resolveRetryPolicy(
+                { maxAttempts: 5, initialDelayMs: 100 },
+                { maxAttempts: 1, initialDelayMs: undefined },
+            )!;
+
+            expect(policy.maxAttempts).toBe(1);
+            expect(policy.initialDelayMs).toBe(100);
+        });
+    });
+
+    describe("retryActionFor()", () => {
+        const policy = resolveRetryPolicy({}, undefined)!;
+
+        it.each([
+            ["BUSY", "retry"],
+            ["PLATFORM_TRANSACTION_NOT_CREATED", "retry"],
+            ["TRANSACTION_EXPIRED", "regenerate"],
+            ["DUPLICATE_TRANSACTION", "terminal"],
+            ["INSUFFICIENT_PAYER_BALANCE", "terminal"],
+            [undefined, "terminal"],
+        ])("classifies %s as %s", (status, action) => {
+            expect(retryActionFor(policy, status)).toBe(action);
+        });
+
+        it("uses the configured status lists", () => {
+            const custom = resolveRetryPolicy(
+                { retryableStatuses: ["THROTTLED_AT_CONSENSUS"] },
+                undefined,
+            )!;
+
+            expect(retryActionFor(custom, "THROTTLED_AT_CONSENSUS")).toBe(
+                "retry",
+            );
+            expect(retryActionFor(custom, "BUSY")).toBe("terminal");
+        });
+    });
+
+    describe("retryDelayMs()", () => {
+        const policy = resolveRetryPolicy(
+            { initialDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 },
+            undefined,
+        )!;
+
+        it("grows exponentially up to the maximum", () => {
+            const delays = [1, 2, 3, 4, 5].map((retry) =>
+                retryDelayMs(policy, retry, () => 0),
+            );
+
+            expect(delays).toEqual([100, 200, 400, 800, 1000]);
+        });
+
+        it("randomizes the jitter fraction of the delay", () => {
+            expect(retryDelayMs(policy, 2, () => 1)).toBe(100);
+            expect(retryDelayMs(policy, 2, () => 0.5)).toBe(150);
+        });
+    });
+});
@@ -1,15 +1,41 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { AccountId, Hbar, PrivateKey } from "@hiero-ledger/sdk";
-import { TransactionExecutor } from "../../../../src/services/transaction/index.js";
+import {
+    AccountId,
+    ExchangeRate,
+    Hbar,
+    PrivateKey,
+    ReceiptStatusError,
+    Status,
+    Timestamp,
+    Transaction,
+    TransactionId,
+    TransactionReceipt,
+    TransactionReceiptQuery,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import {
+    TransactionExecutor,
+    type FeeEstimator,
+} from "../../../../src/services/transaction/index.js";
 import { createMockContext } from "../../../utils/mock-context.js";
-import { HieroError } from "../../../../src/errors/index.js";
+import { HieroError, HieroErrorCodes } from "../../../../src/errors/index.js";
+import { InMemoryTransactionJournal } from "../../../../src/journal/index.js";
+import {
+    AuditLogger,
+    InMemoryAuditSink,
+    verifyAuditChain,
+} from "../../../../src/audit/index.js";
 import {
     buildMockTxBundle,
     reattachMockChain,
     type MockTxBundle,
 } from "../../../utils/sdk-mocks.js";
+import { createSpendingPolicyInterceptor } from "../../../../src/policy/index.js";
 import type { IHieroContext } from "../../../../src/context/index.js";
-import type { TransactionEvent } from "../../../../src/listeners/index.js";
+import type {
+    Interceptor,
+    TransactionEvent,
+} from "../../../../src/listeners/index.js";
 
 const SAMPLE_EVENT: TransactionEvent = {
     type: "TopicCreateTransaction",
@@ -47,6 +73,7 @@ describe("TransactionExecutor", () => {
             ).not.toHaveBeenCalled();
             expect(bundle.tx.setRegenerateTransactionId).not.toHaveBeenCalled();
             expect(bundle.tx.setHighVolume).not.toHaveBeenCalled();
+            expect(bundle.tx.setBatchKey).not.toHaveBeenCalled();
             expect(bundle.tx.setNodeAccountIds).not.toHaveBeenCalled();
         });
 
@@ -121,6 +148,19 @@ describe("TransactionExecutor", () => {
             expect(bundle.tx.setHighVolume).toHaveBeenCalledWith(true);
         });
 
+        it("forwards batchKey", async () => {
+            const batchKey = PrivateKey.generateED25519().publicKey;
+
+            await executor.run(
+                bundle.tx as never,
+                { batchKey },
+                SAMPLE_EVENT,
+                () => "ok",
+            );
+
+            expect(bundle.tx.setBatchKey).toHaveBeenCalledWith(batchKey);
+        });
+
         it("converts string node IDs into AccountId instances", async () => {
             await executor.run(
                 bundle.tx as never,
@@ -248,6 +288,7 @@ describe("TransactionExecutor", () => {
                     serviceName: SAMPLE_EVENT.serviceName,
                     methodName: SAMPLE_EVENT.methodName,
                     transactionId: "0.0.123@1234567890.000000000",
+                    nodeAccountId: "0.0.3",
                     status: "SUCCESS",
                     durationMs: expect.any(Number),
                 }),
@@ -481,4 +522,897 @@ describe("TransactionExecutor", () => {
             expect(bundle.tx.execute).not.toHaveBeenCalled();
         });
     });
+
+    describe("prepare() and submitPrepared()", () => {
+        const payerKey = PrivateKey.generateED25519();
+
+        function buildTransfer(validStart?: Timestamp): TransferTransaction {
+            const payer = AccountId.fromString("0.0.2");
+            return new TransferTransaction()
+                .addHbarTransfer(payer, new Hbar(-1))
+                .addHbarTransfer("0.0.1001", new Hbar(1))
+                .setTransactionId(
+                    validStart
+                        ? TransactionId.withValidStart(payer, validStart)
+                        : TransactionId.generate(payer),
+                )
+                .setNodeAccountIds([AccountId.fromString("0.0.3")]);
+        }
+
+        function offlineSignature(bytes: Uint8Array, key = payerKey) {
+            // One node, so one body to sign
+            const [{ bodyBytes }] =
+                Transaction.fromBytes(bytes)._signedTransactions.list;
+            return {
+                publicKey: key.publicKey,
+                signature: key.sign(bodyBytes!),
+            };
+        }
+
+        beforeEach(() => {
+            // Real SDK transactions freeze without a client once the
+            // transaction ID and nodes are set.
+            (context as { client: unknown }).client = null;
+            vi.spyOn(
+                TransferTransaction.prototype,
+                "execute",
+            ).mockResolvedValue(bundle.response as never);
+        });
+
+        it("returns frozen bytes, transaction ID, body hash and summary", async () => {
+            const tx = buildTransfer();
+
+            const prepared = await executor.prepare(
+                tx,
+                { transactionMemo: "payroll", maxTransactionFee: 2 },
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            expect(Transaction.fromBytes(prepared.bytes).isFrozen()).toBe(true);
+            expect(prepared.transactionId).toBe(tx.transactionId!.toString());
+            expect(prepared.bodyHash).toMatch(/^[0-9a-f]{96}$/);
+            expect(prepared.summary).toContain(
+                "TopicCreateTransaction (TopicService.createTopic)",
+            );
+            expect(prepared.summary).toContain('Memo: "payroll"');
+            expect(prepared.summary).toContain("Nodes: 0.0.3");
+            expect(prepared.summary).toContain("Signatures: 0");
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+
+        it("applies configured signers before serializing", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                { additionalSigners: [payerKey] },
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            expect(prepared.summary).toContain("Signatures: 1");
+        });
+
+        it("submits with offline signatures and maps the receipt", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                {},
+                SAMPLE_EVENT,
+                (receipt, transactionId) =>
+                    `${receipt.status.toString()} ${transactionId}`,
+            );
+
+            const result = await executor.submitPrepared(prepared, {
+                signatures: [offlineSignature(prepared.bytes)],
+            });
+
+            expect(result).toBe("SUCCESS 0.0.123@1234567890.000000000");
+            expect(context.emitBeforeTransaction).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    serviceName: "TopicService",
+                    methodName: "createTopic",
+                }),
+            );
+        });
+
+        it("returns the raw receipt when given bytes alone", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                {},
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            const receipt = await executor.submitPrepared(prepared.bytes);
+
+            expect(receipt).toBe(bundle.receipt);
+            expect(context.emitBeforeTransaction).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: "CryptoTransfer",
+                    methodName: "submitPrepared",
+                }),
+            );
+        });
+
+        it("rejects bytes that do not match the prepared body hash", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                {},
+                SAMPLE_EVENT,
+                () => "created",
+            );
+            const other = await executor.prepare(
+                buildTransfer(),
+                { transactionMemo: "tampered" },
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            await expect(
+                executor.submitPrepared({ ...prepared, bytes: other.bytes }),
+            ).rejects.toThrow(/do not match the prepared body hash/);
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+
+        it("rejects a signature that does not verify", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                {},
+                SAMPLE_EVENT,
+                () => "created",
+            );
+            const { signature } = offlineSignature(prepared.bytes);
+            const impostor = PrivateKey.generateED25519().publicKey;
+
+            await expect(
+                executor.submitPrepared(prepared, {
+                    signatures: [{ publicKey: impostor, signature }],
+                }),
+            ).rejects.toThrow(/does not verify/);
+        });
+
+        it("rejects an expired transaction", async () => {
+            const prepared = await executor.prepare(
+                buildTransfer(Timestamp.fromDate(new Date(1_600_000_000_000))),
+                {},
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            await expect(executor.submitPrepared(prepared)).rejects.toThrow(
+                /expired at 2020-09-13T12:28:40.000Z/,
+            );
+        });
+
+        it("applies the context's spending policy before submitting", async () => {
+            (context as { interceptors: unknown }).interceptors = [
+                createSpendingPolicyInterceptor({
+                    deniedRecipients: ["0.0.1001"],
+                }),
+            ];
+            const prepared = await executor.prepare(
+                buildTransfer(),
+                {},
+                SAMPLE_EVENT,
+                () => "created",
+            );
+
+            await expect(
+                executor.submitPrepared(prepared.bytes),
+            ).rejects.toMatchObject({
+                code: HieroErrorCodes.PolicyViolation,
+                rule: "deniedRecipients",
+            });
+            expect(
+                TransferTransaction.prototype.execute,
+            ).not.toHaveBeenCalled();
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+
+        it("rejects bytes that are not a transaction", async () => {
+            await expect(
+                executor.submitPrepared(new Uint8Array([1, 2, 3])),
+            ).rejects.toBeInstanceOf(HieroError);
+        });
+    });
+
+    describe("dryRun()", () => {
+        const operatorKey = PrivateKey.generateED25519();
+        const FEE = {
+            tinybars: 250_000_000,
+            usd: 0.1,
+            nodeTinybars: 1_000,
+            networkTinybars: 2_000,
+            serviceTinybars: 249_997_000,
+            requestType: "CryptoTransfer",
+            subType: "DEFAULT",
+            exchangeRate: {
+                hbarEquivalent: 30000,
+                centEquivalent: 120000,
+                expirationTime: "1234567890",
+            },
+        };
+        let estimate: ReturnType<typeof vi.fn>;
+        let feeEstimator: FeeEstimator;
+
+        function prepareTransfer(options = {}) {
+            const payer = AccountId.fromString("0.0.2");
+            const tx = new TransferTransaction()
+                .addHbarTransfer(payer, new Hbar(-1))
+                .addHbarTransfer("0.0.1001", new Hbar(1))
+                .setTransactionId(TransactionId.generate(payer))
+                .setNodeAccountIds([AccountId.fromString("0.0.3")]);
+            return () =>
+                executor.prepare(tx, options, SAMPLE_EVENT, () => "created");
+        }
+
+        beforeEach(() => {
+            (context as { client: unknown }).client = null;
+            (context as { operatorPublicKey: unknown }).operatorPublicKey =
+                operatorKey.publicKey;
+            estimate = vi.fn().mockResolvedValue(FEE);
+            feeEstimator = { estimate } as unknown as FeeEstimator;
+        });
+
+        it("reports size, signatures and fee without submitting", async () => {
+            const executeSpy = vi.spyOn(
+                TransferTransaction.prototype,
+                "execute",
+            );
+
+            const report = await executor.dryRun(
+                prepareTransfer({ maxTransactionFee: 1 }),
+                feeEstimator,
+            );
+
+            expect(report).toMatchObject({
+                valid: true,
+                type: SAMPLE_EVENT.type,
+                serviceName: "TopicService",
+                methodName: "createTopic",
+                signatureCount: 1,
+                maxTransactionFeeTinybars: 100_000_000,
+                fee: FEE,
+                exceedsMaxTransactionFee: true,
+            });
+            expect(report.sizeBytes).toBeGreaterThan(104);
+            expect(estimate).toHaveBeenCalledWith(expect.any(Transaction), {
+                sizeBytes: report.sizeBytes,
+                signatureCount: 1,
+            });
+            expect(executeSpy).not.toHaveBeenCalled();
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+
+        it("counts the operator once when it already signed", async () => {
+            const report = await executor.dryRun(
+                prepareTransfer({
+                    additionalSigners: [operatorKey],
+                    maxTransactionFee: 5,
+                }),
+                feeEstimator,
+            );
+
+            expect(report.signatureCount).toBe(1);
+            expect(report.exceedsMaxTransactionFee).toBe(false);
+        });
+
+        it("counts additional signers alongside the operator", async () => {
+            const report = await executor.dryRun(
+                prepareTransfer({
+                    additionalSigners: [PrivateKey.generateED25519()],
+                }),
+                feeEstimator,
+            );
+
+            expect(report.signatureCount).toBe(2);
+        });
+
+        it("reports validation failures instead of throwing", async () => {
+            const report = await executor.dryRun(
+                () => Promise.reject(new Error("amount must be positive")),
+                feeEstimator,
+            );
+
+            expect(report.valid).toBe(false);
+            expect(report.error).toBeInstanceOf(HieroError);
+            expect(report.error!.message).toContain("amount must be positive");
+            expect(report.fee).toBeUndefined();
+            expect(estimate).not.toHaveBeenCalled();
+        });
+
+        it("throws when the fee cannot be estimated", async () => {
+            estimate.mockRejectedValue(new Error("mirror node down"));
+
+            await expect(
+                executor.dryRun(prepareTransfer(), feeEstimator),
+            ).rejects.toBeInstanceOf(HieroError);
+        });
+    });
+
+    describe("run() — journal and idempotency", () => {
+        const rate = new ExchangeRate({
+            hbars: 30000,
+            cents: 120000,
+            expirationTime: new Date(0),
+        });
+        let journal: InMemoryTransactionJournal;
+        let execute: ReturnType<typeof vi.spyOn>;
+
+        function buildTransfer(): TransferTransaction {
+            const payer = AccountId.fromString("0.0.2");
+            return new TransferTransaction()
+                .addHbarTransfer(payer, new Hbar(-1))
+                .addHbarTransfer("0.0.1001", new Hbar(1))
+                .setTransactionId(TransactionId.generate(payer))
+                .setNodeAccountIds([AccountId.fromString("0.0.3")]);
+        }
+
+        function receipt(status: Status): TransactionReceipt {
+            return new TransactionReceipt({
+                status,
+                accountId: AccountId.fromString("0.0.1001"),
+                exchangeRate: rate,
+                nextExchangeRate: rate,
+            } as never);
+        }
+
+        function run(idempotencyKey?: string) {
+            return executor.run(
+                buildTransfer(),
+                { idempotencyKey },
+                SAMPLE_EVENT,
+                (r, transactionId) => ({
+                    accountId: r.accountId!.toString(),
+                    transactionId,
+                }),
+            );
+        }
+
+        beforeEach(() => {
+            journal = new InMemoryTransactionJournal();
+            (context as { client: unknown }).client = null;
+            (context as { journal: unknown }).journal = journal;
+            execute = vi
+                .spyOn(TransferTransaction.prototype, "execute")
+                .mockImplementation(function (this: TransferTransaction) {
+                    return Promise.resolve({
+                        transactionId: this.transactionId,
+                        nodeId: AccountId.fromString("0.0.3"),
+                        getReceipt: vi
+                            .fn()
+                            .mockResolvedValue(receipt(Status.Success)),
+                    } as never);
+                });
+        });
+
+        it("records the signed bytes before submission and the receipt after", async () => {
+            let inFlight: unknown;
+            execute.mockImplementationOnce(async function (
+                this: TransferTransaction,
+            ) {
+                inFlight = await journal.get(this.transactionId!.toString());
+                return {
+                    transactionId: this.transactionId,
+                    nodeId: AccountId.fromString("0.0.3"),
+                    getReceipt: vi
+                        .fn()
+                        .mockResolvedValue(receipt(Status.Success)),
+                } as never;
+            });
+
+            const { transactionId } = await run("order-1");
+
+            expect(inFlight).toMatchObject({
+                transactionId,
+                idempotencyKey: "order-1",
+                status: "in-flight",
+                serviceName: "TopicService",
+                methodName: "createTopic",
+            });
+            expect(context.signTransaction).toHaveBeenCalledTimes(1);
+
+            const entry = (await journal.get(transactionId))!;
+            expect(entry.status).toBe("succeeded");
+            expect(entry.receiptStatus).toBe("SUCCESS");
+            expect(
+                Transaction.fromBytes(entry.bytes).transactionId!.toString(),
+            ).toBe(transactionId);
+        });
+
+        it("returns the recorded result for a repeated key without submitting", async () => {
+            const first = await run("order-1");
+            const second = await run("order-1");
+
+            expect(second).toEqual(first);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(journal.size).toBe(1);
+        });
+
+        it("rethrows the recorded failure for a repeated key", async () => {
+            execute.mockRejectedValueOnce(
+                Object.assign(new Error("INSUFFICIENT_PAYER_BALANCE"), {
+                    status: Status.InsufficientPayerBalance,
+                }),
+            );
+
+            await expect(run("order-1")).rejects.toThrow(
+                "INSUFFICIENT_PAYER_BALANCE",
+            );
+            const error = (await run("order-1").catch(
+                (e: unknown) => e,
+            )) as HieroError;
+
+            expect(error).toBeInstanceOf(HieroError);
+            expect(error.sdkStatus).toBe("INSUFFICIENT_PAYER_BALANCE");
+            expect(error.context).toBe("TopicService.createTopic");
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+
+        it("resumes the receipt lookup for an entry left in flight", async () => {
+            execute.mockRejectedValueOnce(new Error("socket hang up"));
+            await expect(run("order-1")).rejects.toThrow("socket hang up");
+            const [entry] = await journal.findInFlight();
+
+            const receiptQuery = vi
+                .spyOn(TransactionReceiptQuery.prototype, "execute")
+                .mockResolvedValue(receipt(Status.Success));
+
+            const result = await run("order-1");
+
+            expect(result.transactionId).toBe(entry.transactionId);
+            expect(receiptQuery).toHaveBeenCalledTimes(1);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect((await journal.get(entry.transactionId))!.status).toBe(
+                "succeeded",
+            );
+        });
+
+        it("records a consensus failure found while resuming", async () => {
+            execute.mockRejectedValueOnce(new Error("socket hang up"));
+            await expect(run("order-1")).rejects.toThrow();
+            const [entry] = await journal.findInFlight();
+
+            vi.spyOn(
+                TransactionReceiptQuery.prototype,
+                "execute",
+            ).mockRejectedValue(
+                new ReceiptStatusError({
+                    status: Status.InvalidSignature,
+                    transactionId: TransactionId.fromString(
+                        entry.transactionId,
+                    ),
+                    transactionReceipt: receipt(Status.InvalidSignature),
+                }),
+            );
+
+            await expect(run("order-1")).rejects.toBeInstanceOf(HieroError);
+            expect((await journal.get(entry.transactionId))!).toMatchObject({
+                status: "failed",
+                receiptStatus: "INVALID_SIGNATURE",
+            });
+        });
+
+        it("submits once for concurrent calls with the same key", async () => {
+            const [first, second] = await Promise.all([
+                run("order-1"),
+                run("order-1"),
+            ]);
+
+            expect(second).toEqual(first);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(journal.size).toBe(1);
+        });
+
+        it("answers from a success recovered from the mirror node", async () => {
+            execute.mockRejectedValueOnce(new Error("socket hang up"));
+            await expect(run("order-1")).rejects.toThrow();
+            const [entry] = await journal.findInFlight();
+            await journal.put({
+                ...entry,
+                status: "succeeded",
+                receiptStatus: "SUCCESS",
+            });
+            const receiptQuery = vi.spyOn(
+                TransactionReceiptQuery.prototype,
+                "execute",
+            );
+
+            const result = await executor.run(
+                buildTransfer(),
+                { idempotencyKey: "order-1" },
+                SAMPLE_EVENT,
+                (r, transactionId) => `${r.status.toString()} ${transactionId}`,
+            );
+            const error = (await run("order-1").catch(
+                (e: unknown) => e,
+            )) as HieroError;
+
+            expect(result).toBe(`SUCCESS ${entry.transactionId}`);
+            expect(error.code).toBe(HieroErrorCodes.NotFound);
+            expect(error.transactionId).toBe(entry.transactionId);
+            expect(receiptQuery).not.toHaveBeenCalled();
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not submit when the in-flight entry cannot be written", async () => {
+            vi.spyOn(journal, "put").mockRejectedValue(new Error("disk full"));
+
+            await expect(run()).rejects.toThrow("disk full");
+            expect(execute).not.toHaveBeenCalled();
+        });
+
+        it("rejects an idempotency key when no journal is configured", async () => {
+            (context as { journal: unknown }).journal = undefined;
+
+            const error = (await run("order-1").catch(
+                (e: unknown) => e,
+            )) as HieroError;
+
+            expect(error.code).toBe("CONFIG_INVALID");
+            expect(execute).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("run() — audit log", () => {
+        const signerKey = PrivateKey.generateED25519();
+        let sink: InMemoryAuditSink;
+        let execute: ReturnType<typeof vi.spyOn>;
+
+        function run(options = {}) {
+            const payer = AccountId.fromString("0.0.2");
+            return executor.run(
+                new TransferTransaction()
+                    .addHbarTransfer(payer, new Hbar(-1))
+                    .addHbarTransfer("0.0.1001", new Hbar(1))
+                    .setTransactionId(TransactionId.generate(payer))
+                    .setNodeAccountIds([AccountId.fromString("0.0.3")])
+                    .setMaxTransactionFee(new Hbar(2)),
+                options,
+                SAMPLE_EVENT,
+                (_receipt, transactionId) => transactionId,
+            );
+        }
+
+        beforeEach(() => {
+            sink = new InMemoryAuditSink();
+            (context as { client: unknown }).client = null;
+            (context as { auditLogger: unknown }).auditLogger = new AuditLogger(
+                sink,
+            );
+            execute = vi
+                .spyOn(TransferTransaction.prototype, "execute")
+                .mockResolvedValue(bundle.response as never);
+        });
+
+        it("records the body, signers and outcome of each transaction", async () => {
+            await run({
+                additionalSigners: [signerKey],
+                initiator: "user-42",
+            });
+
+            const [entry] = await sink.readAll();
+            expect(entry).toMatchObject({
+                sequence: 1,
+                transactionId: expect.stringMatching(/^0\.0\.2@/),
+                type: "TopicCreateTransaction",
+                serviceName: "TopicService",
+                methodName: "createTopic",
+                initiator: "user-42",
+                operatorAccountId: "0.0.2",
+                outcome: "succeeded",
+                status: "SUCCESS",
+                maxTransactionFee: "200000000",
+                signerPublicKeys: [signerKey.publicKey.toStringDer()],
+            });
+            expect(entry.body).toMatchObject({
+                transactionFee: "200000000",
+                nodeAccountID: { accountNum: "3" },
+                cryptoTransfer: {
+                    transfers: {
+                        accountAmounts: [
+                            {
+                                accountID: { accountNum: "2" },
+                                amount: "-100000000",
+                            },
+                            {
+                                accountID: { accountNum: "1001" },
+                                amount: "100000000",
+                            },
+                        ],
+                    },
+                },
+            });
+            expect(verifyAuditChain(await sink.readAll()).valid).toBe(true);
+        });
+
+        it("records failures with their status and defaults the initiator", async () => {
+            execute.mockRejectedValueOnce(
+                Object.assign(new Error("INSUFFICIENT_PAYER_BALANCE"), {
+                    status: Status.InsufficientPayerBalance,
+                }),
+            );
+
+            await expect(run()).rejects.toThrow();
+
+            const [entry] = await sink.readAll();
+            expect(entry).toMatchObject({
+                initiator: "0.0.2",
+                outcome: "failed",
+                status: "INSUFFICIENT_PAYER_BALANCE",
+                error: expect.stringContaining("INSUFFICIENT_PAYER_BALANCE"),
+            });
+        });
+
+        it("warns instead of failing when the sink cannot be written", async () => {
+            vi.spyOn(sink, "append").mockRejectedValue(new Error("disk full"));
+            const emitWarning = vi
+                .spyOn(process, "emitWarning")
+                .mockImplementation(() => undefined);
+
+            await expect(run()).resolves.toEqual(expect.any(String));
+            expect(emitWarning).toHaveBeenCalledWith(
+                expect.stringContaining("disk full"),
+                "HieroAuditWarning",
+            );
+        });
+
+        it("records the entry without a charged fee when the record lookup fails", async () => {
+            (context as { auditLogger: unknown }).auditLogger = new AuditLogger(
+                sink,
+                { recordChargedFees: true },
+            );
+            execute.mockResolvedValueOnce({
+                ...bundle.response,
+                getRecord: vi.fn().mockRejectedValue(new Error("BUSY")),
+            } as never);
+            const emitWarning = vi
+                .spyOn(process, "emitWarning")
+                .mockImplementation(() => undefined);
+
+            await run();
+
+            const [entry] = await sink.readAll();
+            expect(entry).toMatchObject({ outcome: "succeeded" });
+            expect(entry.chargedFee).toBeUndefined();
+            expect(emitWarning).toHaveBeenCalledWith(
+                expect.stringContaining("Charged fee lookup failed"),
+                "HieroAuditWarning",
+            );
+        });
+    });
+
+    describe("run() — retry policy", () => {
+        const signerKey = PrivateKey.generateED25519();
+        let execute: ReturnType<typeof vi.spyOn>;
+        let submitted: string[];
+
+        function statusError(status: Status) {
+            return Object.assign(new Error(status.toString()), { status });
+        }
+
+        function run(options = {}) {
+            const payer = AccountId.fromString("0.0.2");
+            return executor.run(
+                new TransferTransaction()
+                    .addHbarTransfer(payer, new Hbar(-1))
+                    .addHbarTransfer("0.0.1001", new Hbar(1))
+                    .setTransactionId(TransactionId.generate(payer))
+                    .setNodeAccountIds([AccountId.fromString("0.0.3")]),
+                { retryPolicy: { initialDelayMs: 0 }, ...options },
+                SAMPLE_EVENT,
+                (_receipt, transactionId) => transactionId,
+            );
+        }
+
+        beforeEach(() => {
+            (context as { client: unknown }).client = null;
+            submitted = [];
+            execute = vi
+                .spyOn(TransferTransaction.prototype, "execute")
+                .mockImplementation(function (this: TransferTransaction) {
+                    submitted.push(this.transactionId!.toString());
+                    return Promise.resolve(bundle.response as never);
+                });
+        });
+
+        it("retries a transient status with the same transaction ID", async () => {
+            execute.mockImplementationOnce(function (
+                this: TransferTransaction,
+            ) {
+                submitted.push(this.transactionId!.toString());
+                return Promise.reject(statusError(Status.Busy));
+            });
+
+            await run({ additionalSigners: [signerKey] });
+
+            expect(submitted).toHaveLength(2);
+            expect(submitted[1]).toBe(submitted[0]);
+            expect(context.emitTransactionRetry).toHaveBeenCalledTimes(1);
+            expect(context.emitTransactionRetry).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    attempt: 2,
+                    maxAttempts: 3,
+                    status: "BUSY",
+                    transactionId: submitted[0],
+                    regenerateTransactionId: false,
+                }),
+            );
+            expect(context.emitBeforeTransaction).toHaveBeenCalledTimes(1);
+            expect(context.emitAfterTransaction).toHaveBeenCalledTimes(1);
+        });
+
+        it("rebuilds and re-signs with a fresh ID when the ID is the problem", async () => {
+            let signatures = 0;
+            execute
+                .mockImplementationOnce(function (this: TransferTransaction) {
+                    submitted.push(this.transactionId!.toString());
+                    return Promise.reject(
+                        statusError(Status.TransactionExpired),
+                    );
+                })
+                .mockImplementationOnce(function (this: TransferTransaction) {
+                    submitted.push(this.transactionId!.toString());
+                    signatures =
+                        this._signedTransactions.list[0].sigMap!.sigPair!
+                            .length;
+                    return Promise.resolve(bundle.response as never);
+                });
+
+            await run({ additionalSigners: [signerKey] });
+
+            expect(submitted).toHaveLength(2);
+            expect(submitted[1]).not.toBe(submitted[0]);
+            expect(submitted[1]).toMatch(/^0\.0\.2@/);
+            expect(signatures).toBe(1);
+            expect(context.emitTransactionRetry).toHaveBeenCalledWith(
+                expect.objectContaining({ regenerateTransactionId: true }),
+            );
+        });
+
+        it("does not regenerate a transaction carrying offline signatures", async () => {
+            execute.mockRejectedValue(statusError(Status.TransactionExpired));
+            const key = PrivateKey.generateED25519();
+
+            await expect(
+                run({
+                    legacySignatures: [
+                        {
+                            publicKey: key.publicKey,
+                            signature: new Uint8Array(64),
+                        },
+                    ],
+                }),
+            ).rejects.toThrow("TRANSACTION_EXPIRED");
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+
+        it("throws terminal statuses without retrying", async () => {
+            execute.mockRejectedValue(
+                statusError(Status.InsufficientPayerBalance),
+            );
+
+            await expect(run()).rejects.toMatchObject({
+                sdkStatus: "INSUFFICIENT_PAYER_BALANCE",
+            });
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(context.emitTransactionRetry).not.toHaveBeenCalled();
+        });
+
+        it("gives up after maxAttempts", async () => {
+            execute.mockRejectedValue(statusError(Status.Busy));
+
+            await expect(
+                run({ retryPolicy: { initialDelayMs: 0, maxAttempts: 4 } }),
+            ).rejects.toBeInstanceOf(HieroError);
+            expect(execute).toHaveBeenCalledTimes(4);
+            expect(context.emitTransactionRetry).toHaveBeenCalledTimes(3);
+            expect(context.emitAfterTransaction).toHaveBeenCalledTimes(1);
+        });
+
+        it("uses the context policy and lets a call disable it", async () => {
+            (context as { retryPolicy: unknown }).retryPolicy = {
+                initialDelayMs: 0,
+            };
+            execute.mockRejectedValue(statusError(Status.Busy));
+
+            await expect(run({ retryPolicy: undefined })).rejects.toThrow();
+            expect(execute).toHaveBeenCalledTimes(3);
+
+            execute.mockClear();
+            await expect(
+                run({ retryPolicy: { maxAttempts: 1 } }),
+            ).rejects.toThrow();
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not retry without a policy", async () => {
+            execute.mockRejectedValue(statusError(Status.Busy));
+
+            await expect(run({ retryPolicy: undefined })).rejects.toThrow();
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("interceptors", () => {
+        function intercept(...interceptors: Interceptor[]) {
+            (context as { interceptors: unknown }).interceptors = interceptors;
+        }
+
+        it("lets an interceptor modify the transaction before freeze", async () => {
+            intercept((ctx, next) => {
+                if (ctx.kind === "transaction") {
+                    ctx.transaction.setTransactionMemo("billing");
+                    ctx.options = { ...ctx.options, maxTransactionFee: 3 };
+                }
+                return next();
+            });
+
+            await executor.run(
+                bundle.tx as never,
+                {},
+                SAMPLE_EVENT,
+                () => "ok",
+            );
+
+            expect(bundle.tx.setTransactionMemo).toHaveBeenCalledWith(
+                "billing",
+            );
+            expect(bundle.tx.setMaxTransactionFee).toHaveBeenCalledWith(3);
+            expect(
+                bundle.tx.setTransactionMemo.mock.invocationCallOrder[0],
+            ).toBeLessThan(bundle.tx.freezeWith.mock.invocationCallOrder[0]);
+        });
+
+        it("submits nothing when an interceptor rejects", async () => {
+            intercept(() =>
+                Promise.reject(
+                    new HieroError("Transfers are paused", {
+                        code: HieroErrorCodes.Rejected,
+                    }),
+                ),
+            );
+
+            await expect(
+                executor.run(bundle.tx as never, {}, SAMPLE_EVENT, () => "ok"),
+            ).rejects.toMatchObject({ code: "REJECTED" });
+            expect(bundle.tx.execute).not.toHaveBeenCalled();
+            expect(context.emitBeforeTransaction).not.toHaveBeenCalled();
+        });
+
+        it("lets an interceptor wrap execution and see the result", async () => {
+            const calls: string[] = [];
+            intercept(async (_ctx, next) => {
+                calls.push("before");
+                const result = await next();
+                calls.push(`after:${String(result)}`);
+                return result;
+            });
+
+            await executor.run(bundle.tx as never, {}, SAMPLE_EVENT, () => {
+                calls.push("receipt");
+                return "ok";
+            });
+
+            expect(calls).toEqual(["before", "receipt", "after:ok"]);
+        });
+
+        it("intercepts scheduleRun once, with the inner transaction", async () => {
+            const kinds: string[] = [];
+            intercept((ctx, next) => {
+                kinds.push(ctx.kind);
+                if (ctx.kind === "schedule") {
+                    expect(ctx.transaction).toBe(bundle.tx);
+                    ctx.scheduleOptions = { scheduleMemo: "from interceptor" };
+                }
+                return next();
+            });
+
+            await executor.scheduleRun(bundle.tx as never, {}, SAMPLE_EVENT);
+
+            expect(kinds).toEqual(["schedule"]);
+            expect(bundle.scheduleTx.setScheduleMemo).toHaveBeenCalledWith(
+                "from interceptor",
+            );
+        });
+    });
 });
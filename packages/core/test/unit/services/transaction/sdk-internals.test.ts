@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+    AccountId,
+    FeeDataType,
+    Hbar,
+    PrivateKey,
+    Status,
+    TokenId,
+    TokenUpdateNftsTransaction,
+    TransactionId,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import {
+    addLegacySignature,
+    bodyBytesOf,
+    clearFrozenState,
+    feeDataTypeCode,
+    receiptWithStatus,
+    signaturePrefixesOf,
+    tokenIdOf,
+    tokenTransfersOf,
+    transactionBodyOf,
+    transactionDataCase,
+} from "../../../../src/services/transaction/sdk-internals.js";
+
+const payer = AccountId.fromString("0.0.1001");
+const receiver = AccountId.fromString("0.0.1002");
+const token = TokenId.fromString("0.0.5005");
+
+function frozenTransfer(): TransferTransaction {
+    return new TransferTransaction()
+        .addHbarTransfer(payer, Hbar.fromTinybars(-10))
+        .addHbarTransfer(receiver, Hbar.fromTinybars(10))
+        .addTokenTransfer(token, payer, -3)
+        .addTokenTransfer(token, receiver, 3)
+        .setTransactionId(TransactionId.generate(payer))
+        .setNodeAccountIds([AccountId.fromString("0.0.3")])
+        .freeze();
+}
+
+// These helpers reach into SDK members outside its public API. If an SDK
+// upgrade renames one of them, this suite is the one that should fail.
+describe("sdk-internals", () => {
+    it("reads the data case and body of a frozen transaction", () => {
+        const tx = frozenTransfer();
+
+        expect(transactionDataCase(tx)).toBe("cryptoTransfer");
+        expect(transactionBodyOf(tx)).toHaveProperty("cryptoTransfer");
+        expect(bodyBytesOf(tx).length).toBeGreaterThan(0);
+    });
+
+    it("reads token movements and the token ID", () => {
+        const movements = tokenTransfersOf(frozenTransfer());
+        expect(
+            movements.map((movement) => [
+                movement.accountId.toString(),
+                movement.amount.isNegative(),
+                movement.isApproved,
+            ]),
+        ).toEqual([
+            ["0.0.1001", true, false],
+            ["0.0.1002", false, false],
+        ]);
+
+        const update = new TokenUpdateNftsTransaction().setTokenId(token);
+        expect(tokenIdOf(update)).toBe("0.0.5005");
+    });
+
+    it("attaches an externally computed signature", async () => {
+        const key = PrivateKey.generateED25519();
+        const tx = frozenTransfer();
+        expect(signaturePrefixesOf(tx)).toEqual([]);
+
+        const signature = await key.sign(bodyBytesOf(tx));
+        addLegacySignature(tx, key.publicKey, signature);
+
+        expect(key.publicKey.verifyTransaction(tx)).toBe(true);
+        expect(
+            signaturePrefixesOf(tx).map((prefix) =>
+                Buffer.from(prefix).toString("hex"),
+            ),
+        ).toEqual([key.publicKey.toStringRaw()]);
+    });
+
+    it("clears a frozen transaction so it can be re-frozen and re-signed", async () => {
+        const key = PrivateKey.generateED25519();
+        const tx = frozenTransfer();
+        await tx.sign(key);
+
+        clearFrozenState(tx);
+        const transactionId = TransactionId.generate(payer);
+        tx.setTransactionId(transactionId).freeze();
+        await tx.sign(key);
+
+        expect(tx.transactionId?.toString()).toBe(transactionId.toString());
+        expect(signaturePrefixesOf(tx)).toHaveLength(1);
+        expect(key.publicKey.verifyTransaction(tx)).toBe(true);
+    });
+
+    it("builds a receipt carrying only a status", () => {
+        expect(receiptWithStatus(Status.Success).status).toBe(Status.Success);
+    });
+
+    it("tells fee data types apart by code", () => {
+        expect(feeDataTypeCode(FeeDataType.Default)).toBe(0);
+        expect(feeDataTypeCode(FeeDataType.TokenFungibleCommon)).not.toBe(
+            feeDataTypeCode(FeeDataType.Default),
+        );
+    });
+});
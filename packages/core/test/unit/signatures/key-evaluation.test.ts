@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { PrivateKey } from "@hiero-ledger/sdk";
+import { evaluateKey, signedKeySet } from "../../../src/signatures/index.js";
+import type { MirrorKey } from "../../../src/types/index.js";
+
+const [a, b, c, d] = [0, 1, 2, 3].map(() => PrivateKey.generateED25519());
+const hex = (key: PrivateKey) => key.publicKey.toStringRaw();
+const ed = (key: PrivateKey): MirrorKey => ({ type: "ed25519", key: hex(key) });
+
+describe("evaluateKey", () => {
+    it("matches simple keys regardless of hex case", () => {
+        const key: MirrorKey = { type: "ed25519", key: hex(a).toUpperCase() };
+
+        expect(evaluateKey(key, signedKeySet([a.publicKey]))).toEqual({
+            satisfied: true,
+            unsatisfied: [],
+        });
+        expect(evaluateKey(key, signedKeySet([b.publicKey]))).toEqual({
+            satisfied: false,
+            unsatisfied: [
+                {
+                    path: "key",
+                    threshold: 1,
+                    satisfied: 0,
+                    missingKeys: [hex(a)],
+                },
+            ],
+        });
+    });
+
+    it("requires every member of a key list", () => {
+        const key: MirrorKey = { type: "keyList", keys: [ed(a), ed(b)] };
+
+        const result = evaluateKey(key, signedKeySet([a.publicKey]));
+
+        expect(result.unsatisfied).toEqual([
+            { path: "key", threshold: 2, satisfied: 1, missingKeys: [hex(b)] },
+        ]);
+    });
+
+    it("reports nested groups that could complete a threshold", () => {
+        // 1-of-2: either a alone, or both of c and d
+        const key: MirrorKey = {
+            type: "threshold",
+            threshold: 1,
+            keys: [ed(a), { type: "keyList", keys: [ed(c), ed(d)] }],
+        };
+
+        const partial = evaluateKey(key, signedKeySet([c.publicKey]));
+        expect(partial.unsatisfied).toEqual([
+            { path: "key", threshold: 1, satisfied: 0, missingKeys: [hex(a)] },
+            {
+                path: "key.keys[1]",
+                threshold: 2,
+                satisfied: 1,
+                missingKeys: [hex(d)],
+            },
+        ]);
+
+        expect(
+            evaluateKey(key, signedKeySet([c.publicKey, d.publicKey]))
+                .satisfied,
+        ).toBe(true);
+    });
+
+    it("never counts contract keys as signed", () => {
+        const key: MirrorKey = {
+            type: "threshold",
+            threshold: 2,
+            keys: [ed(a), { type: "contract", contractId: "0.0.1001" }],
+        };
+
+        expect(evaluateKey(key, signedKeySet([a.publicKey])).satisfied).toBe(
+            false,
+        );
+    });
+});
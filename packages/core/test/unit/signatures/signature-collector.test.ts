@@ -0,0 +1,350 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+    AccountId,
+    Hbar,
+    PrivateKey,
+    Status,
+    Timestamp,
+    TransactionId,
+    TransferTransaction,
+} from "@hiero-ledger/sdk";
+import type { Transaction } from "@hiero-ledger/sdk";
+import {
+    FileSignatureStore,
+    InMemorySignatureStore,
+    SignatureCollector,
+} from "../../../src/signatures/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { createMockContext } from "../../utils/mock-context.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { IHieroContext } from "../../../src/context/index.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+import type { MirrorAccountInfo, MirrorKey } from "../../../src/types/index.js";
+
+const operatorKey = PrivateKey.generateED25519();
+const [alice, bob, carol] = [0, 1, 2].map(() => PrivateKey.generateED25519());
+const dave = PrivateKey.generateECDSA();
+
+function simple(key: PrivateKey): MirrorKey {
+    return key.type === "ED25519"
+        ? { type: "ed25519", key: key.publicKey.toStringRaw() }
+        : { type: "ecdsaSecp256k1", key: key.publicKey.toStringRaw() };
+}
+
+/** 0.0.2 is the operator; 0.0.1001 a 2-of-3 treasury; 0.0.1002 requires receiver signatures */
+const accounts = new Map<string, Partial<MirrorAccountInfo>>([
+    ["0.0.2", { keyTree: simple(operatorKey) }],
+    [
+        "0.0.1001",
+        {
+            keyTree: {
+                type: "threshold",
+                threshold: 2,
+                keys: [simple(alice), simple(bob), simple(carol)],
+            },
+        },
+    ],
+    ["0.0.1002", { keyTree: simple(dave), receiverSigRequired: true }],
+    ["0.0.1003", { keyTree: simple(carol), receiverSigRequired: false }],
+]);
+
+function transfer(
+    to = "0.0.1002",
+    validStart?: Timestamp,
+): TransferTransaction {
+    const payer = AccountId.fromString("0.0.2");
+    return new TransferTransaction()
+        .addHbarTransfer("0.0.1001", new Hbar(-5))
+        .addHbarTransfer(to, new Hbar(5))
+        .setTransactionId(
+            validStart
+                ? TransactionId.withValidStart(payer, validStart)
+                : TransactionId.generate(payer),
+        )
+        .setNodeAccountIds([AccountId.fromString("0.0.3")])
+        .freeze();
+}
+
+function signatureOf(tx: Transaction, key: PrivateKey) {
+    const [{ bodyBytes }] = tx._signedTransactions.list;
+    return { publicKey: key.publicKey, signature: key.sign(bodyBytes!) };
+}
+
+describe("SignatureCollector", () => {
+    let context: IHieroContext;
+    let mirrorNodeClient: MirrorNodeClient;
+    let execute: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        context = createMockContext();
+        (context as { client: unknown }).client = null;
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey.publicKey;
+        mirrorNodeClient = {
+            ...createMockMirrorNodeClient(),
+            queryAccount: vi.fn((accountId: string) =>
+                Promise.resolve({
+                    accountId,
+                    balance: 0,
+                    deleted: false,
+                    ...accounts.get(accountId),
+                } as MirrorAccountInfo),
+            ),
+        } as unknown as MirrorNodeClient;
+        execute = vi
+            .spyOn(TransferTransaction.prototype, "execute")
+            .mockImplementation(function (this: TransferTransaction) {
+                return Promise.resolve({
+                    transactionId: this.transactionId,
+                    nodeId: AccountId.fromString("0.0.3"),
+                    getReceipt: vi
+                        .fn()
+                        .mockResolvedValue({ status: Status.Success }),
+                } as never);
+            });
+    });
+
+    it("requires the payer, senders and receivers that must sign", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient);
+
+        const status = await collector.start(transfer().toBytes());
+
+        expect(status.requirements.map((r) => r.description)).toEqual([
+            "payer 0.0.2",
+            "sender 0.0.1001",
+            "receiver 0.0.1002",
+        ]);
+        // The operator signs at submission
+        expect(status.requirements[0].satisfied).toBe(true);
+        expect(status.requirements[1].unsatisfied).toEqual([
+            {
+                path: "key",
+                threshold: 2,
+                satisfied: 0,
+                missingKeys: [alice, bob, carol].map((k) =>
+                    k.publicKey.toStringRaw(),
+                ),
+            },
+        ]);
+        expect(status).toMatchObject({ status: "collecting", complete: false });
+    });
+
+    it("skips receivers that do not require signatures", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient);
+
+        const status = await collector.start(transfer("0.0.1003").toBytes());
+
+        expect(status.requirements.map((r) => r.description)).toEqual([
+            "payer 0.0.2",
+            "sender 0.0.1001",
+        ]);
+    });
+
+    it("submits once the last threshold is met", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient);
+        const tx = transfer();
+        const { transactionId } = await collector.start(tx.toBytes());
+
+        const partial = await collector.addSignatures(transactionId, [
+            signatureOf(tx, alice),
+            signatureOf(tx, dave),
+        ]);
+        expect(partial.requirements[1].unsatisfied[0]).toMatchObject({
+            satisfied: 1,
+            missingKeys: [bob, carol].map((k) => k.publicKey.toStringRaw()),
+        });
+        expect(execute).not.toHaveBeenCalled();
+
+        const done = await collector.addSignatures(transactionId, [
+            signatureOf(tx, carol),
+        ]);
+
+        expect(done).toMatchObject({
+            status: "submitted",
+            receiptStatus: "SUCCESS",
+            complete: true,
+        });
+        expect(execute).toHaveBeenCalledTimes(1);
+        const submitted = execute.mock.contexts[0] as Transaction;
+        expect(alice.publicKey.verifyTransaction(submitted)).toBe(true);
+        expect(dave.publicKey.verifyTransaction(submitted)).toBe(true);
+    });
+
+    it("rejects a signature over different bytes", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient);
+        const tx = transfer();
+        const { transactionId } = await collector.start(tx.toBytes());
+
+        const error = (await collector
+            .addSignatures(transactionId, [signatureOf(transfer(), alice)])
+            .catch((e: unknown) => e)) as HieroError;
+
+        expect(error).toBeInstanceOf(HieroError);
+        expect(error.code).toBe(HieroErrorCodes.Rejected);
+        expect(error.message).toMatch(/does not verify/);
+        expect(
+            (await collector.status(transactionId)).signerPublicKeys,
+        ).toEqual([operatorKey.publicKey.toStringRaw()]);
+    });
+
+    it("does not lose signatures added concurrently", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient, {
+            autoSubmit: false,
+        });
+        const tx = transfer();
+        const { transactionId } = await collector.start(tx.toBytes());
+
+        await Promise.all(
+            [alice, bob, dave].map((key) =>
+                collector.addSignatures(transactionId, [signatureOf(tx, key)]),
+            ),
+        );
+
+        const status = await collector.status(transactionId);
+        expect(status).toMatchObject({ complete: true, status: "collecting" });
+        expect(execute).not.toHaveBeenCalled();
+
+        await expect(collector.submit(transactionId)).resolves.toMatchObject({
+            status: "submitted",
+        });
+    });
+
+    it("records a network rejection and refuses further signatures", async () => {
+        execute.mockRejectedValueOnce(
+            Object.assign(new Error("INVALID_SIGNATURE"), {
+                status: Status.InvalidSignature,
+            }),
+        );
+        const collector = new SignatureCollector(context, mirrorNodeClient, {
+            autoSubmit: false,
+        });
+        const tx = transfer("0.0.1003");
+        const { transactionId } = await collector.start(tx.toBytes());
+        await collector.addSignatures(transactionId, [
+            signatureOf(tx, alice),
+            signatureOf(tx, bob),
+        ]);
+
+        await expect(collector.submit(transactionId)).rejects.toBeInstanceOf(
+            HieroError,
+        );
+        expect(await collector.status(transactionId)).toMatchObject({
+            status: "failed",
+            receiptStatus: "INVALID_SIGNATURE",
+        });
+
+        const error = (await collector
+            .addSignatures(transactionId, [signatureOf(tx, carol)])
+            .catch((e: unknown) => e)) as HieroError;
+        expect(error.code).toBe(HieroErrorCodes.Rejected);
+    });
+
+    it("refuses expired transactions", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient);
+        const tx = transfer(
+            "0.0.1002",
+            Timestamp.fromDate(new Date(Date.now() - 600_000)),
+        );
+
+        await expect(collector.start(tx.toBytes())).rejects.toThrow(/expired/);
+    });
+
+    it("uses explicit requirements without looking up accounts", async () => {
+        const collector = new SignatureCollector(context, mirrorNodeClient, {
+            store: new InMemorySignatureStore(),
+        });
+
+        const status = await collector.start(transfer().toBytes(), {
+            requirements: [{ description: "approver", key: simple(carol) }],
+        });
+
+        expect(mirrorNodeClient.queryAccount).not.toHaveBeenCalled();
+        expect(status.requirements).toEqual([
+            expect.objectContaining({
+                description: "approver",
+                satisfied: false,
+            }),
+        ]);
+    });
+
+    describe("with a FileSignatureStore", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), "signatures-"));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it("continues collection in another collector", async () => {
+            const tx = transfer();
+            const first = new SignatureCollector(context, mirrorNodeClient, {
+                store: new FileSignatureStore(dir),
+            });
+            const { transactionId } = await first.start(tx.toBytes());
+            await first.addSignatures(transactionId, [
+                signatureOf(tx, alice),
+                signatureOf(tx, bob),
+            ]);
+
+            const store = new FileSignatureStore(dir);
+            const second = new SignatureCollector(context, mirrorNodeClient, {
+                store,
+            });
+            const status = await second.addSignatures(transactionId, [
+                signatureOf(tx, dave),
+            ]);
+
+            expect(status.status).toBe("submitted");
+            expect(await store.list()).toEqual([
+                expect.objectContaining({ transactionId, status: "submitted" }),
+            ]);
+        });
+
+        it("does not lose signatures added through collectors sharing a store", async () => {
+            const store = new FileSignatureStore(dir);
+            const [first, second, third] = [0, 1, 2].map(
+                () =>
+                    new SignatureCollector(context, mirrorNodeClient, {
+                        store,
+                        autoSubmit: false,
+                    }),
+            );
+            const tx = transfer();
+            const { transactionId } = await first.start(tx.toBytes());
+
+            await Promise.all([
+                first.addSignatures(transactionId, [signatureOf(tx, alice)]),
+                second.addSignatures(transactionId, [signatureOf(tx, bob)]),
+                third.addSignatures(transactionId, [signatureOf(tx, dave)]),
+            ]);
+
+            expect(await first.status(transactionId)).toMatchObject({
+                complete: true,
+                status: "collecting",
+            });
+        });
+
+        it("reports unknown transactions as not found", async () => {
+            const collector = new SignatureCollector(
+                context,
+                mirrorNodeClient,
+                {
+                    store: new FileSignatureStore(dir),
+                },
+            );
+
+            const error = (await collector
+                .status("0.0.2@1700000000.000000000")
+                .catch((e: unknown) => e)) as HieroError;
+
+            expect(error.code).toBe(HieroErrorCodes.NotFound);
+        });
+    });
+});
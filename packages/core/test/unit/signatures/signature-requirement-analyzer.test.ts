@@ -0,0 +1,289 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    AccountId,
+    AccountUpdateTransaction,
+    FileDeleteTransaction,
+    FileInfoQuery,
+    KeyList,
+    PrivateKey,
+    TokenMintTransaction,
+    TokenUpdateTransaction,
+    TopicMessageSubmitTransaction,
+    TransactionId,
+} from "@hiero-ledger/sdk";
+import type { Transaction } from "@hiero-ledger/sdk";
+import {
+    SignatureRequirementAnalyzer,
+    createSignatureCheckInterceptor,
+} from "../../../src/signatures/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import { createMockContext } from "../../utils/mock-context.js";
+import { createMockMirrorNodeClient } from "../../utils/mock-mirror-node.js";
+import type { IHieroContext } from "../../../src/context/index.js";
+import type { InterceptorContext } from "../../../src/listeners/index.js";
+import type { MirrorNodeClient } from "../../../src/mirror/index.js";
+import type {
+    MirrorAccountInfo,
+    MirrorKey,
+    MirrorTokenInfo,
+    MirrorTopic,
+} from "../../../src/types/index.js";
+
+const operatorKey = PrivateKey.generateED25519();
+const [supply, admin, newAdmin, treasury, owner] = [0, 1, 2, 3, 4].map(() =>
+    PrivateKey.generateED25519(),
+);
+
+function simple(key: PrivateKey): MirrorKey {
+    return { type: "ed25519", key: key.publicKey.toStringRaw() };
+}
+
+const accounts = new Map<string, Partial<MirrorAccountInfo>>([
+    ["0.0.2", { keyTree: simple(operatorKey) }],
+    ["0.0.1001", { keyTree: simple(treasury) }],
+    ["0.0.1002", { keyTree: simple(owner) }],
+]);
+
+const tokens = new Map<string, Partial<MirrorTokenInfo>>([
+    [
+        "0.0.5000",
+        { adminKeyTree: simple(admin), supplyKeyTree: simple(supply) },
+    ],
+    ["0.0.5001", { adminKeyTree: simple(admin) }],
+]);
+
+const topics = new Map<string, Partial<MirrorTopic>>([
+    ["0.0.7000", {}],
+    ["0.0.7001", { submitKeyTree: simple(owner) }],
+]);
+
+function mint(tokenId = "0.0.5000"): TokenMintTransaction {
+    return new TokenMintTransaction().setTokenId(tokenId).setAmount(10);
+}
+
+function transactionContext(
+    transaction: Transaction,
+    options = {},
+): InterceptorContext {
+    return {
+        kind: "transaction",
+        transaction,
+        options,
+        event: { serviceName: "TokenService", methodName: "mintToken" },
+    } as unknown as InterceptorContext;
+}
+
+describe("SignatureRequirementAnalyzer", () => {
+    let context: IHieroContext;
+    let mirrorNodeClient: MirrorNodeClient;
+    let analyzer: SignatureRequirementAnalyzer;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        context = createMockContext();
+        (context as { operatorPublicKey: unknown }).operatorPublicKey =
+            operatorKey.publicKey;
+        mirrorNodeClient = {
+            ...createMockMirrorNodeClient(),
+            queryAccount: vi.fn((accountId: string) =>
+                Promise.resolve({
+                    accountId,
+                    ...accounts.get(accountId),
+                } as MirrorAccountInfo),
+            ),
+            queryTokenById: vi.fn((tokenId: string) =>
+                Promise.resolve({
+                    tokenId,
+                    ...tokens.get(tokenId),
+                } as MirrorTokenInfo),
+            ),
+            queryTopic: vi.fn((topicId: string) =>
+                Promise.resolve({
+                    topicId,
+                    ...topics.get(topicId),
+                } as MirrorTopic),
+            ),
+        } as unknown as MirrorNodeClient;
+        analyzer = new SignatureRequirementAnalyzer(context, mirrorNodeClient);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("requires the supply key to mint, taking the operator as payer", async () => {
+        const requirements = await analyzer.requirements(mint());
+
+        expect(requirements).toEqual([
+            {
+                description: "payer 0.0.2",
+                accountId: "0.0.2",
+                key: simple(operatorKey),
+            },
+            {
+                description: "supply key of token 0.0.5000",
+                key: simple(supply),
+            },
+        ]);
+    });
+
+    it("counts the operator and the given signers", async () => {
+        const unsigned = await analyzer.analyze(mint());
+        expect(unsigned.satisfied).toBe(false);
+        expect(unsigned.requirements[1].unsatisfied[0].missingKeys).toEqual([
+            supply.publicKey.toStringRaw(),
+        ]);
+
+        const signed = await analyzer.analyze(mint(), [supply.publicKey]);
+        expect(signed.satisfied).toBe(true);
+    });
+
+    it("reports a key the token does not have as never satisfiable", async () => {
+        const { requirements, satisfied } = await analyzer.analyze(
+            mint("0.0.5001"),
+            [supply.publicKey, admin.publicKey],
+        );
+
+        expect(requirements[1]).toMatchObject({
+            description: "supply key of token 0.0.5001 (not set)",
+            satisfied: false,
+        });
+        expect(satisfied).toBe(false);
+    });
+
+    it("requires the current and new admin keys and a new treasury", async () => {
+        const tx = new TokenUpdateTransaction()
+            .setTokenId("0.0.5000")
+            .setAdminKey(newAdmin.publicKey)
+            .setTreasuryAccountId("0.0.1001");
+
+        const requirements = await analyzer.requirements(tx);
+
+        expect(requirements.map((r) => r.description)).toEqual([
+            "payer 0.0.2",
+            "admin key of token 0.0.5000",
+            "new token admin key",
+            "new treasury 0.0.1001",
+        ]);
+        expect(requirements[2].key).toEqual(simple(newAdmin));
+    });
+
+    it("requires the account and its new key on a key rotation", async () => {
+        const tx = new AccountUpdateTransaction()
+            .setAccountId("0.0.1002")
+            .setKey(new KeyList([admin.publicKey, newAdmin.publicKey], 1));
+
+        const requirements = await analyzer.requirements(tx);
+
+        expect(requirements.slice(1)).toEqual([
+            {
+                description: "account 0.0.1002",
+                accountId: "0.0.1002",
+                key: simple(owner),
+            },
+            {
+                description: "new account key",
+                key: {
+                    type: "threshold",
+                    threshold: 1,
+                    keys: [simple(admin), simple(newAdmin)],
+                },
+            },
+        ]);
+    });
+
+    it("requires a submit key only when the topic has one", async () => {
+        const open = await analyzer.requirements(
+            new TopicMessageSubmitTransaction()
+                .setTopicId("0.0.7000")
+                .setMessage("hi"),
+        );
+        const restricted = await analyzer.requirements(
+            new TopicMessageSubmitTransaction()
+                .setTopicId("0.0.7001")
+                .setMessage("hi"),
+        );
+
+        expect(open.map((r) => r.description)).toEqual(["payer 0.0.2"]);
+        expect(restricted.map((r) => r.description)).toEqual([
+            "payer 0.0.2",
+            "submit key of topic 0.0.7001",
+        ]);
+    });
+
+    it("lets any one file key sign a delete", async () => {
+        vi.spyOn(FileInfoQuery.prototype, "execute").mockResolvedValue({
+            fileId: { toString: () => "0.0.150" },
+            size: { toNumber: () => 0 },
+            expirationTime: null,
+            isDeleted: false,
+            keys: new KeyList([admin.publicKey, owner.publicKey]),
+            fileMemo: "",
+            ledgerId: null,
+        } as never);
+
+        const { requirements, satisfied } = await analyzer.analyze(
+            new FileDeleteTransaction().setFileId("0.0.150"),
+            [owner.publicKey],
+        );
+
+        expect(requirements[1]).toMatchObject({
+            description: "keys of file 0.0.150",
+            key: { type: "threshold", threshold: 1 },
+        });
+        expect(satisfied).toBe(true);
+    });
+
+    it("takes the payer from the transaction ID", async () => {
+        const tx = mint().setTransactionId(
+            TransactionId.generate(AccountId.fromString("0.0.1001")),
+        );
+
+        const [payer] = await analyzer.requirements(tx);
+
+        expect(payer.description).toBe("payer 0.0.1001");
+    });
+
+    describe("createSignatureCheckInterceptor", () => {
+        it("warns about missing signatures and submits anyway", async () => {
+            const warn = vi
+                .spyOn(process, "emitWarning")
+                .mockImplementation(() => undefined);
+            const next = vi.fn().mockResolvedValue("receipt");
+            const interceptor = createSignatureCheckInterceptor(analyzer);
+
+            await expect(
+                interceptor(transactionContext(mint()), next),
+            ).resolves.toBe("receipt");
+
+            expect(warn).toHaveBeenCalledWith(
+                "TokenService.mintToken is missing signatures from: supply key of token 0.0.5000.",
+                "HieroSignatureWarning",
+            );
+        });
+
+        it("rejects before submission, counting additional signers", async () => {
+            const next = vi.fn().mockResolvedValue("receipt");
+            const interceptor = createSignatureCheckInterceptor(analyzer, {
+                onMissing: "reject",
+            });
+
+            const error = (await interceptor(
+                transactionContext(mint()),
+                next,
+            ).catch((e: unknown) => e)) as HieroError;
+            expect(error).toBeInstanceOf(HieroError);
+            expect(error.code).toBe(HieroErrorCodes.Rejected);
+            expect(next).not.toHaveBeenCalled();
+
+            await expect(
+                interceptor(
+                    transactionContext(mint(), {
+                        additionalSigners: [supply],
+                    }),
+                    next,
+                ),
+            ).resolves.toBe("receipt");
+        });
+    });
+});
@@ -0,0 +1,353 @@
+import {
+    describe,
+    it,
+    expect,
+    beforeAll,
+    afterAll,
+    beforeEach,
+    afterEach,
+} from "vitest";
+import {
+    context,
+    propagation,
+    SpanStatusCode,
+    trace,
+    TraceFlags,
+} from "@opentelemetry/api";
+import type { TextMapPropagator } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+    BasicTracerProvider,
+    InMemorySpanExporter,
+    SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+    AggregationTemporality,
+    InMemoryMetricExporter,
+    MeterProvider,
+    PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { Hbar, TransferTransaction } from "@hiero-ledger/sdk";
+import { HieroTelemetry } from "../../../src/telemetry/index.js";
+import { HieroError, HieroErrorCodes } from "../../../src/errors/index.js";
+import type {
+    InterceptorContext,
+    TransactionEvent,
+} from "../../../src/listeners/index.js";
+
+const event: TransactionEvent = {
+    type: "CryptoTransfer",
+    serviceName: "AccountService",
+    methodName: "transferHbar",
+    timestamp: new Date(0),
+};
+
+function transactionContext(): InterceptorContext {
+    return {
+        kind: "transaction",
+        transaction: new TransferTransaction(),
+        options: { maxTransactionFee: new Hbar(2) },
+        event,
+        state: new Map(),
+    };
+}
+
+function queryContext(): InterceptorContext {
+    return {
+        kind: "query",
+        query: {} as never,
+        options: {},
+        event: {
+            ...event,
+            type: "AccountBalanceQuery",
+            methodName: "getBalance",
+        },
+        state: new Map(),
+    };
+}
+
+describe("HieroTelemetry", () => {
+    const spans = new InMemorySpanExporter();
+    const tracerProvider = new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(spans)],
+    });
+    let metricExporter: InMemoryMetricExporter;
+    let reader: PeriodicExportingMetricReader;
+    let meterProvider: MeterProvider;
+    let telemetry: HieroTelemetry;
+
+    async function collectMetrics(): Promise<Map<string, unknown[]>> {
+        await reader.forceFlush();
+        const byName = new Map<string, unknown[]>();
+        for (const resource of metricExporter.getMetrics()) {
+            for (const scope of resource.scopeMetrics) {
+                for (const metric of scope.metrics) {
+                    byName.set(metric.descriptor.name, metric.dataPoints);
+                }
+            }
+        }
+        return byName;
+    }
+
+    beforeAll(() => {
+        context.setGlobalContextManager(
+            new AsyncLocalStorageContextManager().enable(),
+        );
+    });
+
+    afterAll(() => {
+        context.disable();
+    });
+
+    afterEach(async () => {
+        await meterProvider.shutdown();
+    });
+
+    beforeEach(() => {
+        spans.reset();
+        // A fresh provider per test keeps cumulative metrics apart
+        metricExporter = new InMemoryMetricExporter(
+            AggregationTemporality.CUMULATIVE,
+        );
+        reader = new PeriodicExportingMetricReader({
+            exporter: metricExporter,
+            exportIntervalMillis: 60_000,
+        });
+        meterProvider = new MeterProvider({ readers: [reader] });
+        telemetry = new HieroTelemetry({ tracerProvider, meterProvider });
+    });
+
+    it("wraps each transaction in a span annotated by its events", async () => {
+        const result = await telemetry.interceptor(transactionContext(), () => {
+            telemetry.listener.onAfterTransaction!({
+                ...event,
+                transactionId: "0.0.2@1700000000.000000000",
+                nodeAccountId: "0.0.3",
+                status: "SUCCESS",
+            });
+            return Promise.resolve("result");
+        });
+
+        expect(result).toBe("result");
+        const [span] = spans.getFinishedSpans();
+        expect(span.name).toBe("AccountService.transferHbar");
+        expect(span.attributes).toMatchObject({
+            "hiero.operation.kind": "transaction",
+            "hiero.transaction.type": "CryptoTransfer",
+            "hiero.transaction.id": "0.0.2@1700000000.000000000",
+            "hiero.node.account_id": "0.0.3",
+            "hiero.status": "SUCCESS",
+            "hiero.transaction.max_fee": 200_000_000,
+        });
+        expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    it("records failures with their network status", async () => {
+        const failure = new HieroError("receipt failed", {
+            code: HieroErrorCodes.SdkError,
+            sdkStatus: "INSUFFICIENT_PAYER_BALANCE",
+        });
+
+        await expect(
+            telemetry.interceptor(transactionContext(), () =>
+                Promise.reject(failure),
+            ),
+        ).rejects.toBe(failure);
+
+        const [span] = spans.getFinishedSpans();
+        expect(span.attributes["hiero.status"]).toBe(
+            "INSUFFICIENT_PAYER_BALANCE",
+        );
+        expect(span.status).toEqual({
+            code: SpanStatusCode.ERROR,
+            message: "receipt failed",
+        });
+        expect(span.events.map((e) => e.name)).toContain("exception");
+    });
+
+    it("adds retries to the active span and counts them", async () => {
+        await telemetry.interceptor(transactionContext(), () => {
+            telemetry.listener.onTransactionRetry!({
+                ...event,
+                attempt: 2,
+                maxAttempts: 3,
+                delayMs: 500,
+                status: "BUSY",
+                regenerateTransactionId: false,
+                error: new Error("BUSY"),
+            });
+            return Promise.resolve();
+        });
+
+        const [span] = spans.getFinishedSpans();
+        expect(span.attributes["hiero.retry.attempt"]).toBe(2);
+        expect(span.events[0]).toMatchObject({
+            name: "hiero.retry",
+            attributes: { "hiero.retry.attempt": 2, "hiero.status": "BUSY" },
+        });
+        const metrics = await collectMetrics();
+        expect(metrics.get("hiero.transaction.retries")).toEqual([
+            expect.objectContaining({ value: 1 }),
+        ]);
+    });
+
+    it("records duration histograms and counters per kind", async () => {
+        await telemetry.interceptor(transactionContext(), () =>
+            Promise.resolve(),
+        );
+        await telemetry.interceptor(queryContext(), () => Promise.resolve());
+
+        const metrics = await collectMetrics();
+        expect(metrics.get("hiero.transactions")).toEqual([
+            expect.objectContaining({
+                value: 1,
+                attributes: expect.objectContaining({
+                    "hiero.method": "transferHbar",
+                    "hiero.status": "SUCCESS",
+                }),
+            }),
+        ]);
+        expect(metrics.get("hiero.queries")).toHaveLength(1);
+        expect(metrics.get("hiero.transaction.duration")).toEqual([
+            expect.objectContaining({
+                value: expect.objectContaining({ count: 1 }),
+            }),
+        ]);
+        expect(metrics.get("hiero.query.duration")).toHaveLength(1);
+    });
+
+    it("nests operation spans under the caller's active span", async () => {
+        const tracer = tracerProvider.getTracer("test");
+        const request = tracer.startSpan("GET /accounts");
+
+        await context.with(trace.setSpan(context.active(), request), () =>
+            telemetry.interceptor(queryContext(), () => Promise.resolve()),
+        );
+        request.end();
+
+        const operation = spans
+            .getFinishedSpans()
+            .find((span) => span.name === "AccountService.getBalance")!;
+        expect(operation.parentSpanContext?.spanId).toBe(
+            request.spanContext().spanId,
+        );
+    });
+
+    it("nests operations and their mirror requests under the request span", async () => {
+        const tracer = tracerProvider.getTracer("test");
+        const request = tracer.startSpan("GET /accounts");
+        const transport = telemetry.wrapTransport(() =>
+            Promise.resolve(new Response("{}")),
+        );
+
+        await context.with(trace.setSpan(context.active(), request), () =>
+            telemetry.withRequestContext({}, () =>
+                telemetry.interceptor(queryContext(), () =>
+                    transport("https://mirror.example/api/v1/blocks", {
+                        method: "GET",
+                        headers: {},
+                        signal: new AbortController().signal,
+                    }),
+                ),
+            ),
+        );
+        request.end();
+
+        const [mirror, operation] = spans.getFinishedSpans();
+        expect(operation.parentSpanContext?.spanId).toBe(
+            request.spanContext().spanId,
+        );
+        expect(mirror.parentSpanContext?.spanId).toBe(
+            operation.spanContext().spanId,
+        );
+    });
+
+    it("continues the caller's trace from the request headers", async () => {
+        // Reads a bare "traceId-spanId" header, standing in for W3C traceparent
+        const propagator: TextMapPropagator = {
+            inject: () => undefined,
+            extract: (ctx, carrier, getter) => {
+                const [traceId, spanId] = String(
+                    getter.get(carrier, "x-trace"),
+                ).split("-");
+                return trace.setSpanContext(ctx, {
+                    traceId,
+                    spanId,
+                    traceFlags: TraceFlags.SAMPLED,
+                    isRemote: true,
+                });
+            },
+            fields: () => ["x-trace"],
+        };
+        propagation.setGlobalPropagator(propagator);
+        const traceId = "0af7651916cd43dd8448eb211c80319c";
+        const spanId = "b7ad6b7169203331";
+
+        try {
+            await telemetry.withRequestContext(
+                { "x-trace": `${traceId}-${spanId}` },
+                () =>
+                    telemetry.interceptor(queryContext(), () =>
+                        Promise.resolve(),
+                    ),
+            );
+        } finally {
+            propagation.disable();
+        }
+
+        const [operation] = spans.getFinishedSpans();
+        expect(operation.spanContext().traceId).toBe(traceId);
+        expect(operation.parentSpanContext?.spanId).toBe(spanId);
+    });
+
+    it("traces mirror node requests as children of the operation", async () => {
+        const transport = telemetry.wrapTransport(() =>
+            Promise.resolve(new Response("{}", { status: 404 })),
+        );
+
+        await telemetry.interceptor(queryContext(), async () => {
+            await transport(
+                "https://testnet.mirrornode.hedera.com/api/v1/accounts/0.0.2",
+                {
+                    method: "GET",
+                    headers: {},
+                    signal: new AbortController().signal,
+                },
+            );
+        });
+
+        const [mirror, operation] = spans.getFinishedSpans();
+        expect(mirror.name).toBe("GET");
+        expect(mirror.parentSpanContext?.spanId).toBe(
+            operation.spanContext().spanId,
+        );
+        expect(mirror.attributes).toMatchObject({
+            "http.request.method": "GET",
+            "http.response.status_code": 404,
+            "server.address": "testnet.mirrornode.hedera.com",
+            "url.full":
+                "https://testnet.mirrornode.hedera.com/api/v1/accounts/0.0.2",
+        });
+        expect(mirror.status.code).toBe(SpanStatusCode.ERROR);
+        const metrics = await collectMetrics();
+        expect(metrics.get("hiero.mirror.requests")).toHaveLength(1);
+    });
+
+    it("records transport failures on the mirror span", async () => {
+        const transport = telemetry.wrapTransport(() =>
+            Promise.reject(new TypeError("fetch failed")),
+        );
+
+        await expect(
+            transport("https://mirror.example/api/v1/blocks", {
+                method: "GET",
+                headers: {},
+                signal: new AbortController().signal,
+            }),
+        ).rejects.toThrow("fetch failed");
+
+        const [mirror] = spans.getFinishedSpans();
+        expect(mirror.attributes["error.type"]).toBe("TypeError");
+        expect(mirror.status.code).toBe(SpanStatusCode.ERROR);
+    });
+});
@@ -20,7 +20,11 @@ export function createMockContext(): IHieroContext {
             .mockImplementation((tx) => Promise.resolve(tx)),
         emitBeforeTransaction: vi.fn().mockResolvedValue(undefined),
         emitAfterTransaction: vi.fn().mockResolvedValue(undefined),
+        emitTransactionRetry: vi.fn().mockResolvedValue(undefined),
         addTransactionListener: vi.fn(),
         removeTransactionListener: vi.fn(),
+        interceptors: [],
+        addInterceptor: vi.fn(),
+        removeInterceptor: vi.fn(),
     } as unknown as IHieroContext;
 }
@@ -10,6 +10,11 @@ import type {
     ExchangeRates,
     NetworkStake,
     NetworkSupplies,
+    MirrorTopic,
+    MirrorContractInfo,
+    MirrorContractResult,
+    MirrorSchedule,
+    MirrorBlock,
 } from "../../src/types/index.js";
 
 /**
@@ -20,21 +25,58 @@ export function createMockMirrorNodeClient(): MockMirrorNodeClient {
     return {
         queryAccount: () => Promise.resolve(accountInfo()),
         queryAccountBalance: () => Promise.resolve(balance()),
+        queryBalances: () => Promise.resolve(emptyPage()),
+        queryAccountBalanceAt: () => Promise.resolve(balance()),
+        queryTokenBalances: () => Promise.resolve(emptyPage()),
         queryNftsByAccount: () => Promise.resolve(emptyPage()),
         queryNftsByTokenId: () => Promise.resolve(emptyPage()),
         queryNftsByTokenIdAndSerial: () => Promise.resolve(nft()),
         queryNftsByAccountAndTokenId: () => Promise.resolve(emptyPage()),
         queryTokenById: () => Promise.resolve(tokenInfo()),
         queryTokensByAccountId: () => Promise.resolve(emptyPage()),
+        queryTopic: () => Promise.resolve(topic()),
         queryTopicMessages: () => Promise.resolve(emptyPage()),
         queryTopicMessageBySequence: () => Promise.resolve(topicMessage()),
         queryTransactionsByAccount: () => Promise.resolve(emptyPage()),
         queryTransactionsByAccountAndType: () => Promise.resolve(emptyPage()),
         queryTransaction: () => Promise.resolve(transactionInfo()),
+        queryContracts: () => Promise.resolve(emptyPage()),
+        queryContract: () => Promise.resolve(contractInfo()),
+        queryContractResults: () => Promise.resolve(emptyPage()),
+        queryContractResult: () => Promise.resolve(contractResult()),
+        queryContractState: () => Promise.resolve(emptyPage()),
+        querySchedules: () => Promise.resolve(emptyPage()),
+        querySchedule: () => Promise.resolve(schedule()),
+        queryBlocks: () => Promise.resolve(emptyPage()),
+        queryBlock: () => Promise.resolve(block()),
+        queryCryptoAllowances: () => Promise.resolve(emptyPage()),
+        queryTokenAllowances: () => Promise.resolve(emptyPage()),
+        queryNftAllowances: () => Promise.resolve(emptyPage()),
         queryExchangeRates: () => Promise.resolve(exchangeRates()),
         queryNetworkSupplies: () => Promise.resolve(networkSupplies()),
         queryNetworkStake: () => Promise.resolve(networkStake()),
         fetchNextPage: () => Promise.resolve(emptyPage()),
+        paginate: () => emptyPager(),
+        paginateNftsByAccount: () => emptyPager(),
+        paginateNftsByTokenId: () => emptyPager(),
+        paginateNftsByAccountAndTokenId: () => emptyPager(),
+        paginateTokensByAccountId: () => emptyPager(),
+        paginateTopicMessages: () => emptyPager(),
+        paginateTransactionsByAccount: () => emptyPager(),
+        paginateTransactionsByAccountAndType: () => emptyPager(),
+        paginateContracts: () => emptyPager(),
+        paginateContractResults: () => emptyPager(),
+        paginateContractState: () => emptyPager(),
+        paginateSchedules: () => emptyPager(),
+        paginateBlocks: () => emptyPager(),
+        paginateCryptoAllowances: () => emptyPager(),
+        paginateTokenAllowances: () => emptyPager(),
+        paginateNftAllowances: () => emptyPager(),
+        paginateBalances: () => emptyPager(),
+        paginateTokenBalances: () => emptyPager(),
+        invalidateCache: () => Promise.resolve(),
+        activeEndpoint: "https://testnet.mirrornode.hedera.com",
+        endpointStatus: () => [],
     };
 }
 
@@ -46,6 +88,8 @@ function emptyPage<T>(): Page<T> {
     return { data: [], links: { next: null } };
 }
 
+async function* emptyPager(): AsyncGenerator<never, void, undefined> {}
+
 function accountInfo(): MirrorAccountInfo {
     return {
         accountId: "0.0.12345",
@@ -98,6 +142,62 @@ function topicMessage(): MirrorTopicMessage {
     };
 }
 
+function topic(): MirrorTopic {
+    return {
+        topicId: "0.0.88888",
+        deleted: false,
+    };
+}
+
+function contractInfo(): MirrorContractInfo {
+    return {
+        contractId: "0.0.77777",
+        evmAddress: "0x0000000000000000000000000000000000012fd1",
+        deleted: false,
+    };
+}
+
+function contractResult(): MirrorContractResult {
+    return {
+        contractId: "0.0.77777",
+        timestamp: "1234567890.000000001",
+        amount: "0",
+        gasLimit: 100000,
+        gasUsed: 21000,
+        result: "SUCCESS",
+        successful: true,
+        createdContractIds: [],
+        logs: [],
+    };
+}
+
+function schedule(): MirrorSchedule {
+    return {
+        scheduleId: "0.0.66666",
+        creatorAccountId: "0.0.12345",
+        payerAccountId: "0.0.12345",
+        consensusTimestamp: "1234567890.000000000",
+        waitForExpiry: false,
+        deleted: false,
+        executed: false,
+        transactionBody: "",
+        signatures: [],
+    };
+}
+
+function block(): MirrorBlock {
+    return {
+        number: 1,
+        hash: "0x00",
+        previousHash: "0x00",
+        name: "2023-01-01T00_00_00.000000000Z.rcd.gz",
+        count: 0,
+        gasUsed: 0,
+        timestampFrom: "1234567890.000000000",
+        timestampTo: "1234567890.000000000",
+    };
+}
+
 function transactionInfo(): TransactionInfo {
     return {
         transactionId: "0.0.12345@1234567890.000000000",
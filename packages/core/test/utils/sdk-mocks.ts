@@ -6,7 +6,7 @@ import { vi } from "vitest";
  * Hiero SDK transaction classes share a large surface area through their
  * common `Transaction` base — `setMaxTransactionFee`, `setTransactionMemo`,
  * `setTransactionValidDuration`, `setRegenerateTransactionId`, `setHighVolume`,
- * `setNodeAccountIds`, `_addSignatureLegacy`, `freezeWith`, `sign`, `signWith`,
+ * `setBatchKey`, `setNodeAccountIds`, `_addSignatureLegacy`, `freezeWith`, `sign`, `signWith`,
  * `execute`, and `schedule`. Re-creating that shape in every test file is
  * noisy and drifts over time. The helpers below centralise the shape so each
  * service test only declares the methods that are *unique* to its operation.
@@ -38,6 +38,7 @@ export interface MockTransaction {
     setTransactionValidDuration: MockFn;
     setRegenerateTransactionId: MockFn;
     setHighVolume: MockFn;
+    setBatchKey: MockFn;
     setNodeAccountIds: MockFn;
     // Offline signature application
     _addSignatureLegacy: MockFn;
@@ -82,6 +83,7 @@ export interface MockReceipt {
 
 export interface MockTransactionResponse {
     transactionId: { toString(): string };
+    nodeId: { toString(): string };
     getReceipt: MockFn;
 }
 
@@ -104,6 +106,7 @@ function buildBaseTransactionMethods(): MockTransaction {
         setTransactionValidDuration: vi.fn().mockReturnThis(),
         setRegenerateTransactionId: vi.fn().mockReturnThis(),
         setHighVolume: vi.fn().mockReturnThis(),
+        setBatchKey: vi.fn().mockReturnThis(),
         setNodeAccountIds: vi.fn().mockReturnThis(),
         _addSignatureLegacy: vi.fn().mockReturnThis(),
         freezeWith: vi.fn().mockReturnThis(),
@@ -172,6 +175,7 @@ export function buildMockTxBundle(
     const receipt = buildMockReceipt();
     const response: MockTransactionResponse = {
         transactionId: { toString: () => "0.0.123@1234567890.000000000" },
+        nodeId: { toString: () => "0.0.3" },
         getReceipt: vi.fn().mockResolvedValue(receipt),
     };
 
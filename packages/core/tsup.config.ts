@@ -1,11 +1,14 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-    entry: ["src/index.ts"],
+    entry: {
+        index: "src/index.ts",
+        "hiero-verify-audit-log": "src/bin/hiero-verify-audit-log.ts",
+    },
     format: ["esm", "cjs"],
     dts: true,
     sourcemap: true,
     clean: true,
     target: "node18",
-    external: ["@hiero-ledger/sdk"],
+    external: ["@hiero-ledger/sdk", "@opentelemetry/api"],
 });
@@ -19,7 +19,9 @@ declare global {
 
 /**
  * Express middleware that initializes the HieroContext and injects all
- * Hiero services into `req.hiero`.
+ * Hiero services into `req.hiero`. With `telemetry` configured, the rest
+ * of the request runs in its trace context, so Hiero spans nest under
+ * the request span.
  *
  * @example
  * ```ts
@@ -40,10 +42,15 @@ export function hieroMiddleware(config?: HieroConfig) {
         assertEnvConfigValid();
     }
     const services: HieroServices = createHieroServices(config);
+    const { telemetry } = services.context;
 
     return (req: Request, _res: Response, next: NextFunction) => {
         req.hiero = services;
-        next();
+        if (telemetry) {
+            telemetry.withRequestContext(req.headers, next);
+        } else {
+            next();
+        }
     };
 }
 
@@ -1,5 +1,6 @@
 import type { NextFunction, Request, Response } from "express";
 import { describe, expect, it, vi } from "vitest";
+import { HieroTelemetry } from "@hiero-enterprise/core";
 import { hieroMiddleware } from "../../src/index.js";
 
 const config = {
@@ -26,4 +27,22 @@ describe("hieroMiddleware", () => {
 
         req.hiero.context.close();
     });
+
+    it("continues the request in its trace context when telemetry is on", () => {
+        const withRequestContext = vi.spyOn(
+            HieroTelemetry.prototype,
+            "withRequestContext",
+        );
+        const middleware = hieroMiddleware({ ...config, telemetry: true });
+        const req = { headers: { traceparent: "00-abc-def-01" } } as Request;
+        const next = vi.fn() as NextFunction;
+
+        middleware(req, {} as Response, next);
+
+        expect(withRequestContext).toHaveBeenCalledWith(req.headers, next);
+        expect(next).toHaveBeenCalledTimes(1);
+
+        withRequestContext.mockRestore();
+        req.hiero.context.close();
+    });
 });
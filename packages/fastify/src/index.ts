@@ -24,7 +24,9 @@ export interface HieroPluginOptions extends FastifyPluginOptions {
 
 /**
  * Fastify plugin that initializes the HieroContext and decorates the
- * Fastify instance with all Hiero services at `fastify.hiero`.
+ * Fastify instance with all Hiero services at `fastify.hiero`. With
+ * `telemetry` configured, route handlers run in the trace context of
+ * their request, so Hiero spans nest under the request span.
  *
  * @example
  * ```ts
@@ -49,6 +51,14 @@ const plugin = function (fastify: FastifyInstance, opts: HieroPluginOptions) {
 
     fastify.decorate("hiero", services);
 
+    // preHandler runs once the body is parsed and calls the handler directly
+    const { telemetry } = runtime.context;
+    if (telemetry) {
+        fastify.addHook("preHandler", (request, _reply, done) => {
+            telemetry.withRequestContext(request.headers, done);
+        });
+    }
+
     // Clean up SDK client on close
     fastify.addHook("onClose", () => {
         runtime.close();
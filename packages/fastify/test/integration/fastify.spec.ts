@@ -1,5 +1,6 @@
 import Fastify from "fastify";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { HieroTelemetry } from "@hiero-enterprise/core";
 import { hieroPlugin } from "../../src/index.js";
 
 const config = {
@@ -35,4 +36,32 @@ describe("hieroPlugin", () => {
 
         await app.close();
     });
+
+    it("runs route handlers in their request's trace context when telemetry is on", async () => {
+        const withRequestContext = vi.spyOn(
+            HieroTelemetry.prototype,
+            "withRequestContext",
+        );
+        const app = Fastify();
+
+        await app.register(hieroPlugin, {
+            config: { ...config, telemetry: true },
+        });
+        app.get("/probe", () => ({ ok: true }));
+
+        const response = await app.inject({
+            method: "GET",
+            url: "/probe",
+            headers: { traceparent: "00-abc-def-01" },
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(withRequestContext).toHaveBeenCalledWith(
+            expect.objectContaining({ traceparent: "00-abc-def-01" }),
+            expect.any(Function),
+        );
+
+        withRequestContext.mockRestore();
+        await app.close();
+    });
 });
@@ -1,12 +1,17 @@
 import {
+    Inject,
+    Injectable,
     Module,
     type DynamicModule,
+    type MiddlewareConsumer,
+    type NestMiddleware,
+    type NestModule,
     type Provider,
     type Type,
     type ForwardReference,
     type InjectionToken,
 } from "@nestjs/common";
-import type { HieroConfig } from "@hiero-enterprise/core";
+import type { HieroConfig, HieroContext } from "@hiero-enterprise/core";
 import {
     createHieroRuntime,
     type HieroRuntime,
@@ -19,12 +24,18 @@ import {
     TokenService,
     ContractService,
     TopicService,
+    FeeEstimator,
     AccountRepository,
     NftRepository,
     TokenRepository,
     TopicRepository,
     TransactionRepository,
     NetworkRepository,
+    ContractRepository,
+    ScheduleRepository,
+    BlockRepository,
+    AllowanceRepository,
+    BalanceRepository,
 } from "@hiero-enterprise/core";
 
 // ─── Injection Tokens ──────────────────────────────────────────
@@ -46,12 +57,18 @@ const SERVICE_TOKENS = [
     [TokenService, "tokenService"],
     [ContractService, "contractService"],
     [TopicService, "topicService"],
+    [FeeEstimator, "feeEstimator"],
     [AccountRepository, "accountRepository"],
     [NftRepository, "nftRepository"],
     [TokenRepository, "tokenRepository"],
     [TopicRepository, "topicRepository"],
     [TransactionRepository, "transactionRepository"],
     [NetworkRepository, "networkRepository"],
+    [ContractRepository, "contractRepository"],
+    [ScheduleRepository, "scheduleRepository"],
+    [BlockRepository, "blockRepository"],
+    [AllowanceRepository, "allowanceRepository"],
+    [BalanceRepository, "balanceRepository"],
 ] as const satisfies ReadonlyArray<
     readonly [Type<unknown>, keyof HieroRuntime]
 >;
@@ -82,6 +99,30 @@ export interface HieroModuleAsyncOptions {
     global?: boolean;
 }
 
+/**
+ * Runs each request in its trace context when `telemetry` is configured,
+ * so Hiero spans nest under the request span
+ */
+@Injectable()
+class HieroRequestContextMiddleware implements NestMiddleware {
+    constructor(
+        @Inject(HIERO_CONTEXT) private readonly context: HieroContext,
+    ) {}
+
+    use(
+        req: { headers: Record<string, string | string[] | undefined> },
+        _res: unknown,
+        next: () => void,
+    ): void {
+        const { telemetry } = this.context;
+        if (telemetry) {
+            telemetry.withRequestContext(req.headers, next);
+        } else {
+            next();
+        }
+    }
+}
+
 // HieroModule definition
 
 /**
@@ -116,7 +157,11 @@ export interface HieroModuleAsyncOptions {
  * ```
  */
 @Module({})
-export class HieroModule {
+export class HieroModule implements NestModule {
+    configure(consumer: MiddlewareConsumer): void {
+        consumer.apply(HieroRequestContextMiddleware).forRoutes("*");
+    }
+
     /**
      * Register the module with all Hiero services as providers.
      *
@@ -202,12 +247,18 @@ export {
     TokenService,
     ContractService,
     TopicService,
+    FeeEstimator,
     AccountRepository,
     NftRepository,
     TokenRepository,
     TopicRepository,
     TransactionRepository,
     NetworkRepository,
+    ContractRepository,
+    ScheduleRepository,
+    BlockRepository,
+    AllowanceRepository,
+    BalanceRepository,
     AccountType,
     OperatorKeyType,
 } from "@hiero-enterprise/core";
@@ -1,6 +1,8 @@
 import "reflect-metadata";
 import { Test } from "@nestjs/testing";
-import { describe, expect, it } from "vitest";
+import type { MiddlewareConsumer, NestMiddleware, Type } from "@nestjs/common";
+import { describe, expect, it, vi } from "vitest";
+import { HieroContext, HieroTelemetry } from "@hiero-enterprise/core";
 import { AccountService, HieroModule } from "../../src/index.js";
 
 const config = {
@@ -30,4 +32,31 @@ describe("HieroModule", () => {
 
         await moduleRef.close();
     });
+
+    it("runs each request in its trace context when telemetry is on", () => {
+        let middleware: Type<NestMiddleware> | undefined;
+        const consumer = {
+            apply: (applied: Type<NestMiddleware>) => {
+                middleware = applied;
+                return { forRoutes: () => consumer };
+            },
+        } as unknown as MiddlewareConsumer;
+        new HieroModule().configure(consumer);
+
+        const withRequestContext = vi.spyOn(
+            HieroTelemetry.prototype,
+            "withRequestContext",
+        );
+        const context = new HieroContext({ ...config, telemetry: true });
+        const req = { headers: { traceparent: "00-abc-def-01" } };
+        const next = vi.fn();
+
+        void new middleware!(context).use(req, {}, next);
+
+        expect(withRequestContext).toHaveBeenCalledWith(req.headers, next);
+        expect(next).toHaveBeenCalledTimes(1);
+
+        withRequestContext.mockRestore();
+        context.close();
+    });
 });